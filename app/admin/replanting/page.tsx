@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation, useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+type ReviewStatus = "pending" | "confirmed" | "rejected";
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Needs review",
+  confirmed: "Confirmed",
+  rejected: "Rejected",
+};
+
+type Resolution = NonNullable<Doc<"replantingReviews">["resolution"]>;
+
+const RESOLUTION_FIELDS: { key: keyof Resolution; label: string }[] = [
+  { key: "fromCrop", label: "Replaced crop" },
+  { key: "fromVariety", label: "Replaced variety" },
+  { key: "withCrop", label: "Replanted crop" },
+  { key: "withVariety", label: "Replanted variety" },
+  { key: "date", label: "Date" },
+];
+
+function Skeleton({ className }: { className?: string }) {
+  return (
+    <div className={cn("animate-pulse rounded-md bg-muted/50", className)} />
+  );
+}
+
+function ReviewItem({
+  review,
+}: {
+  review: Doc<"replantingReviews"> & { seasonName?: string };
+}) {
+  const confirm = useMutation(api.replanting.confirmReplanting);
+  const reject = useMutation(api.replanting.rejectReplanting);
+  const [resolution, setResolution] = useState<Resolution>(
+    review.resolution ?? {
+      fromCrop: review.detection.fromCrop,
+      fromVariety: review.detection.fromVariety,
+      withCrop: review.detection.withCrop,
+      withVariety: review.detection.withVariety,
+      date: review.detection.date,
+    },
+  );
+  const [saving, setSaving] = useState(false);
+
+  const decide = async (status: "confirmed" | "rejected") => {
+    setSaving(true);
+    try {
+      const result =
+        status === "confirmed"
+          ? await confirm({ reviewId: review._id, resolution })
+          : await reject({ reviewId: review._id });
+      toast.success(
+        status === "confirmed" ? "Replanting confirmed" : "Replanting rejected",
+        {
+          description: result.applied
+            ? "The planting was updated."
+            : "It will apply on the next sync.",
+        },
+      );
+    } catch (err) {
+      toast.error("Unable to save the review", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 py-4">
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <p className="font-medium">
+            {review.field} · Bed {review.bed} · {review.crop}
+            {review.variety && `: ${review.variety}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {review.date && `Planted ${review.date} · `}
+            {Math.round(review.detection.confidence * 100)}% confidence
+            {review.seasonName && ` · ${review.seasonName}`}
+          </p>
+        </div>
+        {review.reviewedAt !== undefined && (
+          <p className="shrink-0 text-xs text-muted-foreground">
+            {STATUS_LABELS[review.status as ReviewStatus] ?? review.status}{" "}
+            {new Date(review.reviewedAt).toLocaleDateString()}
+            {review.reviewedByName && ` by ${review.reviewedByName}`}
+          </p>
+        )}
+      </div>
+
+      <p className="rounded-lg bg-muted/50 p-3 text-sm">{review.notes}</p>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-5">
+        {RESOLUTION_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`${review._id}-${key}`} className="text-xs">
+              {label}
+            </Label>
+            <Input
+              id={`${review._id}-${key}`}
+              value={resolution[key]}
+              onChange={(e) =>
+                setResolution({ ...resolution, [key]: e.target.value })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {review.status !== "rejected" && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={saving}
+            onClick={() => decide("rejected")}
+          >
+            Not a replanting
+          </Button>
+        )}
+        <Button size="sm" disabled={saving} onClick={() => decide("confirmed")}>
+          {review.status === "confirmed" ? "Update" : "Confirm"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminReplantingPage() {
+  const router = useRouter();
+  const { user, isLoaded } = useUser();
+  const isAdmin = user?.publicMetadata?.role === "admin";
+  const [status, setStatus] = useState<ReviewStatus>("pending");
+  const reviews = useQuery(
+    api.replanting.getReplantingReviews,
+    isAdmin ? { status } : "skip",
+  );
+
+  // Redirect non-admins to dashboard
+  useEffect(() => {
+    if (isLoaded && !isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [isLoaded, isAdmin, router]);
+
+  if (!isLoaded || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Replanting Review</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Notes that might describe a replanting but weren&apos;t clear
+              enough to apply automatically. Confirmed ones apply now and on
+              every sync.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => router.push("/admin/sync")}
+            >
+              Scheduled Sync
+            </Button>
+            <Button variant="outline" onClick={() => router.push("/dashboard")}>
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Detected Replantings</CardTitle>
+            <select
+              aria-label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ReviewStatus)}
+              className="h-9 rounded-md border border-border bg-background px-2 text-sm"
+            >
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </CardHeader>
+          <CardContent>
+            {reviews === undefined ? (
+              <div className="space-y-2">
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-24 w-full" />
+              </div>
+            ) : reviews.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+                {status === "pending"
+                  ? "Nothing to review. Unclear replanting notes show up here after a sync."
+                  : `No ${STATUS_LABELS[status].toLowerCase()} replantings.`}
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {reviews.map((review) => (
+                  <ReviewItem key={review._id} review={review} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: "Analytics sync",
+  auto: "Login auto-sync",
+  onboarding: "Onboarding",
+  scheduled: "Scheduled",
+};
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  running: "bg-sky-500/10 text-sky-700 dark:text-sky-400",
+  succeeded: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+  failed: "bg-destructive/10 text-destructive",
+};
+
+function Skeleton({ className }: { className?: string }) {
+  return (
+    <div className={cn("animate-pulse rounded-md bg-muted/50", className)} />
+  );
+}
+
+function formatDuration(ms: number | undefined) {
+  if (ms === undefined) return "—";
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 100) / 10;
+  return seconds < 60
+    ? `${seconds} s`
+    : `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} s`;
+}
+
+// Opens the tab with the offending row selected
+function getRowUrl(spreadsheetId: string, sheetId: number | undefined, row: number) {
+  const gid = sheetId !== undefined ? `gid=${sheetId}&` : "";
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit#${gid}range=A${row}`;
+}
+
+function SyncRunCard({ run }: { run: Doc<"syncRuns"> }) {
+  const sheetIds = new Map(
+    run.sheets.map((sheet) => [sheet.sheetName, sheet.sheetId]),
+  );
+  const rowCount = run.sheets.reduce((sum, sheet) => sum + sheet.rowCount, 0);
+  const warningCount = run.warnings.length + (run.droppedWarnings ?? 0);
+
+  return (
+    <div className="space-y-3 py-4 text-sm">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span
+              className={cn(
+                "inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium capitalize",
+                RUN_STATUS_STYLES[run.status] ?? "bg-muted text-muted-foreground",
+              )}
+            >
+              {run.status}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {TRIGGER_LABELS[run.trigger] ?? run.trigger}
+              {run.triggeredByName && ` · ${run.triggeredByName}`}
+            </span>
+          </div>
+          <p className="text-muted-foreground">
+            {run.sheets.length > 0
+              ? run.sheets.map((sheet) => sheet.sheetName).join(", ")
+              : "No sheets synced"}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {rowCount} rows · {formatDuration(run.durationMs)}
+          </p>
+          {run.missingSheets.length > 0 && (
+            <p className="text-xs text-amber-700 dark:text-amber-400">
+              Missing tabs: {run.missingSheets.join(", ")}
+            </p>
+          )}
+          {run.error && (
+            <p className="text-xs text-destructive">{run.error}</p>
+          )}
+        </div>
+        <p className="shrink-0 text-xs text-muted-foreground">
+          {new Date(run.startedAt).toLocaleString()}
+        </p>
+      </div>
+
+      {warningCount > 0 && (
+        <details className="rounded-lg border border-border">
+          <summary className="cursor-pointer px-3 py-2 text-amber-700 dark:text-amber-400">
+            {warningCount} warning{warningCount === 1 ? "" : "s"}
+          </summary>
+          <ul className="divide-y divide-border border-t border-border">
+            {run.warnings.map((warning, index) => (
+              <li
+                key={`${warning.sheetName}-${warning.row}-${index}`}
+                className="flex flex-col gap-1 px-3 py-2 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="min-w-0">
+                  <p>{warning.message}</p>
+                  {warning.value && (
+                    <p className="truncate text-xs text-muted-foreground">
+                      “{warning.value}”
+                    </p>
+                  )}
+                </div>
+                <a
+                  href={getRowUrl(
+                    run.spreadsheetId,
+                    sheetIds.get(warning.sheetName),
+                    warning.row,
+                  )}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="shrink-0 text-xs underline underline-offset-2"
+                >
+                  {warning.sheetName} row {warning.row}
+                </a>
+              </li>
+            ))}
+            {(run.droppedWarnings ?? 0) > 0 && (
+              <li className="px-3 py-2 text-xs text-muted-foreground">
+                {run.droppedWarnings} more not shown
+              </li>
+            )}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default function AdminSyncRunsPage() {
+  const router = useRouter();
+  const { user, isLoaded } = useUser();
+  const isAdmin = user?.publicMetadata?.role === "admin";
+  const runs = useQuery(api.syncRuns.getRecentSyncRuns, isAdmin ? {} : "skip");
+
+  // Redirect non-admins to dashboard
+  useEffect(() => {
+    if (isLoaded && !isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [isLoaded, isAdmin, router]);
+
+  if (!isLoaded || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Sync Runs</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Every spreadsheet sync, with rows that were skipped or could not be
+              read cleanly.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => router.push("/admin/sync")}>
+              Scheduled Sync
+            </Button>
+            <Button variant="outline" onClick={() => router.push("/dashboard")}>
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runs === undefined ? (
+              <div className="space-y-2">
+                <Skeleton className="h-16 w-full" />
+                <Skeleton className="h-16 w-full" />
+              </div>
+            ) : runs.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+                No syncs recorded yet.
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {runs.map((run) => (
+                  <SyncRunCard key={run._id} run={run} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
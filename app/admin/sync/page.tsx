@@ -0,0 +1,296 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation, useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+// Messages for the ?google= result /api/google/callback redirects back with
+const GOOGLE_RESULT_MESSAGES: Record<string, { ok: boolean; message: string }> =
+  {
+    connected: { ok: true, message: "Google account connected" },
+    denied: { ok: false, message: "Google access was not granted" },
+    invalid_state: {
+      ok: false,
+      message: "The Google sign-in expired. Please try again.",
+    },
+    no_refresh_token: {
+      ok: false,
+      message:
+        "Google did not return offline access. Remove the app from your Google account permissions and try again.",
+    },
+    error: { ok: false, message: "Unable to connect the Google account" },
+  };
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  succeeded: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+  unchanged: "bg-muted text-muted-foreground",
+  skipped: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  failed: "bg-destructive/10 text-destructive",
+};
+
+function Skeleton({ className }: { className?: string }) {
+  return (
+    <div className={cn("animate-pulse rounded-md bg-muted/50", className)} />
+  );
+}
+
+function RunStatusBadge({ status }: { status: string }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium capitalize",
+        RUN_STATUS_STYLES[status] ?? "bg-muted text-muted-foreground",
+      )}
+    >
+      {status}
+    </span>
+  );
+}
+
+function describeRun(run: Doc<"scheduledSyncRuns">): string {
+  if (run.message) return run.message;
+  if (run.status === "unchanged") return "Spreadsheet not modified since last sync";
+  if (run.syncedSheets.length === 0) return "No tab values changed";
+  return `Re-synced ${run.syncedSheets.join(", ")}`;
+}
+
+function LastRunCard({
+  title,
+  run,
+}: {
+  title: string;
+  run: Doc<"scheduledSyncRuns"> | null | undefined;
+}) {
+  return (
+    <Card>
+      <CardContent className="space-y-1 pt-6">
+        <p className="text-sm text-muted-foreground">{title}</p>
+        {run === undefined ? (
+          <Skeleton className="h-6 w-40" />
+        ) : run === null ? (
+          <p className="font-medium">Never</p>
+        ) : (
+          <>
+            <p className="font-medium">
+              {new Date(run.startedAt).toLocaleString()}
+            </p>
+            <p className="text-xs text-muted-foreground">{describeRun(run)}</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminSyncPage() {
+  const router = useRouter();
+  const { user, isLoaded } = useUser();
+  const isAdmin = user?.publicMetadata?.role === "admin";
+  const status = useQuery(
+    api.scheduledSync.getScheduledSyncStatus,
+    isAdmin ? {} : "skip",
+  );
+  const runNow = useMutation(api.scheduledSync.runScheduledSyncNow);
+  const disconnect = useMutation(api.scheduledSync.disconnectGoogleCredentials);
+  const [runRequested, setRunRequested] = useState(false);
+
+  // Redirect non-admins to dashboard
+  useEffect(() => {
+    if (isLoaded && !isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [isLoaded, isAdmin, router]);
+
+  // Report the result of the Google consent flow once, then clean the URL
+  useEffect(() => {
+    const result = new URLSearchParams(window.location.search).get("google");
+    if (!result) return;
+
+    const outcome = GOOGLE_RESULT_MESSAGES[result] ?? GOOGLE_RESULT_MESSAGES.error;
+    if (outcome.ok) {
+      toast.success(outcome.message);
+    } else {
+      toast.error(outcome.message);
+    }
+    router.replace("/admin/sync");
+  }, [router]);
+
+  const handleRunNow = async () => {
+    setRunRequested(true);
+    try {
+      await runNow();
+      toast.success("Sync started", {
+        description: "The result will appear in the run history below.",
+      });
+    } catch (err) {
+      toast.error("Unable to start sync", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setRunRequested(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (
+      !window.confirm(
+        "Disconnect the Google account? Scheduled sync will stop until one is connected again.",
+      )
+    ) {
+      return;
+    }
+    await disconnect();
+  };
+
+  if (!isLoaded || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Scheduled Sync</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              The spreadsheet is checked every 30 minutes and changed tabs are
+              re-synced, even when nobody has the app open.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => router.push("/admin/sync-runs")}
+            >
+              Sync Runs
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => router.push("/admin/replanting")}
+            >
+              Replanting Review
+            </Button>
+            <Button variant="outline" onClick={() => router.push("/dashboard")}>
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Google Account</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            {status === undefined ? (
+              <Skeleton className="h-10 w-64" />
+            ) : status.connection ? (
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {status.connection.googleEmail ?? "Connected"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Connected{" "}
+                  {new Date(status.connection.connectedAt).toLocaleDateString()}
+                  {status.connection.connectedByName &&
+                    ` by ${status.connection.connectedByName}`}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No Google account connected. Scheduled sync needs read-only
+                access to the spreadsheet.
+              </p>
+            )}
+            <div className="flex shrink-0 gap-2">
+              {status?.connection && (
+                <Button
+                  variant="outline"
+                  className="text-destructive hover:text-destructive"
+                  onClick={handleDisconnect}
+                >
+                  Disconnect
+                </Button>
+              )}
+              <Button
+                variant={status?.connection ? "outline" : "default"}
+                onClick={() => {
+                  window.location.href = "/api/google/connect";
+                }}
+              >
+                {status?.connection ? "Reconnect" : "Connect Google"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <LastRunCard title="Last successful run" run={status?.lastSuccess} />
+          <LastRunCard title="Last failed run" run={status?.lastFailure} />
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Run History</CardTitle>
+            <Button
+              size="sm"
+              onClick={handleRunNow}
+              disabled={runRequested || !status?.connection}
+            >
+              Run now
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {status === undefined ? (
+              <div className="space-y-2">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : status.recentRuns.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+                No scheduled runs yet.
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {status.recentRuns.map((run) => (
+                  <div
+                    key={run._id}
+                    className="flex flex-col gap-2 py-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <RunStatusBadge status={run.status} />
+                        <span className="text-xs text-muted-foreground">
+                          {run.trigger === "manual" ? "Run now" : "Scheduled"}
+                        </span>
+                      </div>
+                      <p className="text-muted-foreground">{describeRun(run)}</p>
+                      {run.missingSheets.length > 0 && (
+                        <p className="text-xs text-amber-700 dark:text-amber-400">
+                          Missing tabs: {run.missingSheets.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <p className="shrink-0 text-xs text-muted-foreground">
+                      {new Date(run.startedAt).toLocaleString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  AdminUserSummary,
+  getAvailableAccessActions,
+  UserAccessAction,
+  UserAccessStatus,
+} from "@/lib/user-access";
+
+const STATUS_LABELS: Record<UserAccessStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  admin: "Admin",
+  rejected: "Rejected",
+  revoked: "Revoked",
+};
+
+const ACTION_LABELS: Record<UserAccessAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  promote: "Make admin",
+  demote: "Remove admin",
+  revoke: "Revoke access",
+};
+
+// Past tense for the audit trail, e.g. "Ana approved Sam"
+const AUDIT_VERBS: Record<UserAccessAction, string> = {
+  approve: "approved",
+  reject: "rejected",
+  promote: "made an admin of",
+  demote: "removed admin from",
+  revoke: "revoked access for",
+};
+
+// Actions that take access away ask for confirmation first
+const DESTRUCTIVE_ACTIONS: UserAccessAction[] = ["reject", "demote", "revoke"];
+
+function Skeleton({ className }: { className?: string }) {
+  return (
+    <div className={cn("animate-pulse rounded-md bg-muted/50", className)} />
+  );
+}
+
+function AccessBadge({ status }: { status: UserAccessStatus }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium",
+        status === "admin" && "bg-primary/10 text-primary",
+        status === "approved" &&
+          "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+        status === "pending" &&
+          "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+        (status === "rejected" || status === "revoked") &&
+          "bg-destructive/10 text-destructive",
+      )}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+function UserRow({
+  user,
+  isSelf,
+  busy,
+  onAction,
+}: {
+  user: AdminUserSummary;
+  isSelf: boolean;
+  busy: boolean;
+  onAction: (user: AdminUserSummary, action: UserAccessAction) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="font-medium">{user.name || user.email || user.id}</p>
+          <AccessBadge status={user.status} />
+          {isSelf && (
+            <span className="text-xs text-muted-foreground">(you)</span>
+          )}
+        </div>
+        {user.name && user.email && (
+          <p className="text-sm text-muted-foreground">{user.email}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Signed up {new Date(user.createdAt).toLocaleDateString()}
+          {user.lastSignInAt &&
+            ` · Last signed in ${new Date(user.lastSignInAt).toLocaleDateString()}`}
+        </p>
+      </div>
+      {!isSelf && (
+        <div className="flex shrink-0 flex-wrap gap-2">
+          {getAvailableAccessActions(user.status).map((action) => (
+            <Button
+              key={action}
+              type="button"
+              size="sm"
+              variant={
+                DESTRUCTIVE_ACTIONS.includes(action) ? "outline" : "default"
+              }
+              className={cn(
+                DESTRUCTIVE_ACTIONS.includes(action) &&
+                  "text-destructive hover:text-destructive",
+              )}
+              disabled={busy}
+              onClick={() => onAction(user, action)}
+            >
+              {ACTION_LABELS[action]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UserSection({
+  title,
+  description,
+  users,
+  currentUserId,
+  busyUserId,
+  onAction,
+}: {
+  title: string;
+  description: string;
+  users: AdminUserSummary[];
+  currentUserId?: string;
+  busyUserId: string | null;
+  onAction: (user: AdminUserSummary, action: UserAccessAction) => void;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {title}{" "}
+          <span className="font-normal text-muted-foreground">
+            ({users.length})
+          </span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </CardHeader>
+      <CardContent>
+        {users.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+            Nobody here.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {users.map((user) => (
+              <UserRow
+                key={user.id}
+                user={user}
+                isSelf={user.id === currentUserId}
+                busy={busyUserId === user.id}
+                onAction={onAction}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AuditTrail() {
+  const events = useQuery(api.users.getUserAuditEvents, {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Trail</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Recent approval and role changes.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {events === undefined ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+            No access changes recorded yet.
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {events.map((event) => (
+              <div
+                key={event._id}
+                className="flex flex-col gap-1 py-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+              >
+                <p>
+                  <span className="font-medium">
+                    {event.actorName ?? event.actorUserId}
+                  </span>{" "}
+                  {AUDIT_VERBS[event.action as UserAccessAction] ??
+                    event.action}{" "}
+                  <span className="font-medium">
+                    {event.targetName ?? event.targetEmail ?? event.targetUserId}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    ({STATUS_LABELS[event.previousStatus as UserAccessStatus] ??
+                      event.previousStatus}{" "}
+                    →{" "}
+                    {STATUS_LABELS[event.newStatus as UserAccessStatus] ??
+                      event.newStatus}
+                    )
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminUsersPage() {
+  const router = useRouter();
+  const { user, isLoaded } = useUser();
+  const [users, setUsers] = useState<AdminUserSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const isAdmin = user?.publicMetadata?.role === "admin";
+
+  // Redirect non-admins to dashboard
+  useEffect(() => {
+    if (isLoaded && !isAdmin) {
+      router.push("/dashboard");
+    }
+  }, [isLoaded, isAdmin, router]);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch("/api/admin/users");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to load users");
+      }
+
+      setUsers(data.users);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUsers();
+    }
+  }, [isAdmin]);
+
+  const handleAction = async (
+    target: AdminUserSummary,
+    action: UserAccessAction,
+  ) => {
+    const label = target.name || target.email || target.id;
+
+    if (
+      DESTRUCTIVE_ACTIONS.includes(action) &&
+      !window.confirm(`${ACTION_LABELS[action]} for ${label}?`)
+    ) {
+      return;
+    }
+
+    setBusyUserId(target.id);
+
+    try {
+      const response = await fetch(`/api/admin/users/${target.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Update failed");
+      }
+
+      toast.success(`${ACTION_LABELS[action]}: ${label}`);
+      await fetchUsers();
+    } catch (err) {
+      toast.error("Unable to update access", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  if (!isLoaded || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  const pending = users?.filter((u) => u.status === "pending") ?? [];
+  const members =
+    users?.filter((u) => u.status === "approved" || u.status === "admin") ??
+    [];
+  const blocked =
+    users?.filter((u) => u.status === "rejected" || u.status === "revoked") ??
+    [];
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Users</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Approve sign-ups and manage who can log data or administer the
+              app.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => router.push("/dashboard")}>
+            Back to Dashboard
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {users === null && !error ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <>
+            <UserSection
+              title="Pending Approval"
+              description="People who signed up and are waiting on the pending-approval screen."
+              users={pending}
+              currentUserId={user?.id}
+              busyUserId={busyUserId}
+              onAction={handleAction}
+            />
+            <UserSection
+              title="Members"
+              description="Approved users and admins."
+              users={members}
+              currentUserId={user?.id}
+              busyUserId={busyUserId}
+              onAction={handleAction}
+            />
+            <UserSection
+              title="No Access"
+              description="Rejected sign-ups and users whose access was revoked."
+              users={blocked}
+              currentUserId={user?.id}
+              busyUserId={busyUserId}
+              onAction={handleAction}
+            />
+          </>
+        )}
+
+        <AuditTrail />
+      </div>
+    </div>
+  );
+}
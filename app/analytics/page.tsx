@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -21,6 +22,13 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import { SyncPreviewReview } from "@/components/sync-preview-review";
+import { NumericAnswerTrends } from "@/components/numeric-answer-trends";
+import { UnmappedPlanningAnswers } from "@/components/unmapped-planning-answers";
+import { PlantingRecommendations } from "@/components/planting-recommendations";
+import { SeasonComparison } from "@/components/season-comparison";
+import { SeasonSwitcher } from "@/components/season-switcher";
+import type { SheetSyncPreview } from "@/lib/sync-preview";
 import {
   Bar,
   BarChart,
@@ -49,8 +57,10 @@ interface SyncProgress {
   current: number;
   total: number;
   currentField: string;
-  status: "idle" | "syncing" | "complete" | "error";
+  // previewing/review: dry-run diff before an admin applies the sync
+  status: "idle" | "previewing" | "review" | "syncing" | "complete" | "error";
   error?: string;
+  warningCount?: number; // Rows the parser skipped or misread this sync
 }
 
 const CHART_COLORS = [
@@ -85,6 +95,21 @@ function InfoTip({ text }: { text: string }) {
   );
 }
 
+// Drive modifiedTime of the spreadsheet, to tell whether it changed after a
+// sync preview
+async function fetchSpreadsheetModifiedTime(
+  spreadsheetId: string,
+): Promise<string> {
+  const response = await fetch(`/api/sheets/${spreadsheetId}/metadata`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.modifiedTime) {
+    throw new Error(
+      data.message || "Failed to check the spreadsheet for changes",
+    );
+  }
+  return data.modifiedTime;
+}
+
 function formatPercent(value: number): string {
   return `${Math.round(value)}%`;
 }
@@ -95,7 +120,13 @@ function formatWeekLabel(value: string): string {
 }
 
 // Sync Progress Bar Component
-function SyncProgressBar({ progress }: { progress: SyncProgress }) {
+function SyncProgressBar({
+  progress,
+  verb = "Syncing",
+}: {
+  progress: SyncProgress;
+  verb?: string;
+}) {
   const percentage =
     progress.total > 0
       ? Math.round((progress.current / progress.total) * 100)
@@ -105,7 +136,7 @@ function SyncProgressBar({ progress }: { progress: SyncProgress }) {
     <div className="w-full space-y-3">
       <div className="flex items-center justify-between text-sm">
         <span className="text-muted-foreground">
-          Syncing {progress.current} of {progress.total}
+          {verb} {progress.current} of {progress.total}
         </span>
         <span className="font-medium">{percentage}%</span>
       </div>
@@ -125,7 +156,7 @@ function SyncProgressBar({ progress }: { progress: SyncProgress }) {
           <span className="relative inline-flex rounded-full h-3 w-3 bg-primary"></span>
         </div>
         <p className="text-sm text-foreground">
-          Syncing <span className="font-semibold">{progress.currentField}</span>
+          {verb} <span className="font-semibold">{progress.currentField}</span>
           ...
         </p>
       </div>
@@ -177,10 +208,21 @@ export default function AnalyticsPage() {
   const [isLoadingMetadata, setIsLoadingMetadata] = useState(false);
   const [selectedCropFilter, setSelectedCropFilter] = useState("all");
   const [selectedFieldFilter, setSelectedFieldFilter] = useState("all");
+  const [selectedAuthorFilter, setSelectedAuthorFilter] = useState("all");
   const [startDateFilter, setStartDateFilter] = useState("");
   const [endDateFilter, setEndDateFilter] = useState("");
   const [showFiltersPanel, setShowFiltersPanel] = useState(false);
   const [showSyncDialog, setShowSyncDialog] = useState(false);
+  const [syncPreviews, setSyncPreviews] = useState<SheetSyncPreview[]>([]);
+  // Spreadsheet modifiedTime the previews were read at; Apply re-previews
+  // instead of writing when the sheet changed since
+  const [previewModifiedTime, setPreviewModifiedTime] = useState<string | null>(
+    null,
+  );
+  const [sheetChangedSincePreview, setSheetChangedSincePreview] =
+    useState(false);
+  // null shows the active season
+  const [seasonId, setSeasonId] = useState<Id<"seasons"> | null>(null);
 
   // Check if user is admin (using Clerk publicMetadata)
   const isAdmin = user?.publicMetadata?.role === "admin";
@@ -193,13 +235,28 @@ export default function AnalyticsPage() {
       endDate: endDateFilter || undefined,
       crop: selectedCropFilter === "all" ? undefined : selectedCropFilter,
       field: selectedFieldFilter === "all" ? undefined : selectedFieldFilter,
+      loggedBy:
+        selectedAuthorFilter === "all" ? undefined : selectedAuthorFilter,
+      seasonId: seasonId ?? undefined,
     }),
-    [startDateFilter, endDateFilter, selectedCropFilter, selectedFieldFilter],
+    [
+      startDateFilter,
+      endDateFilter,
+      selectedCropFilter,
+      selectedFieldFilter,
+      selectedAuthorFilter,
+      seasonId,
+    ],
   );
   const analytics = useQuery(api.sheets.getAnalyticsOverview, analyticsFilters);
-  const logDates = useQuery(api.sheets.getLogDates);
+  const logDates = useQuery(
+    api.sheets.getLogDates,
+    seasonId ? { seasonId } : {},
+  );
   const logDateSet = useMemo(() => new Set(logDates ?? []), [logDates]);
   const deleteSheetByField = useMutation(api.sheets.deleteSheetByField);
+  const startSyncRun = useMutation(api.syncRuns.startSyncRun);
+  const finishSyncRun = useMutation(api.syncRuns.finishSyncRun);
 
   // Fetch spreadsheet last modified time
   const fetchSpreadsheetMetadata = useCallback(async () => {
@@ -263,14 +320,117 @@ export default function AnalyticsPage() {
   const hasActiveFilters =
     selectedCropFilter !== "all" ||
     selectedFieldFilter !== "all" ||
+    selectedAuthorFilter !== "all" ||
     startDateFilter.length > 0 ||
     endDateFilter.length > 0;
   const shouldShowCropCharts = selectedCropFilter === "all";
 
+  // Dry-run every sheet so the admin can review the diff before applying
+  const previewAllSheets = useCallback(async () => {
+    if (
+      !config ||
+      syncProgress.status === "syncing" ||
+      syncProgress.status === "previewing"
+    ) {
+      return;
+    }
+
+    const allSheets = [
+      "Qualifiers",
+      ...config.sheetNames.filter((name) => name.toLowerCase() !== "qualifiers"),
+    ];
+    const previews: SheetSyncPreview[] = [];
+
+    setSyncProgress({
+      current: 0,
+      total: allSheets.length,
+      currentField: allSheets[0] || "",
+      status: "previewing",
+    });
+
+    try {
+      // Read before the sheets so an edit made mid-preview counts as a change
+      const modifiedTime = await fetchSpreadsheetModifiedTime(
+        config.spreadsheetId,
+      );
+
+      for (let i = 0; i < allSheets.length; i++) {
+        const sheetName = allSheets[i];
+        setSyncProgress((prev) => ({
+          ...prev,
+          current: i,
+          currentField: sheetName,
+        }));
+
+        const response = await fetch(
+          `/api/sheets/${config.spreadsheetId}/sync`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sheetName, dryRun: true }),
+          },
+        );
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          if (response.status === 404 && data.code === "SHEET_NOT_FOUND") {
+            previews.push({ kind: "missing", sheetName });
+            continue;
+          }
+
+          throw new Error(data.message || `Failed to check ${sheetName}`);
+        }
+
+        previews.push(data.preview);
+      }
+
+      setSyncPreviews(previews);
+      setPreviewModifiedTime(modifiedTime);
+      setSyncProgress((prev) => ({
+        ...prev,
+        current: allSheets.length,
+        status: "review",
+      }));
+    } catch (error) {
+      setSyncProgress((prev) => ({
+        ...prev,
+        status: "error",
+        error: error instanceof Error ? error.message : "Sync preview failed",
+      }));
+    }
+  }, [config, syncProgress.status]);
+
+  const cancelSyncReview = useCallback(() => {
+    setSyncPreviews([]);
+    setSheetChangedSincePreview(false);
+    setSyncProgress((prev) => ({ ...prev, status: "idle" }));
+  }, []);
+
   // Sync all sheets
   const syncAllSheets = useCallback(async () => {
     if (!config || syncProgress.status === "syncing") return;
 
+    // Apply writes what the sheets hold now, so make sure that's still what
+    // the admin reviewed
+    try {
+      const modifiedTime = await fetchSpreadsheetModifiedTime(
+        config.spreadsheetId,
+      );
+      if (modifiedTime !== previewModifiedTime) {
+        setSheetChangedSincePreview(true);
+        previewAllSheets();
+        return;
+      }
+    } catch (error) {
+      setSyncProgress((prev) => ({
+        ...prev,
+        status: "error",
+        error: error instanceof Error ? error.message : "Sync failed",
+      }));
+      return;
+    }
+    setSheetChangedSincePreview(false);
+
     const sheetsToSync = config.sheetNames.filter(
       (name) => name.toLowerCase() !== "qualifiers",
     );
@@ -278,6 +438,8 @@ export default function AnalyticsPage() {
     // Always include Qualifiers first
     const allSheets = ["Qualifiers", ...sheetsToSync];
     const removedSheets: string[] = [];
+    let syncRunId: Id<"syncRuns"> | null = null;
+    let warningCount = 0;
 
     setSyncProgress({
       current: 0,
@@ -287,6 +449,11 @@ export default function AnalyticsPage() {
     });
 
     try {
+      syncRunId = await startSyncRun({
+        spreadsheetId: config.spreadsheetId,
+        trigger: "manual",
+      });
+
       for (let i = 0; i < allSheets.length; i++) {
         const sheetName = allSheets[i];
         setSyncProgress((prev) => ({
@@ -300,7 +467,7 @@ export default function AnalyticsPage() {
           {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ sheetName }),
+            body: JSON.stringify({ sheetName, syncRunId }),
           },
         );
 
@@ -326,9 +493,12 @@ export default function AnalyticsPage() {
             continue;
           }
 
-          throw new Error(`Failed to sync ${sheetName}`);
+          throw new Error(errorData.message || `Failed to sync ${sheetName}`);
         }
 
+        const data = await response.json().catch(() => ({}));
+        warningCount += data.warnings?.length ?? 0;
+
         // Small delay for visual feedback
         await new Promise((resolve) => setTimeout(resolve, 300));
       }
@@ -341,20 +511,37 @@ export default function AnalyticsPage() {
         await updateSettingsSheetNames({ sheetNames: updatedSheetNames });
       }
 
+      await finishSyncRun({
+        runId: syncRunId,
+        status: "succeeded",
+        missingSheets: removedSheets,
+      });
+
       setSyncProgress((prev) => ({
         ...prev,
         current: allSheets.length,
         status: "complete",
+        warningCount,
       }));
 
       // Refresh metadata after sync
       fetchSpreadsheetMetadata();
 
-      // Reset to idle after showing complete
-      setTimeout(() => {
-        setSyncProgress((prev) => ({ ...prev, status: "idle" }));
-      }, 2000);
+      // Reset to idle after showing complete, unless there are warnings to read
+      if (warningCount === 0) {
+        setTimeout(() => {
+          setSyncProgress((prev) => ({ ...prev, status: "idle" }));
+        }, 2000);
+      }
     } catch (error) {
+      if (syncRunId) {
+        await finishSyncRun({
+          runId: syncRunId,
+          status: "failed",
+          missingSheets: removedSheets,
+          error: error instanceof Error ? error.message : "Sync failed",
+        }).catch(() => undefined);
+      }
       setSyncProgress((prev) => ({
         ...prev,
         status: "error",
@@ -364,9 +551,13 @@ export default function AnalyticsPage() {
   }, [
     config,
     syncProgress.status,
+    previewModifiedTime,
+    previewAllSheets,
     fetchSpreadsheetMetadata,
     deleteSheetByField,
     updateSettingsSheetNames,
+    startSyncRun,
+    finishSyncRun,
   ]);
 
   // Handle sync button click
@@ -374,9 +565,10 @@ export default function AnalyticsPage() {
     if (!hasChangesSinceLastSync()) {
       setShowNoChangesDialog(true);
     } else {
-      syncAllSheets();
+      setSheetChangedSincePreview(false);
+      previewAllSheets();
     }
-  }, [hasChangesSinceLastSync, syncAllSheets]);
+  }, [hasChangesSinceLastSync, previewAllSheets]);
 
   // Handle change spreadsheet
   const handleChangeSpreadsheet = () => {
@@ -463,6 +655,16 @@ export default function AnalyticsPage() {
             <p className="text-muted-foreground">{config?.spreadsheetName}</p>
           </div>
           <div className="flex items-center gap-2">
+            <SeasonSwitcher
+              value={seasonId}
+              onChange={(nextSeasonId) => {
+                setSeasonId(nextSeasonId);
+                // Crops, fields and authors differ between seasons
+                setSelectedCropFilter("all");
+                setSelectedFieldFilter("all");
+                setSelectedAuthorFilter("all");
+              }}
+            />
             <Button
               variant="outline"
               size="sm"
@@ -483,7 +685,7 @@ export default function AnalyticsPage() {
               <CardTitle>Interactive Filters</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
                 <div className="space-y-1">
                   <label className="text-xs text-muted-foreground">Crop</label>
                   <select
@@ -514,6 +716,25 @@ export default function AnalyticsPage() {
                     ))}
                   </select>
                 </div>
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">
+                    Logged by
+                  </label>
+                  <select
+                    value={selectedAuthorFilter}
+                    onChange={(e) => setSelectedAuthorFilter(e.target.value)}
+                    className="w-full h-9 rounded-md border border-border bg-background px-2 text-sm"
+                  >
+                    <option value="all">Everyone</option>
+                    {(analytics?.filters.loggedByOptions ?? []).map(
+                      (author) => (
+                        <option key={author.userId} value={author.userId}>
+                          {author.name}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                </div>
                 <div className="space-y-1">
                   <label className="text-xs text-muted-foreground">
                     Start date
@@ -619,6 +840,7 @@ export default function AnalyticsPage() {
                     onClick={() => {
                       setSelectedCropFilter("all");
                       setSelectedFieldFilter("all");
+                      setSelectedAuthorFilter("all");
                       setStartDateFilter("");
                       setEndDateFilter("");
                     }}
@@ -677,6 +899,34 @@ export default function AnalyticsPage() {
                       </p>
                     </CardContent>
                   </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm text-muted-foreground flex items-center">
+                        Total Trays
+                        <InfoTip text="Trays across all current plantings, from the spreadsheet's tray counts." />
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-3xl font-bold">
+                        {Math.round(analytics.totals.totalTrays * 10) / 10}
+                      </p>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm text-muted-foreground flex items-center">
+                        Avg Crop Age
+                        <InfoTip text="Average days from planting to assessment for the logs shown, where the planting date could be read." />
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-3xl font-bold">
+                        {analytics.totals.averageCropAgeDays === null
+                          ? "—"
+                          : `${Math.round(analytics.totals.averageCropAgeDays)}d`}
+                      </p>
+                    </CardContent>
+                  </Card>
                   <Card>
                     <CardHeader className="pb-2">
                       <CardTitle className="text-sm text-muted-foreground flex items-center">
@@ -701,6 +951,12 @@ export default function AnalyticsPage() {
                       <p className="text-3xl font-bold">
                         {formatPercent(analytics.planning.balance)}
                       </p>
+                      {analytics.planning.averageScore !== null && (
+                        <p className="text-sm text-muted-foreground">
+                          Average score{" "}
+                          {Math.round(analytics.planning.averageScore * 10) / 10}
+                        </p>
+                      )}
                     </CardContent>
                   </Card>
                 </div>
@@ -811,6 +1067,10 @@ export default function AnalyticsPage() {
               </Card>
             )}
 
+            <UnmappedPlanningAnswers
+              answers={analytics.planning.unmappedAnswers}
+            />
+
             {shouldShowCropCharts && (
               <Card>
                 <CardHeader>
@@ -908,6 +1168,21 @@ export default function AnalyticsPage() {
               </CardContent>
             </Card>
 
+            <NumericAnswerTrends questions={analytics.numericQuestions} />
+
+            <SeasonComparison
+              crop={
+                selectedCropFilter === "all" ? undefined : selectedCropFilter
+              }
+            />
+
+            <PlantingRecommendations
+              seasonId={seasonId}
+              crop={
+                selectedCropFilter === "all" ? undefined : selectedCropFilter
+              }
+            />
+
             {/* Logs Over Time + Logs by Crop */}
             <div
               className={`grid grid-cols-1 gap-6 ${
@@ -985,7 +1260,16 @@ export default function AnalyticsPage() {
           </Button>
         </div>
 
-        <Dialog open={showSyncDialog} onOpenChange={setShowSyncDialog}>
+        <Dialog
+          open={showSyncDialog}
+          onOpenChange={(open) => {
+            setShowSyncDialog(open);
+            // A closed review is stale by the time it's reopened
+            if (!open && syncProgress.status === "review") {
+              cancelSyncReview();
+            }
+          }}
+        >
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Sync Spreadsheet Data</DialogTitle>
@@ -1030,6 +1314,21 @@ export default function AnalyticsPage() {
                 </>
               )}
 
+              {syncProgress.status === "previewing" && (
+                <SyncProgressBar progress={syncProgress} verb="Checking" />
+              )}
+
+              {syncProgress.status === "review" && sheetChangedSincePreview && (
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  The spreadsheet changed after these changes were checked.
+                  Review the updated changes before applying them.
+                </p>
+              )}
+
+              {syncProgress.status === "review" && (
+                <SyncPreviewReview previews={syncPreviews} />
+              )}
+
               {syncProgress.status === "syncing" && (
                 <SyncProgressBar progress={syncProgress} />
               )}
@@ -1053,10 +1352,26 @@ export default function AnalyticsPage() {
                 </div>
               )}
 
+              {syncProgress.status === "complete" &&
+                (syncProgress.warningCount ?? 0) > 0 && (
+                  <p className="text-sm text-amber-700 dark:text-amber-400">
+                    {syncProgress.warningCount} row
+                    {syncProgress.warningCount === 1 ? "" : "s"} could not be
+                    read cleanly.{" "}
+                    <button
+                      type="button"
+                      className="underline underline-offset-2"
+                      onClick={() => router.push("/admin/sync-runs")}
+                    >
+                      View warnings
+                    </button>
+                  </p>
+                )}
+
               {syncProgress.status === "error" && (
                 <div className="space-y-3">
                   <p className="text-red-500 text-sm">{syncProgress.error}</p>
-                  <Button onClick={syncAllSheets} size="sm" variant="outline">
+                  <Button onClick={previewAllSheets} size="sm" variant="outline">
                     Try Again
                   </Button>
                 </div>
@@ -1069,13 +1384,25 @@ export default function AnalyticsPage() {
                   Managed by {config.adminEmail}
                 </span>
               )}
-              <Button
-                variant="outline"
-                onClick={() => setShowSyncDialog(false)}
-              >
-                Close
-              </Button>
-              {isAdmin && syncProgress.status !== "syncing" && (
+              {syncProgress.status === "review" ? (
+                <>
+                  <Button variant="outline" onClick={cancelSyncReview}>
+                    Cancel
+                  </Button>
+                  <Button onClick={syncAllSheets}>Apply Changes</Button>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowSyncDialog(false)}
+                >
+                  Close
+                </Button>
+              )}
+              {isAdmin &&
+                syncProgress.status !== "syncing" &&
+                syncProgress.status !== "previewing" &&
+                syncProgress.status !== "review" && (
                 <>
                   <Button
                     onClick={() => {
@@ -1088,7 +1415,7 @@ export default function AnalyticsPage() {
                     Change Spreadsheet
                   </Button>
                   <Button onClick={handleSyncClick} size="sm">
-                    Sync Now
+                    Review Changes
                   </Button>
                 </>
               )}
@@ -1147,10 +1474,10 @@ export default function AnalyticsPage() {
               <Button
                 onClick={() => {
                   setShowNoChangesDialog(false);
-                  syncAllSheets();
+                  previewAllSheets();
                 }}
               >
-                Sync Anyway
+                Review Anyway
               </Button>
             </DialogFooter>
           </DialogContent>
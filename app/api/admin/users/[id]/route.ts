@@ -0,0 +1,127 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { api } from "@/convex/_generated/api";
+import { isAdmin } from "@/lib/auth";
+import { getAuthenticatedConvexHttpClient } from "@/lib/convex-http";
+import {
+  AccessMetadata,
+  getAccessMetadataPatch,
+  getAccessMetadataRestorePatch,
+  getAvailableAccessActions,
+  getUserAccessStatus,
+  isUserAccessAction,
+} from "@/lib/user-access";
+
+// Applies an approval or role change to a Clerk user and records it in the
+// Convex audit trail
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { id: targetUserId } = await params;
+    const body = (await request.json()) as { action?: unknown };
+
+    if (!isUserAccessAction(body.action)) {
+      return NextResponse.json(
+        { error: "action must be one of approve, reject, promote, demote, revoke" },
+        { status: 400 },
+      );
+    }
+
+    const action = body.action;
+
+    // Keep admins from locking themselves out
+    if (targetUserId === userId) {
+      return NextResponse.json(
+        { error: "You cannot change your own access" },
+        { status: 400 },
+      );
+    }
+
+    const client = await clerkClient();
+    const target = await client.users.getUser(targetUserId);
+    const previousStatus = getUserAccessStatus(
+      target.publicMetadata as AccessMetadata,
+    );
+
+    if (!getAvailableAccessActions(previousStatus).includes(action)) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a user who is ${previousStatus}` },
+        { status: 409 },
+      );
+    }
+
+    const updated = await client.users.updateUserMetadata(targetUserId, {
+      publicMetadata: getAccessMetadataPatch(action),
+    });
+    const newStatus = getUserAccessStatus(
+      updated.publicMetadata as AccessMetadata,
+    );
+
+    // A change that isn't in the audit trail is undone
+    try {
+      const convex = await getAuthenticatedConvexHttpClient();
+      await convex.mutation(api.users.recordUserAuditEvent, {
+        action,
+        targetUserId,
+        targetName:
+          [target.firstName, target.lastName].filter(Boolean).join(" ") ||
+          undefined,
+        targetEmail: target.primaryEmailAddress?.emailAddress,
+        previousStatus,
+        newStatus,
+      });
+    } catch (auditError) {
+      console.error("Error recording user audit event:", auditError);
+
+      try {
+        await client.users.updateUserMetadata(targetUserId, {
+          publicMetadata: getAccessMetadataRestorePatch(
+            target.publicMetadata as AccessMetadata,
+          ),
+        });
+      } catch (rollbackError) {
+        console.error("Error rolling back user access:", rollbackError);
+
+        return NextResponse.json(
+          {
+            error: "Access changed but not audited",
+            message: `The user is now ${newStatus}, but the change couldn't be recorded or undone. Change it back by hand if needed.`,
+          },
+          { status: 500 },
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: "Failed to record the change",
+          message: `The user is still ${previousStatus}. Try again.`,
+        },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({ success: true, status: newStatus });
+  } catch (error) {
+    console.error("Error updating user access:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to update user access",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { isAdmin } from "@/lib/auth";
+import {
+  AccessMetadata,
+  AdminUserSummary,
+  getUserAccessStatus,
+} from "@/lib/user-access";
+
+const USER_PAGE_SIZE = 500;
+
+// Lists every Clerk user with their access status for /admin/users
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    // Clerk returns at most 500 users per request
+    const client = await clerkClient();
+    const data = [];
+    for (let offset = 0; ; ) {
+      const page = await client.users.getUserList({
+        limit: USER_PAGE_SIZE,
+        offset,
+        orderBy: "-created_at",
+      });
+      data.push(...page.data);
+      offset += page.data.length;
+      if (page.data.length < USER_PAGE_SIZE || offset >= page.totalCount) {
+        break;
+      }
+    }
+
+    const users: AdminUserSummary[] = data.map((user) => ({
+      id: user.id,
+      name:
+        [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+        user.username ||
+        "",
+      email: user.primaryEmailAddress?.emailAddress ?? "",
+      imageUrl: user.imageUrl,
+      status: getUserAccessStatus(user.publicMetadata as AccessMetadata),
+      createdAt: user.createdAt,
+      lastSignInAt: user.lastSignInAt,
+    }));
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error listing users:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to list users",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
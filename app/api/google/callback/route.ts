@@ -0,0 +1,70 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { api } from "@/convex/_generated/api";
+import { isAdmin } from "@/lib/auth";
+import { getAuthenticatedConvexHttpClient } from "@/lib/convex-http";
+import {
+  exchangeGoogleAuthCode,
+  getGoogleAccountEmail,
+  getGoogleOAuthConfig,
+  GOOGLE_OAUTH_STATE_COOKIE,
+} from "@/lib/google-oauth";
+
+// Google redirects here after consent. Stores the refresh token in Convex for
+// the scheduled sync, then returns the admin to /admin/sync.
+export async function GET(request: NextRequest) {
+  const redirectTo = (result: string) => {
+    const response = NextResponse.redirect(
+      new URL(`/admin/sync?google=${result}`, request.url),
+    );
+    response.cookies.delete({ name: GOOGLE_OAUTH_STATE_COOKIE, path: "/api/google" });
+    return response;
+  };
+
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+    const expectedState = request.cookies.get(GOOGLE_OAUTH_STATE_COOKIE)?.value;
+
+    if (searchParams.get("error")) {
+      return redirectTo("denied");
+    }
+
+    if (!code || !state || state !== expectedState) {
+      return redirectTo("invalid_state");
+    }
+
+    const tokens = await exchangeGoogleAuthCode({
+      ...getGoogleOAuthConfig(),
+      code,
+      redirectUri: `${request.nextUrl.origin}/api/google/callback`,
+    });
+
+    if (!tokens.refreshToken) {
+      return redirectTo("no_refresh_token");
+    }
+
+    const convex = await getAuthenticatedConvexHttpClient();
+    await convex.mutation(api.scheduledSync.saveGoogleCredentials, {
+      refreshToken: tokens.refreshToken,
+      googleEmail: await getGoogleAccountEmail(tokens.accessToken),
+      scopes: tokens.scopes,
+    });
+
+    return redirectTo("connected");
+  } catch (error) {
+    console.error("Error completing Google connection:", error);
+    return redirectTo("error");
+  }
+}
@@ -0,0 +1,55 @@
+import { randomBytes } from "node:crypto";
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { isAdmin } from "@/lib/auth";
+import {
+  buildGoogleConsentUrl,
+  getGoogleOAuthConfig,
+  GOOGLE_OAUTH_STATE_COOKIE,
+} from "@/lib/google-oauth";
+
+// Starts the Google consent flow that gives the scheduled sync its own
+// refreshable credentials (separate from the Clerk Google sign-in token).
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+    }
+
+    const { clientId } = getGoogleOAuthConfig();
+    const state = randomBytes(24).toString("hex");
+    const response = NextResponse.redirect(
+      buildGoogleConsentUrl({
+        clientId,
+        redirectUri: `${request.nextUrl.origin}/api/google/callback`,
+        state,
+      }),
+    );
+
+    response.cookies.set(GOOGLE_OAUTH_STATE_COOKIE, state, {
+      httpOnly: true,
+      secure: request.nextUrl.protocol === "https:",
+      sameSite: "lax",
+      path: "/api/google",
+      maxAge: 10 * 60,
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Error starting Google connection:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to start Google connection",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { auth } from "@clerk/nextjs/server";
+import { ConvexError } from "convex/values";
+import { NextRequest, NextResponse } from "next/server";
+import { api } from "@/convex/_generated/api";
+import { getAuthenticatedConvexHttpClient } from "@/lib/convex-http";
+import { isApproved } from "@/lib/auth";
+import { buildPlantingPlanCsv } from "@/lib/recommendations";
+
+// Downloads next season's planting plan (getPlantingRecommendations) as CSV.
+// Takes an optional ?seasonId= to plan from; defaults to the active season.
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isApproved())) {
+      return NextResponse.json({ error: "Account not approved" }, { status: 403 });
+    }
+
+    const seasonId = request.nextUrl.searchParams.get("seasonId");
+    const convex = await getAuthenticatedConvexHttpClient();
+    const { planYear, recommendations } = await convex.query(
+      api.recommendations.getPlantingRecommendations,
+      seasonId ? { seasonId } : {}
+    );
+
+    const fileName = planYear
+      ? `planting-plan-${planYear}.csv`
+      : "planting-plan.csv";
+
+    return new NextResponse(buildPlantingPlanCsv(recommendations), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    // A seasonId that isn't a season ID
+    if (error instanceof ConvexError) {
+      return NextResponse.json(
+        { error: "Invalid seasonId", message: String(error.data) },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error exporting planting plan:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to export planting plan",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,15 @@
 import { timingSafeEqual } from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { api } from "@/convex/_generated/api";
-import { getConvexHttpClient } from "@/lib/convex-http";
+import { getConvexHttpClient, getConvexServiceKey } from "@/lib/convex-http";
 import { isApproved } from "@/lib/auth";
+import { escapeCsvCell } from "@/lib/csv";
 
 type ExportRequestBody = {
   start_date?: string;
   start_data?: string;
   end_date?: string;
+  include_revisions?: boolean;
 };
 
 class ValidationError extends Error {}
@@ -91,18 +93,6 @@ function formatDateForCsv(timestamp: number) {
   return `${month}-${day}-${year}`;
 }
 
-function escapeCsvCell(value: unknown) {
-  const stringValue = String(value ?? "").replace(/\r\n/g, "\n");
-  if (
-    stringValue.includes(",") ||
-    stringValue.includes('"') ||
-    stringValue.includes("\n")
-  ) {
-    return `"${stringValue.replace(/"/g, '""')}"`;
-  }
-  return stringValue;
-}
-
 function buildCsv(
   logs: Array<{
     _id: string;
@@ -115,10 +105,15 @@ function buildCsv(
     rows: string;
     plantingNotes: string;
     logNotes?: string;
+    loggedByName?: string;
+    loggedByEmail?: string;
     assessmentDate: number;
     createdAt: number;
+    updatedAt?: number;
+    revisionCount?: number;
     responses: Array<{ question: string; answer: string }>;
-  }>
+  }>,
+  { includeRevisions = false }: { includeRevisions?: boolean } = {}
 ) {
   const questionHeaders = Array.from(
     new Set(
@@ -140,6 +135,8 @@ function buildCsv(
     "rows",
     "planting_notes",
     "log_notes",
+    "logged_by",
+    ...(includeRevisions ? ["revision_count", "last_edited_at_utc"] : []),
     ...questionHeaders,
   ];
 
@@ -169,6 +166,13 @@ function buildCsv(
         log.rows,
         log.plantingNotes,
         log.logNotes ?? "",
+        log.loggedByName || log.loggedByEmail || "",
+        ...(includeRevisions
+          ? [
+              log.revisionCount ?? 0,
+              log.updatedAt ? new Date(log.updatedAt).toISOString() : "",
+            ]
+          : []),
         ...questionHeaders.map((question) =>
           (answersByQuestion.get(question) ?? []).join(" | ")
         ),
@@ -212,15 +216,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The caller was authorized above (export token or approved session), so
+    // read as the service rather than forwarding a user token
     const logs = await getConvexHttpClient().query(
       api.sheets.getQualityLogsInDateRange,
       {
         startTimestamp,
         endTimestamp,
+        serviceKey: getConvexServiceKey(),
       }
     );
 
-    const csv = buildCsv(logs);
+    const csv = buildCsv(logs, {
+      includeRevisions: body.include_revisions === true,
+    });
     const fileName = `quality-logs-${startDateInput}-to-${endDateInput}.csv`;
 
     return new NextResponse(csv, {
@@ -0,0 +1,93 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthenticatedConvexHttpClient } from "@/lib/convex-http";
+import { isApproved } from "@/lib/auth";
+import type { QueuedQualityLog } from "@/lib/offline-outbox";
+
+function isResponseArray(
+  value: unknown
+): value is Array<{ question: string; answer: string }> {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (item) =>
+        typeof item?.question === "string" && typeof item?.answer === "string"
+    )
+  );
+}
+
+// Replays a quality log from the offline outbox. The service worker calls this
+// during background sync, so the body matches QueuedQualityLog.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isApproved())) {
+      return NextResponse.json({ error: "Account not approved" }, { status: 403 });
+    }
+
+    const body = (await request.json()) as Partial<QueuedQualityLog>;
+
+    if (
+      !body.idempotencyKey ||
+      typeof body.crop !== "string" ||
+      typeof body.field !== "string" ||
+      typeof body.assessmentDate !== "number" ||
+      !isResponseArray(body.responses)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid quality log payload" },
+        { status: 400 }
+      );
+    }
+
+    // Call Convex as the user so the log is attributed to its author
+    const convex = await getAuthenticatedConvexHttpClient();
+    const result = await convex.mutation(
+      api.sheets.createQualityLog,
+      {
+        cropId: body.cropId as Id<"crops"> | undefined,
+        crop: body.crop,
+        variety: body.variety ?? "",
+        field: body.field,
+        bed: body.bed ?? "",
+        datePlanted: body.datePlanted ?? "",
+        trays: body.trays ?? "",
+        rows: body.rows ?? "",
+        plantingNotes: body.plantingNotes ?? "",
+        responses: body.responses,
+        logNotes: body.logNotes,
+        assessmentDate: body.assessmentDate,
+        idempotencyKey: body.idempotencyKey,
+      }
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    // Validation failures would fail again on every replay, so the service
+    // worker stops retrying logs answered with a 400
+    if (error instanceof ConvexError) {
+      return NextResponse.json(
+        { error: "Quality log rejected", message: String(error.data) },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error replaying quality log:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to save quality log",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { GoogleSheetsClient } from "@/lib/google-sheets";
+import {
+  detectColumns,
+  FIELD_SHEET_COLUMNS,
+  findHeaderRow,
+  HEADER_SEARCH_ROWS,
+} from "@/lib/parse-field-sheet";
+import { isAdmin } from "@/lib/auth";
+
+// Header row of a field sheet and the columns detected from it, for the
+// onboarding column mapping editor
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id: spreadsheetId } = await params;
+    const sheetName = request.nextUrl.searchParams.get("sheetName");
+
+    if (!spreadsheetId || !sheetName) {
+      return NextResponse.json(
+        { error: "Spreadsheet ID and sheetName are required" },
+        { status: 400 }
+      );
+    }
+
+    const client = await clerkClient();
+    const clerkResponse = await client.users.getUserOauthAccessToken(
+      userId,
+      "google"
+    );
+    const accessToken = clerkResponse.data[0]?.token;
+
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          error: "Google account not connected",
+          message: "Please sign in with Google to access your sheets",
+        },
+        { status: 400 }
+      );
+    }
+
+    const sheetsClient = new GoogleSheetsClient(accessToken);
+    const data = await sheetsClient.getSpreadsheetData(
+      spreadsheetId,
+      `1:${HEADER_SEARCH_ROWS}`,
+      sheetName
+    );
+    const rows = (data.values ?? []).map((row) =>
+      row.map((cell) => String(cell ?? ""))
+    );
+    const headers = rows[findHeaderRow(rows)] ?? [];
+    const { indexes, missing } = detectColumns(headers);
+
+    return NextResponse.json({
+      sheetName,
+      headers,
+      detected: Object.fromEntries(
+        FIELD_SHEET_COLUMNS.map((column) => [
+          column,
+          indexes[column] !== undefined ? headers[indexes[column]] : null,
+        ])
+      ),
+      missing,
+    });
+  } catch (error) {
+    console.error("Error reading sheet columns:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to read sheet columns",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
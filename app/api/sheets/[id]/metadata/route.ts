@@ -1,8 +1,7 @@
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { isApproved } from "@/lib/auth";
-
-const DRIVE_API_BASE = "https://www.googleapis.com/drive/v3";
+import { GoogleSheetsClient } from "@/lib/google-sheets";
 
 export async function GET(
   request: Request,
@@ -51,22 +50,9 @@ export async function GET(
     }
 
     // Fetch file metadata from Google Drive API
-    const url = `${DRIVE_API_BASE}/files/${spreadsheetId}?fields=modifiedTime,name`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(
-        error.error?.message || `Google Drive API error: ${response.status}`
-      );
-    }
-
-    const data = await response.json();
+    const data = await new GoogleSheetsClient(accessToken).getFileMetadata(
+      spreadsheetId,
+    );
 
     return NextResponse.json({
       modifiedTime: data.modifiedTime,
@@ -1,226 +1,54 @@
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
+import { ConvexHttpClient } from "convex/browser";
 import { api } from "@/convex/_generated/api";
-import { getConvexHttpClient } from "@/lib/convex-http";
+import { Id } from "@/convex/_generated/dataModel";
+import { getAuthenticatedConvexHttpClient } from "@/lib/convex-http";
 import { GoogleSheetsClient } from "@/lib/google-sheets";
+import {
+  ColumnMappingError,
+  ParseWarning,
+  parseSheetDataWithWarnings,
+  toColumnMapping,
+} from "@/lib/parse-field-sheet";
 import { parseQualifiersSheet } from "@/lib/parse-qualifiers";
+import { applyReplantingReviews } from "@/lib/replanting";
+import { previewFieldSync, previewQualifierSync } from "@/lib/sync-preview";
 import { isAdmin } from "@/lib/auth";
 
-/**
- * Extract replanting information from notes.
- * Patterns: "X replaced with Y", "replanted with X", "replaced by X", etc.
- */
-function parseReplantingNotes(notes: string): {
-  originalCrop?: string;
-  originalVariety?: string;
-  replantingNote?: string;
-} | null {
-  if (!notes) return null;
-
-  // Pattern: "X replaced with Y" or "replaced with Y"
-  const replacedWithMatch = notes.match(
-    /(?:(.+?)\s+)?replaced\s+(?:with|by)\s+(.+?)(?:\s+in\s+|$)/i
-  );
-  if (replacedWithMatch) {
-    const originalText = replacedWithMatch[1]?.trim();
-    const originalParts = originalText?.includes(":")
-      ? originalText.split(":").map((s) => s.trim())
-      : [originalText, ""];
-
-    return {
-      originalCrop: originalParts?.[0] || "",
-      originalVariety: originalParts?.[1] || "",
-      replantingNote: notes,
-    };
-  }
-
-  // Pattern: "replanted with X"
-  const replantedMatch = notes.match(/replanted\s+with\s+(.+?)(?:\s+in\s+|$)/i);
-  if (replantedMatch) {
-    return {
-      replantingNote: notes,
-    };
-  }
-
-  return null;
-}
-
-function detectLocationFromField(fieldName: string): string {
-  const normalized = fieldName.toLowerCase();
-
-  if (
-    /\bht\b/.test(normalized) ||
-    normalized.includes("high tunnel") ||
-    normalized.includes("hightunnel")
-  ) {
-    return "HT";
-  }
-
-  if (/\bgh\b/.test(normalized) || normalized.includes("greenhouse")) {
-    return "greenhouse";
-  }
-
-  return "field";
-}
-
-function parseCropVariety(value: string): { crop: string; variety: string } {
-  const separatorIndex = value.indexOf(":");
-
-  if (separatorIndex === -1) {
-    return { crop: value.trim(), variety: "" };
-  }
-
-  return {
-    crop: value.slice(0, separatorIndex).trim(),
-    variety: value.slice(separatorIndex + 1).trim(),
-  };
-}
-
-function buildCropRecord({
+// Append this sheet's result to the caller's sync run. A failure here is
+// logged rather than failing a sync that has already been written.
+async function recordSheetInRun({
+  convex,
+  syncRunId,
+  sheetsClient,
+  spreadsheetId,
   sheetName,
-  bed,
-  crop,
-  variety,
-  trays,
-  rows,
-  date,
-  notes,
+  rowCount,
+  recordCount,
+  warnings,
 }: {
+  convex: ConvexHttpClient;
+  syncRunId: Id<"syncRuns">;
+  sheetsClient: GoogleSheetsClient;
+  spreadsheetId: string;
   sheetName: string;
-  bed: string;
-  crop: string;
-  variety: string;
-  trays: string;
-  rows: string;
-  date: string;
-  notes: string;
+  rowCount: number;
+  recordCount: number;
+  warnings: ParseWarning[];
 }) {
-  const record: {
-    field: string;
-    bed: string;
-    crop: string;
-    variety: string;
-    trays: string;
-    rows: string;
-    date: string;
-    notes: string;
-    location?: string;
-    replantedFrom?: {
-      crop: string;
-      variety: string;
-      date: string;
-      notes: string;
-    };
-  } = {
-    field: sheetName,
-    bed,
-    crop: crop.trim(),
-    variety: variety.trim(),
-    trays,
-    rows,
-    date,
-    notes,
-    location: detectLocationFromField(sheetName),
-  };
-
-  const replantingInfo = parseReplantingNotes(notes);
-  if (replantingInfo) {
-    record.replantedFrom = {
-      crop: replantingInfo.originalCrop || "",
-      variety: replantingInfo.originalVariety || "",
-      date: "",
-      notes: replantingInfo.replantingNote || "",
-    };
-  }
-
-  return record;
-}
-
-// Parse sheet data into structured crop records
-function parseSheetData(
-  data: string[][],
-  sheetName: string
-): Array<{
-  field: string;
-  bed: string;
-  crop: string;
-  variety: string;
-  trays: string;
-  rows: string;
-  date: string;
-  notes: string;
-  location?: string;
-  replantedFrom?: {
-    crop: string;
-    variety: string;
-    date: string;
-    notes: string;
-  };
-}> {
-  if (data.length === 0) return [];
-
-  // Skip header row
-  const rows = data.slice(1);
-  const parsedData = [];
-
-  for (const row of rows) {
-    const [bed, cropVariety, trays, rowsCount, date, notes] = row;
-
-    // Skip empty rows
-    if (!bed && !cropVariety) continue;
-
-    // Check for multiple crops in the same bed (separated by "/")
-    // Example: "Cucumber: Mini Me / Cucumber: Tasty Green" with trays "1 / 0.2"
-    if (cropVariety?.includes(" / ")) {
-      const cropParts = cropVariety.split(" / ").map((s) => s.trim());
-      const traysParts = trays?.includes(" / ")
-        ? trays.split(" / ").map((s) => s.trim())
-        : [trays || ""];
-
-      // Create a separate record for each crop
-      for (let i = 0; i < cropParts.length; i++) {
-        const cropPart = cropParts[i];
-        const trayPart = traysParts[i] || traysParts[0] || "";
-        const { crop, variety } = parseCropVariety(cropPart || "");
-
-        if (crop.trim()) {
-          parsedData.push(
-            buildCropRecord({
-              sheetName,
-              bed: bed || "",
-              crop,
-              variety,
-              trays: trayPart,
-              rows: rowsCount || "",
-              date: date || "",
-              notes: notes || "",
-            })
-          );
-        }
-      }
-      continue;
-    }
-
-    // Parse crop:variety format (e.g., "Tomato:Roma" or just "Tomato")
-    const { crop, variety } = parseCropVariety(cropVariety || "");
+  try {
+    const sheets = await sheetsClient.listSheets(spreadsheetId);
+    const sheetId = sheets.find((sheet) => sheet.title === sheetName)?.sheetId;
 
-    if (crop.trim()) {
-      parsedData.push(
-        buildCropRecord({
-          sheetName,
-          bed: bed || "",
-          crop,
-          variety,
-          trays: trays || "",
-          rows: rowsCount || "",
-          date: date || "",
-          notes: notes || "",
-        })
-      );
-    }
+    await convex.mutation(api.syncRuns.recordSyncRunSheet, {
+      runId: syncRunId,
+      sheet: { sheetName, sheetId, rowCount, recordCount },
+      warnings,
+    });
+  } catch (error) {
+    console.error("Error recording sync run:", error);
   }
-
-  return parsedData;
 }
 
 export async function POST(
@@ -252,9 +80,15 @@ export async function POST(
       );
     }
 
-    // Get sheet name from request body
+    // Get sheet name from request body. dryRun returns a diff against Convex
+    // without writing anything; syncRunId is the run (from
+    // syncRuns.startSyncRun) to record this sheet and its warnings in.
+    // columnMapping and seasonYear override what's saved in settings
+    // (onboarding sends them before settings exist).
     const body = await request.json();
     const { sheetName } = body;
+    const dryRun = body.dryRun === true;
+    const syncRunId: Id<"syncRuns"> | undefined = body.syncRunId || undefined;
 
     if (!sheetName) {
       return NextResponse.json(
@@ -283,6 +117,9 @@ export async function POST(
       );
     }
 
+    // Call Convex as the signed-in admin
+    const convex = await getAuthenticatedConvexHttpClient();
+
     // Fetch sheet data
     const sheetsClient = new GoogleSheetsClient(accessToken);
     const data = await sheetsClient.getSpreadsheetData(
@@ -305,8 +142,21 @@ export async function POST(
       // Parse Qualifiers data (separates universal and crop-specific)
       const { vegetables, universalQualifiers } = parseQualifiersSheet(stringValues);
 
+      if (dryRun) {
+        const existing = await convex.query(api.sheets.getQualifiersForSync);
+
+        return NextResponse.json({
+          success: true,
+          dryRun: true,
+          preview: previewQualifierSync(sheetName, stringValues.length, existing, {
+            vegetables,
+            universalQualifiers,
+          }),
+        });
+      }
+
       // Sync crop-specific qualifiers to Convex
-      const qualifiersResult = await getConvexHttpClient().mutation(
+      const qualifiersResult = await convex.mutation(
         api.sheets.syncQualifiers,
         {
           qualifiers: vegetables,
@@ -314,7 +164,7 @@ export async function POST(
       );
 
       // Sync universal qualifiers separately
-      const universalResult = await getConvexHttpClient().mutation(
+      const universalResult = await convex.mutation(
         api.sheets.syncUniversalQualifiers,
         {
           qualifiers: universalQualifiers,
@@ -322,7 +172,7 @@ export async function POST(
       );
 
       // Also store raw sheet data
-      const sheetResult = await getConvexHttpClient().mutation(
+      const sheetResult = await convex.mutation(
         api.sheets.syncSheetData,
         {
           spreadsheetId,
@@ -331,6 +181,19 @@ export async function POST(
         }
       );
 
+      if (syncRunId) {
+        await recordSheetInRun({
+          convex,
+          syncRunId,
+          sheetsClient,
+          spreadsheetId,
+          sheetName,
+          rowCount: stringValues.length,
+          recordCount: qualifiersResult.count + universalResult.count,
+          warnings: [],
+        });
+      }
+
       return NextResponse.json({
         success: true,
         synced: true,
@@ -344,10 +207,49 @@ export async function POST(
     }
 
     // Parse field data (non-Qualifiers sheets)
-    const parsedData = parseSheetData(stringValues, sheetName);
+    const parseOptions = await convex.query(
+      api.sheets.getFieldSheetParseOptions,
+      { sheetName }
+    );
+    if (body.columnMapping !== undefined) {
+      parseOptions.mapping = toColumnMapping(body.columnMapping);
+    }
+    if (Number.isInteger(body.seasonYear)) {
+      parseOptions.seasonYear = body.seasonYear;
+    }
+    const { records: parsedData, warnings } = parseSheetDataWithWarnings(
+      stringValues,
+      sheetName,
+      parseOptions
+    );
+
+    if (dryRun) {
+      const field = parsedData[0]?.field ?? sheetName;
+      const existingCrops = await convex.query(
+        api.sheets.getCropsForSync,
+        { field }
+      );
+      // Preview what the sync would store, with confirmed replantings applied
+      const reviews = await convex.query(
+        api.replanting.getReplantingReviewsForSync,
+        { field }
+      );
+      const { records } = applyReplantingReviews(parsedData, reviews);
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        preview: previewFieldSync(
+          sheetName,
+          stringValues.length,
+          existingCrops,
+          records
+        ),
+      });
+    }
 
     // Sync to Convex
-    const convexResult = await getConvexHttpClient().mutation(
+    const convexResult = await convex.mutation(
       api.sheets.syncSheetData,
       {
         spreadsheetId,
@@ -357,16 +259,44 @@ export async function POST(
       }
     );
 
+    if (syncRunId) {
+      await recordSheetInRun({
+        convex,
+        syncRunId,
+        sheetsClient,
+        spreadsheetId,
+        sheetName,
+        rowCount: stringValues.length,
+        recordCount: parsedData.length,
+        warnings,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       synced: true,
       rowCount: stringValues.length,
       cropsCount: convexResult.cropsCount,
+      changes: convexResult.changes,
+      warnings,
       convexResult,
     });
   } catch (error) {
     console.error("Error syncing sheet data:", error);
 
+    // Header row doesn't have the columns the parser needs; nothing was written
+    if (error instanceof ColumnMappingError) {
+      return NextResponse.json(
+        {
+          error: "Missing columns",
+          code: "MISSING_COLUMNS",
+          message: error.message,
+          missingColumns: error.missingColumns,
+        },
+        { status: 422 }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
     // Check if the error is due to sheet not found (renamed or deleted)
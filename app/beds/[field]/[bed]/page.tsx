@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SeasonSwitcher } from "@/components/season-switcher";
+import { cn } from "@/lib/utils";
+
+function Skeleton({ className }: { className?: string }) {
+  return (
+    <div className={cn("animate-pulse rounded-md bg-muted/50", className)} />
+  );
+}
+
+function formatDay(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+// plantedOn is a calendar date, so format it without shifting time zones
+function formatPlantedOn(plantedOn: string) {
+  return new Date(`${plantedOn}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+  });
+}
+
+function LogList({ logs }: { logs: Doc<"qualityLogs">[] }) {
+  return (
+    <ul className="space-y-2">
+      {logs.map((log) => (
+        <li key={log._id} className="rounded-lg bg-muted/50 p-3 text-sm">
+          <p className="text-xs text-muted-foreground">
+            {formatDay(log.assessmentDate)}
+            {log.loggedByName && ` · ${log.loggedByName}`}
+            {log.cropAgeDays !== undefined && ` · day ${log.cropAgeDays}`}
+          </p>
+          {log.responses.length > 0 && (
+            <p className="mt-1">
+              {log.responses
+                .map((response) => `${response.question} ${response.answer}`)
+                .join(" · ")}
+            </p>
+          )}
+          {log.logNotes && (
+            <p className="mt-1 text-muted-foreground">{log.logNotes}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function BedHistoryPage() {
+  const router = useRouter();
+  const params = useParams<{ field: string; bed: string }>();
+  const searchParams = useSearchParams();
+  const field = decodeURIComponent(params.field);
+  const bed = decodeURIComponent(params.bed);
+
+  // null shows the active season; links from an archived log pass ?season=
+  const [seasonId, setSeasonId] = useState<Id<"seasons"> | null>(
+    searchParams.get("season") as Id<"seasons"> | null,
+  );
+  const history = useQuery(api.plantingHistory.getBedHistory, {
+    field,
+    bed,
+    ...(seasonId ? { seasonId } : {}),
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Bed {bed}</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {field} · every planting this bed has held, with its quality
+              logs
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <SeasonSwitcher value={seasonId} onChange={setSeasonId} />
+            <Button variant="outline" onClick={() => router.push("/dashboard")}>
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Planting Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history === undefined ? (
+              <div className="space-y-2">
+                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-20 w-full" />
+              </div>
+            ) : history.plantings.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-border p-6 text-center text-sm text-muted-foreground">
+                No plantings recorded for this bed yet.
+              </div>
+            ) : (
+              <ol className="space-y-6 border-l border-border pl-6">
+                {history.plantings.map((planting) => {
+                  const onSheet =
+                    planting.removedAt === undefined &&
+                    planting.replacedAt === undefined;
+
+                  return (
+                    <li key={planting._id} className="relative space-y-2">
+                      <span
+                        className={cn(
+                          "absolute -left-[1.85rem] top-1.5 h-3 w-3 rounded-full border-2 border-background",
+                          onSheet ? "bg-emerald-500" : "bg-muted-foreground",
+                        )}
+                      />
+                      <div>
+                        <p className="font-medium">
+                          {planting.crop}
+                          {planting.variety && `: ${planting.variety}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Planted{" "}
+                          {planting.plantedOn
+                            ? formatPlantedOn(planting.plantedOn)
+                            : planting.date || "on an unknown date"}
+                          {" · "}first synced {formatDay(planting.firstSeenAt)}
+                        </p>
+                      </div>
+
+                      {planting.replacedAt !== undefined && (
+                        <p className="text-sm text-amber-700 dark:text-amber-400">
+                          Replaced
+                          {planting.replacedBy &&
+                            ` by ${planting.replacedBy.crop}${
+                              planting.replacedBy.variety
+                                ? `: ${planting.replacedBy.variety}`
+                                : ""
+                            }`}{" "}
+                          (seen {formatDay(planting.replacedAt)})
+                        </p>
+                      )}
+                      {planting.removedAt !== undefined &&
+                        planting.replacedAt === undefined && (
+                          <p className="text-sm text-muted-foreground">
+                            Removed from the sheet{" "}
+                            {formatDay(planting.removedAt)}
+                          </p>
+                        )}
+                      {onSheet && (
+                        <p className="text-sm text-emerald-700 dark:text-emerald-400">
+                          On the sheet now
+                        </p>
+                      )}
+
+                      {planting.notes && (
+                        <p className="text-sm text-muted-foreground">
+                          {planting.notes}
+                        </p>
+                      )}
+
+                      {planting.logs.length > 0 ? (
+                        <LogList logs={planting.logs} />
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          No quality logs
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        {history && history.unlinkedLogs.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Other Logs for This Bed</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Logged against this bed without a matching planting.
+              </p>
+              <LogList logs={history.unlinkedLogs} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,11 +19,27 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  buildResponse,
+  getAnswerOptions,
+  getQuestionType,
+  getResponseAnswers,
+  getResponseInput,
+  getShownQuestions,
+  TypedQuestion,
+  usesOptionList,
+} from "@/lib/assessment-types";
+import { findQualifierForCrop } from "@/lib/crop-matching";
+import { DEFAULT_LOCATION } from "@/lib/locations";
 import { cn } from "@/lib/utils";
 import { UserButton } from "@clerk/clerk-react";
 import { useUser } from "@clerk/nextjs";
-import { Id } from "@/convex/_generated/dataModel";
+import { Doc, Id } from "@/convex/_generated/dataModel";
 import { MapboxMap } from "@/components/map";
+import { SeasonSwitcher } from "@/components/season-switcher";
 
 interface SheetConfig {
   spreadsheetId: string;
@@ -33,6 +49,299 @@ interface SheetConfig {
   adminEmail?: string;
 }
 
+// Every question that could apply to a log's crop: universal questions plus
+// the crop's qualifier, found the way the log form finds it (plurals, admin
+// aliases and the crop's location; see lib/crop-matching.ts).
+function getLogQuestions(
+  log: Doc<"qualityLogs">,
+  location: string,
+  qualifiers: Doc<"qualifiers">[] | undefined,
+  universalQualifiers: Doc<"universalQualifiers">[] | undefined,
+  cropAliases: Doc<"cropAliases">[] | undefined,
+): Map<string, TypedQuestion> {
+  const questions = new Map<string, TypedQuestion>();
+
+  for (const qualifier of universalQualifiers ?? []) {
+    questions.set(qualifier.name, qualifier);
+  }
+
+  const qualifier = findQualifierForCrop(
+    log.crop,
+    location,
+    qualifiers ?? [],
+    cropAliases ?? [],
+  );
+  for (const assessment of qualifier?.assessments ?? []) {
+    questions.set(assessment.name, assessment);
+  }
+
+  // Keep answers to questions that have since been removed or changed
+  // editable too, as the type they were answered as
+  for (const response of log.responses) {
+    const known = questions.get(response.question);
+    const question: TypedQuestion =
+      known && getQuestionType(known) === getQuestionType(response)
+        ? known
+        : {
+            name: response.question,
+            options: [],
+            type: response.type,
+            unit: response.unit,
+          };
+    const missingOptions = usesOptionList(question.type)
+      ? getResponseAnswers(response).filter(
+          (answer) => !question.options.includes(answer),
+        )
+      : [];
+    questions.set(response.question, {
+      ...question,
+      options: [...question.options, ...missingOptions],
+    });
+  }
+
+  return questions;
+}
+
+// Edit input for one question, matching its type
+function EditAnswerInput({
+  question,
+  value,
+  onChange,
+}: {
+  question: TypedQuestion;
+  value: string | string[] | undefined;
+  onChange: (value: string | string[]) => void;
+}) {
+  const type = getQuestionType(question);
+  const text = typeof value === "string" ? value : "";
+
+  if (type === "number") {
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          aria-label={question.name}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        {question.unit && (
+          <span className="text-sm text-muted-foreground">{question.unit}</span>
+        )}
+      </div>
+    );
+  }
+
+  if (type === "text") {
+    return (
+      <Textarea
+        aria-label={question.name}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        className="min-h-16"
+      />
+    );
+  }
+
+  if (type === "multi") {
+    const selected = Array.isArray(value) ? value : [];
+    return (
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {getAnswerOptions(question).map((option) => (
+          <label key={option} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.includes(option)}
+              onChange={(e) =>
+                onChange(
+                  e.target.checked
+                    ? [...selected, option]
+                    : selected.filter((answer) => answer !== option),
+                )
+              }
+            />
+            {option}
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <select
+      aria-label={question.name}
+      value={text}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full h-9 rounded-md border border-border bg-background px-2 text-sm"
+    >
+      <option value="">No answer</option>
+      {getAnswerOptions(question).map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Edit answers and notes on an existing log
+function EditLogDialog({
+  log,
+  questions,
+  onClose,
+}: {
+  log: Doc<"qualityLogs">;
+  questions: Map<string, TypedQuestion>;
+  onClose: () => void;
+}) {
+  const updateQualityLog = useMutation(api.sheets.updateQualityLog);
+  const [answers, setAnswers] = useState<Record<string, string | string[]>>(
+    () =>
+      Object.fromEntries(
+        log.responses.map((response) => [
+          response.question,
+          getResponseInput(response),
+        ]),
+      ),
+  );
+  const [notes, setNotes] = useState(log.logNotes ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow-ups show once their condition is met, as on the log form; answers
+  // to hidden ones aren't saved
+  const allResponses = [...questions.values()].flatMap((question) => {
+    const input = answers[question.name];
+    const response = input && buildResponse(question, input);
+    return response ? [response] : [];
+  });
+  const shownQuestions = getShownQuestions(
+    [...questions.values()],
+    allResponses,
+  );
+  const shownNames = new Set(shownQuestions.map((question) => question.name));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await updateQualityLog({
+        id: log._id,
+        responses: allResponses.filter((response) =>
+          shownNames.has(response.question),
+        ),
+        logNotes: notes,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save changes.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Quality Log</DialogTitle>
+          <DialogDescription>
+            {log.crop}
+            {log.variety && ` (${log.variety})`} — {log.field}, Bed {log.bed}.
+            The original answers are kept in the edit history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {shownQuestions.map((question) => (
+            <div key={question.name} className="space-y-1">
+              <Label className="text-sm">{question.name}</Label>
+              <EditAnswerInput
+                question={question}
+                value={answers[question.name]}
+                onChange={(value) =>
+                  setAnswers((prev) => ({ ...prev, [question.name]: value }))
+                }
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <Label htmlFor="edit-log-notes" className="text-sm">
+              Additional notes
+            </Label>
+            <Textarea
+              id="edit-log-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="min-h-20"
+            />
+          </div>
+
+          {error && (
+            <p className="rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Edit history for a single log
+function LogHistory({ logId }: { logId: Id<"qualityLogs"> }) {
+  const revisions = useQuery(api.sheets.getQualityLogRevisions, { logId });
+
+  if (revisions === undefined) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This log has not been edited.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {revisions.map((revision) => (
+        <div
+          key={revision._id}
+          className="border border-border rounded-lg p-3 text-sm"
+        >
+          <p className="text-xs text-muted-foreground mb-2">
+            {new Date(revision.editedAt).toLocaleString()}
+            {revision.editedByName && ` by ${revision.editedByName}`}
+          </p>
+          <ul className="space-y-1">
+            {revision.changes.map((change, index) => (
+              <li key={index}>
+                <span className="font-medium">{change.field}:</span>{" "}
+                <span className="text-muted-foreground line-through">
+                  {change.before || "—"}
+                </span>{" "}
+                → {change.after || "—"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // Skeleton component
 function Skeleton({ className }: { className?: string }) {
   return (
@@ -119,15 +428,39 @@ export default function DashboardPage() {
   const [logToDelete, setLogToDelete] = useState<Id<"qualityLogs"> | null>(
     null,
   );
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // null shows the active season
+  const [seasonId, setSeasonId] = useState<Id<"seasons"> | null>(null);
 
   // Check if user is admin (using Clerk publicMetadata)
   const isAdmin = user?.publicMetadata?.role === "admin";
 
+  const seasons = useQuery(api.seasons.getSeasons);
+  const viewedSeason = seasonId
+    ? seasons?.find((season) => season._id === seasonId)
+    : undefined;
+  const viewingArchivedSeason = viewedSeason?.status === "archived";
+
+  // Authors can edit/delete their own logs; admins can change any log.
+  // Past seasons are read-only. Convex enforces the same rules in
+  // updateQualityLog/deleteQualityLog.
+  const canModifyLog = (log: Doc<"qualityLogs">) =>
+    !viewingArchivedSeason &&
+    (isAdmin || (!!user && log.loggedByUserId === user.id));
+
   // Convex queries and mutations
-  const crops = useQuery(api.sheets.getAllCrops);
-  const qualityLogs = useQuery(api.sheets.getRecentQualityLogs, { limit: 10 });
-  const uniqueFields = useQuery(api.sheets.getUniqueFields);
-  const uniqueVarieties = useQuery(api.sheets.getUniqueVarieties);
+  const seasonArgs = seasonId ? { seasonId } : {};
+  const crops = useQuery(api.sheets.getAllCrops, seasonArgs);
+  const qualityLogs = useQuery(api.sheets.getRecentQualityLogs, {
+    limit: 10,
+    ...seasonArgs,
+  });
+  const uniqueFields = useQuery(api.sheets.getUniqueFields, seasonArgs);
+  const uniqueVarieties = useQuery(api.sheets.getUniqueVarieties, seasonArgs);
+  const qualifiers = useQuery(api.sheets.getAllQualifiers);
+  const universalQualifiers = useQuery(api.sheets.getAllUniversalQualifiers);
+  const cropAliases = useQuery(api.cropAliases.getCropAliases);
   const deleteQualityLog = useMutation(api.sheets.deleteQualityLog);
 
   // Handle delete quality log
@@ -201,9 +534,28 @@ export default function DashboardPage() {
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
             <h1 className="text-2xl font-bold">Dashboard — <span className="font-normal text-muted-foreground">Hello, {user?.firstName ?? "there"}!</span></h1>
-            <p className="text-muted-foreground text-sm">{config?.spreadsheetName}</p>
+            <p className="text-muted-foreground text-sm">
+              {viewedSeason?.spreadsheetName ?? config?.spreadsheetName}
+            </p>
           </div>
           <div className="flex items-center gap-2">
+            <SeasonSwitcher value={seasonId} onChange={setSeasonId} />
+            {isAdmin && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push("/admin/users")}
+                >
+                  Users
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push("/admin/sync")}
+                >
+                  Sync
+                </Button>
+              </>
+            )}
             <Button
               variant="destructive"
               onClick={() => router.push("/help")}
@@ -214,12 +566,20 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {viewingArchivedSeason && (
+          <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-700 dark:text-amber-400">
+            You&apos;re viewing the archived {viewedSeason.name} season. Its
+            plantings and logs are read-only.
+          </div>
+        )}
+
         {/* Main Action Buttons */}
         <div className="grid grid-cols-2 gap-4">
           <Button
             onClick={() => router.push("/log-data")}
             className="h-16 text-lg"
             size="lg"
+            disabled={viewingArchivedSeason}
           >
             Log Data
           </Button>
@@ -301,7 +661,10 @@ export default function DashboardPage() {
                     className="w-full flex items-center justify-between py-2 border-b border-border/50 last:border-0"
                   >
                     <button
-                      onClick={() => setSelectedLogId(log._id)}
+                      onClick={() => {
+                        setSelectedLogId(log._id);
+                        setShowHistory(false);
+                      }}
                       className="flex-1 flex items-center justify-between hover:bg-muted/30 rounded px-2 py-1 -mx-2 transition-colors cursor-pointer text-left"
                     >
                       <div>
@@ -317,6 +680,11 @@ export default function DashboardPage() {
                         <p className="text-sm text-muted-foreground">
                           {log.field} - Bed {log.bed}
                         </p>
+                        {log.loggedByName && (
+                          <p className="text-xs text-muted-foreground">
+                            Logged by {log.loggedByName}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="text-sm text-muted-foreground">
@@ -324,6 +692,7 @@ export default function DashboardPage() {
                         </p>
                         <p className="text-xs text-muted-foreground">
                           {log.responses.length} responses
+                          {log.revisionCount ? " · edited" : ""}
                         </p>
                       </div>
                     </button>
@@ -332,17 +701,23 @@ export default function DashboardPage() {
                       size="sm"
                       className={cn(
                         "ml-2 text-destructive hover:text-destructive hover:bg-destructive/10",
-                        !isAdmin && "opacity-40 cursor-not-allowed",
+                        !canModifyLog(log) && "opacity-40 cursor-not-allowed",
                       )}
-                      disabled={!isAdmin}
+                      disabled={!canModifyLog(log)}
                       onClick={(e) => {
                         e.stopPropagation();
-                        if (isAdmin) {
+                        if (canModifyLog(log)) {
                           setLogToDelete(log._id);
                           setShowDeleteConfirmDialog(true);
                         }
                       }}
-                      title={isAdmin ? "Delete log" : "Admin only"}
+                      title={
+                        canModifyLog(log)
+                          ? "Delete log"
+                          : viewingArchivedSeason
+                            ? "Archived season"
+                            : "Author or admin only"
+                      }
                     >
                       <svg
                         className="w-4 h-4"
@@ -383,10 +758,19 @@ export default function DashboardPage() {
                     )}
                   </DialogTitle>
                   <DialogDescription>
-                    Logged on{" "}
+                    Observed on{" "}
                     {new Date(selectedLog.assessmentDate).toLocaleDateString()}{" "}
                     at{" "}
                     {new Date(selectedLog.assessmentDate).toLocaleTimeString()}
+                    {selectedLog.loggedByName &&
+                      ` by ${selectedLog.loggedByName}`}
+                    {Math.abs(selectedLog.createdAt - selectedLog.assessmentDate) >
+                      60_000 && (
+                      <span className="block text-xs">
+                        Entered{" "}
+                        {new Date(selectedLog.createdAt).toLocaleString()}
+                      </span>
+                    )}
                   </DialogDescription>
                 </DialogHeader>
 
@@ -403,9 +787,25 @@ export default function DashboardPage() {
                       <span className="text-muted-foreground block text-xs mb-1">
                         Bed
                       </span>
-                      <span className="font-medium">
-                        {selectedLog.bed || "—"}
-                      </span>
+                      {selectedLog.bed ? (
+                        <button
+                          onClick={() =>
+                            router.push(
+                              `/beds/${encodeURIComponent(selectedLog.field)}/${encodeURIComponent(selectedLog.bed)}${
+                                viewingArchivedSeason && selectedLog.seasonId
+                                  ? `?season=${selectedLog.seasonId}`
+                                  : ""
+                              }`,
+                            )
+                          }
+                          className="font-medium underline underline-offset-2 cursor-pointer"
+                          title="Bed history"
+                        >
+                          {selectedLog.bed}
+                        </button>
+                      ) : (
+                        <span className="font-medium">—</span>
+                      )}
                     </div>
                     <div className="bg-muted/50 rounded-lg p-3">
                       <span className="text-muted-foreground block text-xs mb-1">
@@ -470,12 +870,54 @@ export default function DashboardPage() {
                       </p>
                     </div>
                   )}
+
+                  {/* Edit History */}
+                  {showHistory && (
+                    <div>
+                      <h3 className="text-sm font-semibold mb-3">
+                        Edit History
+                      </h3>
+                      <LogHistory logId={selectedLog._id} />
+                    </div>
+                  )}
                 </div>
+
+                <DialogFooter>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowHistory((prev) => !prev)}
+                  >
+                    {showHistory
+                      ? "Hide History"
+                      : `History (${selectedLog.revisionCount ?? 0})`}
+                  </Button>
+                  {canModifyLog(selectedLog) && (
+                    <Button onClick={() => setShowEditDialog(true)}>
+                      Edit
+                    </Button>
+                  )}
+                </DialogFooter>
               </>
             )}
           </DialogContent>
         </Dialog>
 
+        {/* Edit Quality Log Dialog */}
+        {showEditDialog && selectedLog && (
+          <EditLogDialog
+            log={selectedLog}
+            questions={getLogQuestions(
+              selectedLog,
+              crops?.find((crop) => crop._id === selectedLog.cropId)
+                ?.location ?? DEFAULT_LOCATION,
+              qualifiers,
+              universalQualifiers,
+              cropAliases,
+            )}
+            onClose={() => setShowEditDialog(false)}
+          />
+        )}
+
         {/* Delete Quality Log Confirmation Dialog */}
         <Dialog
           open={showDeleteConfirmDialog}
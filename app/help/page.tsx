@@ -74,13 +74,18 @@ const appFeatures = [
 const spreadsheetReads = [
   "Field sheets such as Field 3, HT 1, or Greenhouse for planting data",
   "The Qualifiers sheet for crop-specific assessment questions",
+  "Type tags on Qualifiers headers, such as Yield [number:lbs], Flavor [rating], Pests? [multi], Notes [text], or Split? [yesno]",
+  "Rule tags on Qualifiers headers: [required], or [if Buggy? = very] to ask a follow-up only after that answer",
   "Field names to detect whether a crop is in a field, greenhouse, or high tunnel",
   "Notes that mention replanted beds or multiple crops in a single bed",
 ];
 
 const tips = [
-  "Keep the Qualifiers sheet up to date so forms show the right questions.",
+  "Keep the Qualifiers sheet up to date so forms show the right questions, or set the qualifier source to the app and edit questions on the qualifiers page instead.",
   "Use qualifier coverage after each sync to find crops that are missing crop-specific questions.",
+  "After rewording a question in the Qualifiers sheet, add it under Renamed Questions on the qualifiers page so older answers stay in the same analytics chart.",
+  "Tag your planting quantity questions on the qualifiers page and say what each answer means, so the analytics planting charts count every answer.",
+  "Before ordering seed, download the planting plan from the analytics page for suggested trays and rows per crop. Suggestions with low confidence rest on only a few assessments.",
   "Re-sync after editing Google Sheets because the app reads from its synced copy.",
   "Watch for warning badges on replanted beds so you can spot crop changes quickly.",
   "Use the app on a phone or tablet while walking the fields for faster logging.",
@@ -345,7 +350,11 @@ export default function HelpPage() {
               <p>
                 Open a crop from the coverage page to see the universal
                 questions and any crop-specific questions that will appear when
-                logging quality data.
+                logging quality data. Admins can edit a crop&apos;s questions
+                there. While the Qualifiers sheet is the source, the next sync
+                replaces those edits; when the app is the source, syncs only
+                list the sheet&apos;s changes for an admin to accept or
+                dismiss. Edits are never written back to the sheet.
               </p>
             </div>
             <div className="flex flex-col justify-between gap-4 rounded-2xl border border-border/60 bg-muted/20 p-4">
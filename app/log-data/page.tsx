@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useQuery, useMutation } from "convex/react";
+import { useConvexAuth, useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
@@ -13,8 +13,41 @@ import {
   CardTitle,
   CardDescription,
 } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AssessmentResponse,
+  buildResponse,
+  combineQuestions,
+  getAnswerOptions,
+  getMissingRequiredQuestions,
+  getQuestionType,
+  getShownQuestions,
+  TypedQuestion,
+} from "@/lib/assessment-types";
+import { findQualifierForCrop, getBaseCropName } from "@/lib/crop-matching";
+import { DEFAULT_LOCATION } from "@/lib/locations";
 import { cn } from "@/lib/utils";
 import { MapboxMap, MapFeature } from "@/components/map";
+import {
+  QueuedQualityLog,
+  SubmitTimeoutError,
+  createIdempotencyKey,
+  flushQueuedQualityLogs,
+  getQueuedQualityLogs,
+  getSubmitErrorMessage,
+  loadSnapshot,
+  queueQualityLog,
+  removeQueuedQualityLog,
+  saveSnapshot,
+  shouldQueueFailedSubmit,
+  toQualityLogArgs,
+} from "@/lib/offline-outbox";
 
 // Types
 interface Crop {
@@ -34,6 +67,11 @@ interface Crop {
     date: string;
     notes: string;
   };
+  // Set when the notes name a new crop but the row still lists the old one
+  replantedWith?: {
+    crop: string;
+    variety: string;
+  };
   lastSynced: number;
 }
 
@@ -41,104 +79,88 @@ interface Qualifier {
   _id: Id<"qualifiers">;
   name: string;
   location?: string;
-  assessments: {
-    name: string;
-    options: string[];
-  }[];
-  lastSynced: number;
-}
-
-interface UniversalQualifier {
-  _id: Id<"universalQualifiers">;
-  name: string;
-  options: string[];
-  order: number;
+  assessments: TypedQuestion[];
   lastSynced: number;
 }
 
 type Step = "select-field" | "select-crop" | "data-entry" | "success";
 type ViewMode = "list" | "map";
 
-// Helper to extract base crop name (before colon)
-function getBaseCropName(cropName: string): string {
-  return cropName.split(":")[0].trim();
-}
+const SUBMIT_TIMEOUT_MS = 8000;
 
-// Helper to detect location from field name
-// Common patterns: "HT", "High Tunnel", "Greenhouse", etc.
-function detectLocationFromField(fieldName: string): string | undefined {
-  const normalized = fieldName.toLowerCase();
-
-  // Check for high tunnel
-  if (
-    normalized.includes("ht") ||
-    normalized.includes("high tunnel") ||
-    normalized.includes("hightunnel")
-  ) {
-    return "HT";
-  }
+// Mirrors the bounds createQualityLog enforces on observed-at timestamps.
+const MAX_BACKDATE_DAYS = 365;
 
-  // Check for greenhouse
-  if (normalized.includes("greenhouse") || normalized.includes("gh")) {
-    return "greenhouse";
-  }
+function formatTimeInput(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
 
-  // Otherwise, it's likely a field
-  if (normalized.includes("field")) {
-    return "field";
-  }
+function withTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const next = new Date(date);
+  next.setHours(hours || 0, minutes || 0, 0, 0);
+  return next;
+}
 
-  // Default to field for outdoor locations
-  return "field";
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new SubmitTimeoutError(ms)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
 }
 
-// Helper to get the best matching qualifier for a crop
-function findBestQualifier(
-  cropName: string,
-  fieldName: string,
-  qualifiers: Qualifier[] | undefined,
-): Qualifier | null {
-  if (!qualifiers || qualifiers.length === 0) return null;
-
-  const baseCropName = getBaseCropName(cropName);
-  const location = detectLocationFromField(fieldName);
-
-  // First, try to find a location-specific match
-  const locationMatch = qualifiers.find(
-    (q) =>
-      q.name.toLowerCase() === baseCropName.toLowerCase() &&
-      q.location?.toLowerCase() === location?.toLowerCase(),
-  );
+// Keep the last server copy of a query in IndexedDB so the form still works
+// with no signal. Returns the live value when available, otherwise the cache.
+function useOfflineSnapshot<T>(key: string, live: T | undefined): T | undefined {
+  const [cached, setCached] = useState<T | undefined>(undefined);
+
+  useEffect(() => {
+    if (live !== undefined) {
+      saveSnapshot(key, live).catch((error) =>
+        console.warn(`Failed to cache ${key}:`, error),
+      );
+      return;
+    }
 
-  if (locationMatch) return locationMatch;
+    let cancelled = false;
+    loadSnapshot<T>(key)
+      .then((value) => {
+        if (!cancelled && value !== undefined) setCached(value);
+      })
+      .catch((error) => console.warn(`Failed to read cached ${key}:`, error));
 
-  // Fall back to generic match (no location specified)
-  const genericMatch = qualifiers.find(
-    (q) => q.name.toLowerCase() === baseCropName.toLowerCase() && !q.location,
-  );
+    return () => {
+      cancelled = true;
+    };
+  }, [key, live]);
 
-  return genericMatch || null;
+  return live ?? cached;
 }
 
-// Helper to get combined assessments (universal + crop-specific)
-function getCombinedAssessments(
-  qualifier: Qualifier | null,
-  universalQualifiers: UniversalQualifier[] | undefined,
-): { name: string; options: string[] }[] {
-  const assessmentsByName = new Map<string, { name: string; options: string[] }>();
-
-  for (const universalQualifier of universalQualifiers ?? []) {
-    assessmentsByName.set(universalQualifier.name, {
-      name: universalQualifier.name,
-      options: universalQualifier.options,
-    });
-  }
-
-  for (const assessment of qualifier?.assessments ?? []) {
-    assessmentsByName.set(assessment.name, assessment);
-  }
-
-  return [...assessmentsByName.values()];
+function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
 }
 
 // Skeleton components
@@ -324,8 +346,19 @@ function CropCard({
       {crop.replantedFrom && (
         <div className="mt-2 pt-2 border-t border-border/50">
           <p className="text-xs text-amber-600 dark:text-amber-500 font-medium">
-            ⚠ Replanted from: {crop.replantedFrom.crop}
-            {crop.replantedFrom.variety && ` (${crop.replantedFrom.variety})`}
+            {crop.replantedWith ? (
+              <>
+                ⚠ Replanted with: {crop.replantedWith.crop}
+                {crop.replantedWith.variety &&
+                  ` (${crop.replantedWith.variety})`}
+              </>
+            ) : (
+              <>
+                ⚠ Replanted from: {crop.replantedFrom.crop}
+                {crop.replantedFrom.variety &&
+                  ` (${crop.replantedFrom.variety})`}
+              </>
+            )}
           </p>
         </div>
       )}
@@ -333,33 +366,155 @@ function CropCard({
   );
 }
 
+const answerButtonClass = (selected: boolean) =>
+  cn(
+    "px-4 py-3 rounded-xl border-2 text-sm font-medium",
+    "transition-all duration-200 active:scale-[0.97]",
+    selected
+      ? "border-primary bg-primary text-primary-foreground"
+      : "border-border bg-card hover:border-primary/50 hover:bg-primary/5",
+  );
+
+// The input for one question: option buttons (toggles for multi-select), a
+// number field with its unit, or a text box
+function QuestionInput({
+  assessment,
+  value,
+  onChange,
+}: {
+  assessment: TypedQuestion;
+  value: string | string[] | undefined;
+  onChange: (value: string | string[]) => void;
+}) {
+  const type = getQuestionType(assessment);
+
+  if (type === "number") {
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          aria-label={assessment.name}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-12 max-w-40 text-base"
+        />
+        {assessment.unit && (
+          <span className="text-sm text-muted-foreground">
+            {assessment.unit}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  if (type === "text") {
+    return (
+      <textarea
+        aria-label={assessment.name}
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full h-20 p-3 rounded-lg border border-border bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
+      />
+    );
+  }
+
+  const selected = Array.isArray(value) ? value : value ? [value] : [];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {getAnswerOptions(assessment).map((option) => (
+        <button
+          key={option}
+          aria-pressed={selected.includes(option)}
+          onClick={() =>
+            onChange(
+              type === "multi"
+                ? selected.includes(option)
+                  ? selected.filter((answer) => answer !== option)
+                  : [...selected, option]
+                : option,
+            )
+          }
+          className={cn(
+            answerButtonClass(selected.includes(option)),
+            type === "rating" && "min-w-12",
+          )}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 // Data Entry Component - All questions on one page
 function DataEntryForm({
   assessments,
   selectedCrop,
+  submitError,
   onSubmit,
   onBack,
 }: {
-  assessments: { name: string; options: string[] }[];
+  assessments: TypedQuestion[];
   selectedCrop: Crop;
+  // Why the server refused the last submit
+  submitError: string | null;
   onSubmit: (
-    responses: { question: string; answer: string }[],
+    responses: AssessmentResponse[],
     notes?: string,
+    assessmentDate?: number,
   ) => void;
   onBack: () => void;
 }) {
-  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [inputs, setInputs] = useState<Record<string, string | string[]>>({});
   const [notes, setNotes] = useState("");
+  // null means "now" - the timestamp is taken at submit time
+  const [observedAt, setObservedAt] = useState<Date | null>(null);
+
+  // Blank inputs and numbers that don't parse are skipped
+  const allResponses = new Map<string, AssessmentResponse>();
+  for (const assessment of assessments) {
+    const input = inputs[assessment.name];
+    const response = input === undefined ? null : buildResponse(assessment, input);
+    if (response) allResponses.set(assessment.name, response);
+  }
+
+  // Follow-ups appear once their condition is met; answers to hidden ones
+  // aren't submitted
+  const shownAssessments = getShownQuestions(assessments, [
+    ...allResponses.values(),
+  ]);
+  const responses = new Map(
+    shownAssessments.flatMap((assessment) => {
+      const response = allResponses.get(assessment.name);
+      return response ? [[assessment.name, response] as const] : [];
+    }),
+  );
+  const missingRequired = getMissingRequiredQuestions(shownAssessments, [
+    ...responses.values(),
+  ]);
 
-  const answeredCount = Object.keys(responses).length;
+  const answeredCount = responses.size;
   const hasLogContent = answeredCount > 0 || notes.trim().length > 0;
+  const [observedInFuture, setObservedInFuture] = useState(false);
+  const [openedAt] = useState(() => new Date());
+  const earliestObservedDate = new Date(openedAt);
+  earliestObservedDate.setDate(
+    earliestObservedDate.getDate() - MAX_BACKDATE_DAYS,
+  );
+
+  const updateObservedAt = (date: Date | null) => {
+    setObservedAt(date);
+    setObservedInFuture(date !== null && date.getTime() > Date.now());
+  };
 
-  const handleOptionSelect = (question: string, answer: string) => {
-    setResponses((prev) => ({ ...prev, [question]: answer }));
+  const handleInputChange = (question: string, value: string | string[]) => {
+    setInputs((prev) => ({ ...prev, [question]: value }));
   };
 
   const handleClearResponse = (question: string) => {
-    setResponses((prev) => {
+    setInputs((prev) => {
       const next = { ...prev };
       delete next[question];
       return next;
@@ -367,13 +522,11 @@ function DataEntryForm({
   };
 
   const handleSubmit = () => {
-    const formattedResponses = Object.entries(responses).map(
-      ([question, answer]) => ({
-        question,
-        answer,
-      }),
+    onSubmit(
+      [...responses.values()],
+      notes.trim() || undefined,
+      observedAt?.getTime(),
     );
-    onSubmit(formattedResponses, notes.trim() || undefined);
   };
 
   return (
@@ -426,9 +579,21 @@ function DataEntryForm({
               <p className="text-sm text-amber-900 dark:text-amber-200">
                 <span className="font-semibold">⚠ Replanting History:</span>
                 <br />
-                Previously: {selectedCrop.replantedFrom.crop}
-                {selectedCrop.replantedFrom.variety &&
-                  ` (${selectedCrop.replantedFrom.variety})`}
+                {selectedCrop.replantedWith ? (
+                  <>
+                    Replanted with: {selectedCrop.replantedWith.crop}
+                    {selectedCrop.replantedWith.variety &&
+                      ` (${selectedCrop.replantedWith.variety})`}
+                  </>
+                ) : (
+                  <>
+                    Previously: {selectedCrop.replantedFrom.crop}
+                    {selectedCrop.replantedFrom.variety &&
+                      ` (${selectedCrop.replantedFrom.variety})`}
+                  </>
+                )}
+                {selectedCrop.replantedFrom.date &&
+                  ` · ${selectedCrop.replantedFrom.date}`}
                 {selectedCrop.replantedFrom.notes && (
                   <>
                     <br />
@@ -446,16 +611,18 @@ function DataEntryForm({
       {/* Progress indicator */}
       <div className="flex flex-col gap-3 text-sm sm:flex-row sm:items-center sm:justify-between">
         <span className="text-muted-foreground">
-          {answeredCount} of {assessments.length} answered. Blank questions
-          will be skipped.
+          {answeredCount} of {shownAssessments.length} answered.{" "}
+          {missingRequired.length > 0
+            ? `${missingRequired.length} required still to answer.`
+            : "Blank questions will be skipped."}
         </span>
         <div className="flex flex-wrap items-center gap-2">
-          {assessments.map((a, index) => (
+          {shownAssessments.map((a, index) => (
             <div
               key={index}
               className={cn(
                 "w-2 h-2 rounded-full transition-all",
-                responses[a.name] ? "bg-primary" : "bg-muted",
+                responses.has(a.name) ? "bg-primary" : "bg-muted",
               )}
             />
           ))}
@@ -464,14 +631,19 @@ function DataEntryForm({
 
       {/* All Questions */}
       <div className="space-y-4">
-        {assessments.map((assessment) => (
+        {shownAssessments.map((assessment) => (
           <Card key={assessment.name}>
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between gap-3">
                 <CardTitle className="min-w-0 flex-1 text-base font-medium">
                   {assessment.name}
+                  {assessment.required && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">
+                      Required
+                    </span>
+                  )}
                 </CardTitle>
-                {responses[assessment.name] && (
+                {inputs[assessment.name] !== undefined && (
                   <Button
                     type="button"
                     variant="ghost"
@@ -484,28 +656,83 @@ function DataEntryForm({
               </div>
             </CardHeader>
             <CardContent className="pt-0">
-              <div className="flex flex-wrap gap-2">
-                {assessment.options.map((option) => (
-                  <button
-                    key={option}
-                    onClick={() => handleOptionSelect(assessment.name, option)}
-                    className={cn(
-                      "px-4 py-3 rounded-xl border-2 text-sm font-medium",
-                      "transition-all duration-200 active:scale-[0.97]",
-                      responses[assessment.name] === option
-                        ? "border-primary bg-primary text-primary-foreground"
-                        : "border-border bg-card hover:border-primary/50 hover:bg-primary/5",
-                    )}
-                  >
-                    {option}
-                  </button>
-                ))}
-              </div>
+              <QuestionInput
+                assessment={assessment}
+                value={inputs[assessment.name]}
+                onChange={(value) => handleInputChange(assessment.name, value)}
+              />
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {/* Observed-at section */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-3">
+            <CardTitle className="text-base font-medium">
+              When was this observed?
+            </CardTitle>
+            {observedAt && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateObservedAt(null)}
+              >
+                Use now
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-2">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Popover>
+              <PopoverTrigger className="h-10 flex-1 rounded-lg border border-border bg-background px-3 text-sm text-left">
+                {observedAt ? observedAt.toLocaleDateString() : "Today (now)"}
+              </PopoverTrigger>
+              <PopoverContent
+                side="bottom"
+                align="start"
+                sideOffset={4}
+                className="w-auto p-0"
+              >
+                <Calendar
+                  mode="single"
+                  selected={observedAt ?? openedAt}
+                  disabled={{
+                    after: openedAt,
+                    before: earliestObservedDate,
+                  }}
+                  onSelect={(date) => {
+                    if (!date) return;
+                    updateObservedAt(
+                      withTime(date, formatTimeInput(observedAt ?? new Date())),
+                    );
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <Input
+              type="time"
+              aria-label="Observed time"
+              value={formatTimeInput(observedAt ?? openedAt)}
+              onChange={(e) =>
+                updateObservedAt(
+                  withTime(observedAt ?? new Date(), e.target.value),
+                )
+              }
+              className="h-10 sm:w-36"
+            />
+          </div>
+          {observedInFuture && (
+            <p className="text-sm text-destructive">
+              The observed time can&apos;t be in the future.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Notes section */}
       <Card>
         <CardHeader className="pb-3">
@@ -523,25 +750,94 @@ function DataEntryForm({
         </CardContent>
       </Card>
 
+      {submitError && (
+        <p className="text-sm text-destructive">
+          The log wasn&apos;t saved: {submitError}
+        </p>
+      )}
+
       {/* Submit button */}
       <Button
         onClick={handleSubmit}
-        disabled={!hasLogContent}
+        disabled={
+          !hasLogContent || missingRequired.length > 0 || observedInFuture
+        }
         className="w-full h-14 text-lg"
       >
-        {hasLogContent
-          ? "Submit Log"
-          : "Answer at least one question or add a note"}
+        {missingRequired.length > 0
+          ? `Answer ${missingRequired.join(", ")}`
+          : hasLogContent
+            ? "Submit Log"
+            : "Answer at least one question or add a note"}
       </Button>
     </div>
   );
 }
 
+// Offline / pending-sync banner
+function OutboxBanner({
+  isOnline,
+  pendingCount,
+  rejectedLogs,
+  isFlushing,
+  onSyncNow,
+  onDiscard,
+}: {
+  isOnline: boolean;
+  pendingCount: number;
+  rejectedLogs: QueuedQualityLog[];
+  isFlushing: boolean;
+  onSyncNow: () => void;
+  onDiscard: (entry: QueuedQualityLog) => void;
+}) {
+  if (isOnline && pendingCount === 0 && rejectedLogs.length === 0) return null;
+
+  return (
+    <>
+      {rejectedLogs.map((entry) => (
+        <div
+          key={entry.idempotencyKey}
+          className="mb-4 flex flex-col gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive sm:flex-row sm:items-center sm:justify-between"
+        >
+          <span>
+            A log for {entry.crop} in {entry.field} saved offline wasn&apos;t
+            accepted{entry.lastError ? `: ${entry.lastError}` : "."}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => onDiscard(entry)}>
+            Discard
+          </Button>
+        </div>
+      ))}
+      {(!isOnline || pendingCount > 0) && (
+        <div className="mb-4 flex flex-col gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950/20 dark:text-amber-200 sm:flex-row sm:items-center sm:justify-between">
+          <span>
+            {!isOnline && "You're offline. Logs are saved on this device. "}
+            {pendingCount > 0 &&
+              `${pendingCount} log${pendingCount !== 1 ? "s" : ""} waiting to sync.`}
+          </span>
+          {isOnline && pendingCount > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onSyncNow}
+              disabled={isFlushing}
+            >
+              {isFlushing ? "Syncing..." : "Sync now"}
+            </Button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
 // Success Screen
 function SuccessScreen({
+  queued,
   onLogAnother,
   onGoToDashboard,
 }: {
+  queued: boolean;
   onLogAnother: () => void;
   onGoToDashboard: () => void;
 }) {
@@ -563,9 +859,13 @@ function SuccessScreen({
         </svg>
       </div>
       <div>
-        <h2 className="text-2xl font-bold mb-2">Log Submitted!</h2>
+        <h2 className="text-2xl font-bold mb-2">
+          {queued ? "Log Saved Offline" : "Log Submitted!"}
+        </h2>
         <p className="text-muted-foreground">
-          Your quality assessment has been saved successfully.
+          {queued
+            ? "Your assessment is stored on this device and will sync automatically when you're back online."
+            : "Your quality assessment has been saved successfully."}
         </p>
       </div>
       <div className="flex flex-col sm:flex-row gap-3 w-full max-w-sm">
@@ -594,19 +894,102 @@ export default function LogDataPage() {
   const [selectedFeature, setSelectedFeature] = useState<MapFeature | null>(
     null,
   );
+  const [lastSubmitQueued, setLastSubmitQueued] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [rejectedLogs, setRejectedLogs] = useState<QueuedQualityLog[]>([]);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const isOnline = useOnlineStatus();
+  const { isAuthenticated } = useConvexAuth();
 
   // Handle feature click - just show the data
   const handleFeatureClick = (feature: MapFeature) => {
     setSelectedFeature(feature);
   };
 
-  // Convex queries
-  const crops = useQuery(api.sheets.getAllCrops);
-  const qualifiers = useQuery(api.sheets.getAllQualifiers);
-  const universalQualifiers = useQuery(api.sheets.getAllUniversalQualifiers);
-  const uniqueFields = useQuery(api.sheets.getUniqueFields);
+  // Convex queries (cached locally for offline use)
+  const crops = useOfflineSnapshot(
+    "crops",
+    useQuery(api.sheets.getAllCrops, {}),
+  );
+  const qualifiers = useOfflineSnapshot(
+    "qualifiers",
+    useQuery(api.sheets.getAllQualifiers),
+  );
+  const universalQualifiers = useOfflineSnapshot(
+    "universalQualifiers",
+    useQuery(api.sheets.getAllUniversalQualifiers),
+  );
+  const uniqueFields = useOfflineSnapshot(
+    "uniqueFields",
+    useQuery(api.sheets.getUniqueFields, {}),
+  );
+  const cropAliases = useOfflineSnapshot(
+    "cropAliases",
+    useQuery(api.cropAliases.getCropAliases),
+  );
   const createQualityLog = useMutation(api.sheets.createQualityLog);
 
+  const refreshPendingCount = useCallback(async () => {
+    try {
+      const queued = await getQueuedQualityLogs();
+      setPendingCount(queued.filter((entry) => !entry.rejected).length);
+      setRejectedLogs(queued.filter((entry) => entry.rejected));
+    } catch (error) {
+      console.warn("Failed to read offline outbox:", error);
+    }
+  }, []);
+
+  const flushOutbox = useCallback(async () => {
+    setIsFlushing(true);
+    try {
+      await flushQueuedQualityLogs(async (entry) => {
+        const log = toQualityLogArgs(entry);
+        await withTimeout(
+          createQualityLog({
+            ...log,
+            cropId: log.cropId as Id<"crops"> | undefined,
+          }),
+          SUBMIT_TIMEOUT_MS,
+        );
+      });
+    } catch (error) {
+      console.warn("Failed to flush offline outbox:", error);
+    } finally {
+      setIsFlushing(false);
+      await refreshPendingCount();
+    }
+  }, [createQualityLog, refreshPendingCount]);
+
+  const discardRejectedLog = async (entry: QueuedQualityLog) => {
+    await removeQueuedQualityLog(entry.idempotencyKey);
+    await refreshPendingCount();
+  };
+
+  // Replay queued logs when connectivity returns. The service worker does the
+  // same via Background Sync where the browser supports it.
+  useEffect(() => {
+    refreshPendingCount();
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === "OUTBOX_FLUSHED") refreshPendingCount();
+    };
+    navigator.serviceWorker?.addEventListener("message", handleWorkerMessage);
+
+    return () => {
+      navigator.serviceWorker?.removeEventListener(
+        "message",
+        handleWorkerMessage,
+      );
+    };
+  }, [refreshPendingCount]);
+
+  // Wait for the Convex session too, or every queued log fails with
+  // "Not authenticated" on page load
+  useEffect(() => {
+    if (isOnline && isAuthenticated) flushOutbox();
+  }, [isOnline, isAuthenticated, flushOutbox]);
+
   // Get crops for selected field
   const fieldCrops =
     selectedField && crops
@@ -637,15 +1020,22 @@ export default function LogDataPage() {
   });
 
   // Get the qualifier definition for the selected crop
-  // Match by base crop name and location
+  // Match by crop name (plurals and admin aliases included; see
+  // lib/crop-matching.ts) and the crop's location
   const selectedQualifier = selectedCrop
-    ? findBestQualifier(selectedCrop.crop, selectedCrop.field, qualifiers)
+    ? findQualifierForCrop<Qualifier>(
+        selectedCrop.crop,
+        selectedCrop.location ?? DEFAULT_LOCATION,
+        qualifiers ?? [],
+        cropAliases ?? [],
+      )
     : null;
 
   // Get combined assessments (universal + crop-specific)
-  const combinedAssessments = getCombinedAssessments(
-    selectedQualifier,
-    universalQualifiers,
+  // Universal + crop-specific questions
+  const combinedAssessments = combineQuestions<TypedQuestion>(
+    universalQualifiers ?? [],
+    selectedQualifier?.assessments ?? [],
   );
 
   // Handle field selection
@@ -657,35 +1047,70 @@ export default function LogDataPage() {
   // Handle crop selection
   const handleCropSelect = (crop: Crop) => {
     setSelectedCrop(crop);
+    setSubmitError(null);
     setStep("data-entry");
   };
 
   // Handle form submission
   const handleSubmit = async (
-    responses: { question: string; answer: string }[],
+    responses: AssessmentResponse[],
     notes?: string,
+    assessmentDate?: number,
   ) => {
     if (!selectedCrop) return;
+    setSubmitError(null);
+
+    const entry: QueuedQualityLog = {
+      idempotencyKey: createIdempotencyKey(),
+      cropId: selectedCrop._id,
+      crop: selectedCrop.crop,
+      variety: selectedCrop.variety,
+      field: selectedCrop.field,
+      bed: selectedCrop.bed,
+      datePlanted: selectedCrop.date,
+      trays: selectedCrop.trays,
+      rows: selectedCrop.rows,
+      plantingNotes: selectedCrop.notes,
+      responses,
+      logNotes: notes,
+      assessmentDate: assessmentDate ?? Date.now(),
+      queuedAt: Date.now(),
+    };
+
+    if (navigator.onLine) {
+      try {
+        // A weak signal can leave the mutation pending indefinitely. Give up
+        // after a few seconds and queue it; the idempotency key makes it safe
+        // if the original request lands later.
+        await withTimeout(
+          createQualityLog({
+            ...toQualityLogArgs(entry),
+            cropId: selectedCrop._id,
+          }),
+          SUBMIT_TIMEOUT_MS,
+        );
+        setLastSubmitQueued(false);
+        setStep("success");
+        return;
+      } catch (error) {
+        // Only an unreachable server is worth retrying from the outbox; show
+        // anything the server refused so the user can fix it
+        if (!shouldQueueFailedSubmit(error)) {
+          setSubmitError(getSubmitErrorMessage(error));
+          return;
+        }
+        console.warn("Submit failed, saving to offline outbox:", error);
+      }
+    }
 
     try {
-      await createQualityLog({
-        cropId: selectedCrop._id,
-        crop: selectedCrop.crop,
-        variety: selectedCrop.variety,
-        field: selectedCrop.field,
-        bed: selectedCrop.bed,
-        datePlanted: selectedCrop.date,
-        trays: selectedCrop.trays,
-        rows: selectedCrop.rows,
-        plantingNotes: selectedCrop.notes,
-        responses,
-        logNotes: notes,
-      });
-
+      await queueQualityLog(entry);
+      await refreshPendingCount();
+      setLastSubmitQueued(true);
       setStep("success");
     } catch (error) {
-      console.error("Failed to submit log:", error);
-      alert("Failed to submit log. Please try again.");
+      console.error("Failed to save log offline:", error);
+      alert("Failed to save log. Please try again.");
     }
   };
 
@@ -735,6 +1160,15 @@ export default function LogDataPage() {
           </Button>
         </div>
 
+        <OutboxBanner
+          isOnline={isOnline}
+          pendingCount={pendingCount}
+          rejectedLogs={rejectedLogs}
+          isFlushing={isFlushing}
+          onSyncNow={flushOutbox}
+          onDiscard={discardRejectedLog}
+        />
+
         {/* No crops message */}
         {noCrops && (
           <Card className="p-8 text-center">
@@ -1014,6 +1448,7 @@ export default function LogDataPage() {
               <DataEntryForm
                 assessments={combinedAssessments}
                 selectedCrop={selectedCrop}
+                submitError={submitError}
                 onSubmit={handleSubmit}
                 onBack={handleBackToCrops}
               />
@@ -1037,6 +1472,7 @@ export default function LogDataPage() {
         {/* Success Step */}
         {step === "success" && (
           <SuccessScreen
+            queued={lastSubmitQueued}
             onLogAnother={handleLogAnother}
             onGoToDashboard={() => router.push("/dashboard")}
           />
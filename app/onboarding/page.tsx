@@ -2,10 +2,12 @@
 
 import { useEffect, useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 import { useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
   Combobox,
@@ -15,6 +17,9 @@ import {
   ComboboxItem,
 } from "@/components/ui/combobox";
 import { Card } from "@/components/ui/card";
+import { ColumnMappingEditor } from "@/components/column-mapping-editor";
+import type { ColumnMapping } from "@/lib/parse-field-sheet";
+import { inferSeasonYear } from "@/lib/planting-values";
 
 interface SpreadsheetInfo {
   id: string;
@@ -48,7 +53,11 @@ interface FieldInfo {
 export default function OnboardingPage() {
   const router = useRouter();
   const { user, isLoaded: userLoaded } = useUser();
+  const settings = useQuery(api.sheets.getSettings);
   const setSettings = useMutation(api.sheets.setSettings);
+  const startNewSeason = useMutation(api.seasons.startNewSeason);
+  const startSyncRun = useMutation(api.syncRuns.startSyncRun);
+  const finishSyncRun = useMutation(api.syncRuns.finishSyncRun);
 
   const [spreadsheets, setSpreadsheets] = useState<SpreadsheetInfo[]>([]);
   const [selectedSpreadsheet, setSelectedSpreadsheet] =
@@ -65,11 +74,29 @@ export default function OnboardingPage() {
     currentField: string;
   } | null>(null);
   const [syncedFields, setSyncedFields] = useState<string[]>([]);
+  // Sync error per field, e.g. missing Bed or Crop:Variety columns
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [columnMappings, setColumnMappings] = useState<
+    Record<string, ColumnMapping>
+  >({});
+  const [editingColumnsFor, setEditingColumnsFor] = useState<string | null>(
+    null
+  );
+  // Year for planting dates written without one, e.g. "3/15"
+  const [seasonYear, setSeasonYear] = useState("");
+  // Picking a different spreadsheet than the saved one starts a new season
+  // unless the admin chooses to replace the current season's spreadsheet
+  const [seasonAction, setSeasonAction] = useState<"new" | "replace">("new");
   const [error, setError] = useState("");
 
   // Check if user is admin
   const isAdmin = user?.publicMetadata?.role === "admin";
 
+  const isDifferentSpreadsheet =
+    !!settings &&
+    !!selectedSpreadsheet &&
+    settings.spreadsheetId !== selectedSpreadsheet.id;
+
   // Redirect non-admins to dashboard
   useEffect(() => {
     if (userLoaded && !isAdmin) {
@@ -136,6 +163,8 @@ export default function OnboardingPage() {
   const fetchFields = async (spreadsheetId: string) => {
     setLoadingFields(true);
     setSyncedFields([]);
+    setFieldErrors({});
+    setEditingColumnsFor(null);
     setSyncStarted(false);
     setError("");
 
@@ -160,77 +189,155 @@ export default function OnboardingPage() {
     }
   };
 
-  const startSync = async () => {
-    if (!selectedSpreadsheet || fields.length === 0) return;
+  const syncSheet = async (
+    spreadsheetId: string,
+    sheetName: string,
+    syncRunId: Id<"syncRuns"> | null
+  ): Promise<string | null> => {
+    try {
+      const response = await fetch(`/api/sheets/${spreadsheetId}/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sheetName,
+          syncRunId,
+          // The Qualifiers tab isn't parsed by column
+          columnMapping:
+            sheetName === "Qualifiers"
+              ? undefined
+              : (columnMappings[sheetName] ?? {}),
+          seasonYear: Number(seasonYear) || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        console.error(`Failed to sync ${sheetName}:`, data.error);
+        return data.message || data.error || "Sync failed";
+      }
+      return null;
+    } catch (err) {
+      console.error(`Error syncing ${sheetName}:`, err);
+      return err instanceof Error ? err.message : "Sync failed";
+    }
+  };
+
+  // Syncs the given fields, then the Qualifiers sheet on the first pass
+  const syncFields = async (
+    fieldsToSync: FieldInfo[],
+    includeQualifiers: boolean
+  ) => {
+    if (!selectedSpreadsheet || fieldsToSync.length === 0) return;
 
     setSyncStarted(true);
     setSyncing(true);
-    const synced: string[] = [];
+    setEditingColumnsFor(null);
+    const failed: string[] = [];
+    const syncRunId = await startSyncRun({
+      spreadsheetId: selectedSpreadsheet.id,
+      trigger: "onboarding",
+    }).catch((err) => {
+      console.error("Error starting sync run:", err);
+      return null;
+    });
 
-    // Total includes all fields plus the Qualifiers sheet
-    const totalSheets = fields.length + 1;
+    // Total includes the Qualifiers sheet when it's synced
+    const totalSheets = fieldsToSync.length + (includeQualifiers ? 1 : 0);
 
-    for (let i = 0; i < fields.length; i++) {
-      const field = fields[i];
+    for (let i = 0; i < fieldsToSync.length; i++) {
+      const field = fieldsToSync[i];
       setSyncProgress({
         current: i + 1,
         total: totalSheets,
         currentField: field.title,
       });
 
-      try {
-        const response = await fetch(
-          `/api/sheets/${selectedSpreadsheet.id}/sync`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ sheetName: field.title }),
-          }
-        );
-
-        const data = await response.json();
+      const fieldError = await syncSheet(
+        selectedSpreadsheet.id,
+        field.title,
+        syncRunId
+      );
 
-        if (!response.ok) {
-          console.error(`Failed to sync ${field.title}:`, data.error);
+      setFieldErrors((prev) => {
+        const next = { ...prev };
+        if (fieldError) {
+          next[field.title] = fieldError;
         } else {
-          synced.push(field.title);
-          setSyncedFields([...synced]);
+          delete next[field.title];
         }
-      } catch (err) {
-        console.error(`Error syncing ${field.title}:`, err);
+        return next;
+      });
+
+      if (fieldError) {
+        failed.push(field.title);
+      } else {
+        setSyncedFields((prev) =>
+          prev.includes(field.title) ? prev : [...prev, field.title]
+        );
       }
     }
 
     // Sync Qualifiers sheet last (required for log data page)
-    setSyncProgress({
-      current: totalSheets,
-      total: totalSheets,
-      currentField: "Qualifiers",
-    });
-
-    try {
-      const response = await fetch(
-        `/api/sheets/${selectedSpreadsheet.id}/sync`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ sheetName: "Qualifiers" }),
-        }
-      );
-
-      const data = await response.json();
+    if (includeQualifiers) {
+      setSyncProgress({
+        current: totalSheets,
+        total: totalSheets,
+        currentField: "Qualifiers",
+      });
 
-      if (!response.ok) {
-        console.error("Failed to sync Qualifiers:", data.error);
+      if (await syncSheet(selectedSpreadsheet.id, "Qualifiers", syncRunId)) {
+        failed.push("Qualifiers");
       }
-    } catch (err) {
-      console.error("Error syncing Qualifiers:", err);
+    }
+
+    if (syncRunId) {
+      await finishSyncRun({
+        runId: syncRunId,
+        status: failed.length > 0 ? "failed" : "succeeded",
+        error:
+          failed.length > 0 ? `Failed to sync ${failed.join(", ")}` : undefined,
+      }).catch((err) => console.error("Error finishing sync run:", err));
     }
 
     setSyncing(false);
     setSyncProgress(null);
   };
 
+  // A new season has to exist before its tabs sync, since syncs write to the
+  // active season
+  const startSync = async () => {
+    if (isDifferentSpreadsheet && seasonAction === "new" && selectedSpreadsheet) {
+      const year = Number(seasonYear);
+      if (!Number.isInteger(year)) {
+        setError("Enter the year of the new season");
+        return;
+      }
+
+      try {
+        await startNewSeason({
+          name: String(year),
+          year,
+          spreadsheetId: selectedSpreadsheet.id,
+          spreadsheetName: selectedSpreadsheet.name,
+        });
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to start a new season"
+        );
+        return;
+      }
+    }
+
+    await syncFields(fields, true);
+  };
+
+  const retryFailedFields = () =>
+    syncFields(
+      fields.filter((field) => fieldErrors[field.title]),
+      false
+    );
+
   const saveAndContinue = async () => {
     if (!selectedSpreadsheet || syncedFields.length === 0) {
       setError("Please select a spreadsheet and sync the fields first");
@@ -250,6 +357,12 @@ export default function OnboardingPage() {
         sheetNames: syncedFields,
         adminUserId: user.id,
         adminEmail: user.primaryEmailAddress?.emailAddress || "",
+        seasonYear: Number(seasonYear) || undefined,
+        columnMappings: syncedFields
+          .filter(
+            (name) => Object.keys(columnMappings[name] ?? {}).length > 0
+          )
+          .map((name) => ({ sheetName: name, columns: columnMappings[name] })),
       });
 
       // Also keep in localStorage for backward compatibility during migration
@@ -320,6 +433,28 @@ export default function OnboardingPage() {
                 onValueChange={(value) => {
                   const spreadsheet = spreadsheets.find((s) => s.id === value);
                   setSelectedSpreadsheet(spreadsheet || null);
+                  // Start from the saved mappings and season when re-running
+                  // setup on the same spreadsheet
+                  const saved =
+                    settings && settings.spreadsheetId === value
+                      ? settings
+                      : null;
+                  setColumnMappings(
+                    Object.fromEntries(
+                      (saved?.columnMappings ?? []).map((entry) => [
+                        entry.sheetName,
+                        entry.columns,
+                      ])
+                    )
+                  );
+                  setSeasonYear(
+                    String(
+                      saved?.seasonYear ??
+                        inferSeasonYear(spreadsheet?.name) ??
+                        new Date().getFullYear()
+                    )
+                  );
+                  setSeasonAction("new");
                   setSearchQuery("");
                 }}
                 onInputValueChange={(value) => setSearchQuery(value)}
@@ -358,6 +493,53 @@ export default function OnboardingPage() {
             )}
           </div>
 
+          {selectedSpreadsheet && (
+            <div className="space-y-2">
+              <Label htmlFor="season-year" className="text-lg">
+                Season Year
+              </Label>
+              <Input
+                id="season-year"
+                type="number"
+                inputMode="numeric"
+                value={seasonYear}
+                onChange={(e) => setSeasonYear(e.target.value)}
+                disabled={syncing}
+                className="h-12 text-lg"
+              />
+              <p className="text-sm text-muted-foreground">
+                Used for planting dates written without a year, like
+                &quot;3/15&quot;.
+              </p>
+            </div>
+          )}
+
+          {isDifferentSpreadsheet && !syncStarted && (
+            <div className="space-y-2">
+              <Label htmlFor="season-action" className="text-lg">
+                Season
+              </Label>
+              <select
+                id="season-action"
+                value={seasonAction}
+                onChange={(e) =>
+                  setSeasonAction(e.target.value as "new" | "replace")
+                }
+                className="w-full h-9 rounded-md border border-border bg-background px-2 text-sm"
+              >
+                <option value="new">Start a new season</option>
+                <option value="replace">
+                  Replace the current season&apos;s spreadsheet
+                </option>
+              </select>
+              <p className="text-sm text-muted-foreground">
+                {seasonAction === "new"
+                  ? `The ${settings.spreadsheetName} season is archived. Its plantings and logs stay viewable but read-only.`
+                  : `Plantings from ${settings.spreadsheetName} that aren't in this spreadsheet are removed from the current season.`}
+              </p>
+            </div>
+          )}
+
           {selectedSpreadsheet && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -382,9 +564,28 @@ export default function OnboardingPage() {
                         className="flex items-center justify-between px-4 py-4 rounded-lg border border-border bg-card"
                       >
                         <span className="text-lg">{field.title}</span>
+                        {!syncing && (!syncStarted || fieldErrors[field.title]) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setEditingColumnsFor(
+                                editingColumnsFor === field.title
+                                  ? null
+                                  : field.title
+                              )
+                            }
+                          >
+                            Columns
+                          </Button>
+                        )}
                         {syncStarted && (
                           <>
-                            {syncedFields.includes(field.title) ? (
+                            {fieldErrors[field.title] ? (
+                              <span className="text-sm text-red-500 font-medium">
+                                Failed
+                              </span>
+                            ) : syncedFields.includes(field.title) ? (
                               <span className="text-sm text-emerald-500 font-medium">
                                 Synced
                               </span>
@@ -404,6 +605,41 @@ export default function OnboardingPage() {
                     ))}
                   </div>
 
+                  {editingColumnsFor && (
+                    <div className="space-y-3 rounded-lg border border-border p-4">
+                      <Label>Columns in {editingColumnsFor}</Label>
+                      <ColumnMappingEditor
+                        spreadsheetId={selectedSpreadsheet.id}
+                        sheetName={editingColumnsFor}
+                        mapping={columnMappings[editingColumnsFor] ?? {}}
+                        onChange={(mapping) =>
+                          setColumnMappings((prev) => ({
+                            ...prev,
+                            [editingColumnsFor]: mapping,
+                          }))
+                        }
+                      />
+                    </div>
+                  )}
+
+                  {Object.entries(fieldErrors).map(([fieldName, message]) => (
+                    <p key={fieldName} className="text-sm text-red-500">
+                      {fieldName}: {message}
+                    </p>
+                  ))}
+
+                  {syncStarted &&
+                    !syncing &&
+                    Object.keys(fieldErrors).length > 0 && (
+                      <Button
+                        variant="outline"
+                        className="w-full h-14 text-lg"
+                        onClick={retryFailedFields}
+                      >
+                        Retry Failed Fields
+                      </Button>
+                    )}
+
                   {syncProgress && (
                     <p className="text-base text-muted-foreground text-center">
                       Syncing field {syncProgress.current} of {syncProgress.total}...
@@ -1,17 +1,26 @@
 import { SignOutButton } from "@clerk/nextjs";
+import { currentUser } from "@clerk/nextjs/server";
 import { Button } from "@/components/ui/button";
+import { AccessMetadata, getUserAccessStatus } from "@/lib/user-access";
+
+export default async function PendingApproval() {
+  const user = await currentUser();
+  const status = getUserAccessStatus(
+    user?.publicMetadata as AccessMetadata | undefined,
+  );
+  const denied = status === "rejected" || status === "revoked";
 
-export default function PendingApproval() {
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-background px-4">
       <div className="text-center space-y-6 max-w-md">
         <div className="space-y-2">
           <h1 className="text-4xl font-bold tracking-tight text-foreground">
-            Pending Approval
+            {denied ? "No Access" : "Pending Approval"}
           </h1>
           <p className="text-lg text-muted-foreground">
-            Your account is awaiting approval. You&apos;ll be notified once an
-            admin grants you access.
+            {denied
+              ? "An admin has not granted this account access. Contact your admin if you think this is a mistake."
+              : "Your account is awaiting approval. You'll be notified once an admin grants you access."}
           </p>
         </div>
 
@@ -3,8 +3,10 @@
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useMutation, useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
 import { api } from "@/convex/_generated/api";
-import { Id } from "@/convex/_generated/dataModel";
+import { Doc, Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -18,6 +20,33 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { CropAliasEditor } from "@/components/crop-alias-editor";
+import { LocationSettingsEditor } from "@/components/location-settings-editor";
+import {
+  QualifierDraft,
+  QualifierEditor,
+} from "@/components/qualifier-editor";
+import { QualifierSourceSettings } from "@/components/qualifier-source-settings";
+import { QuestionRenameEditor } from "@/components/question-rename-editor";
+import { PlanningSettingsEditor } from "@/components/planning-settings-editor";
+import {
+  ASSESSMENT_TYPE_LABELS,
+  ASSESSMENT_TYPES,
+  AssessmentType,
+  describeQuestionRules,
+  describeQuestionType,
+  getAnswerOptions,
+  getQuestionType,
+  TypedQuestion,
+  usesOptionList,
+} from "@/lib/assessment-types";
+import {
+  findQualifierForCrop,
+  getBaseCropName,
+  getCropMatchKey,
+  suggestQualifierNames,
+} from "@/lib/crop-matching";
+import { DEFAULT_LOCATION } from "@/lib/locations";
 import { cn } from "@/lib/utils";
 
 interface Crop {
@@ -38,18 +67,13 @@ interface Qualifier {
   _id: Id<"qualifiers">;
   name: string;
   location?: string;
-  assessments: {
-    name: string;
-    options: string[];
-    isUniversal?: boolean;
-  }[];
+  assessments: (TypedQuestion & { isUniversal?: boolean })[];
+  version?: number;
   lastSynced: number;
 }
 
-interface UniversalQualifier {
+interface UniversalQualifier extends TypedQuestion {
   _id: Id<"universalQualifiers">;
-  name: string;
-  options: string[];
   order: number;
   lastSynced: number;
 }
@@ -61,55 +85,9 @@ interface CropAuditRow {
   matchedQualifiers: Qualifier[];
   unmatchedLocations: string[];
   assessmentCount: number;
-}
-
-function getBaseCropName(cropName: string): string {
-  return cropName.split(":")[0].trim();
-}
-
-function detectLocationFromField(fieldName: string): string | undefined {
-  const normalized = fieldName.toLowerCase();
-
-  if (
-    normalized.includes("ht") ||
-    normalized.includes("high tunnel") ||
-    normalized.includes("hightunnel")
-  ) {
-    return "HT";
-  }
-
-  if (normalized.includes("greenhouse") || normalized.includes("gh")) {
-    return "greenhouse";
-  }
-
-  if (normalized.includes("field")) {
-    return "field";
-  }
-
-  return "field";
-}
-
-function findBestQualifier(
-  cropName: string,
-  fieldName: string,
-  qualifiers: Qualifier[],
-): Qualifier | null {
-  const baseCropName = getBaseCropName(cropName);
-  const location = detectLocationFromField(fieldName);
-
-  const locationMatch = qualifiers.find(
-    (q) =>
-      q.name.toLowerCase() === baseCropName.toLowerCase() &&
-      q.location?.toLowerCase() === location?.toLowerCase(),
-  );
-
-  if (locationMatch) return locationMatch;
-
-  return (
-    qualifiers.find(
-      (q) => q.name.toLowerCase() === baseCropName.toLowerCase() && !q.location,
-    ) ?? null
-  );
+  alias: Doc<"cropAliases"> | null;
+  // Similar qualifier names for crops missing qualifiers
+  suggestions: { name: string; score: number }[];
 }
 
 function uniqueById<T extends { _id: string }>(items: T[]): T[] {
@@ -137,6 +115,20 @@ function StatusBadge({ complete }: { complete: boolean }) {
   );
 }
 
+// "too much, not enough" for choice questions, else the type first, then
+// any rules: "Number (lbs) (required, if Harvested? is yes)"
+function describeAnswers(question: TypedQuestion): string {
+  const type = describeQuestionType(question);
+  const answers =
+    getQuestionType(question) === "choice"
+      ? question.options.join(", ")
+      : question.options.length > 0
+        ? `${type}: ${question.options.join(", ")}`
+        : type;
+  const rules = describeQuestionRules(question);
+  return rules ? `${answers} (${rules})` : answers;
+}
+
 function FieldList({ plantings }: { plantings: Crop[] }) {
   return (
     <div className="flex flex-wrap gap-2">
@@ -157,8 +149,10 @@ function FieldList({ plantings }: { plantings: Crop[] }) {
 
 function UniversalQualifierEditor({
   qualifiers,
+  canEdit,
 }: {
   qualifiers: UniversalQualifier[] | undefined;
+  canEdit: boolean;
 }) {
   const saveUniversalQualifier = useMutation(api.sheets.saveUniversalQualifier);
   const deleteUniversalQualifier = useMutation(
@@ -168,6 +162,11 @@ function UniversalQualifierEditor({
   const [isCreating, setIsCreating] = useState(false);
   const [name, setName] = useState("");
   const [optionsText, setOptionsText] = useState("");
+  const [type, setType] = useState<AssessmentType>("choice");
+  const [unit, setUnit] = useState("");
+  const [required, setRequired] = useState(false);
+  const [showIfQuestion, setShowIfQuestion] = useState("");
+  const [showIfAnswers, setShowIfAnswers] = useState<string[]>([]);
   const [order, setOrder] = useState("0");
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
@@ -179,6 +178,11 @@ function UniversalQualifierEditor({
       setIsCreating(false);
       setName(qualifier.name);
       setOptionsText(qualifier.options.join("\n"));
+      setType(getQuestionType(qualifier));
+      setUnit(qualifier.unit ?? "");
+      setRequired(qualifier.required ?? false);
+      setShowIfQuestion(qualifier.showIf?.question ?? "");
+      setShowIfAnswers(qualifier.showIf?.answers ?? []);
       setOrder(String(qualifier.order));
       return;
     }
@@ -187,6 +191,11 @@ function UniversalQualifierEditor({
     setIsCreating(true);
     setName("");
     setOptionsText("");
+    setType("choice");
+    setUnit("");
+    setRequired(false);
+    setShowIfQuestion("");
+    setShowIfAnswers([]);
     setOrder(String((qualifiers?.length ?? 0) + 1));
   };
 
@@ -198,10 +207,12 @@ function UniversalQualifierEditor({
   };
 
   const handleSave = async () => {
-    const options = optionsText
-      .split(/\r?\n|,/)
-      .map((option) => option.trim())
-      .filter(Boolean);
+    const options = usesOptionList(type)
+      ? optionsText
+          .split(/\r?\n|,/)
+          .map((option) => option.trim())
+          .filter(Boolean)
+      : [];
     const parsedOrder = Number(order);
 
     if (!Number.isFinite(parsedOrder)) {
@@ -209,6 +220,11 @@ function UniversalQualifierEditor({
       return;
     }
 
+    if (showIfQuestion && showIfAnswers.length === 0) {
+      setError("Pick at least one answer that shows this question.");
+      return;
+    }
+
     setSaving(true);
     setError(null);
 
@@ -217,6 +233,12 @@ function UniversalQualifierEditor({
         id: editing?._id,
         name,
         options,
+        type,
+        unit,
+        required,
+        showIf: showIfQuestion
+          ? { question: showIfQuestion, answers: showIfAnswers }
+          : undefined,
         order: parsedOrder,
       });
       closeEditor();
@@ -226,6 +248,22 @@ function UniversalQualifierEditor({
     }
   };
 
+  // Questions a follow-up can depend on: the other questions with answers
+  // to pick from
+  const conditionQuestions = (qualifiers ?? []).filter(
+    (qualifier) =>
+      qualifier._id !== editing?._id &&
+      getAnswerOptions(qualifier).length > 0,
+  );
+  const conditionQuestion = conditionQuestions.find(
+    (qualifier) => qualifier.name === showIfQuestion,
+  );
+  // A saved condition on a question that isn't listed (e.g. from the sheet)
+  // keeps its own answers
+  const conditionAnswers = conditionQuestion
+    ? getAnswerOptions(conditionQuestion)
+    : showIfAnswers;
+
   const handleDelete = async (qualifier: UniversalQualifier) => {
     const confirmed = window.confirm(
       `Delete "${qualifier.name}" from every crop assessment form?`,
@@ -244,12 +282,16 @@ function UniversalQualifierEditor({
             <div>
               <CardTitle>Universal Qualifiers</CardTitle>
               <p className="mt-1 text-sm text-muted-foreground">
-                Edit the questions that appear on every crop quality form.
+                {canEdit
+                  ? "Edit the questions that appear on every crop quality form."
+                  : "Questions that appear on every crop quality form. Only admins can edit them."}
               </p>
             </div>
-            <Button type="button" onClick={() => openEditor()}>
-              Add Question
-            </Button>
+            {canEdit && (
+              <Button type="button" onClick={() => openEditor()}>
+                Add Question
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -278,25 +320,27 @@ function UniversalQualifierEditor({
                         </span>
                       </div>
                       <p className="text-sm leading-6 text-muted-foreground">
-                        {qualifier.options.join(", ")}
+                        {describeAnswers(qualifier)}
                       </p>
                     </div>
-                    <div className="flex shrink-0 gap-2">
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => openEditor(qualifier)}
-                      >
-                        Edit
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        onClick={() => handleDelete(qualifier)}
-                      >
-                        Delete
-                      </Button>
-                    </div>
+                    {canEdit && (
+                      <div className="flex shrink-0 gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => openEditor(qualifier)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          onClick={() => handleDelete(qualifier)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -315,7 +359,7 @@ function UniversalQualifierEditor({
               {editing ? "Edit Universal Qualifier" : "Add Universal Qualifier"}
             </DialogTitle>
             <DialogDescription>
-              These answers are shown as buttons in every crop assessment form.
+              This question is shown in every crop assessment form.
             </DialogDescription>
           </DialogHeader>
 
@@ -331,17 +375,103 @@ function UniversalQualifierEditor({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="universal-options">Answer options</Label>
-              <Textarea
-                id="universal-options"
-                value={optionsText}
-                onChange={(event) => setOptionsText(event.target.value)}
-                placeholder={"Not enough\nOn target\nToo much"}
-                className="min-h-28"
+              <Label htmlFor="universal-type">Answer type</Label>
+              <select
+                id="universal-type"
+                value={type}
+                onChange={(event) =>
+                  setType(event.target.value as AssessmentType)
+                }
+                className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+              >
+                {ASSESSMENT_TYPES.map((option) => (
+                  <option key={option} value={option}>
+                    {ASSESSMENT_TYPE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {usesOptionList(type) && (
+              <div className="space-y-2">
+                <Label htmlFor="universal-options">Answer options</Label>
+                <Textarea
+                  id="universal-options"
+                  value={optionsText}
+                  onChange={(event) => setOptionsText(event.target.value)}
+                  placeholder={"Not enough\nOn target\nToo much"}
+                  className="min-h-28"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Enter one option per line. Commas also work for quick edits.
+                </p>
+              </div>
+            )}
+
+            {type === "number" && (
+              <div className="space-y-2">
+                <Label htmlFor="universal-unit">Unit (optional)</Label>
+                <Input
+                  id="universal-unit"
+                  value={unit}
+                  onChange={(event) => setUnit(event.target.value)}
+                  placeholder="lbs"
+                />
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={required}
+                onChange={(event) => setRequired(event.target.checked)}
               />
-              <p className="text-xs text-muted-foreground">
-                Enter one option per line. Commas also work for quick edits.
-              </p>
+              Required — logs can&apos;t be saved without an answer
+            </label>
+
+            <div className="space-y-2">
+              <Label htmlFor="universal-show-if">Ask this question</Label>
+              <select
+                id="universal-show-if"
+                value={showIfQuestion}
+                onChange={(event) => {
+                  setShowIfQuestion(event.target.value);
+                  setShowIfAnswers([]);
+                }}
+                className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+              >
+                <option value="">Always</option>
+                {conditionQuestions.map((qualifier) => (
+                  <option key={qualifier._id} value={qualifier.name}>
+                    Only after &quot;{qualifier.name}&quot;
+                  </option>
+                ))}
+                {showIfQuestion && !conditionQuestion && (
+                  <option value={showIfQuestion}>
+                    Only after &quot;{showIfQuestion}&quot;
+                  </option>
+                )}
+              </select>
+              {showIfQuestion && (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {conditionAnswers.map((option) => (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={showIfAnswers.includes(option)}
+                        onChange={(event) =>
+                          setShowIfAnswers((prev) =>
+                            event.target.checked
+                              ? [...prev, option]
+                              : prev.filter((answer) => answer !== option),
+                          )
+                        }
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -377,15 +507,24 @@ function UniversalQualifierEditor({
 
 export default function QualifiersPage() {
   const router = useRouter();
-  const crops = useQuery(api.sheets.getAllCrops);
+  const { user } = useUser();
+  const isAdmin = user?.publicMetadata?.role === "admin";
+  const crops = useQuery(api.sheets.getAllCrops, {});
   const qualifiers = useQuery(api.sheets.getAllQualifiers);
   const universalQualifiers = useQuery(api.sheets.getAllUniversalQualifiers);
+  const cropAliases = useQuery(api.cropAliases.getCropAliases);
+  const qualifierSettings = useQuery(api.qualifiers.getQualifierSettings);
+  const setCropAlias = useMutation(api.cropAliases.setCropAlias);
+  const deleteCropAlias = useMutation(api.cropAliases.deleteCropAlias);
   const [search, setSearch] = useState("");
   const [showOnlyMissing, setShowOnlyMissing] = useState(false);
   const [selectedRow, setSelectedRow] = useState<CropAuditRow | null>(null);
+  const [editingQualifier, setEditingQualifier] =
+    useState<QualifierDraft | null>(null);
 
   const auditRows = useMemo<CropAuditRow[]>(() => {
-    if (!crops || !qualifiers) return [];
+    if (!crops || !qualifiers || !cropAliases) return [];
+    const qualifierNames = qualifiers.map((qualifier) => qualifier.name);
 
     const byCrop = new Map<string, Crop[]>();
     for (const crop of crops) {
@@ -396,7 +535,14 @@ export default function QualifiersPage() {
     return [...byCrop.entries()]
       .map(([cropName, plantings]) => {
         const matches = plantings
-          .map((crop) => findBestQualifier(crop.crop, crop.field, qualifiers))
+          .map((crop) =>
+            findQualifierForCrop<Qualifier>(
+              crop.crop,
+              crop.location ?? DEFAULT_LOCATION,
+              qualifiers,
+              cropAliases,
+            ),
+          )
           .filter((qualifier): qualifier is Qualifier => qualifier !== null);
         const matchedQualifiers = uniqueById(matches);
         const unmatchedLocations = [
@@ -404,9 +550,14 @@ export default function QualifiersPage() {
             plantings
               .filter(
                 (crop) =>
-                  !findBestQualifier(crop.crop, crop.field, qualifiers),
+                  !findQualifierForCrop<Qualifier>(
+                    crop.crop,
+                    crop.location ?? DEFAULT_LOCATION,
+                    qualifiers,
+                    cropAliases,
+                  ),
               )
-              .map((crop) => detectLocationFromField(crop.field) ?? "field"),
+              .map((crop) => crop.location ?? DEFAULT_LOCATION),
           ),
         ].sort();
 
@@ -418,6 +569,15 @@ export default function QualifiersPage() {
           ),
           matchedQualifiers,
           unmatchedLocations,
+          alias:
+            cropAliases.find(
+              (alias) =>
+                getCropMatchKey(alias.crop) === getCropMatchKey(cropName),
+            ) ?? null,
+          suggestions:
+            unmatchedLocations.length > 0
+              ? suggestQualifierNames(cropName, qualifierNames)
+              : [],
           assessmentCount:
             (universalQualifiers?.length ?? 0) +
             matchedQualifiers.reduce(
@@ -427,7 +587,7 @@ export default function QualifiersPage() {
         };
       })
       .sort((a, b) => a.crop.localeCompare(b.crop));
-  }, [crops, qualifiers, universalQualifiers]);
+  }, [crops, qualifiers, universalQualifiers, cropAliases]);
 
   const filteredRows = auditRows.filter((row) => {
     const query = search.trim().toLowerCase();
@@ -447,7 +607,24 @@ export default function QualifiersPage() {
   const loading =
     crops === undefined ||
     qualifiers === undefined ||
-    universalQualifiers === undefined;
+    universalQualifiers === undefined ||
+    cropAliases === undefined;
+
+  const handleMapCrop = async (crop: string, qualifierName: string) => {
+    try {
+      await setCropAlias({ crop, qualifierName });
+      toast.success(`${crop} now uses the ${qualifierName} qualifier`);
+    } catch (err) {
+      toast.error("Unable to map crop", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  const openQualifierEditor = (draft: QualifierDraft) => {
+    setSelectedRow(null);
+    setEditingQualifier(draft);
+  };
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
@@ -456,7 +633,7 @@ export default function QualifiersPage() {
           <div>
             <h1 className="text-2xl font-bold">Qualifiers</h1>
             <p className="mt-1 text-sm text-muted-foreground">
-              Configure universal questions and check crop-specific coverage.
+              Edit universal and crop-specific questions and check crop coverage.
             </p>
           </div>
           <Button variant="outline" onClick={() => router.push("/dashboard")}>
@@ -464,7 +641,36 @@ export default function QualifiersPage() {
           </Button>
         </div>
 
-        <UniversalQualifierEditor qualifiers={universalQualifiers} />
+        <UniversalQualifierEditor
+          qualifiers={universalQualifiers}
+          canEdit={isAdmin}
+        />
+
+        <QualifierSourceSettings canEdit={isAdmin} />
+
+        <LocationSettingsEditor canEdit={isAdmin} />
+
+        <CropAliasEditor
+          aliases={cropAliases}
+          qualifierNames={qualifiers?.map((qualifier) => qualifier.name) ?? []}
+          canEdit={isAdmin}
+        />
+
+        <QuestionRenameEditor
+          questionNames={[
+            ...(universalQualifiers ?? []),
+            ...(qualifiers ?? []).flatMap((qualifier) => qualifier.assessments),
+          ].map((question) => question.name)}
+          canEdit={isAdmin}
+        />
+
+        <PlanningSettingsEditor
+          questions={[
+            ...(universalQualifiers ?? []),
+            ...(qualifiers ?? []).flatMap((qualifier) => qualifier.assessments),
+          ]}
+          canEdit={isAdmin}
+        />
 
         <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
           <Card>
@@ -537,6 +743,17 @@ export default function QualifiersPage() {
                 </p>
               </div>
               <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                {isAdmin && (
+                  <Button
+                    type="button"
+                    className="h-10"
+                    onClick={() =>
+                      openQualifierEditor({ name: "", assessments: [] })
+                    }
+                  >
+                    Add Crop Qualifier
+                  </Button>
+                )}
                 <Input
                   value={search}
                   onChange={(event) => setSearch(event.target.value)}
@@ -588,6 +805,25 @@ export default function QualifiersPage() {
                             </span>
                           </div>
                           <FieldList plantings={row.plantings} />
+                          {row.alias && (
+                            <p className="text-sm text-muted-foreground">
+                              Uses the {row.alias.qualifierName} qualifier
+                              (alias)
+                              {isAdmin && (
+                                <Button
+                                  type="button"
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto px-2 py-0"
+                                  onClick={() =>
+                                    deleteCropAlias({ id: row.alias!._id })
+                                  }
+                                >
+                                  Remove alias
+                                </Button>
+                              )}
+                            </p>
+                          )}
                           {!covered && (
                             <p className="text-sm text-amber-700 dark:text-amber-400">
                               Missing crop-specific qualifiers for{" "}
@@ -595,6 +831,26 @@ export default function QualifiersPage() {
                               {row.unmatchedLocations.length === 1 ? "" : "s"}.
                             </p>
                           )}
+                          {isAdmin && row.suggestions.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                              <span className="text-muted-foreground">
+                                Similar qualifiers:
+                              </span>
+                              {row.suggestions.map((suggestion) => (
+                                <Button
+                                  key={suggestion.name}
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    handleMapCrop(row.crop, suggestion.name)
+                                  }
+                                >
+                                  Map to {suggestion.name}
+                                </Button>
+                              ))}
+                            </div>
+                          )}
                         </div>
                         <div className="flex shrink-0 flex-col gap-2 sm:flex-row lg:flex-col">
                           <div className="rounded-lg bg-muted/40 px-3 py-2 text-sm">
@@ -657,7 +913,7 @@ export default function QualifiersPage() {
                         >
                           <p className="font-medium">{qualifier.name}</p>
                           <p className="mt-1 text-sm text-muted-foreground">
-                            {qualifier.options.join(", ")}
+                            {describeAnswers(qualifier)}
                           </p>
                         </div>
                       ))}
@@ -685,6 +941,29 @@ export default function QualifiersPage() {
                             <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
                               {qualifier.location ?? "generic"}
                             </span>
+                            {qualifier.version !== undefined && (
+                              <span className="text-xs text-muted-foreground">
+                                Version {qualifier.version}
+                              </span>
+                            )}
+                            {isAdmin && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                className="ml-auto"
+                                onClick={() =>
+                                  openQualifierEditor({
+                                    id: qualifier._id,
+                                    name: qualifier.name,
+                                    location: qualifier.location,
+                                    assessments: qualifier.assessments,
+                                  })
+                                }
+                              >
+                                Edit
+                              </Button>
+                            )}
                           </div>
                           {qualifier.assessments.length > 0 ? (
                             <div className="space-y-2">
@@ -697,7 +976,7 @@ export default function QualifiersPage() {
                                     {assessment.name}
                                   </p>
                                   <p className="mt-1 text-sm text-muted-foreground">
-                                    {assessment.options.join(", ")}
+                                    {describeAnswers(assessment)}
                                   </p>
                                 </div>
                               ))}
@@ -715,12 +994,34 @@ export default function QualifiersPage() {
                       No crop-specific qualifier matched this crop.
                     </p>
                   )}
+                  {isAdmin && selectedRow.unmatchedLocations.length > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="mt-3"
+                      onClick={() =>
+                        openQualifierEditor({
+                          name: selectedRow.crop,
+                          assessments: [],
+                        })
+                      }
+                    >
+                      Add {selectedRow.crop} Questions
+                    </Button>
+                  )}
                 </div>
               </div>
             </>
           )}
         </DialogContent>
       </Dialog>
+
+      <QualifierEditor
+        draft={editingQualifier}
+        universalQuestions={universalQualifiers ?? []}
+        sheetOwned={qualifierSettings?.source === "sheet"}
+        onClose={() => setEditingQualifier(null)}
+      />
     </div>
   );
 }
@@ -5,12 +5,17 @@ import { useMutation, useQuery } from "convex/react";
 import { useUser } from "@clerk/nextjs";
 import { toast } from "sonner";
 import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 
 type SpreadsheetMetadataResponse = {
   modifiedTime?: string;
   name?: string;
 };
 
+type SyncResponse = {
+  warnings?: unknown[];
+};
+
 async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
   const response = await fetch(url, init);
   const data = await response.json().catch(() => ({}));
@@ -30,14 +35,41 @@ async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
 
 export function AutoSyncOnLogin() {
   const { user, isLoaded } = useUser();
-  const settings = useQuery(api.sheets.getSettings);
-  const lastSyncTime = useQuery(api.sheets.getLastSyncTime);
+  // Only admins can auto-sync, and Convex rejects these queries for signed-out
+  // or unapproved visitors, so skip them for everyone else.
+  const isAdminUser = user?.publicMetadata?.role === "admin";
+  const settings = useQuery(
+    api.sheets.getSettings,
+    isAdminUser ? {} : "skip",
+  );
+  const lastSyncTime = useQuery(
+    api.sheets.getLastSyncTime,
+    isAdminUser ? {} : "skip",
+  );
   const updateSettingsSheetNames = useMutation(
     api.sheets.updateSettingsSheetNames,
   );
   const deleteSheetByField = useMutation(api.sheets.deleteSheetByField);
+  const startSyncRun = useMutation(api.syncRuns.startSyncRun);
+  const finishSyncRun = useMutation(api.syncRuns.finishSyncRun);
   const isRunningRef = useRef(false);
   const lastCheckedRef = useRef<string | null>(null);
+  // Syncing a sheet updates lastSyncTime, which re-runs the effect below.
+  // The run in flight reads the latest value from here and only stops when
+  // the component unmounts.
+  const lastSyncTimeRef = useRef(lastSyncTime);
+  const unmountedRef = useRef(false);
+
+  useEffect(() => {
+    lastSyncTimeRef.current = lastSyncTime;
+  }, [lastSyncTime]);
+
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+    };
+  }, []);
 
   useEffect(() => {
     if (
@@ -50,18 +82,17 @@ export function AutoSyncOnLogin() {
       return;
     }
 
-    const isAdmin = user.publicMetadata?.role === "admin";
     const isConfiguredOwner = settings?.adminUserId === user.id;
 
-    if (!settings || !isAdmin || !isConfiguredOwner) {
+    if (!settings || !isAdminUser || !isConfiguredOwner) {
       return;
     }
 
     const syncedSettings = settings;
-    let cancelled = false;
 
     async function runAutoSync() {
       isRunningRef.current = true;
+      let syncRunId: Id<"syncRuns"> | null = null;
 
       try {
         const metadata = await fetchJson<SpreadsheetMetadataResponse>(
@@ -71,11 +102,11 @@ export function AutoSyncOnLogin() {
         const modifiedTimestamp = modifiedTime
           ? new Date(modifiedTime).getTime()
           : NaN;
-        const syncTimestamp = lastSyncTime ?? 0;
+        const syncTimestamp = lastSyncTimeRef.current ?? 0;
         const checkKey = `${syncedSettings.spreadsheetId}:${modifiedTime ?? "unknown"}:${syncTimestamp}`;
 
         if (
-          cancelled ||
+          unmountedRef.current ||
           lastCheckedRef.current === checkKey ||
           !Number.isFinite(modifiedTimestamp)
         ) {
@@ -96,9 +127,22 @@ export function AutoSyncOnLogin() {
         );
         const allSheets = ["Qualifiers", ...sheetsToSync];
         const removedSheets: string[] = [];
+        let warningCount = 0;
+        syncRunId = await startSyncRun({
+          spreadsheetId: syncedSettings.spreadsheetId,
+          trigger: "auto",
+        });
 
         for (let i = 0; i < allSheets.length; i++) {
-          if (cancelled) return;
+          if (unmountedRef.current) {
+            await finishSyncRun({
+              runId: syncRunId,
+              status: "failed",
+              missingSheets: removedSheets,
+              error: "Cancelled before all sheets synced",
+            });
+            return;
+          }
 
           const sheetName = allSheets[i];
           toast.loading("Syncing spreadsheet data...", {
@@ -107,14 +151,15 @@ export function AutoSyncOnLogin() {
           });
 
           try {
-            await fetchJson(
+            const result = await fetchJson<SyncResponse>(
               `/api/sheets/${syncedSettings.spreadsheetId}/sync`,
               {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ sheetName }),
+                body: JSON.stringify({ sheetName, syncRunId }),
               },
             );
+            warningCount += result.warnings?.length ?? 0;
           } catch (error) {
             if (
               error instanceof Error &&
@@ -139,15 +184,35 @@ export function AutoSyncOnLogin() {
           await updateSettingsSheetNames({ sheetNames: updatedSheetNames });
         }
 
+        await finishSyncRun({
+          runId: syncRunId,
+          status: "succeeded",
+          missingSheets: removedSheets,
+        });
+
         toast.success("Spreadsheet sync complete", {
           id: toastId,
-          description:
+          description: [
             removedSheets.length > 0
               ? `Removed ${removedSheets.length} missing sheet${removedSheets.length === 1 ? "" : "s"}.`
               : syncedSettings.spreadsheetName,
+            warningCount > 0
+              ? `${warningCount} row${warningCount === 1 ? "" : "s"} need attention in Sync Runs.`
+              : null,
+          ]
+            .filter(Boolean)
+            .join(" "),
         });
       } catch (error) {
-        if (cancelled) return;
+        if (syncRunId) {
+          await finishSyncRun({
+            runId: syncRunId,
+            status: "failed",
+            error: error instanceof Error ? error.message : "Unable to sync data.",
+          }).catch(() => undefined);
+        }
+
+        if (unmountedRef.current) return;
 
         toast.error("Auto-sync failed", {
           description:
@@ -159,15 +224,14 @@ export function AutoSyncOnLogin() {
     }
 
     runAutoSync();
-
-    return () => {
-      cancelled = true;
-    };
   }, [
     deleteSheetByField,
+    finishSyncRun,
+    isAdminUser,
     isLoaded,
     lastSyncTime,
     settings,
+    startSyncRun,
     updateSettingsSheetNames,
     user,
   ]);
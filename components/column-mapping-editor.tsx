@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  COLUMN_LABELS,
+  ColumnMapping,
+  detectColumns,
+  FIELD_SHEET_COLUMNS,
+  REQUIRED_COLUMNS,
+} from "@/lib/parse-field-sheet";
+
+type ColumnsResponse = {
+  headers: string[];
+  detected: Record<string, string | null>;
+};
+
+// Picks which header in a field sheet holds each column. Columns left on
+// auto-detect use the synonyms in lib/parse-field-sheet.ts.
+export function ColumnMappingEditor({
+  spreadsheetId,
+  sheetName,
+  mapping,
+  onChange,
+}: {
+  spreadsheetId: string;
+  sheetName: string;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}) {
+  const [columns, setColumns] = useState<ColumnsResponse | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(
+      `/api/sheets/${spreadsheetId}/columns?sheetName=${encodeURIComponent(sheetName)}`
+    )
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || data.error || "Failed to read columns");
+        }
+        if (!cancelled) setColumns(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to read columns");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [spreadsheetId, sheetName]);
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error}</p>;
+  }
+
+  if (!columns) {
+    return (
+      <p className="text-sm text-muted-foreground">Reading header row...</p>
+    );
+  }
+
+  const headers = columns.headers.filter((header) => header.trim());
+  const { missing } = detectColumns(columns.headers, mapping);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {FIELD_SHEET_COLUMNS.map((column) => {
+          const detected = columns.detected[column];
+          const required = REQUIRED_COLUMNS.includes(column);
+
+          return (
+            <div key={column} className="space-y-1">
+              <label className="text-xs text-muted-foreground">
+                {COLUMN_LABELS[column]}
+                {required && " *"}
+              </label>
+              <select
+                value={mapping[column] ?? ""}
+                onChange={(e) => {
+                  const next = { ...mapping };
+                  if (e.target.value) {
+                    next[column] = e.target.value;
+                  } else {
+                    delete next[column];
+                  }
+                  onChange(next);
+                }}
+                className="w-full h-9 rounded-md border border-border bg-background px-2 text-sm"
+              >
+                <option value="">
+                  {detected ? `Auto-detect (${detected})` : "Auto-detect (not found)"}
+                </option>
+                {headers.map((header) => (
+                  <option key={header} value={header}>
+                    {header}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-red-500">
+          Sync will fail until these columns are found:{" "}
+          {missing.map((column) => COLUMN_LABELS[column]).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+// Crop names that use a differently named qualifier, on the qualifiers page.
+// Plurals ("Tomatoes" and "Tomato") already match without an alias.
+export function CropAliasEditor({
+  aliases,
+  qualifierNames,
+  canEdit,
+}: {
+  aliases: Doc<"cropAliases">[] | undefined;
+  qualifierNames: string[];
+  canEdit: boolean;
+}) {
+  const setCropAlias = useMutation(api.cropAliases.setCropAlias);
+  const deleteCropAlias = useMutation(api.cropAliases.deleteCropAlias);
+  const [crop, setCrop] = useState("");
+  const [qualifierName, setQualifierName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  if (!aliases || (!canEdit && aliases.length === 0)) return null;
+
+  const names = [...new Set(qualifierNames)].sort((a, b) => a.localeCompare(b));
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      await setCropAlias({ crop, qualifierName });
+      setCrop("");
+      setQualifierName("");
+    } catch (err) {
+      toast.error("Unable to save alias", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Crop Aliases</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Crops that use another crop&apos;s qualifier, e.g. &quot;Salad
+          Mix&quot; → Lettuce. Singular and plural names already match.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {aliases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No aliases yet.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {aliases.map((alias) => (
+              <div
+                key={alias._id}
+                className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+              >
+                <span>
+                  {alias.crop}{" "}
+                  <span className="text-muted-foreground">→</span>{" "}
+                  {alias.qualifierName}
+                </span>
+                {canEdit && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteCropAlias({ id: alias._id })}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Input
+              aria-label="Crop name"
+              value={crop}
+              onChange={(e) => setCrop(e.target.value)}
+              placeholder="Crop name on the field sheet"
+            />
+            <select
+              aria-label="Qualifier"
+              value={qualifierName}
+              onChange={(e) => setQualifierName(e.target.value)}
+              className="h-9 rounded-md border border-border bg-background px-2 text-sm sm:w-56"
+            >
+              <option value="">Choose a qualifier</option>
+              {names.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              onClick={handleAdd}
+              disabled={saving || !crop.trim() || !qualifierName}
+            >
+              Add Alias
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_LOCATION,
+  DEFAULT_LOCATION_RULES,
+  detectLocation,
+  LocationOverride,
+  LocationRule,
+} from "@/lib/locations";
+
+type Draft = { rules: LocationRule[]; overrides: LocationOverride[] };
+
+// Location rules and per-field overrides on the qualifiers page. Each field's
+// location picks its location-specific qualifiers ("Cucumbers, HT"); saving
+// re-tags the active season's crops right away.
+export function LocationSettingsEditor({ canEdit }: { canEdit: boolean }) {
+  const locationSettings = useQuery(api.locations.getLocationSettings);
+  const setLocationSettings = useMutation(api.locations.setLocationSettings);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!locationSettings) return null;
+
+  const { rules, overrides } = draft ?? locationSettings;
+  const locations = [
+    ...new Set([
+      DEFAULT_LOCATION,
+      ...rules.map((rule) => rule.location.trim()).filter(Boolean),
+      ...overrides.map((override) => override.location),
+    ]),
+  ].sort();
+
+  const updateRule = (index: number, rule: Partial<LocationRule>) =>
+    setDraft({
+      rules: rules.map((existing, i) =>
+        i === index ? { ...existing, ...rule } : existing,
+      ),
+      overrides,
+    });
+
+  const setOverride = (field: string, location: string) =>
+    setDraft({
+      rules,
+      overrides: [
+        ...overrides.filter((override) => override.field !== field),
+        ...(location ? [{ field, location }] : []),
+      ],
+    });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await setLocationSettings({ rules, overrides });
+      setDraft(null);
+      toast.success("Locations saved", {
+        description:
+          result.updatedCrops > 0
+            ? `${result.updatedCrops} plantings moved to a new location.`
+            : "No plantings changed location.",
+      });
+    } catch (err) {
+      toast.error("Unable to save locations", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Locations</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Fields whose name contains a pattern get its location, so they use
+          that location&apos;s qualifiers. Patterns match whole words; fields
+          matching none are &quot;{DEFAULT_LOCATION}&quot;.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Fields</p>
+          {locationSettings.fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No fields synced this season.
+            </p>
+          ) : (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {locationSettings.fields.map((field) => {
+                const override = overrides.find((entry) => entry.field === field);
+                const detected = detectLocation(field, { locationRules: rules });
+
+                return (
+                  <div
+                    key={field}
+                    className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+                  >
+                    <span className="min-w-0 truncate">{field}</span>
+                    {canEdit ? (
+                      <select
+                        aria-label={`Location for ${field}`}
+                        value={override?.location ?? ""}
+                        onChange={(e) => setOverride(field, e.target.value)}
+                        className="h-9 rounded-md border border-border bg-background px-2 text-sm"
+                      >
+                        <option value="">Detect ({detected})</option>
+                        {locations.map((location) => (
+                          <option key={location} value={location}>
+                            {location}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {override?.location ?? detected}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Rules</p>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setDraft({ rules: DEFAULT_LOCATION_RULES, overrides })
+                }
+              >
+                Reset to defaults
+              </Button>
+            </div>
+            {rules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  aria-label="Pattern"
+                  value={rule.pattern}
+                  placeholder="high tunnel"
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                />
+                <span className="text-muted-foreground">→</span>
+                <Input
+                  aria-label="Location"
+                  value={rule.location}
+                  placeholder="HT"
+                  onChange={(e) =>
+                    updateRule(index, { location: e.target.value })
+                  }
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setDraft({
+                      rules: rules.filter((_, i) => i !== index),
+                      overrides,
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setDraft({
+                  rules: [...rules, { pattern: "", location: "" }],
+                  overrides,
+                })
+              }
+            >
+              Add rule
+            </Button>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex justify-end gap-2">
+            {draft && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDraft(null)}
+                disabled={saving}
+              >
+                Discard
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={!draft || saving}
+            >
+              Save Locations
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
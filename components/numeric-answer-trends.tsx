@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { NumericQuestionSummary } from "@/lib/assessment-types";
+
+function formatValue(value: number, unit?: string) {
+  const rounded = String(Math.round(value * 10) / 10);
+  return unit ? `${rounded} ${unit}` : rounded;
+}
+
+function formatWeek(value: string) {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Averages and weekly trends for number and rating questions on the
+// analytics page (numericQuestions from getAnalyticsOverview)
+export function NumericAnswerTrends({
+  questions,
+}: {
+  questions: NumericQuestionSummary[];
+}) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (questions.length === 0) return null;
+
+  const current =
+    questions.find((question) => question.question === selected) ??
+    questions[0];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle>Measured Answers</CardTitle>
+        <select
+          aria-label="Question"
+          value={current.question}
+          onChange={(e) => setSelected(e.target.value)}
+          className="w-full sm:w-64 h-9 rounded-md border border-border bg-background px-2 text-sm"
+        >
+          {questions.map((question) => (
+            <option key={question.question} value={question.question}>
+              {question.question}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+          <div className="rounded-lg bg-muted/50 p-2">
+            <span className="block text-xs text-muted-foreground">Average</span>
+            <span className="font-medium">
+              {formatValue(current.average, current.unit)}
+            </span>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-2">
+            <span className="block text-xs text-muted-foreground">Range</span>
+            <span className="font-medium">
+              {formatValue(current.min)}–{formatValue(current.max, current.unit)}
+            </span>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-2">
+            <span className="block text-xs text-muted-foreground">Answers</span>
+            <span className="font-medium">{current.count}</span>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-2">
+            <span className="block text-xs text-muted-foreground">
+              Change since first week
+            </span>
+            <span className="font-medium">
+              {current.change === null
+                ? "—"
+                : `${current.change > 0 ? "+" : ""}${formatValue(current.change, current.unit)}`}
+            </span>
+          </div>
+        </div>
+
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={current.trend}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.25} />
+              <XAxis
+                dataKey="period"
+                tickFormatter={formatWeek}
+                tick={{ fontSize: 12 }}
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                domain={current.type === "rating" ? [1, 5] : ["auto", "auto"]}
+              />
+              <Tooltip
+                labelFormatter={(value) => `Week of ${formatWeek(String(value))}`}
+                formatter={(value) => formatValue(Number(value), current.unit)}
+              />
+              <Line
+                type="monotone"
+                dataKey="average"
+                name="Average"
+                stroke="var(--color-chart-2)"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { getAnswerOptions, TypedQuestion } from "@/lib/assessment-types";
+import {
+  isDefaultPlanningQuestion,
+  PLANNING_BUCKET_LABELS,
+  PLANNING_BUCKETS,
+  PlanningAnswer,
+  PlanningBucket,
+  PlanningQuestion,
+  suggestPlanningAnswers,
+} from "@/lib/planning";
+
+// Which questions feed the planting-quantity charts on the analytics page,
+// and whether each of their answers means under, on target or over
+export function PlanningSettingsEditor({
+  questions,
+  canEdit,
+}: {
+  questions: TypedQuestion[];
+  canEdit: boolean;
+}) {
+  const planningSettings = useQuery(api.planning.getPlanningSettings);
+  const setPlanningQuestions = useMutation(api.planning.setPlanningQuestions);
+  const [draft, setDraft] = useState<PlanningQuestion[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!planningSettings) return null;
+
+  // Questions with answer options, one per name, with every option any
+  // crop's version of the question offers
+  const optionsByName = new Map<string, Set<string>>();
+  for (const question of questions) {
+    const options = getAnswerOptions(question);
+    if (options.length === 0) continue;
+    const known = optionsByName.get(question.name) ?? new Set<string>();
+    options.forEach((option) => known.add(option));
+    optionsByName.set(question.name, known);
+  }
+
+  const usingDefaults = planningSettings.questions === null && !draft;
+  const mapping: PlanningQuestion[] =
+    draft ??
+    planningSettings.questions ??
+    [...optionsByName.entries()]
+      .filter(([name]) => isDefaultPlanningQuestion(name))
+      .map(([name, options]) => ({
+        question: name,
+        answers: suggestPlanningAnswers([...options]),
+      }));
+
+  // Saved questions no longer asked stay listed so they can be untagged
+  for (const entry of mapping) {
+    const known = optionsByName.get(entry.question) ?? new Set<string>();
+    entry.answers.forEach((answer) => known.add(answer.answer));
+    optionsByName.set(entry.question, known);
+  }
+  const names = [...optionsByName.keys()].sort((a, b) => a.localeCompare(b));
+
+  const setTagged = (name: string, tagged: boolean) =>
+    setDraft(
+      tagged
+        ? [
+            ...mapping,
+            {
+              question: name,
+              answers: suggestPlanningAnswers([
+                ...(optionsByName.get(name) ?? []),
+              ]),
+            },
+          ]
+        : mapping.filter((entry) => entry.question !== name),
+    );
+
+  const updateAnswer = (
+    name: string,
+    answer: string,
+    update: Partial<PlanningAnswer>,
+  ) =>
+    setDraft(
+      mapping.map((entry) => {
+        if (entry.question !== name) return entry;
+        const existing = entry.answers.find((a) => a.answer === answer) ?? {
+          answer,
+        };
+        const next = { ...existing, ...update };
+        return {
+          ...entry,
+          answers: [
+            ...entry.answers.filter((a) => a.answer !== answer),
+            ...(next.bucket || next.score !== undefined ? [next] : []),
+          ],
+        };
+      }),
+    );
+
+  const save = async (questions: PlanningQuestion[] | undefined) => {
+    setSaving(true);
+    try {
+      await setPlanningQuestions({ questions });
+      setDraft(null);
+      toast.success("Planting quantity questions saved");
+    } catch (err) {
+      toast.error("Unable to save planting quantity questions", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Planting Quantity Questions</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Tag the questions that ask whether a crop was planted in the right
+          amount, and say what each answer means. Analytics counts answers
+          left unmapped separately. A score below zero counts as under and
+          above zero as over.
+          {usingDefaults &&
+            " Until this is saved, questions and answers are matched by keywords like \"too much\" and \"not enough\"."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {names.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No questions with answer options yet.
+          </p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {names.map((name) => {
+              const entry = mapping.find((item) => item.question === name);
+              return (
+                <div key={name} className="space-y-2 px-3 py-2 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={entry !== undefined}
+                      disabled={!canEdit}
+                      onChange={(e) => setTagged(name, e.target.checked)}
+                    />
+                    <span>{name}</span>
+                  </label>
+                  {entry &&
+                    [...(optionsByName.get(name) ?? [])].map((answer) => {
+                      const current = entry.answers.find(
+                        (a) => a.answer === answer,
+                      );
+                      return (
+                        <div
+                          key={answer}
+                          className="ml-6 flex items-center gap-2"
+                        >
+                          <span className="min-w-0 flex-1 truncate">
+                            {answer}
+                          </span>
+                          <select
+                            aria-label={`Meaning of ${answer}`}
+                            value={current?.bucket ?? ""}
+                            disabled={!canEdit}
+                            onChange={(e) =>
+                              updateAnswer(name, answer, {
+                                bucket:
+                                  (e.target.value as PlanningBucket) ||
+                                  undefined,
+                              })
+                            }
+                            className="h-9 rounded-md border border-border bg-background px-2 text-sm"
+                          >
+                            <option value="">
+                              {current?.score !== undefined
+                                ? "By score"
+                                : "Not mapped"}
+                            </option>
+                            {PLANNING_BUCKETS.map((bucket) => (
+                              <option key={bucket} value={bucket}>
+                                {PLANNING_BUCKET_LABELS[bucket]}
+                              </option>
+                            ))}
+                          </select>
+                          <Input
+                            type="number"
+                            aria-label={`Score for ${answer}`}
+                            className="w-24"
+                            placeholder="Score"
+                            value={current?.score ?? ""}
+                            disabled={!canEdit}
+                            onChange={(e) => {
+                              const score = Number(e.target.value);
+                              updateAnswer(name, answer, {
+                                score:
+                                  e.target.value === "" ||
+                                  !Number.isFinite(score)
+                                    ? undefined
+                                    : score,
+                              });
+                            }}
+                          />
+                        </div>
+                      );
+                    })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex justify-end gap-2">
+            {planningSettings.questions !== null && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => save(undefined)}
+                disabled={saving}
+              >
+                Use keyword defaults
+              </Button>
+            )}
+            {draft && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDraft(null)}
+                disabled={saving}
+              >
+                Discard
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={() => save(mapping)}
+              disabled={(!draft && !usingDefaults) || saving}
+            >
+              Save Questions
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { RECOMMENDATION_CONFIDENCE_LABELS } from "@/lib/recommendations";
+
+function formatAmount(value: number | null) {
+  return value === null ? "—" : String(Math.round(value * 10) / 10);
+}
+
+// Next season's suggested trays and rows per crop and variety on the
+// analytics page, with a CSV download of the plan
+export function PlantingRecommendations({
+  seasonId,
+  crop,
+}: {
+  seasonId: Id<"seasons"> | null;
+  crop?: string;
+}) {
+  const result = useQuery(
+    api.recommendations.getPlantingRecommendations,
+    seasonId ? { seasonId } : {},
+  );
+
+  if (!result || result.recommendations.length === 0) return null;
+
+  const rows = crop
+    ? result.recommendations.filter((row) => row.crop === crop)
+    : result.recommendations;
+  const downloadUrl = seasonId
+    ? `/api/planting-plan?seasonId=${seasonId}`
+    : "/api/planting-plan";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1">
+          <CardTitle>
+            {result.planYear
+              ? `Planting Plan for ${result.planYear}`
+              : "Planting Plan"}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            This season&apos;s trays and rows, adjusted by how often
+            assessments said a crop was under or overplanted. Varieties with
+            few assessments use their crop&apos;s; confidence grows with the
+            number of assessments.
+          </p>
+        </div>
+        <a
+          href={downloadUrl}
+          download
+          className={buttonVariants({ variant: "outline" })}
+        >
+          Download CSV
+        </a>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This crop wasn&apos;t planted this season.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Crop</th>
+                  <th className="py-2 pr-4 font-medium">Variety</th>
+                  <th className="py-2 pr-4 text-right font-medium">Trays</th>
+                  <th className="py-2 pr-4 text-right font-medium">Rows</th>
+                  <th className="py-2 pr-4 text-right font-medium">Change</th>
+                  <th className="py-2 pr-4 font-medium">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={`${row.crop}\u0000${row.variety}`}
+                    className="border-b border-border/50 last:border-0"
+                  >
+                    <td className="py-2 pr-4">{row.crop}</td>
+                    <td className="py-2 pr-4">{row.variety || "—"}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums">
+                      {formatAmount(row.trays)} →{" "}
+                      {formatAmount(row.suggestedTrays)}
+                    </td>
+                    <td className="py-2 pr-4 text-right tabular-nums">
+                      {formatAmount(row.rows)} →{" "}
+                      {formatAmount(row.suggestedRows)}
+                    </td>
+                    <td className="py-2 pr-4 text-right tabular-nums">
+                      {row.change > 0 ? "+" : ""}
+                      {row.change}%
+                    </td>
+                    <td className="py-2 pr-4 text-muted-foreground">
+                      {RECOMMENDATION_CONFIDENCE_LABELS[row.confidence]}
+                      {row.samples > 0 &&
+                        ` (${row.samples}${row.basis === "crop" ? " for the crop" : ""})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,485 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ASSESSMENT_TYPE_LABELS,
+  ASSESSMENT_TYPES,
+  AssessmentType,
+  combineQuestions,
+  getAnswerOptions,
+  getQuestionType,
+  TypedQuestion,
+  usesOptionList,
+} from "@/lib/assessment-types";
+
+// A crop qualifier to edit; no id adds a new one
+export interface QualifierDraft {
+  id?: Id<"qualifiers">;
+  name: string;
+  location?: string;
+  assessments: TypedQuestion[];
+}
+
+interface EditableQuestion {
+  key: number;
+  questionId?: string; // Sent back so a renamed question keeps its ID
+  name: string;
+  type: AssessmentType;
+  unit: string;
+  optionsText: string;
+  required: boolean;
+  showIfQuestion: string;
+  showIfAnswers: string[];
+}
+
+let nextQuestionKey = 0;
+
+function toEditable(question?: TypedQuestion): EditableQuestion {
+  return {
+    key: nextQuestionKey++,
+    questionId: question?.questionId,
+    name: question?.name ?? "",
+    type: question ? getQuestionType(question) : "choice",
+    unit: question?.unit ?? "",
+    optionsText: question?.options.join("\n") ?? "",
+    required: question?.required ?? false,
+    showIfQuestion: question?.showIf?.question ?? "",
+    showIfAnswers: question?.showIf?.answers ?? [],
+  };
+}
+
+function splitOptions(text: string): string[] {
+  return text
+    .split(/\r?\n|,/)
+    .map((option) => option.trim())
+    .filter(Boolean);
+}
+
+// Yes/no questions may relabel their two answers
+function keepsOptions(type: AssessmentType) {
+  return usesOptionList(type) || type === "yesno";
+}
+
+function toQuestion(question: EditableQuestion): TypedQuestion {
+  return {
+    questionId: question.questionId,
+    name: question.name,
+    options: keepsOptions(question.type)
+      ? splitOptions(question.optionsText)
+      : [],
+    type: question.type,
+    unit: question.unit,
+    required: question.required,
+    ...(question.showIfQuestion && {
+      showIf: {
+        question: question.showIfQuestion,
+        answers: question.showIfAnswers,
+      },
+    }),
+  };
+}
+
+function QuestionFields({
+  question,
+  index,
+  count,
+  conditionQuestions,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  question: EditableQuestion;
+  index: number;
+  count: number;
+  conditionQuestions: TypedQuestion[];
+  onChange: (changes: Partial<EditableQuestion>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}) {
+  const id = `qualifier-question-${question.key}`;
+  const conditionQuestion = conditionQuestions.find(
+    (candidate) => candidate.name === question.showIfQuestion,
+  );
+  // A condition on a question that isn't on this form keeps its own answers
+  const conditionAnswers = conditionQuestion
+    ? getAnswerOptions(conditionQuestion)
+    : question.showIfAnswers;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">Question {index + 1}</span>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            aria-label="Move up"
+            disabled={index === 0}
+            onClick={() => onMove(-1)}
+          >
+            ↑
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            aria-label="Move down"
+            disabled={index === count - 1}
+            onClick={() => onMove(1)}
+          >
+            ↓
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            Remove
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[1fr_12rem]">
+        <Input
+          aria-label="Question"
+          value={question.name}
+          onChange={(event) => onChange({ name: event.target.value })}
+          placeholder="Fruit size?"
+        />
+        <select
+          aria-label="Answer type"
+          value={question.type}
+          onChange={(event) =>
+            onChange({ type: event.target.value as AssessmentType })
+          }
+          className="h-9 rounded-md border border-border bg-background px-2 text-sm"
+        >
+          {ASSESSMENT_TYPES.map((option) => (
+            <option key={option} value={option}>
+              {ASSESSMENT_TYPE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {keepsOptions(question.type) && (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-options`}>
+            {question.type === "yesno"
+              ? "Answer labels (optional)"
+              : "Answer options"}
+          </Label>
+          <Textarea
+            id={`${id}-options`}
+            value={question.optionsText}
+            onChange={(event) => onChange({ optionsText: event.target.value })}
+            placeholder={
+              question.type === "yesno" ? "yes\nno" : "Small\nMedium\nLarge"
+            }
+            className="min-h-20"
+          />
+        </div>
+      )}
+
+      {question.type === "number" && (
+        <Input
+          aria-label="Unit"
+          value={question.unit}
+          onChange={(event) => onChange({ unit: event.target.value })}
+          placeholder="Unit (optional), e.g. lbs"
+        />
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={question.required}
+          onChange={(event) => onChange({ required: event.target.checked })}
+        />
+        Required
+      </label>
+
+      <div className="space-y-2">
+        <select
+          aria-label="Ask this question"
+          value={question.showIfQuestion}
+          onChange={(event) =>
+            onChange({ showIfQuestion: event.target.value, showIfAnswers: [] })
+          }
+          className="h-9 w-full rounded-md border border-border bg-background px-2 text-sm"
+        >
+          <option value="">Always ask</option>
+          {conditionQuestions.map((candidate) => (
+            <option key={candidate.name} value={candidate.name}>
+              Only after &quot;{candidate.name}&quot;
+            </option>
+          ))}
+          {question.showIfQuestion && !conditionQuestion && (
+            <option value={question.showIfQuestion}>
+              Only after &quot;{question.showIfQuestion}&quot;
+            </option>
+          )}
+        </select>
+        {question.showIfQuestion && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {conditionAnswers.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={question.showIfAnswers.includes(option)}
+                  onChange={(event) =>
+                    onChange({
+                      showIfAnswers: event.target.checked
+                        ? [...question.showIfAnswers, option]
+                        : question.showIfAnswers.filter(
+                            (answer) => answer !== option,
+                          ),
+                    })
+                  }
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function QualifierEditorForm({
+  draft,
+  universalQuestions,
+  sheetOwned,
+  onClose,
+}: {
+  draft: QualifierDraft;
+  universalQuestions: TypedQuestion[];
+  sheetOwned: boolean;
+  onClose: () => void;
+}) {
+  const saveQualifier = useMutation(api.qualifiers.saveQualifier);
+  const deleteQualifier = useMutation(api.qualifiers.deleteQualifier);
+  const [name, setName] = useState(draft.name);
+  const [location, setLocation] = useState(draft.location ?? "");
+  const [questions, setQuestions] = useState(() =>
+    draft.assessments.length > 0
+      ? draft.assessments.map(toEditable)
+      : [toEditable()],
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const updateQuestion = (key: number, changes: Partial<EditableQuestion>) => {
+    setQuestions((prev) => {
+      const renamed = prev.find((question) => question.key === key);
+      return prev.map((question) => {
+        if (question.key === key) return { ...question, ...changes };
+        // Follow-ups keep pointing at a renamed question
+        if (
+          changes.name !== undefined &&
+          renamed?.name &&
+          question.showIfQuestion === renamed.name
+        ) {
+          return { ...question, showIfQuestion: changes.name };
+        }
+        return question;
+      });
+    });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestions((prev) => {
+      const next = [...prev];
+      const [question] = next.splice(index, 1);
+      next.splice(index + offset, 0, question);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (
+      questions.some(
+        (question) =>
+          question.showIfQuestion && question.showIfAnswers.length === 0,
+      )
+    ) {
+      setError("Pick at least one answer for each follow-up question.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveQualifier({
+        id: draft.id,
+        name,
+        location,
+        assessments: questions.map(toQuestion),
+      });
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to save qualifier.",
+      );
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    const confirmed = window.confirm(
+      `Delete the ${draft.name} qualifier and all of its questions?`,
+    );
+    if (!confirmed) return;
+
+    await deleteQualifier({ id: draft.id });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          {draft.id ? `Edit ${draft.name} Qualifier` : "Add Crop Qualifier"}
+        </DialogTitle>
+        <DialogDescription>
+          Questions asked for this crop after the universal questions, in this
+          order. A question named like a universal one replaces it.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        {sheetOwned && (
+          <p className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400">
+            The Qualifiers tab owns qualifiers, so the next sync replaces
+            these edits. Switch the qualifier source to the app to keep them.
+          </p>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="qualifier-name">Crop</Label>
+            <Input
+              id="qualifier-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Tomato"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="qualifier-location">Location (optional)</Label>
+            <Input
+              id="qualifier-location"
+              value={location}
+              onChange={(event) => setLocation(event.target.value)}
+              placeholder="Every location"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {questions.map((question, index) => (
+            <QuestionFields
+              key={question.key}
+              question={question}
+              index={index}
+              count={questions.length}
+              conditionQuestions={combineQuestions(
+                universalQuestions,
+                questions
+                  .filter((other) => other.key !== question.key && other.name)
+                  .map(toQuestion),
+              ).filter(
+                (candidate) =>
+                  candidate.name !== question.name &&
+                  getAnswerOptions(candidate).length > 0,
+              )}
+              onChange={(changes) => updateQuestion(question.key, changes)}
+              onMove={(offset) => moveQuestion(index, offset)}
+              onRemove={() =>
+                setQuestions((prev) =>
+                  prev.filter((other) => other.key !== question.key),
+                )
+              }
+            />
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setQuestions((prev) => [...prev, toEditable()])}
+          >
+            Add Question
+          </Button>
+        </div>
+
+        {error && (
+          <p className="rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </p>
+        )}
+      </div>
+
+      <DialogFooter className="gap-2">
+        {draft.id && (
+          <Button
+            type="button"
+            variant="destructive"
+            className="sm:mr-auto"
+            onClick={handleDelete}
+          >
+            Delete
+          </Button>
+        )}
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+// Admin editor for one crop's questions on the qualifiers page: add, rename,
+// reorder and remove questions and their answer options
+export function QualifierEditor({
+  draft,
+  universalQuestions,
+  sheetOwned,
+  onClose,
+}: {
+  draft: QualifierDraft | null;
+  universalQuestions: TypedQuestion[];
+  sheetOwned: boolean;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={draft !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[85vh] max-w-2xl overflow-y-auto">
+        {draft && (
+          <QualifierEditorForm
+            key={draft.id ?? "new"}
+            draft={draft}
+            universalQuestions={universalQuestions}
+            sheetOwned={sheetOwned}
+            onClose={onClose}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { describeQuestionType } from "@/lib/assessment-types";
+
+const ACTION_LABELS: Record<Doc<"qualifierProposals">["action"], string> = {
+  add: "Add",
+  change: "Change",
+  remove: "Remove",
+};
+
+// "Tomato (HT)", or "Universal: Buggy?"
+function describeProposalTarget(proposal: Doc<"qualifierProposals">) {
+  if (proposal.kind === "universal") return `Universal: ${proposal.name}`;
+  return proposal.location
+    ? `${proposal.name} (${proposal.location})`
+    : proposal.name;
+}
+
+function describeProposalDetail(proposal: Doc<"qualifierProposals">) {
+  if (proposal.question) {
+    const type = describeQuestionType(proposal.question);
+    return proposal.question.options.length > 0
+      ? `${type}: ${proposal.question.options.join(", ")}`
+      : type;
+  }
+  return proposal.assessments?.map((question) => question.name).join(", ");
+}
+
+// Who owns qualifiers, on the qualifiers page. When the app owns them,
+// admins review what each sync of the Qualifiers tab proposes.
+export function QualifierSourceSettings({ canEdit }: { canEdit: boolean }) {
+  const settings = useQuery(api.qualifiers.getQualifierSettings);
+  const proposals = useQuery(
+    api.qualifiers.getQualifierProposals,
+    canEdit ? {} : "skip",
+  );
+  const setQualifierSource = useMutation(api.qualifiers.setQualifierSource);
+  const acceptProposal = useMutation(api.qualifiers.acceptQualifierProposal);
+  const dismissProposal = useMutation(api.qualifiers.dismissQualifierProposal);
+
+  if (!settings) return null;
+
+  const handleSourceChange = async (source: "sheet" | "app") => {
+    if (
+      source === "sheet" &&
+      !window.confirm(
+        "The next sync will replace in-app qualifier edits with the Qualifiers tab. Continue?",
+      )
+    ) {
+      return;
+    }
+    try {
+      await setQualifierSource({ source });
+    } catch (err) {
+      toast.error("Unable to change the qualifier source", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  const handleProposal = async (
+    id: Id<"qualifierProposals">,
+    accept: boolean,
+  ) => {
+    try {
+      await (accept ? acceptProposal({ id }) : dismissProposal({ id }));
+    } catch (err) {
+      toast.error("Unable to update the proposal", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Qualifier Source</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {settings.source === "app"
+            ? "The app owns qualifiers. Syncing the Qualifiers tab only proposes changes for an admin to accept or dismiss."
+            : "The Qualifiers tab owns qualifiers. Each sync replaces crop and universal questions, including in-app edits."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <select
+            aria-label="Qualifier source"
+            value={settings.source}
+            onChange={(e) =>
+              handleSourceChange(e.target.value as "sheet" | "app")
+            }
+            className="h-9 rounded-md border border-border bg-background px-2 text-sm sm:w-72"
+          >
+            <option value="sheet">Sheet wins (sync replaces qualifiers)</option>
+            <option value="app">App owns (sync proposes changes)</option>
+          </select>
+        )}
+
+        {proposals && proposals.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">
+              Proposed by the last sync ({proposals.length})
+            </h3>
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {proposals.map((proposal) => (
+                <div
+                  key={proposal._id}
+                  className="flex flex-col gap-2 px-3 py-2 text-sm sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p>
+                      <span className="font-medium">
+                        {ACTION_LABELS[proposal.action]}
+                      </span>{" "}
+                      {describeProposalTarget(proposal)}
+                    </p>
+                    {describeProposalDetail(proposal) && (
+                      <p className="text-muted-foreground">
+                        {describeProposalDetail(proposal)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleProposal(proposal._id, true)}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleProposal(proposal._id, false)}
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+// Declared question renames on the qualifiers page, so analytics counts
+// answers to a question's old wording under its new one
+export function QuestionRenameEditor({
+  questionNames,
+  canEdit,
+}: {
+  questionNames: string[];
+  canEdit: boolean;
+}) {
+  const renames = useQuery(api.qualifiers.getQuestionRenames);
+  const renameQuestion = useMutation(api.qualifiers.renameQuestion);
+  const deleteQuestionRename = useMutation(
+    api.qualifiers.deleteQuestionRename,
+  );
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  if (!renames || (!canEdit && renames.length === 0)) return null;
+
+  const names = [...new Set(questionNames)].sort((a, b) => a.localeCompare(b));
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      await renameQuestion({ from, to });
+      setFrom("");
+      setTo("");
+    } catch (err) {
+      toast.error("Unable to save rename", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Renamed Questions</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          When a question&apos;s wording changes in the sheet, add the old and
+          new wording so older answers count toward the new question in
+          analytics. Questions renamed in the app are matched automatically.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renames.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No renames yet.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {renames.map((rename) => (
+              <div
+                key={rename._id}
+                className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+              >
+                <span>
+                  {rename.from}{" "}
+                  <span className="text-muted-foreground">→</span> {rename.to}
+                </span>
+                {canEdit && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteQuestionRename({ id: rename._id })}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Input
+              aria-label="Old question"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              placeholder="Old wording"
+            />
+            <Input
+              aria-label="New question"
+              list="question-rename-names"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="Current question"
+            />
+            <datalist id="question-rename-names">
+              {names.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <Button
+              type="button"
+              onClick={handleAdd}
+              disabled={saving || !from.trim() || !to.trim()}
+            >
+              Add Rename
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
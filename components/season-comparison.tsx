@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+type ComparisonMetric =
+  | "logs"
+  | "plantings"
+  | "trays"
+  | "planningBalance"
+  | "averageCropAgeDays";
+
+const METRIC_LABELS: Record<ComparisonMetric, string> = {
+  logs: "Quality logs",
+  plantings: "Plantings",
+  trays: "Trays",
+  planningBalance: "Planting balance (under − over)",
+  averageCropAgeDays: "Avg crop age at assessment",
+};
+
+function formatMetric(metric: ComparisonMetric, value: number | null) {
+  if (value === null) return "—";
+  if (metric === "planningBalance") {
+    return `${value > 0 ? "+" : ""}${Math.round(value)}%`;
+  }
+  if (metric === "averageCropAgeDays") return `${Math.round(value)}d`;
+  return String(Math.round(value * 10) / 10);
+}
+
+// Year-over-year table on the analytics page: one row per crop, one column
+// per season. Only shown once there are two seasons to compare.
+export function SeasonComparison({ crop }: { crop?: string }) {
+  const comparison = useQuery(api.sheets.getSeasonComparison);
+  const [metric, setMetric] = useState<ComparisonMetric>("planningBalance");
+
+  if (!comparison || comparison.seasons.length < 2) return null;
+
+  const rows = crop
+    ? comparison.crops.filter((row) => row.crop === crop)
+    : comparison.crops;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle>Year over Year</CardTitle>
+        <select
+          aria-label="Metric"
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as ComparisonMetric)}
+          className="w-full sm:w-64 h-9 rounded-md border border-border bg-background px-2 text-sm"
+        >
+          {Object.entries(METRIC_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No plantings or logs for this crop in any season.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Crop</th>
+                  {comparison.seasons.map((season) => (
+                    <th
+                      key={season.seasonId}
+                      className="py-2 pr-4 text-right font-medium"
+                    >
+                      {season.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.crop}
+                    className="border-b border-border/50 last:border-0"
+                  >
+                    <td className="py-2 pr-4">{row.crop}</td>
+                    {row.seasons.map((season) => (
+                      <td
+                        key={season.seasonId}
+                        className="py-2 pr-4 text-right tabular-nums"
+                      >
+                        {formatMetric(metric, season[metric])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
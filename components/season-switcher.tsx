@@ -0,0 +1,47 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { cn } from "@/lib/utils";
+
+// Picks the season a page shows. null means the active season, so the page
+// follows along when an admin starts a new one. Hidden until there is more
+// than one season to choose from.
+export function SeasonSwitcher({
+  value,
+  onChange,
+  className,
+}: {
+  value: Id<"seasons"> | null;
+  onChange: (seasonId: Id<"seasons"> | null) => void;
+  className?: string;
+}) {
+  const seasons = useQuery(api.seasons.getSeasons);
+
+  if (!seasons || seasons.length < 2) return null;
+
+  const activeSeason = seasons.find((season) => season.status === "active");
+
+  return (
+    <select
+      aria-label="Season"
+      value={value ?? activeSeason?._id ?? ""}
+      onChange={(e) => {
+        const seasonId = e.target.value as Id<"seasons">;
+        onChange(seasonId === activeSeason?._id ? null : seasonId);
+      }}
+      className={cn(
+        "h-9 rounded-md border border-border bg-background px-2 text-sm",
+        className,
+      )}
+    >
+      {seasons.map((season) => (
+        <option key={season._id} value={season._id}>
+          {season.name}
+          {season.status === "archived" ? " (archived)" : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import {
+  FieldSyncPreview,
+  hasPreviewChanges,
+  PreviewPlanting,
+  QualifierSyncPreview,
+  QuestionChange,
+  SheetSyncPreview,
+} from "@/lib/sync-preview";
+
+function plantingLabel(planting: PreviewPlanting) {
+  const name = planting.variety
+    ? `${planting.crop}: ${planting.variety}`
+    : planting.crop;
+  return `Bed ${planting.bed || "?"} · ${name}${planting.date ? ` (${planting.date})` : ""}`;
+}
+
+function ChangeGroup({
+  title,
+  tone,
+  items,
+}: {
+  title: string;
+  tone: "add" | "remove" | "change";
+  items: string[];
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p
+        className={cn(
+          "text-xs font-medium uppercase tracking-wide",
+          tone === "add" && "text-emerald-700 dark:text-emerald-400",
+          tone === "remove" && "text-destructive",
+          tone === "change" && "text-amber-700 dark:text-amber-400",
+        )}
+      >
+        {title} ({items.length})
+      </p>
+      <ul className="space-y-0.5 text-sm">
+        {items.map((item, index) => (
+          <li key={`${item}-${index}`} className="break-words">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function describeQuestionChange(change: QuestionChange) {
+  const parts = [
+    ...(change.typeChange
+      ? [`${change.typeChange.before} → ${change.typeChange.after}`]
+      : []),
+    ...change.addedOptions.map((option) => `+${option}`),
+    ...change.removedOptions.map((option) => `−${option}`),
+  ];
+  return `${change.question}: ${parts.join(", ")}`;
+}
+
+function FieldPreview({ preview }: { preview: FieldSyncPreview }) {
+  return (
+    <div className="space-y-3">
+      <ChangeGroup title="New beds" tone="add" items={preview.newBeds} />
+      <ChangeGroup
+        title="New plantings"
+        tone="add"
+        items={preview.added.map(plantingLabel)}
+      />
+      <ChangeGroup
+        title="Removed plantings"
+        tone="remove"
+        items={preview.removed.map(plantingLabel)}
+      />
+      <ChangeGroup
+        title="Changed varieties"
+        tone="change"
+        items={preview.varietyChanges.map(
+          (change) =>
+            `Bed ${change.bed || "?"} · ${change.crop}: ${change.before || "(none)"} → ${change.after || "(none)"}`,
+        )}
+      />
+      <ChangeGroup
+        title="Updated plantings"
+        tone="change"
+        items={preview.updated.map(
+          ({ planting, changes }) =>
+            `${plantingLabel(planting)} — ${changes
+              .map(
+                (change) =>
+                  `${change.field}: ${change.before || "(blank)"} → ${change.after || "(blank)"}`,
+              )
+              .join("; ")}`,
+        )}
+      />
+      <ChangeGroup
+        title="Newly detected replantings"
+        tone="change"
+        items={preview.newReplantings.map((planting) =>
+          planting.replantedWith
+            ? `${plantingLabel(planting)} replanted with ${[
+                planting.replantedWith.crop,
+                planting.replantedWith.variety,
+              ]
+                .filter(Boolean)
+                .join(": ")}`
+            : `${plantingLabel(planting)} replaced ${
+                [planting.replantedFrom?.crop, planting.replantedFrom?.variety]
+                  .filter(Boolean)
+                  .join(": ") || "an earlier planting"
+              }`,
+        )}
+      />
+    </div>
+  );
+}
+
+function QualifierPreview({ preview }: { preview: QualifierSyncPreview }) {
+  return (
+    <div className="space-y-3">
+      {preview.proposalsOnly && (
+        <p className="text-sm text-muted-foreground">
+          The app owns qualifiers, so applying lists these changes on the
+          qualifiers page for an admin to accept or dismiss.
+        </p>
+      )}
+      <ChangeGroup
+        title="New crop question sets"
+        tone="add"
+        items={preview.addedCrops}
+      />
+      <ChangeGroup
+        title="Removed crop question sets"
+        tone="remove"
+        items={preview.removedCrops}
+      />
+      <ChangeGroup
+        title="Changed crop questions"
+        tone="change"
+        items={preview.changedCrops.flatMap((crop) => [
+          ...crop.addedQuestions.map((q) => `${crop.label}: added "${q}"`),
+          ...crop.removedQuestions.map((q) => `${crop.label}: removed "${q}"`),
+          ...crop.changedQuestions.map(
+            (change) => `${crop.label}: ${describeQuestionChange(change)}`,
+          ),
+        ])}
+      />
+      <ChangeGroup
+        title="New universal questions"
+        tone="add"
+        items={preview.universal.added}
+      />
+      <ChangeGroup
+        title="Removed universal questions"
+        tone="remove"
+        items={preview.universal.removed}
+      />
+      <ChangeGroup
+        title="Changed universal questions"
+        tone="change"
+        items={preview.universal.changed.map(describeQuestionChange)}
+      />
+    </div>
+  );
+}
+
+// Review step of the analytics sync dialog: what applying the sync would
+// change, per sheet, from the sync route's dry-run mode.
+export function SyncPreviewReview({
+  previews,
+}: {
+  previews: SheetSyncPreview[];
+}) {
+  const changed = previews.filter(hasPreviewChanges);
+  const unchanged = previews.filter((preview) => !hasPreviewChanges(preview));
+
+  return (
+    <div className="max-h-[50vh] space-y-4 overflow-y-auto pr-1">
+      {changed.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Nothing would change. The app already matches the spreadsheet.
+        </p>
+      )}
+
+      {changed.map((preview) => (
+        <div
+          key={preview.sheetName}
+          className="space-y-3 rounded-lg border border-border p-3"
+        >
+          <p className="font-medium">{preview.sheetName}</p>
+          {preview.kind === "missing" && (
+            <p className="text-sm text-destructive">
+              This tab no longer exists in the spreadsheet. Applying removes its
+              crops from the app.
+            </p>
+          )}
+          {preview.kind === "field" && <FieldPreview preview={preview} />}
+          {preview.kind === "qualifiers" && (
+            <QualifierPreview preview={preview} />
+          )}
+        </div>
+      ))}
+
+      {unchanged.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          No changes: {unchanged.map((preview) => preview.sheetName).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Planting-quantity answers the analytics page couldn't place as under, on
+// target or over (planning.unmappedAnswers from getAnalyticsOverview)
+export function UnmappedPlanningAnswers({
+  answers,
+}: {
+  answers: { question: string; answer: string; count: number }[];
+}) {
+  if (answers.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Unmapped Planting Answers</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          These answers aren&apos;t counted as under, on target or over. Map
+          them under Planting Quantity Questions on the{" "}
+          <Link href="/qualifiers" className="underline">
+            qualifiers page
+          </Link>
+          .
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {answers.map((row) => (
+            <div
+              key={`${row.question}\u0000${row.answer}`}
+              className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+            >
+              <span className="min-w-0 truncate">
+                <span className="text-muted-foreground">{row.question}</span>{" "}
+                {row.answer}
+              </span>
+              <span className="text-muted-foreground">{row.count}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
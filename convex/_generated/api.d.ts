@@ -8,7 +8,20 @@
  * @module
  */
 
+import type * as analytics from "../analytics.js";
+import type * as cropAliases from "../cropAliases.js";
+import type * as crons from "../crons.js";
+import type * as locations from "../locations.js";
+import type * as planning from "../planning.js";
+import type * as plantingHistory from "../plantingHistory.js";
+import type * as qualifiers from "../qualifiers.js";
+import type * as recommendations from "../recommendations.js";
+import type * as replanting from "../replanting.js";
+import type * as scheduledSync from "../scheduledSync.js";
+import type * as seasons from "../seasons.js";
 import type * as sheets from "../sheets.js";
+import type * as syncRuns from "../syncRuns.js";
+import type * as users from "../users.js";
 
 import type {
   ApiFromModules,
@@ -17,7 +30,20 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  analytics: typeof analytics;
+  cropAliases: typeof cropAliases;
+  crons: typeof crons;
+  locations: typeof locations;
+  planning: typeof planning;
+  plantingHistory: typeof plantingHistory;
+  qualifiers: typeof qualifiers;
+  recommendations: typeof recommendations;
+  replanting: typeof replanting;
+  scheduledSync: typeof scheduledSync;
+  seasons: typeof seasons;
   sheets: typeof sheets;
+  syncRuns: typeof syncRuns;
+  users: typeof users;
 }>;
 
 /**
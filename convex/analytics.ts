@@ -0,0 +1,166 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import {
+  getRollupAnswers,
+  getRollupAnswerSet,
+  mergeRollupAnswers,
+  mergeRollupAnswerSets,
+} from "../lib/analytics-rollup";
+
+type LogFields = Pick<
+  Doc<"qualityLogs">,
+  | "seasonId"
+  | "assessmentDate"
+  | "crop"
+  | "variety"
+  | "field"
+  | "loggedByUserId"
+  | "loggedByName"
+  | "loggedByEmail"
+  | "cropAgeDays"
+  | "responses"
+>;
+
+const BACKFILL_BATCH_SIZE = 100;
+
+// ============ Helpers ============
+
+// assessmentDate's UTC day, the day getAnalyticsOverview filters on
+export function getRollupDay(assessmentDate: number): string {
+  return new Date(assessmentDate).toISOString().slice(0, 10);
+}
+
+// Adds a log to its rollup row (`sign` 1) or takes it back out (-1). Rows
+// left without logs are deleted.
+async function applyLogToRollup(
+  ctx: MutationCtx,
+  log: LogFields,
+  sign: 1 | -1
+) {
+  const day = getRollupDay(log.assessmentDate);
+  const row = await ctx.db
+    .query("analyticsRollups")
+    .withIndex("by_key", (q) =>
+      q
+        .eq("seasonId", log.seasonId)
+        .eq("day", day)
+        .eq("crop", log.crop)
+        .eq("variety", log.variety)
+        .eq("field", log.field)
+        .eq("loggedByUserId", log.loggedByUserId)
+    )
+    .unique();
+
+  const aged = log.cropAgeDays !== undefined;
+  const counts = {
+    logs: (row?.logs ?? 0) + sign,
+    ageDaysTotal: (row?.ageDaysTotal ?? 0) + sign * (log.cropAgeDays ?? 0),
+    agedLogs: (row?.agedLogs ?? 0) + (aged ? sign : 0),
+    answers: mergeRollupAnswers(
+      row?.answers ?? [],
+      getRollupAnswers(log.responses),
+      sign
+    ),
+    answerSets: mergeRollupAnswerSets(
+      row?.answerSets ?? [],
+      getRollupAnswerSet(log.responses),
+      sign
+    ),
+  };
+  const loggedByName = log.loggedByName || log.loggedByEmail || undefined;
+
+  if (!row) {
+    if (sign < 0) return;
+    await ctx.db.insert("analyticsRollups", {
+      seasonId: log.seasonId,
+      day,
+      crop: log.crop,
+      variety: log.variety,
+      field: log.field,
+      loggedByUserId: log.loggedByUserId,
+      loggedByName,
+      ...counts,
+    });
+  } else if (counts.logs <= 0) {
+    await ctx.db.delete(row._id);
+  } else {
+    await ctx.db.patch(row._id, {
+      ...counts,
+      ...(sign > 0 && loggedByName && { loggedByName }),
+    });
+  }
+}
+
+// Inserts a quality log and counts it in the rollups
+export async function insertQualityLog(
+  ctx: MutationCtx,
+  log: Omit<Doc<"qualityLogs">, "_id" | "_creationTime" | "inAnalytics">
+): Promise<Id<"qualityLogs">> {
+  await applyLogToRollup(ctx, log, 1);
+  return ctx.db.insert("qualityLogs", { ...log, inAnalytics: true });
+}
+
+// Patches a quality log and moves its counts to match
+export async function patchQualityLog(
+  ctx: MutationCtx,
+  log: Doc<"qualityLogs">,
+  patch: Partial<Omit<Doc<"qualityLogs">, "_id" | "_creationTime">>
+) {
+  if (log.inAnalytics) await applyLogToRollup(ctx, log, -1);
+  await applyLogToRollup(ctx, { ...log, ...patch }, 1);
+  await ctx.db.patch(log._id, { ...patch, inAnalytics: true });
+}
+
+// Deletes a quality log and takes it out of the rollups
+export async function removeQualityLog(
+  ctx: MutationCtx,
+  log: Doc<"qualityLogs">
+) {
+  if (log.inAnalytics) await applyLogToRollup(ctx, log, -1);
+  await ctx.db.delete(log._id);
+}
+
+// A season's rollup rows, oldest day first
+export async function getSeasonRollups(
+  ctx: QueryCtx,
+  seasonId: Id<"seasons"> | undefined
+) {
+  return ctx.db
+    .query("analyticsRollups")
+    .withIndex("by_season_and_day", (q) => q.eq("seasonId", seasonId))
+    .collect();
+}
+
+// ============ Backfill ============
+
+// Counts logs saved before the rollups existed, a batch at a time. Run once
+// with `npx convex run analytics:backfillAnalyticsRollups`; each batch
+// schedules the next. Logs already counted are skipped, so it is safe to
+// run again while logs are being written.
+export const backfillAnalyticsRollups = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("qualityLogs")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+
+    let counted = 0;
+    for (const log of page.page) {
+      if (log.inAnalytics) continue;
+      await applyLogToRollup(ctx, log, 1);
+      await ctx.db.patch(log._id, { inAnalytics: true });
+      counted += 1;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.analytics.backfillAnalyticsRollups,
+        { cursor: page.continueCursor }
+      );
+    }
+    return { counted, done: page.isDone };
+  },
+});
@@ -0,0 +1,13 @@
+// Convex verifies Clerk-issued JWTs (the "convex" JWT template) so functions can
+// read the signed-in user from ctx.auth. Set CLERK_JWT_ISSUER_DOMAIN in the
+// Convex dashboard to the Clerk Frontend API URL.
+const authConfig = {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: "convex",
+    },
+  ],
+};
+
+export default authConfig;
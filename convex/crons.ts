@@ -0,0 +1,15 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Re-sync the configured spreadsheet even when no admin opens the app.
+// Cheap when nothing changed: one Drive metadata request per run.
+crons.interval(
+  "scheduled spreadsheet sync",
+  { minutes: 30 },
+  internal.scheduledSync.runScheduledSync,
+  { trigger: "cron" }
+);
+
+export default crons;
@@ -0,0 +1,66 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireAdmin, requireApproved } from "./permissions";
+import { getBaseCropName, getCropMatchKey } from "../lib/crop-matching";
+
+// ============ Crop aliases ============
+
+export const getCropAliases = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    const aliases = await ctx.db.query("cropAliases").collect();
+    return aliases.sort((a, b) => a.crop.localeCompare(b.crop));
+  },
+});
+
+// Maps a crop to a qualifier, replacing any alias the crop (or its singular
+// or plural) already has
+export const setCropAlias = mutation({
+  args: { crop: v.string(), qualifierName: v.string() },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    const crop = getBaseCropName(args.crop);
+    const key = getCropMatchKey(crop);
+    if (!key) {
+      throw new Error("Crop name is required");
+    }
+
+    const qualifiers = await ctx.db.query("qualifiers").collect();
+    const qualifier = qualifiers.find(
+      (entry) =>
+        entry.name.trim().toLowerCase() ===
+        args.qualifierName.trim().toLowerCase()
+    );
+    if (!qualifier) {
+      throw new Error(`No qualifier named "${args.qualifierName.trim()}"`);
+    }
+    if (getCropMatchKey(qualifier.name) === key) {
+      throw new Error(`"${crop}" already matches the ${qualifier.name} qualifier`);
+    }
+
+    const existing = (await ctx.db.query("cropAliases").collect()).filter(
+      (alias) => getCropMatchKey(alias.crop) === key
+    );
+    for (const alias of existing) {
+      await ctx.db.delete(alias._id);
+    }
+
+    const id = await ctx.db.insert("cropAliases", {
+      crop,
+      qualifierName: qualifier.name,
+      createdAt: Date.now(),
+      createdByUserId: viewer.userId,
+      createdByName: viewer.name ?? viewer.email,
+    });
+    return { success: true, id };
+  },
+});
+
+export const deleteCropAlias = mutation({
+  args: { id: v.id("cropAliases") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
@@ -0,0 +1,94 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireAdmin, requireApproved } from "./permissions";
+import { locationOverrideValidator, locationRuleValidator } from "./schema";
+import { getActiveSeasonId } from "./seasons";
+import {
+  DEFAULT_LOCATION_RULES,
+  detectLocation,
+  LocationOverride,
+  LocationRule,
+} from "../lib/locations";
+
+// ============ Location rules ============
+
+// The rules and overrides in effect, with the active season's fields
+export const getLocationSettings = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    const settings = await ctx.db.query("settings").first();
+    const seasonId = await getActiveSeasonId(ctx);
+    const crops = await ctx.db
+      .query("crops")
+      .withIndex("by_season_and_field", (q) => q.eq("seasonId", seasonId))
+      .collect();
+
+    return {
+      rules: settings?.locationRules ?? DEFAULT_LOCATION_RULES,
+      overrides: settings?.locationOverrides ?? [],
+      fields: [...new Set(crops.map((crop) => crop.field))].sort(),
+    };
+  },
+});
+
+// Saves the rules and overrides and re-tags the active season's crops, so
+// qualifier matching sees the change without waiting for a sync. Archived
+// seasons keep the locations they were synced with.
+export const setLocationSettings = mutation({
+  args: {
+    rules: v.array(locationRuleValidator),
+    overrides: v.array(locationOverrideValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const settings = await ctx.db.query("settings").first();
+    if (!settings) {
+      throw new Error("No settings found");
+    }
+
+    const rules: LocationRule[] = [];
+    for (const rule of args.rules) {
+      const pattern = rule.pattern.trim();
+      const location = rule.location.trim();
+      if (!pattern && !location) continue;
+      if (!pattern || !location) {
+        throw new Error("Each location rule needs a pattern and a location");
+      }
+      rules.push({ pattern, location });
+    }
+
+    const overrides: LocationOverride[] = args.overrides
+      .map((override) => ({
+        field: override.field.trim(),
+        location: override.location.trim(),
+      }))
+      .filter((override) => override.field && override.location);
+
+    await ctx.db.patch(settings._id, {
+      locationRules: rules,
+      locationOverrides: overrides,
+      lastUpdated: Date.now(),
+    });
+
+    const seasonId = await getActiveSeasonId(ctx);
+    const crops = await ctx.db
+      .query("crops")
+      .withIndex("by_season_and_field", (q) => q.eq("seasonId", seasonId))
+      .collect();
+    const locationSettings = {
+      locationRules: rules,
+      locationOverrides: overrides,
+    };
+
+    let updatedCrops = 0;
+    for (const crop of crops) {
+      const location = detectLocation(crop.field, locationSettings);
+      if (crop.location !== location) {
+        await ctx.db.patch(crop._id, { location });
+        updatedCrops++;
+      }
+    }
+
+    return { success: true, updatedCrops };
+  },
+});
@@ -0,0 +1,94 @@
+import { QueryCtx } from "./_generated/server";
+
+// Clerk's "convex" JWT template must include the user's public metadata:
+//   { "metadata": "{{user.public_metadata}}" }
+// This mirrors the session claims proxy.ts reads for approval and roles.
+type ClerkMetadata = { approved?: boolean; role?: string };
+
+export type Viewer = {
+  userId: string;
+  name?: string;
+  email?: string;
+  isAdmin: boolean;
+  isApproved: boolean;
+};
+
+// The signed-in Clerk user calling this function, or null when anonymous.
+export async function getViewer(ctx: QueryCtx): Promise<Viewer | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+
+  const metadata = (identity.metadata ?? {}) as ClerkMetadata;
+
+  return {
+    userId: identity.subject,
+    name: identity.name ?? undefined,
+    email: identity.email ?? undefined,
+    isAdmin: metadata.role === "admin",
+    // Admins are always approved (same rule as lib/auth.ts)
+    isApproved: metadata.role === "admin" || metadata.approved === true,
+  };
+}
+
+export async function requireViewer(ctx: QueryCtx): Promise<Viewer> {
+  const viewer = await getViewer(ctx);
+  if (!viewer) {
+    throw new Error("Not authenticated");
+  }
+  return viewer;
+}
+
+// Mirrors requireApproved() in lib/auth.ts.
+export async function requireApproved(ctx: QueryCtx): Promise<Viewer> {
+  const viewer = await requireViewer(ctx);
+  if (!viewer.isApproved) {
+    throw new Error("Account not approved");
+  }
+  return viewer;
+}
+
+// Mirrors requireAdmin() in lib/auth.ts.
+export async function requireAdmin(ctx: QueryCtx): Promise<Viewer> {
+  const viewer = await requireViewer(ctx);
+  if (!viewer.isAdmin) {
+    throw new Error("Admin access required");
+  }
+  return viewer;
+}
+
+// ============ Service identity ============
+
+// Server routes that act on behalf of the app rather than a signed-in user
+// (the token-authenticated export) pass CONVEX_SERVICE_KEY as a
+// `serviceKey` argument. The same value must be set in the Next.js env and
+// with `npx convex env set CONVEX_SERVICE_KEY ...`.
+export function isServiceKey(serviceKey: string | undefined): boolean {
+  const expected = process.env.CONVEX_SERVICE_KEY;
+  if (!expected || !serviceKey || serviceKey.length !== expected.length) {
+    return false;
+  }
+
+  // Constant-time comparison; node:crypto isn't available in the Convex runtime
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ serviceKey.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+// Returns null when the caller is the service rather than a user.
+export async function requireApprovedOrService(
+  ctx: QueryCtx,
+  serviceKey: string | undefined
+): Promise<Viewer | null> {
+  if (isServiceKey(serviceKey)) return null;
+  return requireApproved(ctx);
+}
+
+// Authors can change their own logs; admins can change anyone's.
+export function canModifyQualityLog(
+  viewer: Viewer,
+  log: { loggedByUserId?: string }
+): boolean {
+  return viewer.isAdmin || log.loggedByUserId === viewer.userId;
+}
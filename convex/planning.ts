@@ -0,0 +1,78 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { requireAdmin, requireApproved } from "./permissions";
+import { planningQuestionValidator } from "./schema";
+import {
+  createPlanningClassifier,
+  PlanningAnswer,
+  PlanningQuestion,
+} from "../lib/planning";
+
+// The classifier analytics reads planting-quantity answers with
+export async function getPlanningClassifier(ctx: QueryCtx) {
+  const settings = await ctx.db.query("settings").first();
+  return createPlanningClassifier(settings?.planningQuestions);
+}
+
+// ============ Planning questions ============
+
+// The saved mapping, or null while the keyword defaults apply
+export const getPlanningSettings = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    const settings = await ctx.db.query("settings").first();
+    return { questions: settings?.planningQuestions ?? null };
+  },
+});
+
+// Saves which questions are planting-quantity questions and how their
+// answers count. Leaving `questions` out goes back to the keyword defaults.
+export const setPlanningQuestions = mutation({
+  args: { questions: v.optional(v.array(planningQuestionValidator)) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const settings = await ctx.db.query("settings").first();
+    if (!settings) {
+      throw new Error("No settings found");
+    }
+
+    let questions: PlanningQuestion[] | undefined;
+    if (args.questions) {
+      questions = [];
+      const seen = new Set<string>();
+      for (const entry of args.questions) {
+        const question = entry.question.trim();
+        if (!question) {
+          throw new Error("Each planning question needs a name");
+        }
+        if (seen.has(question.toLowerCase())) {
+          throw new Error(`"${question}" is listed twice`);
+        }
+        seen.add(question.toLowerCase());
+
+        const answers: PlanningAnswer[] = [];
+        for (const mapping of entry.answers) {
+          const answer = mapping.answer.trim();
+          if (!answer || (!mapping.bucket && mapping.score === undefined)) {
+            continue;
+          }
+          if (mapping.score !== undefined && !Number.isFinite(mapping.score)) {
+            throw new Error(`The score for "${answer}" must be a number`);
+          }
+          answers.push({
+            answer,
+            ...(mapping.bucket && { bucket: mapping.bucket }),
+            ...(mapping.score !== undefined && { score: mapping.score }),
+          });
+        }
+        questions.push({ question, answers });
+      }
+    }
+
+    await ctx.db.patch(settings._id, {
+      planningQuestions: questions,
+      lastUpdated: Date.now(),
+    });
+    return { success: true };
+  },
+});
@@ -0,0 +1,210 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, MutationCtx, query } from "./_generated/server";
+import { requireApproved } from "./permissions";
+import { resolveSeasonId } from "./seasons";
+import { getCropSyncKey } from "../lib/crop-sync";
+
+// ============ Recording ============
+
+// Brings a field's history in line with its crops after a sync: new plantings
+// get an entry, removed or restored ones update theirs, and a crop with
+// replantedFrom marks the planting it replaced (adding an entry for it when
+// no sync ever saw it on the sheet). A crop with replantedWith is itself the
+// replaced planting; its row hasn't been updated to the new crop yet.
+export async function recordPlantingHistory(
+  ctx: MutationCtx,
+  seasonId: Id<"seasons"> | undefined,
+  field: string,
+  crops: Doc<"crops">[],
+  now: number
+) {
+  const history = await ctx.db
+    .query("plantingHistory")
+    .withIndex("by_season_field_and_bed", (q) =>
+      q.eq("seasonId", seasonId).eq("field", field)
+    )
+    .collect();
+
+  const entries = [...history];
+  const byCropId = new Map<Id<"crops">, Doc<"plantingHistory">>();
+  for (const entry of history) {
+    if (entry.cropId) byCropId.set(entry.cropId, entry);
+  }
+
+  const cropIds = new Set(crops.map((crop) => crop._id));
+
+  for (const crop of crops) {
+    const entry = byCropId.get(crop._id);
+    if (!entry) {
+      const id = await ctx.db.insert("plantingHistory", {
+        seasonId,
+        field,
+        bed: crop.bed,
+        crop: crop.crop,
+        variety: crop.variety,
+        date: crop.date,
+        plantedOn: crop.plantedOn,
+        notes: crop.notes,
+        cropId: crop._id,
+        firstSeenAt: now,
+        removedAt: crop.removedAt,
+      });
+      const inserted = (await ctx.db.get(id))!;
+      byCropId.set(crop._id, inserted);
+      entries.push(inserted);
+    } else if (entry.removedAt !== crop.removedAt) {
+      await ctx.db.patch(entry._id, { removedAt: crop.removedAt });
+    }
+
+    if (!crop.replantedFrom || crop.replantedWith) continue;
+
+    // replantedFrom.date is when the bed was replanted, not when the original
+    // went in, so the original is matched on bed, crop and variety
+    const { crop: fromCrop, variety: fromVariety, notes } = crop.replantedFrom;
+    const originalKey = getCropSyncKey({
+      field,
+      bed: crop.bed,
+      crop: fromCrop,
+      variety: fromVariety,
+      date: "",
+    });
+    const candidates = entries.filter(
+      (candidate) =>
+        candidate.cropId !== crop._id &&
+        getCropSyncKey({ ...candidate, date: "" }) === originalKey
+    );
+    const replaced =
+      candidates.find((candidate) => candidate.replacedByCropId === crop._id) ??
+      candidates.find((candidate) => candidate.replacedByCropId === undefined);
+
+    if (!replaced) {
+      const id = await ctx.db.insert("plantingHistory", {
+        seasonId,
+        field,
+        bed: crop.bed,
+        crop: fromCrop,
+        variety: fromVariety,
+        date: "",
+        notes,
+        firstSeenAt: now,
+        replacedAt: now,
+        replacedByCropId: crop._id,
+      });
+      entries.push((await ctx.db.get(id))!);
+    } else if (replaced.replacedByCropId !== crop._id) {
+      replaced.replacedAt = replaced.replacedAt ?? now;
+      replaced.replacedByCropId = crop._id;
+      await ctx.db.patch(replaced._id, {
+        replacedAt: replaced.replacedAt,
+        replacedByCropId: crop._id,
+      });
+    }
+  }
+
+  // Crops without quality logs are deleted outright when they leave the sheet
+  for (const entry of history) {
+    if (entry.cropId && !cropIds.has(entry.cropId) && !entry.removedAt) {
+      await ctx.db.patch(entry._id, { removedAt: now });
+    }
+  }
+}
+
+// Build history from the crops table for syncs that ran before it existed.
+// Run once with `npx convex run plantingHistory:backfillPlantingHistory`.
+export const backfillPlantingHistory = internalMutation({
+  handler: async (ctx) => {
+    const crops = await ctx.db.query("crops").collect();
+    const groups = new Map<string, Doc<"crops">[]>();
+    for (const crop of crops) {
+      const key = `${crop.seasonId ?? ""}\u0000${crop.field}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(crop);
+    }
+
+    const now = Date.now();
+    for (const group of groups.values()) {
+      await recordPlantingHistory(
+        ctx,
+        group[0].seasonId,
+        group[0].field,
+        group,
+        now
+      );
+    }
+
+    return { crops: crops.length, fields: groups.size };
+  },
+});
+
+// ============ Timeline ============
+
+// Every planting a bed held in a season, oldest first, with the quality logs
+// recorded against each. Logs for the bed that aren't linked to a planting
+// are returned separately.
+export const getBedHistory = query({
+  args: {
+    field: v.string(),
+    bed: v.string(),
+    seasonId: v.optional(v.id("seasons")),
+  },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const seasonId = await resolveSeasonId(ctx, args.seasonId);
+
+    const entries = await ctx.db
+      .query("plantingHistory")
+      .withIndex("by_season_field_and_bed", (q) =>
+        q.eq("seasonId", seasonId).eq("field", args.field).eq("bed", args.bed)
+      )
+      .collect();
+
+    const linkedCropIds = new Set<Id<"crops">>();
+    const plantings = await Promise.all(
+      entries.map(async (entry) => {
+        if (entry.cropId) linkedCropIds.add(entry.cropId);
+
+        const logs = entry.cropId
+          ? await ctx.db
+              .query("qualityLogs")
+              .withIndex("by_crop_id", (q) => q.eq("cropId", entry.cropId))
+              .collect()
+          : [];
+        const replacement = entry.replacedByCropId
+          ? await ctx.db.get(entry.replacedByCropId)
+          : null;
+
+        return {
+          ...entry,
+          replacedBy: replacement
+            ? { crop: replacement.crop, variety: replacement.variety }
+            : null,
+          logs: logs.sort((a, b) => a.assessmentDate - b.assessmentDate),
+        };
+      })
+    );
+
+    // Undated plantings sort by when a sync first saw them
+    const sortKey = (entry: Doc<"plantingHistory">) =>
+      entry.plantedOn ?? new Date(entry.firstSeenAt).toISOString().slice(0, 10);
+    plantings.sort(
+      (a, b) =>
+        sortKey(a).localeCompare(sortKey(b)) || a.firstSeenAt - b.firstSeenAt
+    );
+
+    const bedLogs = await ctx.db
+      .query("qualityLogs")
+      .withIndex("by_bed", (q) => q.eq("bed", args.bed))
+      .collect();
+    const unlinkedLogs = bedLogs
+      .filter(
+        (log) =>
+          log.field === args.field &&
+          log.seasonId === seasonId &&
+          !(log.cropId && linkedCropIds.has(log.cropId))
+      )
+      .sort((a, b) => a.assessmentDate - b.assessmentDate);
+
+    return { plantings, unlinkedLogs };
+  },
+});
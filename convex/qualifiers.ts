@@ -0,0 +1,571 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { requireAdmin, requireApproved } from "./permissions";
+import { assessmentValidator } from "./schema";
+import {
+  getQuestionListError,
+  normalizeQuestion,
+  TypedQuestion,
+} from "../lib/assessment-types";
+import {
+  assignQuestionIds,
+  QuestionRename,
+  resolveQuestionName,
+} from "../lib/question-ids";
+
+export type QualifierSource = "sheet" | "app";
+
+type CropQualifierInput = Pick<
+  Doc<"qualifiers">,
+  "name" | "location" | "assessments"
+>;
+type UniversalQuestionInput = Omit<
+  Doc<"universalQualifiers">,
+  "_id" | "_creationTime" | "lastSynced"
+>;
+type ProposalInput = Omit<
+  Doc<"qualifierProposals">,
+  "_id" | "_creationTime" | "status" | "createdAt"
+>;
+
+// Who owns qualifiers; the Qualifiers tab unless an admin chose the app
+export async function getQualifierSource(
+  ctx: QueryCtx
+): Promise<QualifierSource> {
+  const settings = await ctx.db.query("settings").first();
+  return settings?.qualifierSource ?? "sheet";
+}
+
+function normalizeLocation(location: string | undefined) {
+  const trimmed = location?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+// Same key syncQualifiers matches on
+function qualifierKey(name: string, location: string | undefined) {
+  return `${name.trim().toLowerCase()}::${normalizeLocation(location)?.toLowerCase() ?? ""}`;
+}
+
+// Compares questions as the editor would save them, so whitespace and
+// settings the type doesn't use aren't differences
+function questionSignature(question: TypedQuestion & { order?: number }) {
+  return JSON.stringify({ ...normalizeQuestion(question), order: question.order });
+}
+
+function proposalSignature(proposal: ProposalInput) {
+  return JSON.stringify([
+    proposal.kind,
+    proposal.action,
+    proposal.kind === "crop"
+      ? qualifierKey(proposal.name, proposal.location)
+      : proposal.name,
+    proposal.assessments?.map(questionSignature),
+    proposal.question &&
+      questionSignature({ name: proposal.name, ...proposal.question }),
+  ]);
+}
+
+// ============ Versions ============
+
+export function newQuestionId() {
+  return crypto.randomUUID();
+}
+
+export async function loadQuestionRenames(
+  ctx: QueryCtx
+): Promise<QuestionRename[]> {
+  return ctx.db.query("questionRenames").collect();
+}
+
+function toStoredQuestion({
+  name,
+  options,
+  type,
+  unit,
+  required,
+  showIf,
+  questionId,
+}: TypedQuestion) {
+  return { name, options, type, unit, required, showIf, questionId };
+}
+
+/**
+ * The version to save a crop qualifier's or universal question's questions
+ * under: the previous one while nothing changed, else the next one, kept in
+ * qualifierVersions. Questions are compared with their IDs, so a rename or
+ * an option change is a new version.
+ */
+export async function recordQualifierVersion(
+  ctx: MutationCtx,
+  definition: Pick<Doc<"qualifierVersions">, "kind" | "name" | "location">,
+  questions: TypedQuestion[],
+  previous: { questions: TypedQuestion[]; version?: number } | null
+): Promise<number> {
+  const signature = (list: TypedQuestion[]) =>
+    JSON.stringify(
+      list.map((question) => [question.questionId, normalizeQuestion(question)])
+    );
+  if (
+    previous?.version !== undefined &&
+    signature(previous.questions) === signature(questions)
+  ) {
+    return previous.version;
+  }
+
+  const version = (previous?.version ?? 0) + 1;
+  await ctx.db.insert("qualifierVersions", {
+    kind: definition.kind,
+    name: definition.name,
+    ...(definition.location ? { location: definition.location } : {}),
+    version,
+    assessments: questions.map(toStoredQuestion),
+    createdAt: Date.now(),
+  });
+  return version;
+}
+
+// A crop qualifier's or universal question's saved versions, newest first
+export const getQualifierVersions = query({
+  args: {
+    kind: v.union(v.literal("crop"), v.literal("universal")),
+    name: v.string(),
+    location: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const versions = await ctx.db
+      .query("qualifierVersions")
+      .withIndex("by_kind_and_name", (q) =>
+        q.eq("kind", args.kind).eq("name", args.name)
+      )
+      .order("desc")
+      .collect();
+    const location = normalizeLocation(args.location)?.toLowerCase();
+    return versions.filter(
+      (version) => version.location?.toLowerCase() === location
+    );
+  },
+});
+
+// ============ Question renames ============
+
+export const getQuestionRenames = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    const renames = await ctx.db.query("questionRenames").collect();
+    return renames.sort((a, b) => a.from.localeCompare(b.from));
+  },
+});
+
+// Declares that `from` is now asked as `to`, so stats count both under `to`
+// and the next sync or edit keeps `from`'s question ID for `to`
+export const renameQuestion = mutation({
+  args: { from: v.string(), to: v.string() },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    const from = args.from.trim();
+    const to = args.to.trim();
+    if (!from || !to) {
+      throw new Error("Both the old and the new question are required");
+    }
+    if (from.toLowerCase() === to.toLowerCase()) {
+      throw new Error("The new question must differ from the old one");
+    }
+
+    const renames = await ctx.db.query("questionRenames").collect();
+    const others = renames.filter(
+      (rename) => rename.from.toLowerCase() !== from.toLowerCase()
+    );
+    if (
+      resolveQuestionName(to, others).toLowerCase() === from.toLowerCase()
+    ) {
+      throw new Error(`"${to}" is already renamed to "${from}"`);
+    }
+
+    for (const rename of renames) {
+      if (rename.from.toLowerCase() === from.toLowerCase()) {
+        await ctx.db.delete(rename._id);
+      }
+    }
+    const id = await ctx.db.insert("questionRenames", {
+      from,
+      to,
+      createdAt: Date.now(),
+      createdByUserId: viewer.userId,
+      createdByName: viewer.name ?? viewer.email,
+    });
+    return { success: true, id };
+  },
+});
+
+export const deleteQuestionRename = mutation({
+  args: { id: v.id("questionRenames") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
+
+// ============ Settings ============
+
+export const getQualifierSettings = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    return { source: await getQualifierSource(ctx) };
+  },
+});
+
+// Switching back to the sheet drops open proposals, since the next sync
+// applies the Qualifiers tab as is
+export const setQualifierSource = mutation({
+  args: { source: v.union(v.literal("sheet"), v.literal("app")) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const settings = await ctx.db.query("settings").first();
+    if (!settings) {
+      throw new Error("No settings found");
+    }
+
+    await ctx.db.patch(settings._id, {
+      qualifierSource: args.source,
+      lastUpdated: Date.now(),
+    });
+
+    if (args.source === "sheet") {
+      for (const proposal of await ctx.db.query("qualifierProposals").collect()) {
+        await ctx.db.delete(proposal._id);
+      }
+    }
+    return { success: true };
+  },
+});
+
+// ============ Crop qualifiers ============
+
+// Creates or edits a crop's questions from the in-app editor. Question order
+// is the order given.
+export const saveQualifier = mutation({
+  args: {
+    id: v.optional(v.id("qualifiers")),
+    name: v.string(),
+    location: v.optional(v.string()),
+    assessments: v.array(assessmentValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const name = args.name.trim();
+    const location = normalizeLocation(args.location);
+    const assessments = args.assessments.map(normalizeQuestion);
+
+    if (name.length === 0) {
+      throw new Error("Crop name is required");
+    }
+    if (assessments.length === 0) {
+      throw new Error("Add at least one question");
+    }
+    const error = getQuestionListError(assessments);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const key = qualifierKey(name, location);
+    const clash = (await ctx.db.query("qualifiers").collect()).find(
+      (qualifier) =>
+        qualifier._id !== args.id &&
+        qualifierKey(qualifier.name, qualifier.location) === key
+    );
+    if (clash) {
+      throw new Error(
+        `${location ? `${name} (${location})` : name} already has a qualifier`
+      );
+    }
+
+    const current = args.id ? await ctx.db.get(args.id) : null;
+    if (args.id && !current) {
+      throw new Error("Qualifier not found");
+    }
+
+    // The editor sends back each question's ID, so renamed questions keep it
+    const questions = assignQuestionIds(
+      assessments.map((question, index) => ({
+        ...question,
+        questionId: args.assessments[index].questionId,
+      })),
+      current?.assessments ?? [],
+      await loadQuestionRenames(ctx),
+      newQuestionId
+    );
+    const version = await recordQualifierVersion(
+      ctx,
+      { kind: "crop", name, location },
+      questions,
+      current && { questions: current.assessments, version: current.version }
+    );
+    const record = {
+      name,
+      ...(location ? { location } : {}),
+      assessments: questions,
+      version,
+      lastSynced: Date.now(),
+    };
+
+    if (current) {
+      await ctx.db.replace(current._id, record);
+      return { success: true, action: "updated", id: current._id };
+    }
+
+    const id = await ctx.db.insert("qualifiers", record);
+    return { success: true, action: "created", id };
+  },
+});
+
+export const deleteQualifier = mutation({
+  args: { id: v.id("qualifiers") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    await ctx.db.delete(args.id);
+    return { success: true };
+  },
+});
+
+// ============ Sync proposals ============
+
+// Replaces a kind's proposals with the latest sync's. A dismissed proposal
+// stays dismissed while the sheet keeps proposing the same change.
+async function replaceProposals(
+  ctx: MutationCtx,
+  kind: ProposalInput["kind"],
+  proposals: ProposalInput[]
+) {
+  const signatures = new Set(proposals.map(proposalSignature));
+  const dismissed = new Set<string>();
+
+  for (const existing of await ctx.db.query("qualifierProposals").collect()) {
+    if (existing.kind !== kind) continue;
+    const signature = proposalSignature(existing);
+    if (existing.status === "dismissed" && signatures.has(signature)) {
+      dismissed.add(signature);
+    } else {
+      await ctx.db.delete(existing._id);
+    }
+  }
+
+  const now = Date.now();
+  let pending = 0;
+  for (const proposal of proposals) {
+    if (dismissed.has(proposalSignature(proposal))) continue;
+    await ctx.db.insert("qualifierProposals", {
+      ...proposal,
+      status: "pending",
+      createdAt: now,
+    });
+    pending++;
+  }
+  return pending;
+}
+
+// What syncing the Qualifiers tab's crop questions would change, recorded
+// for review instead of applied (syncQualifiers in "app" mode)
+export async function proposeCropQualifiers(
+  ctx: MutationCtx,
+  qualifiers: CropQualifierInput[]
+) {
+  const existing = await ctx.db.query("qualifiers").collect();
+  const existingByKey = new Map(
+    existing.map((qualifier) => [
+      qualifierKey(qualifier.name, qualifier.location),
+      qualifier,
+    ])
+  );
+  const seenKeys = new Set<string>();
+  const proposals: ProposalInput[] = [];
+
+  for (const qualifier of qualifiers) {
+    const name = qualifier.name.trim();
+    const location = normalizeLocation(qualifier.location);
+    const key = qualifierKey(name, location);
+    if (seenKeys.has(key)) continue;
+    seenKeys.add(key);
+
+    const current = existingByKey.get(key);
+    if (
+      current &&
+      JSON.stringify(current.assessments.map(questionSignature)) ===
+        JSON.stringify(qualifier.assessments.map(questionSignature))
+    ) {
+      continue;
+    }
+    proposals.push({
+      kind: "crop",
+      action: current ? "change" : "add",
+      name,
+      ...(location ? { location } : {}),
+      assessments: qualifier.assessments,
+    });
+  }
+
+  for (const [key, current] of existingByKey) {
+    if (seenKeys.has(key)) continue;
+    proposals.push({
+      kind: "crop",
+      action: "remove",
+      name: current.name,
+      ...(current.location ? { location: current.location } : {}),
+    });
+  }
+
+  return replaceProposals(ctx, "crop", proposals);
+}
+
+// Same for universal questions (syncUniversalQualifiers in "app" mode)
+export async function proposeUniversalQualifiers(
+  ctx: MutationCtx,
+  questions: UniversalQuestionInput[]
+) {
+  const existing = await ctx.db.query("universalQualifiers").collect();
+  const existingByName = new Map(existing.map((q) => [q.name, q]));
+  const seen = new Set<string>();
+  const proposals: ProposalInput[] = [];
+
+  for (const { name, ...question } of questions) {
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    const current = existingByName.get(name);
+    if (
+      current &&
+      questionSignature(current) === questionSignature({ name, ...question })
+    ) {
+      continue;
+    }
+    proposals.push({
+      kind: "universal",
+      action: current ? "change" : "add",
+      name,
+      question,
+    });
+  }
+
+  for (const name of existingByName.keys()) {
+    if (!seen.has(name)) {
+      proposals.push({ kind: "universal", action: "remove", name });
+    }
+  }
+
+  return replaceProposals(ctx, "universal", proposals);
+}
+
+export const getQualifierProposals = query({
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const proposals = await ctx.db
+      .query("qualifierProposals")
+      .withIndex("by_status", (q) => q.eq("status", "pending"))
+      .collect();
+    return proposals.sort(
+      (a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name)
+    );
+  },
+});
+
+// Applies one proposal the way a sheet-owned sync would have
+export const acceptQualifierProposal = mutation({
+  args: { id: v.id("qualifierProposals") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const proposal = await ctx.db.get(args.id);
+    if (!proposal) {
+      throw new Error("Proposal not found");
+    }
+    const now = Date.now();
+    const renames = await loadQuestionRenames(ctx);
+
+    if (proposal.kind === "crop") {
+      const key = qualifierKey(proposal.name, proposal.location);
+      const matches = (await ctx.db.query("qualifiers").collect()).filter(
+        (qualifier) => qualifierKey(qualifier.name, qualifier.location) === key
+      );
+      const [current, ...duplicates] = matches;
+
+      if (proposal.action === "remove") {
+        for (const match of matches) await ctx.db.delete(match._id);
+      } else {
+        const questions = assignQuestionIds(
+          proposal.assessments ?? [],
+          current?.assessments ?? [],
+          renames,
+          newQuestionId
+        );
+        const record = {
+          name: proposal.name,
+          ...(proposal.location ? { location: proposal.location } : {}),
+          assessments: questions,
+          version: await recordQualifierVersion(
+            ctx,
+            proposal,
+            questions,
+            current
+              ? { questions: current.assessments, version: current.version }
+              : null
+          ),
+          lastSynced: now,
+        };
+        if (current) {
+          await ctx.db.replace(current._id, record);
+          for (const duplicate of duplicates) await ctx.db.delete(duplicate._id);
+        } else {
+          await ctx.db.insert("qualifiers", record);
+        }
+      }
+    } else {
+      const universal = await ctx.db.query("universalQualifiers").collect();
+      const matches = universal.filter(
+        (qualifier) => qualifier.name === proposal.name
+      );
+      const [current, ...duplicates] = matches;
+
+      if (proposal.action === "remove" || !proposal.question) {
+        for (const match of matches) await ctx.db.delete(match._id);
+      } else {
+        const [question] = assignQuestionIds(
+          [{ name: proposal.name, ...proposal.question }],
+          universal,
+          renames,
+          newQuestionId
+        );
+        const record = {
+          ...question,
+          version: await recordQualifierVersion(
+            ctx,
+            proposal,
+            [question],
+            current ? { questions: [current], version: current.version } : null
+          ),
+          lastSynced: now,
+        };
+        if (current) {
+          await ctx.db.replace(current._id, record);
+          for (const duplicate of duplicates) await ctx.db.delete(duplicate._id);
+        } else {
+          await ctx.db.insert("universalQualifiers", record);
+        }
+      }
+    }
+
+    await ctx.db.delete(proposal._id);
+    return { success: true };
+  },
+});
+
+// Keeps the app's version; the proposal stays hidden until the sheet
+// proposes something different
+export const dismissQualifierProposal = mutation({
+  args: { id: v.id("qualifierProposals") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    await ctx.db.patch(args.id, { status: "dismissed" });
+    return { success: true };
+  },
+});
@@ -0,0 +1,61 @@
+import { ConvexError, v } from "convex/values";
+import { query } from "./_generated/server";
+import { getSeasonRollups } from "./analytics";
+import { requireApproved } from "./permissions";
+import { getPlanningClassifier } from "./planning";
+import { resolveSeasonId } from "./seasons";
+import { getActiveCrops, getCurrentQuestionNames } from "./sheets";
+import { getPlanningAnswers } from "../lib/analytics-rollup";
+import {
+  PlanningAnswerSample,
+  recommendPlantings,
+} from "../lib/recommendations";
+
+// ============ Planting recommendations ============
+
+// Suggested trays and rows for next season per crop and variety, from the
+// season's plantings and the planting-quantity answers in its analytics
+// rollups (lib/recommendations.ts). Also read by the planting plan CSV route.
+export const getPlantingRecommendations = query({
+  // A plain string so the CSV route's ?seasonId= is checked here
+  args: { seasonId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const requestedSeasonId =
+      args.seasonId === undefined
+        ? undefined
+        : ctx.db.normalizeId("seasons", args.seasonId);
+    if (requestedSeasonId === null) {
+      throw new ConvexError(`Not a season ID: ${args.seasonId}`);
+    }
+    const seasonId = await resolveSeasonId(ctx, requestedSeasonId);
+    const [season, crops, rollups, planning, withCurrentNames] =
+      await Promise.all([
+        seasonId ? ctx.db.get(seasonId) : null,
+        getActiveCrops(ctx, seasonId),
+        getSeasonRollups(ctx, seasonId),
+        getPlanningClassifier(ctx),
+        getCurrentQuestionNames(ctx),
+      ]);
+
+    // A log's first planting-quantity answer, as in getAnalyticsOverview
+    const answers: PlanningAnswerSample[] = rollups.flatMap((row) =>
+      getPlanningAnswers(row.answerSets.map(withCurrentNames), planning).map(
+        (response) => ({
+          crop: row.crop,
+          variety: row.variety,
+          bucket:
+            planning.classify(response.question, response.answer)?.bucket ??
+            null,
+          count: response.count,
+        })
+      )
+    );
+
+    return {
+      // The spring the plan is for; null when the season has no year
+      planYear: season ? season.year + 1 : null,
+      recommendations: recommendPlantings(crops, answers),
+    };
+  },
+});
@@ -0,0 +1,208 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { requireAdmin } from "./permissions";
+import { recordPlantingHistory } from "./plantingHistory";
+import { getActiveSeasonId, requireWritableSeason } from "./seasons";
+import type { ParsedCropRecord } from "../lib/parse-field-sheet";
+import {
+  getReplantedFields,
+  getReplantingReviewKey,
+} from "../lib/replanting";
+
+// ============ Sync ============
+
+export async function getFieldReplantingReviews(
+  ctx: QueryCtx,
+  seasonId: Id<"seasons"> | undefined,
+  field: string
+) {
+  return ctx.db
+    .query("replantingReviews")
+    .withIndex("by_season_and_field", (q) =>
+      q.eq("seasonId", seasonId).eq("field", field)
+    )
+    .collect();
+}
+
+// Queue low-confidence detections that have no review yet. Rows repeated on
+// the sheet share one review.
+export async function queueReplantingReviews(
+  ctx: MutationCtx,
+  seasonId: Id<"seasons"> | undefined,
+  records: ParsedCropRecord[],
+  now: number
+) {
+  const queued = new Set<string>();
+  for (const { replantingCandidate, ...record } of records) {
+    const key = getReplantingReviewKey(record);
+    if (!replantingCandidate || queued.has(key)) continue;
+    queued.add(key);
+
+    await ctx.db.insert("replantingReviews", {
+      seasonId,
+      field: record.field,
+      bed: record.bed,
+      crop: record.crop,
+      variety: record.variety,
+      date: record.date,
+      notes: record.notes,
+      detection: replantingCandidate,
+      status: "pending",
+      createdAt: now,
+    });
+  }
+  return queued.size;
+}
+
+// Reviews for a sync dry-run, so confirmed replantings don't preview as edits
+export const getReplantingReviewsForSync = query({
+  args: { field: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return getFieldReplantingReviews(
+      ctx,
+      await getActiveSeasonId(ctx),
+      args.field
+    );
+  },
+});
+
+// ============ Review ============
+
+// Newest first; pending ones unless another status is asked for
+export const getReplantingReviews = query({
+  args: { status: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const status = args.status ?? "pending";
+
+    const reviews = await ctx.db
+      .query("replantingReviews")
+      .withIndex("by_status", (q) => q.eq("status", status))
+      .order("desc")
+      .collect();
+
+    const seasonNames = new Map<Id<"seasons">, string>();
+    for (const review of reviews) {
+      if (review.seasonId && !seasonNames.has(review.seasonId)) {
+        const season = await ctx.db.get(review.seasonId);
+        if (season) seasonNames.set(review.seasonId, season.name);
+      }
+    }
+
+    return reviews.map((review) => ({
+      ...review,
+      seasonName: review.seasonId ? seasonNames.get(review.seasonId) : undefined,
+    }));
+  },
+});
+
+// Sets (or clears) the replanting on the planting a review was raised for,
+// if it's still on the sheet, and updates the bed history to match
+async function applyReviewToCrop(
+  ctx: MutationCtx,
+  review: Doc<"replantingReviews">,
+  resolution: Doc<"replantingReviews">["resolution"]
+) {
+  const crops = await ctx.db
+    .query("crops")
+    .withIndex("by_season_and_field", (q) =>
+      q.eq("seasonId", review.seasonId).eq("field", review.field)
+    )
+    .collect();
+
+  const key = getReplantingReviewKey(review);
+  const crop = crops.find((c) => getReplantingReviewKey(c) === key);
+  if (!crop) return false;
+
+  const fields = resolution
+    ? getReplantedFields(resolution, crop)
+    : { replantedFrom: undefined, replantedWith: undefined };
+  await ctx.db.patch(crop._id, {
+    replantedFrom: fields.replantedFrom,
+    replantedWith: fields.replantedWith,
+  });
+
+  await recordPlantingHistory(
+    ctx,
+    review.seasonId,
+    review.field,
+    crops.map((c) => (c._id === crop._id ? { ...c, ...fields } : c)),
+    Date.now()
+  );
+  return true;
+}
+
+// The resolution starts from the detection; admins correct crops, varieties
+// or the date before confirming
+export const confirmReplanting = mutation({
+  args: {
+    reviewId: v.id("replantingReviews"),
+    resolution: v.object({
+      fromCrop: v.string(),
+      fromVariety: v.string(),
+      withCrop: v.string(),
+      withVariety: v.string(),
+      date: v.string(),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    const review = await ctx.db.get(args.reviewId);
+    if (!review) {
+      throw new Error("Replanting review not found");
+    }
+    await requireWritableSeason(ctx, review.seasonId);
+
+    const resolution = {
+      fromCrop: args.resolution.fromCrop.trim(),
+      fromVariety: args.resolution.fromVariety.trim(),
+      withCrop: args.resolution.withCrop.trim(),
+      withVariety: args.resolution.withVariety.trim(),
+      date: args.resolution.date.trim(),
+    };
+    if (!resolution.fromCrop && !resolution.withCrop) {
+      throw new Error("Name the crop that was replaced or the one replanted");
+    }
+
+    await ctx.db.patch(review._id, {
+      status: "confirmed",
+      resolution,
+      reviewedAt: Date.now(),
+      reviewedByUserId: viewer.userId,
+      reviewedByName: viewer.name ?? viewer.email,
+    });
+    const applied = await applyReviewToCrop(ctx, review, resolution);
+
+    return { success: true, applied };
+  },
+});
+
+// Rejecting a confirmed review clears the planting's replanting; the bed
+// timeline keeps the entry it already recorded
+export const rejectReplanting = mutation({
+  args: { reviewId: v.id("replantingReviews") },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    const review = await ctx.db.get(args.reviewId);
+    if (!review) {
+      throw new Error("Replanting review not found");
+    }
+    await requireWritableSeason(ctx, review.seasonId);
+
+    await ctx.db.patch(review._id, {
+      status: "rejected",
+      resolution: undefined,
+      reviewedAt: Date.now(),
+      reviewedByUserId: viewer.userId,
+      reviewedByName: viewer.name ?? viewer.email,
+    });
+    const applied =
+      review.status === "confirmed"
+        ? await applyReviewToCrop(ctx, review, undefined)
+        : false;
+
+    return { success: true, applied };
+  },
+});
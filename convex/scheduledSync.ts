@@ -0,0 +1,399 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { requireAdmin } from "./permissions";
+import {
+  getGoogleOAuthConfig,
+  GoogleOAuthError,
+  refreshGoogleAccessToken,
+} from "../lib/google-oauth";
+import { GoogleSheetsClient } from "../lib/google-sheets";
+import {
+  getFieldSheetParseOptionsFromSettings,
+  parseSheetDataWithWarnings,
+} from "../lib/parse-field-sheet";
+import { parseQualifiersSheet } from "../lib/parse-qualifiers";
+
+// Same error text the sync route treats as a renamed or deleted tab
+function isSheetNotFoundError(message: string) {
+  return (
+    message.includes("Unable to parse range") ||
+    message.includes("is not a valid range") ||
+    message.includes("Requested entity was not found")
+  );
+}
+
+// ============ Google Credentials ============
+
+// Store the refresh token from /api/google/callback. Replaces any previously
+// connected account.
+export const saveGoogleCredentials = mutation({
+  args: {
+    refreshToken: v.string(),
+    googleEmail: v.optional(v.string()),
+    scopes: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    const existing = await ctx.db.query("googleCredentials").first();
+    const record = {
+      ...args,
+      connectedByUserId: viewer.userId,
+      connectedByName: viewer.name ?? viewer.email,
+      connectedAt: Date.now(),
+    };
+
+    if (existing) {
+      await ctx.db.replace(existing._id, record);
+      return { success: true, action: "updated" };
+    }
+
+    await ctx.db.insert("googleCredentials", record);
+    return { success: true, action: "created" };
+  },
+});
+
+export const disconnectGoogleCredentials = mutation({
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const existing = await ctx.db.query("googleCredentials").first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return { success: true };
+  },
+});
+
+// ============ Run History ============
+
+// Connection details and recent outcomes for the admin sync page. Never
+// includes the refresh token.
+export const getScheduledSyncStatus = query({
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const credentials = await ctx.db.query("googleCredentials").first();
+    const latestWithStatus = (status: string) =>
+      ctx.db
+        .query("scheduledSyncRuns")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .order("desc")
+        .first();
+
+    const [lastSynced, lastUnchanged, lastFailure] = await Promise.all([
+      latestWithStatus("succeeded"),
+      latestWithStatus("unchanged"),
+      latestWithStatus("failed"),
+    ]);
+
+    // An "unchanged" run is still a successful check of the spreadsheet
+    const lastSuccess =
+      [lastSynced, lastUnchanged]
+        .filter((run) => run !== null)
+        .sort((a, b) => b.startedAt - a.startedAt)[0] ?? null;
+
+    const recentRuns = await ctx.db
+      .query("scheduledSyncRuns")
+      .withIndex("by_started_at")
+      .order("desc")
+      .take(20);
+
+    return {
+      connection: credentials
+        ? {
+            googleEmail: credentials.googleEmail,
+            scopes: credentials.scopes,
+            connectedAt: credentials.connectedAt,
+            connectedByName: credentials.connectedByName,
+          }
+        : null,
+      lastSuccess,
+      lastFailure,
+      recentRuns,
+    };
+  },
+});
+
+export const recordScheduledSyncRun = internalMutation({
+  args: {
+    trigger: v.string(),
+    status: v.string(),
+    startedAt: v.number(),
+    spreadsheetModifiedTime: v.optional(v.string()),
+    syncedSheets: v.array(v.string()),
+    missingSheets: v.array(v.string()),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("scheduledSyncRuns", {
+      ...args,
+      finishedAt: Date.now(),
+    });
+  },
+});
+
+// ============ Scheduled Sync ============
+
+// Everything the sync action needs from the database in one read
+export const getSyncContext = internalQuery({
+  handler: async (ctx) => {
+    const settings = await ctx.db.query("settings").first();
+    const credentials = await ctx.db.query("googleCredentials").first();
+    const qualifiers = await ctx.db.query("qualifiers").collect();
+
+    const sheets = await ctx.db.query("sheets").collect();
+    const lastSyncTime =
+      sheets.length > 0 ? Math.max(...sheets.map((s) => s.lastSynced)) : 0;
+
+    // The Drive modifiedTime the last completed run already handled, so a
+    // formatting-only edit isn't re-checked every run
+    const lastCompletedRun = await ctx.db
+      .query("scheduledSyncRuns")
+      .withIndex("by_started_at")
+      .order("desc")
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("status"), "succeeded"),
+          q.eq(q.field("status"), "unchanged")
+        )
+      )
+      .first();
+
+    return {
+      settings,
+      knownCrops: qualifiers.map((qualifier) => qualifier.name),
+      refreshToken: credentials?.refreshToken ?? null,
+      lastSyncTime,
+      lastHandledModifiedTime: lastCompletedRun?.spreadsheetModifiedTime,
+    };
+  },
+});
+
+export const getStoredSheetValues = internalQuery({
+  args: { spreadsheetId: v.string(), range: v.string() },
+  handler: async (ctx, args) => {
+    const sheet = await ctx.db
+      .query("sheets")
+      .withIndex("by_spreadsheet_and_range", (q) =>
+        q.eq("spreadsheetId", args.spreadsheetId).eq("range", args.range)
+      )
+      .first();
+    return sheet?.data ?? null;
+  },
+});
+
+// Checks the spreadsheet's Drive modifiedTime and re-syncs any tab whose
+// values differ from what Convex has stored. Runs from convex/crons.ts without
+// an admin browser session, reading the sheet with the stored Google
+// credentials and writing through the internal sheets.ts and syncRuns.ts sync
+// mutations.
+export const runScheduledSync = internalAction({
+  args: { trigger: v.string() },
+  handler: async (ctx, args): Promise<null> => {
+    const startedAt = Date.now();
+    const syncedSheets: string[] = [];
+    const missingSheets: string[] = [];
+    let spreadsheetModifiedTime: string | undefined;
+    let syncRunId: Id<"syncRuns"> | null = null;
+
+    const record = (status: string, message?: string) =>
+      ctx.runMutation(internal.scheduledSync.recordScheduledSyncRun, {
+        trigger: args.trigger,
+        status,
+        startedAt,
+        spreadsheetModifiedTime,
+        syncedSheets,
+        missingSheets,
+        message,
+      });
+
+    const {
+      settings,
+      knownCrops,
+      refreshToken,
+      lastSyncTime,
+      lastHandledModifiedTime,
+    } = await ctx.runQuery(internal.scheduledSync.getSyncContext, {});
+
+    if (!settings) {
+      await record("skipped", "No spreadsheet is configured");
+      return null;
+    }
+
+    if (!refreshToken) {
+      await record("skipped", "No Google account is connected for scheduled sync");
+      return null;
+    }
+
+    try {
+      const accessToken = await refreshGoogleAccessToken({
+        ...getGoogleOAuthConfig(),
+        refreshToken,
+      });
+      const sheetsClient = new GoogleSheetsClient(accessToken);
+      const { spreadsheetId } = settings;
+
+      const metadata = await sheetsClient.getFileMetadata(spreadsheetId);
+      spreadsheetModifiedTime = metadata.modifiedTime;
+      const modifiedTimestamp = metadata.modifiedTime
+        ? new Date(metadata.modifiedTime).getTime()
+        : NaN;
+      const handledTimestamp = lastHandledModifiedTime
+        ? new Date(lastHandledModifiedTime).getTime()
+        : 0;
+
+      if (
+        Number.isFinite(modifiedTimestamp) &&
+        modifiedTimestamp <= Math.max(lastSyncTime, handledTimestamp)
+      ) {
+        await record("unchanged");
+        return null;
+      }
+
+      // Only runs that read tabs go in the sync run history
+      syncRunId = await ctx.runMutation(
+        internal.syncRuns.startSyncRunInternal,
+        { spreadsheetId, trigger: "scheduled" }
+      );
+      const sheetIds = new Map(
+        (await sheetsClient.listSheets(spreadsheetId)).map((sheet) => [
+          sheet.title,
+          sheet.sheetId,
+        ])
+      );
+
+      // Qualifiers first, matching the order the manual sync uses
+      const fieldSheets = settings.sheetNames.filter(
+        (name) => name.toLowerCase() !== "qualifiers"
+      );
+
+      for (const sheetName of ["Qualifiers", ...fieldSheets]) {
+        const range = `${sheetName}!A:ZZ`;
+        let values: string[][];
+
+        try {
+          const data = await sheetsClient.getSpreadsheetData(
+            spreadsheetId,
+            undefined,
+            sheetName
+          );
+          values = (data.values || []).map((row) =>
+            row.map((cell) => String(cell ?? ""))
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (isSheetNotFoundError(message)) {
+            // Leave removal to an admin; an unattended run shouldn't delete data
+            missingSheets.push(sheetName);
+            continue;
+          }
+          throw error;
+        }
+
+        const stored = await ctx.runQuery(
+          internal.scheduledSync.getStoredSheetValues,
+          { spreadsheetId, range }
+        );
+        if (stored && JSON.stringify(stored) === JSON.stringify(values)) {
+          continue;
+        }
+
+        let recordCount: number;
+        let warnings: { row: number; message: string; value?: string }[] = [];
+
+        if (sheetName.toLowerCase() === "qualifiers") {
+          const { vegetables, universalQualifiers } =
+            parseQualifiersSheet(values);
+          recordCount = vegetables.length + universalQualifiers.length;
+          await ctx.runMutation(internal.sheets.syncQualifiersInternal, {
+            qualifiers: vegetables,
+          });
+          await ctx.runMutation(
+            internal.sheets.syncUniversalQualifiersInternal,
+            { qualifiers: universalQualifiers }
+          );
+          await ctx.runMutation(internal.sheets.syncSheetDataInternal, {
+            spreadsheetId,
+            range,
+            data: values,
+          });
+        } else {
+          const parsed = parseSheetDataWithWarnings(
+            values,
+            sheetName,
+            getFieldSheetParseOptionsFromSettings(
+              settings,
+              sheetName,
+              knownCrops
+            )
+          );
+          recordCount = parsed.records.length;
+          warnings = parsed.warnings;
+          await ctx.runMutation(internal.sheets.syncSheetDataInternal, {
+            spreadsheetId,
+            range,
+            data: values,
+            parsedData: parsed.records,
+          });
+        }
+
+        await ctx.runMutation(internal.syncRuns.recordSyncRunSheetInternal, {
+          runId: syncRunId,
+          sheet: {
+            sheetName,
+            sheetId: sheetIds.get(sheetName),
+            rowCount: values.length,
+            recordCount,
+          },
+          warnings,
+        });
+        syncedSheets.push(sheetName);
+      }
+
+      await ctx.runMutation(internal.syncRuns.finishSyncRunInternal, {
+        runId: syncRunId,
+        status: "succeeded",
+        missingSheets,
+      });
+      await record("succeeded");
+    } catch (error) {
+      console.error("Scheduled sync failed:", error);
+
+      const message =
+        error instanceof GoogleOAuthError && error.code === "invalid_grant"
+          ? "Google access was revoked or expired. Reconnect the Google account."
+          : error instanceof Error
+            ? error.message
+            : "Unknown error";
+      if (syncRunId) {
+        await ctx.runMutation(internal.syncRuns.finishSyncRunInternal, {
+          runId: syncRunId,
+          status: "failed",
+          missingSheets,
+          error: message,
+        });
+      }
+      await record("failed", message);
+    }
+
+    return null;
+  },
+});
+
+// Lets an admin trigger the unattended sync immediately from /admin/sync
+export const runScheduledSyncNow = mutation({
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    await ctx.scheduler.runAfter(0, internal.scheduledSync.runScheduledSync, {
+      trigger: "manual",
+    });
+    return { success: true };
+  },
+});
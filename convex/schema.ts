@@ -1,6 +1,137 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Header text for each field sheet column (see lib/parse-field-sheet.ts);
+// unset columns are detected from the header row
+export const columnMappingValidator = v.object({
+  bed: v.optional(v.string()),
+  cropVariety: v.optional(v.string()),
+  trays: v.optional(v.string()),
+  rows: v.optional(v.string()),
+  date: v.optional(v.string()),
+  notes: v.optional(v.string()),
+});
+
+// Typed copies of a planting's date, trays and rows (see
+// lib/planting-values.ts). `unparsed` lists the cells that couldn't be read.
+export const typedPlantingFields = {
+  plantedOn: v.optional(v.string()), // ISO YYYY-MM-DD
+  trayCount: v.optional(v.number()),
+  rowCount: v.optional(v.number()),
+  unparsed: v.optional(
+    v.array(v.union(v.literal("date"), v.literal("trays"), v.literal("rows")))
+  ),
+};
+
+// Replanting found in a planting's notes (see lib/replanting.ts)
+export const replantingFields = {
+  // The planting that was replaced; date is when, from the notes
+  replantedFrom: v.optional(
+    v.object({
+      crop: v.string(),
+      variety: v.string(),
+      date: v.string(),
+      notes: v.string(),
+    })
+  ),
+  // New crop named in the notes when the row still lists the old one
+  replantedWith: v.optional(
+    v.object({
+      crop: v.string(),
+      variety: v.string(),
+    })
+  ),
+};
+
+export const replantingDetectionValidator = v.object({
+  fromCrop: v.string(),
+  fromVariety: v.string(),
+  withCrop: v.string(),
+  withVariety: v.string(),
+  date: v.string(),
+  confidence: v.number(), // 0 to 1
+  phrase: v.string(),
+});
+
+// Admin location rules and overrides (see lib/locations.ts)
+export const locationRuleValidator = v.object({
+  pattern: v.string(),
+  location: v.string(),
+});
+
+export const locationOverrideValidator = v.object({
+  field: v.string(),
+  location: v.string(),
+});
+
+// A planting-quantity question and how its answers are counted (see
+// lib/planning.ts)
+export const planningQuestionValidator = v.object({
+  question: v.string(),
+  answers: v.array(
+    v.object({
+      answer: v.string(),
+      bucket: v.optional(
+        v.union(v.literal("under"), v.literal("on_target"), v.literal("over"))
+      ),
+      score: v.optional(v.number()), // Below zero is under, above is over
+    })
+  ),
+});
+
+// Question type and unit of an assessment (see lib/assessment-types.ts);
+// untyped questions are single choice
+export const assessmentTypeFields = {
+  type: v.optional(
+    v.union(
+      v.literal("choice"),
+      v.literal("multi"),
+      v.literal("rating"),
+      v.literal("number"),
+      v.literal("text"),
+      v.literal("yesno")
+    )
+  ),
+  unit: v.optional(v.string()), // Number questions, e.g. "lbs"
+};
+
+// Whether a question must be answered and when a follow-up is asked (see
+// lib/assessment-types.ts)
+export const assessmentRuleFields = {
+  required: v.optional(v.boolean()),
+  showIf: v.optional(
+    v.object({
+      question: v.string(), // Another question on the same form
+      answers: v.array(v.string()), // Shown when any of these is answered
+    })
+  ),
+};
+
+// One question on a crop's qualifier
+export const assessmentValidator = v.object({
+  name: v.string(),
+  options: v.array(v.string()),
+  ...assessmentTypeFields,
+  ...assessmentRuleFields,
+  isUniversal: v.optional(v.boolean()),
+  // Stays the same across renames and edits (see lib/question-ids.ts)
+  questionId: v.optional(v.string()),
+});
+
+// One answer on a quality log. `answer` is always display text; typed
+// answers also keep the number or the selected options.
+export const assessmentResponseValidator = v.object({
+  question: v.string(), // e.g., "Planting quantity?"
+  answer: v.string(), // e.g., "too much", "12 lbs"
+  ...assessmentTypeFields,
+  value: v.optional(v.number()), // Number and rating answers
+  answers: v.optional(v.array(v.string())), // Multi-select answers
+  // The question answered and the version of its qualifier or universal
+  // question at the time; unset on logs saved before versioning
+  questionId: v.optional(v.string()),
+  version: v.optional(v.number()),
+});
+
 export default defineSchema({
   // Global app settings - only one record for shared spreadsheet config
   settings: defineTable({
@@ -10,8 +141,49 @@ export default defineSchema({
     adminUserId: v.string(), // Clerk user ID of the admin who set this up
     adminEmail: v.string(), // Email of the admin (for display)
     lastUpdated: v.number(),
+    // Season that syncs write to and logs are recorded in (see seasons table)
+    activeSeasonId: v.optional(v.id("seasons")),
+    // Year for planting dates written without one; inferred from the
+    // spreadsheet name when unset
+    seasonYear: v.optional(v.number()),
+    // Per-sheet column mappings chosen during onboarding
+    columnMappings: v.optional(
+      v.array(
+        v.object({
+          sheetName: v.string(),
+          columns: columnMappingValidator,
+        })
+      )
+    ),
+    // How field names map to locations for crops.location; the defaults in
+    // lib/locations.ts apply until an admin saves rules
+    locationRules: v.optional(v.array(locationRuleValidator)),
+    locationOverrides: v.optional(v.array(locationOverrideValidator)),
+    // Whether the Qualifiers tab ("sheet", the default) or the in-app editor
+    // ("app") owns qualifiers. In "app" mode syncs only propose changes.
+    qualifierSource: v.optional(v.union(v.literal("sheet"), v.literal("app"))),
+    // Planting-quantity questions for the analytics planning charts; the
+    // keyword defaults in lib/planning.ts apply until an admin saves these
+    planningQuestions: v.optional(v.array(planningQuestionValidator)),
   }),
 
+  // One growing year: its spreadsheet and, through crops.seasonId and
+  // qualityLogs.seasonId, its plantings and logs. Only the active season is
+  // synced or logged against; archived seasons are read-only.
+  seasons: defineTable({
+    name: v.string(), // e.g. "2025"
+    year: v.number(),
+    spreadsheetId: v.string(),
+    spreadsheetName: v.string(),
+    status: v.string(), // "active" | "archived"
+    startedAt: v.number(),
+    startedByUserId: v.optional(v.string()), // Clerk user ID
+    startedByName: v.optional(v.string()),
+    archivedAt: v.optional(v.number()),
+  })
+    .index("by_year", ["year"])
+    .index("by_status", ["status"]),
+
   sheets: defineTable({
     spreadsheetId: v.string(),
     range: v.string(),
@@ -28,14 +200,10 @@ export default defineSchema({
           date: v.string(),
           notes: v.string(),
           location: v.optional(v.string()),
-          replantedFrom: v.optional(
-            v.object({
-              crop: v.string(),
-              variety: v.string(),
-              date: v.string(),
-              notes: v.string(),
-            })
-          ),
+          ...replantingFields,
+          // Low-confidence detection awaiting review (replantingReviews)
+          replantingCandidate: v.optional(replantingDetectionValidator),
+          ...typedPlantingFields,
         })
       )
     ),
@@ -54,45 +222,149 @@ export default defineSchema({
     date: v.string(),
     notes: v.string(),
     location: v.optional(v.string()), // Detected location (e.g., "HT", "field")
-    replantedFrom: v.optional(
-      v.object({
-        crop: v.string(),
-        variety: v.string(),
-        date: v.string(),
-        notes: v.string(),
-      })
-    ), // If this crop replaced another, store original here
+    ...replantingFields, // Confident or admin-confirmed replanting from the notes
+    ...typedPlantingFields,
+    seasonId: v.optional(v.id("seasons")), // Unset only before the first season exists
     lastSynced: v.number(),
+    removedAt: v.optional(v.number()), // Gone from the sheet but kept because quality logs link to it
   })
+    .index("by_season_and_field", ["seasonId", "field"])
     .index("by_field", ["field"])
     .index("by_bed", ["bed"])
     .index("by_crop", ["crop"])
     .index("by_field_and_bed", ["field", "bed"]),
 
-  qualifiers: defineTable({
-    name: v.string(), // Base crop name (e.g., "Tomato", "Cucumber")
-    location: v.optional(v.string()), // Location specifier (e.g., "HT", "field")
-    assessments: v.array(
+  // Every planting a bed has held, kept across syncs (crops only holds what
+  // is on the sheet now). Maintained by syncSheetData; see
+  // convex/plantingHistory.ts.
+  plantingHistory: defineTable({
+    seasonId: v.optional(v.id("seasons")),
+    field: v.string(),
+    bed: v.string(),
+    crop: v.string(),
+    variety: v.string(),
+    date: v.string(), // As written in the sheet
+    plantedOn: v.optional(v.string()), // ISO YYYY-MM-DD, when readable
+    notes: v.string(),
+    // Unset for plantings only known from a replacement's replantedFrom
+    cropId: v.optional(v.id("crops")),
+    firstSeenAt: v.number(), // Sync that first saw it
+    removedAt: v.optional(v.number()), // Sync that no longer found it on the sheet
+    replacedAt: v.optional(v.number()), // Sync that first saw its replacement
+    replacedByCropId: v.optional(v.id("crops")),
+  })
+    .index("by_crop_id", ["cropId"])
+    .index("by_season_field_and_bed", ["seasonId", "field", "bed"]),
+
+  // Replantings detected in notes with too little confidence to apply on
+  // their own. Admins confirm (optionally correcting) or reject them at
+  // /admin/replanting; syncs apply confirmed ones. Keyed to the planting and
+  // its notes, so editing the notes asks again.
+  replantingReviews: defineTable({
+    seasonId: v.optional(v.id("seasons")),
+    field: v.string(),
+    bed: v.string(),
+    crop: v.string(),
+    variety: v.string(),
+    date: v.string(), // Planting date as written in the sheet
+    notes: v.string(),
+    detection: replantingDetectionValidator,
+    status: v.string(), // "pending" | "confirmed" | "rejected"
+    resolution: v.optional(
       v.object({
-        name: v.string(),
-        options: v.array(v.string()),
-        isUniversal: v.optional(v.boolean()),
+        fromCrop: v.string(),
+        fromVariety: v.string(),
+        withCrop: v.string(),
+        withVariety: v.string(),
+        date: v.string(),
       })
     ),
+    createdAt: v.number(),
+    reviewedAt: v.optional(v.number()),
+    reviewedByUserId: v.optional(v.string()),
+    reviewedByName: v.optional(v.string()),
+  })
+    .index("by_status", ["status", "createdAt"])
+    .index("by_season_and_field", ["seasonId", "field"]),
+
+  qualifiers: defineTable({
+    name: v.string(), // Base crop name (e.g., "Tomato", "Cucumber")
+    location: v.optional(v.string()), // Location specifier (e.g., "HT", "field")
+    assessments: v.array(assessmentValidator),
+    // Bumped whenever the questions change; unset before versioning
+    version: v.optional(v.number()),
     lastSynced: v.number(),
   })
     .index("by_name", ["name"])
     .index("by_name_and_location", ["name", "location"]),
 
+  // Qualifiers tab changes a sync found while the app owns qualifiers
+  // (settings.qualifierSource "app"), waiting for an admin to accept or
+  // dismiss them. Each sync replaces the pending ones; see convex/qualifiers.ts.
+  qualifierProposals: defineTable({
+    kind: v.union(v.literal("crop"), v.literal("universal")),
+    action: v.union(v.literal("add"), v.literal("change"), v.literal("remove")),
+    name: v.string(), // Crop name, or the universal question
+    location: v.optional(v.string()), // Crop proposals only
+    // The sheet's version; unset for removals
+    assessments: v.optional(v.array(assessmentValidator)), // Crop proposals
+    question: v.optional(
+      v.object({
+        options: v.array(v.string()),
+        ...assessmentTypeFields,
+        ...assessmentRuleFields,
+        order: v.number(),
+      })
+    ), // Universal proposals
+    status: v.union(v.literal("pending"), v.literal("dismissed")),
+    createdAt: v.number(),
+  }).index("by_status", ["status"]),
+
+  // Crop names that use a differently named qualifier ("Salad Mix" ->
+  // "Lettuce"). Set on the qualifiers page; see lib/crop-matching.ts.
+  cropAliases: defineTable({
+    crop: v.string(), // Crop name as written on the field sheet
+    qualifierName: v.string(),
+    createdAt: v.number(),
+    createdByUserId: v.string(),
+    createdByName: v.optional(v.string()),
+  }).index("by_crop", ["crop"]),
+
   // Universal assessments that apply to ALL crops
   // Edit once, applies everywhere
   universalQualifiers: defineTable({
     name: v.string(), // Assessment question (e.g., "Planting quantity?")
     options: v.array(v.string()), // Possible answers
+    ...assessmentTypeFields,
+    ...assessmentRuleFields,
     order: v.number(), // Display order (lower numbers appear first)
+    questionId: v.optional(v.string()), // See assessmentValidator
+    version: v.optional(v.number()), // Bumped whenever the question changes
     lastSynced: v.number(),
   }).index("by_order", ["order"]),
 
+  // Every version of a crop qualifier's questions or of a universal question,
+  // so a log's responses[].version can be read against the wording and
+  // options it answered
+  qualifierVersions: defineTable({
+    kind: v.union(v.literal("crop"), v.literal("universal")),
+    name: v.string(), // Crop name, or the universal question
+    location: v.optional(v.string()),
+    version: v.number(),
+    assessments: v.array(assessmentValidator),
+    createdAt: v.number(),
+  }).index("by_kind_and_name", ["kind", "name", "version"]),
+
+  // Admin-declared question renames; stats count answers to `from` under
+  // `to` (see lib/question-ids.ts)
+  questionRenames: defineTable({
+    from: v.string(),
+    to: v.string(),
+    createdAt: v.number(),
+    createdByUserId: v.string(),
+    createdByName: v.optional(v.string()),
+  }).index("by_from", ["from"]),
+
   // Quality logs for tracking crop assessments over time
   qualityLogs: defineTable({
     // Reference to original crop (optional - may not always have one)
@@ -103,30 +375,180 @@ export default defineSchema({
     variety: v.string(), // e.g., "Roma"
     field: v.string(), // e.g., "Field A"
     bed: v.string(), // e.g., "A1"
+    seasonId: v.optional(v.id("seasons")), // Season the log was recorded in
 
     // Original planting data (for context)
     datePlanted: v.string(), // When it was planted
+    plantedOn: v.optional(v.string()), // datePlanted as ISO YYYY-MM-DD, when readable
+    cropAgeDays: v.optional(v.number()), // Days from planting to assessmentDate
     trays: v.string(),
     rows: v.string(),
     plantingNotes: v.string(), // Original notes from planting
 
     // Assessment data
     assessmentDate: v.number(), // Timestamp when assessment was done
-    responses: v.array(
-      v.object({
-        question: v.string(), // e.g., "Planting quantity?"
-        answer: v.string(), // e.g., "too much"
-      })
-    ),
+    responses: v.array(assessmentResponseValidator),
+
+    // Author, taken from the Convex auth identity (never client-supplied)
+    loggedByUserId: v.optional(v.string()), // Clerk user ID
+    loggedByName: v.optional(v.string()),
+    loggedByEmail: v.optional(v.string()),
 
     // Additional metadata
     logNotes: v.optional(v.string()), // Notes added during logging
+    idempotencyKey: v.optional(v.string()), // Client-generated key so offline replays don't duplicate
     createdAt: v.number(), // Record creation timestamp
+    updatedAt: v.optional(v.number()), // Last edit via updateQualityLog
+    revisionCount: v.optional(v.number()), // Number of edits (see qualityLogRevisions)
+    inAnalytics: v.optional(v.boolean()), // Counted in analyticsRollups
   })
+    .index("by_idempotency_key", ["idempotencyKey"])
+    .index("by_season_and_date", ["seasonId", "assessmentDate"])
+    .index("by_crop_id", ["cropId"])
+    .index("by_logged_by", ["loggedByUserId"])
     .index("by_crop", ["crop"])
     .index("by_field", ["field"])
     .index("by_bed", ["bed"])
     .index("by_assessment_date", ["assessmentDate"])
     .index("by_crop_and_date", ["crop", "assessmentDate"])
+    .index("by_crop_and_age", ["crop", "cropAgeDays"])
     .index("by_field_and_date", ["field", "assessmentDate"]),
+
+  // One row per edit to a quality log, so corrections never lose the original
+  qualityLogRevisions: defineTable({
+    logId: v.id("qualityLogs"),
+    editedAt: v.number(),
+    editedByUserId: v.optional(v.string()), // Clerk user ID from the Convex auth identity
+    editedByName: v.optional(v.string()),
+    changes: v.array(
+      v.object({
+        field: v.string(), // Question text, "Notes" or "Observed at"
+        before: v.optional(v.string()),
+        after: v.optional(v.string()),
+      })
+    ),
+  }).index("by_log", ["logId", "editedAt"]),
+
+  // Audit trail for approval and role changes made from /admin/users.
+  // Access itself lives in Clerk publicMetadata; this records who changed it.
+  userAuditEvents: defineTable({
+    action: v.string(), // "approve" | "reject" | "promote" | "demote" | "revoke"
+    targetUserId: v.string(), // Clerk user ID of the account that changed
+    targetName: v.optional(v.string()),
+    targetEmail: v.optional(v.string()),
+    previousStatus: v.string(), // Access status before the action
+    newStatus: v.string(), // Access status after the action
+    actorUserId: v.string(), // Admin who made the change (from the auth identity)
+    actorName: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_created_at", ["createdAt"])
+    .index("by_target", ["targetUserId", "createdAt"]),
+
+  // Google account the scheduled sync reads the spreadsheet as. Only one
+  // record; the refresh token is never returned from a public query.
+  googleCredentials: defineTable({
+    refreshToken: v.string(),
+    googleEmail: v.optional(v.string()), // Google account that granted access
+    scopes: v.array(v.string()),
+    connectedByUserId: v.string(), // Clerk user ID of the admin who connected it
+    connectedByName: v.optional(v.string()),
+    connectedAt: v.number(),
+  }),
+
+  // Outcome of each unattended (cron or "run now") spreadsheet sync
+  scheduledSyncRuns: defineTable({
+    trigger: v.string(), // "cron" | "manual"
+    status: v.string(), // "succeeded" | "unchanged" | "skipped" | "failed"
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    spreadsheetModifiedTime: v.optional(v.string()), // Drive modifiedTime seen this run
+    syncedSheets: v.array(v.string()), // Tabs whose values changed and were re-synced
+    missingSheets: v.array(v.string()), // Configured tabs no longer in the spreadsheet
+    message: v.optional(v.string()), // Error or skip reason
+  })
+    .index("by_started_at", ["startedAt"])
+    .index("by_status", ["status", "startedAt"]),
+
+  // Every spreadsheet sync (analytics dialog, login auto-sync, onboarding or
+  // scheduled) with the rows the parser skipped or misread
+  syncRuns: defineTable({
+    trigger: v.string(), // "manual" | "auto" | "onboarding" | "scheduled"
+    status: v.string(), // "running" | "succeeded" | "failed"
+    spreadsheetId: v.string(),
+    triggeredByUserId: v.optional(v.string()), // Unset for scheduled runs
+    triggeredByName: v.optional(v.string()),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+    durationMs: v.optional(v.number()),
+    sheets: v.array(
+      v.object({
+        sheetName: v.string(),
+        sheetId: v.optional(v.number()), // Google tab gid, for row links
+        rowCount: v.number(), // Rows read, including the header
+        recordCount: v.optional(v.number()), // Crops or qualifiers parsed
+      })
+    ),
+    missingSheets: v.array(v.string()),
+    warnings: v.array(
+      v.object({
+        sheetName: v.string(),
+        row: v.number(), // 1-based sheet row
+        message: v.string(),
+        value: v.optional(v.string()), // The cell text that caused it
+      })
+    ),
+    droppedWarnings: v.optional(v.number()), // Past the per-run cap
+    error: v.optional(v.string()),
+  }).index("by_started_at", ["startedAt"]),
+
+  // Quality logs summed per season, day, crop, variety, field and author, so
+  // analytics doesn't read every log. Kept up to date as logs are created,
+  // edited and deleted; see convex/analytics.ts.
+  analyticsRollups: defineTable({
+    seasonId: v.optional(v.id("seasons")),
+    day: v.string(), // assessmentDate as a UTC YYYY-MM-DD
+    crop: v.string(),
+    variety: v.string(),
+    field: v.string(),
+    loggedByUserId: v.optional(v.string()),
+    loggedByName: v.optional(v.string()), // Name or email of the latest log
+    logs: v.number(),
+    ageDaysTotal: v.number(), // Sum of cropAgeDays over logs that have one
+    agedLogs: v.number(),
+    // Answers with how many logs gave each (lib/analytics-rollup.ts)
+    answers: v.array(
+      v.object({
+        question: v.string(),
+        questionId: v.optional(v.string()),
+        answer: v.string(),
+        ...assessmentTypeFields,
+        value: v.optional(v.number()),
+        count: v.number(),
+      })
+    ),
+    // Each log's option answers kept together, so planting quantity counts
+    // once per log (lib/analytics-rollup.ts)
+    answerSets: v.array(
+      v.object({
+        responses: v.array(
+          v.object({
+            question: v.string(),
+            questionId: v.optional(v.string()),
+            answer: v.string(),
+          })
+        ),
+        count: v.number(),
+      })
+    ),
+  })
+    .index("by_season_and_day", ["seasonId", "day"])
+    .index("by_key", [
+      "seasonId",
+      "day",
+      "crop",
+      "variety",
+      "field",
+      "loggedByUserId",
+    ]),
 });
@@ -0,0 +1,172 @@
+import { ConvexError, v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { patchQualityLog } from "./analytics";
+import { requireAdmin, requireApproved, Viewer } from "./permissions";
+import { inferSeasonYear } from "../lib/planting-values";
+
+// ============ Helpers ============
+
+// Season that syncs write to and new logs are recorded in. Undefined only
+// before the first season exists, when crops and logs are untagged as well,
+// so seasonId index lookups still find them.
+export async function getActiveSeasonId(
+  ctx: QueryCtx
+): Promise<Id<"seasons"> | undefined> {
+  const settings = await ctx.db.query("settings").first();
+  return settings?.activeSeasonId;
+}
+
+// The season a read query shows: the one asked for, else the active one
+export async function resolveSeasonId(
+  ctx: QueryCtx,
+  seasonId: Id<"seasons"> | undefined
+): Promise<Id<"seasons"> | undefined> {
+  return seasonId ?? (await getActiveSeasonId(ctx));
+}
+
+// Past seasons are read-only: their crops can't be logged against and their
+// logs can't be edited or deleted.
+export async function requireWritableSeason(
+  ctx: QueryCtx,
+  seasonId: Id<"seasons"> | undefined
+): Promise<void> {
+  const activeSeasonId = await getActiveSeasonId(ctx);
+  if (seasonId === activeSeasonId) return;
+
+  const season = seasonId ? await ctx.db.get(seasonId) : null;
+  throw new ConvexError(
+    `The ${season?.name ?? "selected"} season is archived and read-only`
+  );
+}
+
+// Creates the first season from the current settings and tags the crops and
+// logs recorded before seasons existed with it.
+export async function ensureActiveSeason(
+  ctx: MutationCtx,
+  settings: Doc<"settings">,
+  startedBy?: Viewer
+): Promise<Id<"seasons">> {
+  if (settings.activeSeasonId) return settings.activeSeasonId;
+
+  const year =
+    settings.seasonYear ??
+    inferSeasonYear(settings.spreadsheetName) ??
+    new Date(settings.lastUpdated).getUTCFullYear();
+
+  const seasonId = await ctx.db.insert("seasons", {
+    name: String(year),
+    year,
+    spreadsheetId: settings.spreadsheetId,
+    spreadsheetName: settings.spreadsheetName,
+    status: "active",
+    startedAt: Date.now(),
+    startedByUserId: startedBy?.userId,
+    startedByName: startedBy ? (startedBy.name ?? startedBy.email) : undefined,
+  });
+
+  const crops = await ctx.db
+    .query("crops")
+    .withIndex("by_season_and_field", (q) => q.eq("seasonId", undefined))
+    .collect();
+  for (const crop of crops) {
+    await ctx.db.patch(crop._id, { seasonId });
+  }
+
+  const logs = await ctx.db
+    .query("qualityLogs")
+    .withIndex("by_season_and_date", (q) => q.eq("seasonId", undefined))
+    .collect();
+  for (const log of logs) {
+    await patchQualityLog(ctx, log, { seasonId });
+  }
+
+  await ctx.db.patch(settings._id, { activeSeasonId: seasonId });
+  return seasonId;
+}
+
+// ============ Seasons ============
+
+// Newest season first, for the season switcher
+export const getSeasons = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    return ctx.db.query("seasons").withIndex("by_year").order("desc").collect();
+  },
+});
+
+// Archive the active season and make a new spreadsheet the one that syncs
+// and logs go to. The old season's crops and logs stay as they were.
+// Onboarding calls this before syncing the new spreadsheet's tabs, then
+// saves the synced tabs with setSettings.
+export const startNewSeason = mutation({
+  args: {
+    name: v.string(),
+    year: v.number(),
+    spreadsheetId: v.string(),
+    spreadsheetName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    const settings = await ctx.db.query("settings").first();
+    if (!settings) {
+      throw new Error("No settings found");
+    }
+
+    const name = args.name.trim() || String(args.year);
+    const sameYear = await ctx.db
+      .query("seasons")
+      .withIndex("by_year", (q) => q.eq("year", args.year))
+      .first();
+    if (sameYear) {
+      throw new Error(`A ${args.year} season already exists`);
+    }
+
+    const previousSeasonId = await ensureActiveSeason(ctx, settings, viewer);
+    const now = Date.now();
+    await ctx.db.patch(previousSeasonId, { status: "archived", archivedAt: now });
+
+    const seasonId = await ctx.db.insert("seasons", {
+      name,
+      year: args.year,
+      spreadsheetId: args.spreadsheetId,
+      spreadsheetName: args.spreadsheetName,
+      status: "active",
+      startedAt: now,
+      startedByUserId: viewer.userId,
+      startedByName: viewer.name ?? viewer.email,
+    });
+
+    // Tabs and column mappings are chosen again for the new spreadsheet
+    await ctx.db.patch(settings._id, {
+      spreadsheetId: args.spreadsheetId,
+      spreadsheetName: args.spreadsheetName,
+      sheetNames: [],
+      seasonYear: args.year,
+      columnMappings: undefined,
+      activeSeasonId: seasonId,
+      lastUpdated: now,
+    });
+
+    return { success: true, seasonId, archivedSeasonId: previousSeasonId };
+  },
+});
+
+// Create the first season for a deployment set up before seasons existed.
+// Run once with `npx convex run seasons:backfillSeasons`; saving settings
+// from onboarding does the same.
+export const backfillSeasons = internalMutation({
+  handler: async (ctx) => {
+    const settings = await ctx.db.query("settings").first();
+    if (!settings) {
+      return { seasonId: null };
+    }
+    return { seasonId: await ensureActiveSeason(ctx, settings) };
+  },
+});
@@ -1,54 +1,82 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-
-type PlanningBucket = "under" | "on_target" | "over" | "unknown";
-
-function normalizeLabel(value: string): string {
-  return value.trim().toLowerCase().replace(/\s+/g, " ");
-}
-
-function isPlanningQuestion(question: string): boolean {
-  const q = normalizeLabel(question);
-  return (
-    q.includes("planting quantity") ||
-    q.includes("quantity planted") ||
-    q.includes("quantity?") ||
-    q.includes("planted too")
-  );
-}
-
-function getPlanningBucket(answer: string): PlanningBucket {
-  const normalized = normalizeLabel(answer);
-
-  if (
-    normalized.includes("not enough") ||
-    normalized.includes("too little") ||
-    normalized.includes("under")
-  ) {
-    return "under";
-  }
-
-  if (
-    normalized.includes("too much") ||
-    normalized.includes("too many") ||
-    normalized.includes("over") ||
-    normalized.includes("excess")
-  ) {
-    return "over";
-  }
-
-  if (
-    normalized.includes("on target") ||
-    normalized.includes("just right") ||
-    normalized.includes("perfect") ||
-    normalized.includes("ideal") ||
-    normalized.includes("right amount")
-  ) {
-    return "on_target";
-  }
-
-  return "unknown";
-}
+import { ConvexError, ObjectType, v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import {
+  canModifyQualityLog,
+  requireAdmin,
+  requireApproved,
+  requireApprovedOrService,
+  Viewer,
+} from "./permissions";
+import {
+  assessmentResponseValidator,
+  assessmentRuleFields,
+  assessmentTypeFields,
+  assessmentValidator,
+  columnMappingValidator,
+  replantingDetectionValidator,
+  replantingFields,
+  typedPlantingFields,
+} from "./schema";
+import {
+  getSeasonRollups,
+  insertQualityLog,
+  patchQualityLog,
+  removeQualityLog,
+} from "./analytics";
+import { getPlanningClassifier } from "./planning";
+import { recordPlantingHistory } from "./plantingHistory";
+import {
+  getQualifierSource,
+  loadQuestionRenames,
+  newQuestionId,
+  proposeCropQualifiers,
+  proposeUniversalQualifiers,
+  recordQualifierVersion,
+} from "./qualifiers";
+import {
+  getFieldReplantingReviews,
+  queueReplantingReviews,
+} from "./replanting";
+import {
+  ensureActiveSeason,
+  getActiveSeasonId,
+  requireWritableSeason,
+  resolveSeasonId,
+} from "./seasons";
+import { diffCrops, getCropSyncKey } from "../lib/crop-sync";
+import { getFieldSheetParseOptionsFromSettings } from "../lib/parse-field-sheet";
+import { applyReplantingReviews } from "../lib/replanting";
+import {
+  AssessmentResponse,
+  combineQuestions,
+  getMissingRequiredQuestions,
+  getQuestionError,
+  getResponseError,
+  normalizeQuestion,
+  removeHiddenResponses,
+  summarizeNumericResponses,
+} from "../lib/assessment-types";
+import { findQualifierForCrop } from "../lib/crop-matching";
+import {
+  assignQuestionIds,
+  attachQuestionIds,
+  createQuestionResolver,
+  VersionedQuestion,
+} from "../lib/question-ids";
+import { DEFAULT_LOCATION } from "../lib/locations";
+import { PlanningBucket } from "../lib/planning";
+import { getPlanningAnswers } from "../lib/analytics-rollup";
+import {
+  getDaysSincePlanting,
+  parsePlantingDate,
+} from "../lib/planting-values";
 
 function startOfWeekUtc(timestamp: number): Date {
   const date = new Date(timestamp);
@@ -66,12 +94,27 @@ function dateKey(date: Date): string {
   return `${y}-${m}-${d}`;
 }
 
-function getStartTimestampFromDate(dateString: string): number {
-  return new Date(`${dateString}T00:00:00.000Z`).getTime();
-}
+// Observed-at timestamps come from device clocks, so allow a little skew into
+// the future. Anything older than a season is almost certainly a typo.
+const MAX_ASSESSMENT_FUTURE_SKEW_MS = 5 * 60 * 1000;
+const MAX_ASSESSMENT_AGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+// Validation failures are ConvexErrors so callers can tell a rejected log
+// (never worth retrying) from a network or server failure
+function validateAssessmentDate(assessmentDate: number, now: number): void {
+  if (!Number.isFinite(assessmentDate)) {
+    throw new ConvexError("Assessment date must be a valid timestamp");
+  }
 
-function getEndTimestampFromDate(dateString: string): number {
-  return new Date(`${dateString}T23:59:59.999Z`).getTime();
+  if (assessmentDate > now + MAX_ASSESSMENT_FUTURE_SKEW_MS) {
+    throw new ConvexError("Assessment date cannot be in the future");
+  }
+
+  if (assessmentDate < now - MAX_ASSESSMENT_AGE_MS) {
+    throw new ConvexError(
+      "Assessment date cannot be more than a year in the past"
+    );
+  }
 }
 
 function getFieldNameFromRange(range: string): string {
@@ -86,17 +129,120 @@ function getFieldNameFromRange(range: string): string {
   return rawFieldName;
 }
 
+// ============ Crops ============
+
+// A season's plantings, including removed ones
+async function getSeasonCrops(
+  ctx: QueryCtx,
+  seasonId: Id<"seasons"> | undefined,
+  field?: string
+) {
+  return ctx.db
+    .query("crops")
+    .withIndex("by_season_and_field", (q) =>
+      field === undefined
+        ? q.eq("seasonId", seasonId)
+        : q.eq("seasonId", seasonId).eq("field", field)
+    )
+    .collect();
+}
+
+// Plantings currently on the season's sheet. Removed plantings stay in the
+// table with removedAt while quality logs still point at them.
+export async function getActiveCrops(
+  ctx: QueryCtx,
+  seasonId: Id<"seasons"> | undefined,
+  field?: string
+) {
+  const crops = await getSeasonCrops(ctx, seasonId, field);
+  return crops.filter((crop) => crop.removedAt === undefined);
+}
+
+// Hard-delete a planting unless a quality log links to it, in which case keep
+// it as removed so the log's cropId stays valid.
+async function removeCrop(ctx: MutationCtx, crop: Doc<"crops">, now: number) {
+  const referencingLog = await ctx.db
+    .query("qualityLogs")
+    .withIndex("by_crop_id", (q) => q.eq("cropId", crop._id))
+    .first();
+
+  if (referencingLog) {
+    if (crop.removedAt === undefined) {
+      await ctx.db.patch(crop._id, { removedAt: now });
+    }
+    return;
+  }
+
+  await ctx.db.delete(crop._id);
+}
+
+// Point a season's logs for a field at the matching planting when their
+// cropId no longer exists (logs saved before syncs preserved crop IDs).
+async function relinkQualityLogs(
+  ctx: MutationCtx,
+  seasonId: Id<"seasons"> | undefined,
+  field: string,
+  crops: Doc<"crops">[]
+) {
+  const cropIds = new Set(crops.map((crop) => crop._id));
+  const cropsByKey = new Map<string, Doc<"crops">>();
+  for (const crop of crops) {
+    const key = getCropSyncKey(crop);
+    if (!cropsByKey.has(key) || crop.removedAt === undefined) {
+      cropsByKey.set(key, crop);
+    }
+  }
+
+  const logs = await ctx.db
+    .query("qualityLogs")
+    .withIndex("by_field", (q) => q.eq("field", field))
+    .collect();
+
+  let relinked = 0;
+  for (const log of logs) {
+    if (log.seasonId !== seasonId) continue;
+    if (!log.cropId || cropIds.has(log.cropId)) continue;
+
+    const match = cropsByKey.get(
+      getCropSyncKey({ ...log, date: log.datePlanted })
+    );
+    if (match) {
+      await ctx.db.patch(log._id, { cropId: match._id });
+      relinked += 1;
+    }
+  }
+  return relinked;
+}
+
 // ============ Settings (Global Spreadsheet Config) ============
 
 // Get the global spreadsheet settings
 export const getSettings = query({
   handler: async (ctx) => {
+    await requireApproved(ctx);
     // There should only be one settings record
     return await ctx.db.query("settings").first();
   },
 });
 
-// Set the global spreadsheet settings (admin only - enforced on client)
+// Saving settings edits the active season's spreadsheet (starting a new one
+// is seasons.startNewSeason); the first save creates the first season.
+async function updateActiveSeason(
+  ctx: MutationCtx,
+  settingsId: Id<"settings">,
+  viewer: Viewer
+) {
+  const settings = await ctx.db.get(settingsId);
+  if (!settings) return;
+
+  const seasonId = await ensureActiveSeason(ctx, settings, viewer);
+  await ctx.db.patch(seasonId, {
+    spreadsheetId: settings.spreadsheetId,
+    spreadsheetName: settings.spreadsheetName,
+  });
+}
+
+// Set the global spreadsheet settings (admin only)
 export const setSettings = mutation({
   args: {
     spreadsheetId: v.string(),
@@ -104,8 +250,15 @@ export const setSettings = mutation({
     sheetNames: v.array(v.string()),
     adminUserId: v.string(),
     adminEmail: v.string(),
+    seasonYear: v.optional(v.number()),
+    columnMappings: v.optional(
+      v.array(
+        v.object({ sheetName: v.string(), columns: columnMappingValidator })
+      )
+    ),
   },
   handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
     const existing = await ctx.db.query("settings").first();
 
     if (existing) {
@@ -116,8 +269,11 @@ export const setSettings = mutation({
         sheetNames: args.sheetNames,
         adminUserId: args.adminUserId,
         adminEmail: args.adminEmail,
+        seasonYear: args.seasonYear,
+        columnMappings: args.columnMappings,
         lastUpdated: Date.now(),
       });
+      await updateActiveSeason(ctx, existing._id, viewer);
       return { success: true, action: "updated", id: existing._id };
     } else {
       // Create new settings
@@ -127,19 +283,39 @@ export const setSettings = mutation({
         sheetNames: args.sheetNames,
         adminUserId: args.adminUserId,
         adminEmail: args.adminEmail,
+        seasonYear: args.seasonYear,
+        columnMappings: args.columnMappings,
         lastUpdated: Date.now(),
       });
+      await updateActiveSeason(ctx, id, viewer);
       return { success: true, action: "created", id };
     }
   },
 });
 
+// Column mapping, season year and crop names the sync route parses a field
+// sheet with
+export const getFieldSheetParseOptions = query({
+  args: { sheetName: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    const settings = await ctx.db.query("settings").first();
+    const qualifiers = await ctx.db.query("qualifiers").collect();
+    return getFieldSheetParseOptionsFromSettings(
+      settings,
+      args.sheetName,
+      qualifiers.map((qualifier) => qualifier.name)
+    );
+  },
+});
+
 // Update sheet names in settings (for when sheets are added/removed)
 export const updateSettingsSheetNames = mutation({
   args: {
     sheetNames: v.array(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
     const existing = await ctx.db.query("settings").first();
     if (!existing) {
       throw new Error("No settings found");
@@ -154,134 +330,197 @@ export const updateSettingsSheetNames = mutation({
   },
 });
 
-// Mutation to sync Google Sheets data to Convex
-export const syncSheetData = mutation({
-  args: {
-    spreadsheetId: v.string(),
-    range: v.string(),
-    data: v.array(v.array(v.string())),
-    parsedData: v.optional(
-      v.array(
-        v.object({
-          field: v.string(),
-          bed: v.string(),
-          crop: v.string(),
-          variety: v.string(),
-          trays: v.string(),
-          rows: v.string(),
-          date: v.string(),
-          notes: v.string(),
-          location: v.optional(v.string()),
-          replantedFrom: v.optional(
-            v.object({
-              crop: v.string(),
-              variety: v.string(),
-              date: v.string(),
-              notes: v.string(),
-            })
-          ),
-        })
-      )
-    ),
-  },
-  handler: async (ctx, args) => {
-    const { spreadsheetId, range, data, parsedData } = args;
-
-    // Check if this spreadsheet+range combo already exists
-    const existing = await ctx.db
-      .query("sheets")
-      .withIndex("by_spreadsheet_and_range", (q) =>
-        q.eq("spreadsheetId", spreadsheetId).eq("range", range)
-      )
-      .first();
+const syncSheetDataArgs = {
+  spreadsheetId: v.string(),
+  range: v.string(),
+  data: v.array(v.array(v.string())),
+  parsedData: v.optional(
+    v.array(
+      v.object({
+        field: v.string(),
+        bed: v.string(),
+        crop: v.string(),
+        variety: v.string(),
+        trays: v.string(),
+        rows: v.string(),
+        date: v.string(),
+        notes: v.string(),
+        location: v.optional(v.string()),
+        ...replantingFields,
+        replantingCandidate: v.optional(replantingDetectionValidator),
+        ...typedPlantingFields,
+      })
+    )
+  ),
+};
+
+// Stores a tab's values and, for field sheets, reconciles the field's crops
+async function writeSheetData(
+  ctx: MutationCtx,
+  args: ObjectType<typeof syncSheetDataArgs>
+) {
+  const { spreadsheetId, range, data, parsedData } = args;
+
+  // Check if this spreadsheet+range combo already exists
+  const existing = await ctx.db
+    .query("sheets")
+    .withIndex("by_spreadsheet_and_range", (q) =>
+      q.eq("spreadsheetId", spreadsheetId).eq("range", range)
+    )
+    .first();
+
+  let sheetId;
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      data,
+      parsedData,
+      lastSynced: Date.now(),
+    });
+    sheetId = existing._id;
+  } else {
+    sheetId = await ctx.db.insert("sheets", {
+      spreadsheetId,
+      range,
+      data,
+      parsedData,
+      lastSynced: Date.now(),
+    });
+  }
 
-    let sheetId;
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        data,
-        parsedData,
-        lastSynced: Date.now(),
-      });
-      sheetId = existing._id;
-    } else {
-      sheetId = await ctx.db.insert("sheets", {
-        spreadsheetId,
-        range,
-        data,
-        parsedData,
-        lastSynced: Date.now(),
-      });
+  // Reconcile crops for this field whenever parsed field data is synced,
+  // including when the source sheet is now empty. Rows are matched by
+  // field + bed + crop + variety + date so unchanged plantings keep their
+  // IDs and quality logs stay linked.
+  // Only the active season's crops are synced; archived seasons keep theirs.
+  // Replantings detected with low confidence only apply once an admin
+  // confirms them; new ones are queued for review.
+  if (parsedData) {
+    const fieldName = parsedData[0]?.field ?? getFieldNameFromRange(range);
+    const seasonId = await getActiveSeasonId(ctx);
+    const now = Date.now();
+    const reviews = await getFieldReplantingReviews(ctx, seasonId, fieldName);
+    const { records, unreviewed } = applyReplantingReviews(parsedData, reviews);
+    const queuedReplantings = await queueReplantingReviews(
+      ctx,
+      seasonId,
+      unreviewed,
+      now
+    );
+    const existingCrops = await getSeasonCrops(ctx, seasonId, fieldName);
+    const diff = diffCrops(existingCrops, records);
+
+    for (const cropData of diff.added) {
+      await ctx.db.insert("crops", { ...cropData, seasonId, lastSynced: now });
     }
 
-    // Clear existing crops for this field whenever parsed field data is synced,
-    // including when the source sheet is now empty.
-    if (parsedData) {
-      const fieldName = parsedData[0]?.field ?? getFieldNameFromRange(range);
-      const existingCrops = await ctx.db
-        .query("crops")
-        .withIndex("by_field", (q) => q.eq("field", fieldName))
-        .collect();
-
-      // Delete existing crops for this field
-      for (const crop of existingCrops) {
-        await ctx.db.delete(crop._id);
-      }
+    // replace (not patch) so cleared optional fields and removedAt go away
+    for (const { existing: crop, next } of diff.updated) {
+      await ctx.db.replace(crop._id, { ...next, seasonId, lastSynced: now });
+    }
 
-      // Insert new crops
-      const cropIds = [];
-      for (const cropData of parsedData) {
-        const cropId = await ctx.db.insert("crops", {
-          ...cropData,
-          lastSynced: Date.now(),
-        });
-        cropIds.push(cropId);
-      }
-      return {
-        success: true,
-        action: existing ? "updated" : "created",
-        sheetId,
-        cropsCount: cropIds.length,
-      };
+    for (const crop of diff.removed) {
+      await removeCrop(ctx, crop, now);
     }
 
+    const syncedCrops = await getSeasonCrops(ctx, seasonId, fieldName);
+    const relinkedLogs = await relinkQualityLogs(
+      ctx,
+      seasonId,
+      fieldName,
+      syncedCrops
+    );
+    await recordPlantingHistory(ctx, seasonId, fieldName, syncedCrops, now);
+
     return {
       success: true,
       action: existing ? "updated" : "created",
       sheetId,
-      cropsCount: 0,
+      cropsCount: parsedData.length,
+      changes: {
+        added: diff.added.length,
+        updated: diff.updated.length,
+        removed: diff.removed.length,
+        unchanged: diff.unchanged.length,
+        relinkedLogs,
+        queuedReplantings,
+      },
     };
+  }
+
+  return {
+    success: true,
+    action: existing ? "updated" : "created",
+    sheetId,
+    cropsCount: 0,
+    changes: null,
+  };
+}
+
+// Mutation to sync Google Sheets data to Convex
+export const syncSheetData = mutation({
+  args: syncSheetDataArgs,
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return writeSheetData(ctx, args);
+  },
+});
+
+// syncSheetData for the scheduled sync, which has no signed-in admin
+export const syncSheetDataInternal = internalMutation({
+  args: syncSheetDataArgs,
+  handler: writeSheetData,
+});
+
+// Crops a sync dry-run diffs against, including removed ones so a planting
+// that reappears previews as restored rather than new
+export const getCropsForSync = query({
+  args: { field: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return getSeasonCrops(ctx, await getActiveSeasonId(ctx), args.field);
   },
 });
 
 // Get all sheets
 export const getAllSheets = query({
   handler: async (ctx) => {
+    await requireApproved(ctx);
     return ctx.db.query("sheets").collect();
   },
 });
 
-// Get all crops
+// Get all crops. Crop and log queries default to the active season; pass
+// seasonId to read an archived one.
 export const getAllCrops = query({
-  handler: async (ctx) => {
-    return ctx.db.query("crops").collect();
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    return getActiveCrops(ctx, await resolveSeasonId(ctx, args.seasonId));
   },
 });
 
 // Get crops by field
 export const getCropsByField = query({
-  args: { field: v.string() },
+  args: { field: v.string(), seasonId: v.optional(v.id("seasons")) },
   handler: async (ctx, args) => {
-    return ctx.db
-      .query("crops")
-      .withIndex("by_field", (q) => q.eq("field", args.field))
-      .collect();
+    await requireApproved(ctx);
+    return getActiveCrops(
+      ctx,
+      await resolveSeasonId(ctx, args.seasonId),
+      args.field
+    );
   },
 });
 
 // Get unique fields (for field selection)
 export const getUniqueFields = query({
-  handler: async (ctx) => {
-    const crops = await ctx.db.query("crops").collect();
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const crops = await getActiveCrops(
+      ctx,
+      await resolveSeasonId(ctx, args.seasonId)
+    );
     const fields = [...new Set(crops.map((c) => c.field))];
     return fields.sort();
   },
@@ -289,122 +528,174 @@ export const getUniqueFields = query({
 
 // Get unique crops (for crop selection)
 export const getUniqueCrops = query({
-  handler: async (ctx) => {
-    const crops = await ctx.db.query("crops").collect();
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const crops = await getActiveCrops(
+      ctx,
+      await resolveSeasonId(ctx, args.seasonId)
+    );
     const uniqueCrops = [...new Set(crops.map((c) => c.crop))];
     return uniqueCrops.sort();
   },
 });
 
-// Mutation to sync qualifiers data (crop-specific only, universal goes to separate table)
-export const syncQualifiers = mutation({
-  args: {
-    qualifiers: v.array(
-      v.object({
-        name: v.string(),
-        location: v.optional(v.string()),
-        assessments: v.array(
-          v.object({
-            name: v.string(),
-            options: v.array(v.string()),
-            isUniversal: v.optional(v.boolean()),
-          })
-        ),
-      })
-    ),
-  },
-  handler: async (ctx, args) => {
-    const { qualifiers } = args;
-    const results = [];
-    const now = Date.now();
-
-    const normalizeLocation = (location: string | undefined) => {
-      const trimmed = location?.trim();
-      return trimmed ? trimmed : undefined;
-    };
-
-    const qualifierKey = (name: string, location: string | undefined) =>
-      `${name.trim().toLowerCase()}::${normalizeLocation(location)?.toLowerCase() ?? ""}`;
+const syncQualifiersArgs = {
+  qualifiers: v.array(
+    v.object({
+      name: v.string(),
+      location: v.optional(v.string()),
+      assessments: v.array(assessmentValidator),
+    })
+  ),
+};
+
+// Upserts crop qualifiers, or proposes them when the app owns qualifiers
+async function writeQualifiers(
+  ctx: MutationCtx,
+  args: ObjectType<typeof syncQualifiersArgs>
+) {
+  const { qualifiers } = args;
+  if ((await getQualifierSource(ctx)) === "app") {
+    const proposed = await proposeCropQualifiers(ctx, qualifiers);
+    return { success: true, count: 0, results: [], proposed };
+  }
+  const results = [];
+  const now = Date.now();
+  const renames = await loadQuestionRenames(ctx);
 
-    const existingQualifiers = await ctx.db.query("qualifiers").collect();
-    const existingByKey = new Map<string, typeof existingQualifiers>();
+  const normalizeLocation = (location: string | undefined) => {
+    const trimmed = location?.trim();
+    return trimmed ? trimmed : undefined;
+  };
 
-    for (const existing of existingQualifiers) {
-      const key = qualifierKey(existing.name, existing.location);
-      existingByKey.set(key, [...(existingByKey.get(key) ?? []), existing]);
-    }
+  const qualifierKey = (name: string, location: string | undefined) =>
+    `${name.trim().toLowerCase()}::${normalizeLocation(location)?.toLowerCase() ?? ""}`;
 
-    const seenKeys = new Set<string>();
+  const existingQualifiers = await ctx.db.query("qualifiers").collect();
+  const existingByKey = new Map<string, typeof existingQualifiers>();
 
-    for (const qualifier of qualifiers) {
-      const name = qualifier.name.trim();
-      const location = normalizeLocation(qualifier.location);
-      const key = qualifierKey(name, location);
-      const matches = existingByKey.get(key) ?? [];
-      const existing = matches[0];
+  for (const existing of existingQualifiers) {
+    const key = qualifierKey(existing.name, existing.location);
+    existingByKey.set(key, [...(existingByKey.get(key) ?? []), existing]);
+  }
 
-      seenKeys.add(key);
+  const seenKeys = new Set<string>();
+
+  for (const qualifier of qualifiers) {
+    const name = qualifier.name.trim();
+    const location = normalizeLocation(qualifier.location);
+    const key = qualifierKey(name, location);
+    const matches = existingByKey.get(key) ?? [];
+    const existing = matches[0];
+
+    seenKeys.add(key);
+
+    // Questions keep their IDs across syncs; the version only moves when
+    // the questions changed
+    const assessments = assignQuestionIds(
+      qualifier.assessments,
+      existing?.assessments ?? [],
+      renames,
+      newQuestionId
+    );
+    const version = await recordQualifierVersion(
+      ctx,
+      { kind: "crop", name, location },
+      assessments,
+      existing
+        ? { questions: existing.assessments, version: existing.version }
+        : null
+    );
+    const qualifierRecord = {
+      name,
+      ...(location ? { location } : {}),
+      assessments,
+      version,
+      lastSynced: now,
+    };
 
-      const qualifierRecord = {
+    if (existing) {
+      await ctx.db.replace(existing._id, qualifierRecord);
+      results.push({
         name,
-        ...(location ? { location } : {}),
-        assessments: qualifier.assessments,
-        lastSynced: now,
-      };
-
-      if (existing) {
-        await ctx.db.replace(existing._id, qualifierRecord);
-        results.push({
-          name,
-          location,
-          action: "updated",
-          id: existing._id,
-        });
+        location,
+        action: "updated",
+        id: existing._id,
+      });
 
-        for (const duplicate of matches.slice(1)) {
-          await ctx.db.delete(duplicate._id);
-          results.push({
-            name: duplicate.name,
-            location: duplicate.location,
-            action: "deleted-duplicate",
-            id: duplicate._id,
-          });
-        }
-      } else {
-        const id = await ctx.db.insert("qualifiers", qualifierRecord);
+      for (const duplicate of matches.slice(1)) {
+        await ctx.db.delete(duplicate._id);
         results.push({
-          name,
-          location,
-          action: "created",
-          id,
+          name: duplicate.name,
+          location: duplicate.location,
+          action: "deleted-duplicate",
+          id: duplicate._id,
         });
       }
+    } else {
+      const id = await ctx.db.insert("qualifiers", qualifierRecord);
+      results.push({
+        name,
+        location,
+        action: "created",
+        id,
+      });
     }
+  }
 
-    for (const existing of existingQualifiers) {
-      const key = qualifierKey(existing.name, existing.location);
-      if (!seenKeys.has(key)) {
-        await ctx.db.delete(existing._id);
-        results.push({
-          name: existing.name,
-          location: existing.location,
-          action: "deleted",
-          id: existing._id,
-        });
-      }
+  for (const existing of existingQualifiers) {
+    const key = qualifierKey(existing.name, existing.location);
+    if (!seenKeys.has(key)) {
+      await ctx.db.delete(existing._id);
+      results.push({
+        name: existing.name,
+        location: existing.location,
+        action: "deleted",
+        id: existing._id,
+      });
     }
+  }
 
-    return {
-      success: true,
-      count: results.length,
-      results,
-    };
+  return {
+    success: true,
+    count: results.length,
+    results,
+  };
+}
+
+// Mutation to sync qualifiers data (crop-specific only, universal goes to separate table).
+// When the app owns qualifiers this only records proposals.
+export const syncQualifiers = mutation({
+  args: syncQualifiersArgs,
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return writeQualifiers(ctx, args);
+  },
+});
+
+// syncQualifiers for the scheduled sync, which has no signed-in admin
+export const syncQualifiersInternal = internalMutation({
+  args: syncQualifiersArgs,
+  handler: writeQualifiers,
+});
+
+// Qualifiers a sync dry-run diffs the Qualifiers tab against
+export const getQualifiersForSync = query({
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+    const [qualifiers, universal] = await Promise.all([
+      ctx.db.query("qualifiers").collect(),
+      ctx.db.query("universalQualifiers").collect(),
+    ]);
+    return { qualifiers, universal, source: await getQualifierSource(ctx) };
   },
 });
 
 // Get all qualifiers
 export const getAllQualifiers = query({
   handler: async (ctx) => {
+    await requireApproved(ctx);
     return ctx.db.query("qualifiers").collect();
   },
 });
@@ -413,6 +704,7 @@ export const getAllQualifiers = query({
 export const getQualifierByName = query({
   args: { name: v.string() },
   handler: async (ctx, args) => {
+    await requireApproved(ctx);
     return ctx.db
       .query("qualifiers")
       .withIndex("by_name", (q) => q.eq("name", args.name))
@@ -427,6 +719,7 @@ export const getQualifierByNameAndLocation = query({
     location: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireApproved(ctx);
     return ctx.db
       .query("qualifiers")
       .withIndex("by_name_and_location", (q) =>
@@ -438,83 +731,136 @@ export const getQualifierByNameAndLocation = query({
 
 // ============ Universal Qualifiers ============
 
-// Sync universal qualifiers (assessments that apply to ALL crops)
-export const syncUniversalQualifiers = mutation({
-  args: {
-    qualifiers: v.array(
-      v.object({
-        name: v.string(),
-        options: v.array(v.string()),
-        order: v.number(),
-      })
-    ),
-  },
-  handler: async (ctx, args) => {
-    const { qualifiers } = args;
-    const results = [];
+const syncUniversalQualifiersArgs = {
+  qualifiers: v.array(
+    v.object({
+      name: v.string(),
+      options: v.array(v.string()),
+      ...assessmentTypeFields,
+      ...assessmentRuleFields,
+      order: v.number(),
+    })
+  ),
+};
+
+// Upserts universal qualifiers, or proposes them when the app owns qualifiers
+async function writeUniversalQualifiers(
+  ctx: MutationCtx,
+  args: ObjectType<typeof syncUniversalQualifiersArgs>
+) {
+  const { qualifiers } = args;
+  if ((await getQualifierSource(ctx)) === "app") {
+    const proposed = await proposeUniversalQualifiers(ctx, qualifiers);
+    return { success: true, count: 0, results: [], proposed };
+  }
+  const results = [];
 
-    // Get all existing universal qualifiers
-    const existing = await ctx.db.query("universalQualifiers").collect();
-    const existingMap = new Map(existing.map((q) => [q.name, q]));
+  // Get all existing universal qualifiers
+  const existing = await ctx.db.query("universalQualifiers").collect();
+  const existingMap = new Map(existing.map((q) => [q.name, q]));
 
-    // Track which ones we've seen
-    const seen = new Set<string>();
+  // Track which ones we've seen
+  const seen = new Set<string>();
 
-    for (const qualifier of qualifiers) {
-      seen.add(qualifier.name);
-      const existingQualifier = existingMap.get(qualifier.name);
+  // A question renamed with a declared rename keeps its old ID
+  const withIds = assignQuestionIds(
+    qualifiers,
+    existing,
+    await loadQuestionRenames(ctx),
+    newQuestionId
+  );
 
-      if (existingQualifier) {
-        // Update existing
-        await ctx.db.patch(existingQualifier._id, {
-          options: qualifier.options,
-          order: qualifier.order,
-          lastSynced: Date.now(),
-        });
-        results.push({
-          name: qualifier.name,
-          action: "updated",
-          id: existingQualifier._id,
-        });
-      } else {
-        // Create new
-        const id = await ctx.db.insert("universalQualifiers", {
-          name: qualifier.name,
-          options: qualifier.options,
-          order: qualifier.order,
-          lastSynced: Date.now(),
-        });
-        results.push({
-          name: qualifier.name,
-          action: "created",
-          id,
-        });
-      }
+  for (const qualifier of withIds) {
+    seen.add(qualifier.name);
+    const existingQualifier = existingMap.get(qualifier.name);
+    const version = await recordQualifierVersion(
+      ctx,
+      { kind: "universal", name: qualifier.name },
+      [qualifier],
+      existingQualifier
+        ? { questions: [existingQualifier], version: existingQualifier.version }
+        : null
+    );
+
+    if (existingQualifier) {
+      // Update existing
+      await ctx.db.patch(existingQualifier._id, {
+        options: qualifier.options,
+        type: qualifier.type,
+        unit: qualifier.unit,
+        required: qualifier.required,
+        showIf: qualifier.showIf,
+        order: qualifier.order,
+        questionId: qualifier.questionId,
+        version,
+        lastSynced: Date.now(),
+      });
+      results.push({
+        name: qualifier.name,
+        action: "updated",
+        id: existingQualifier._id,
+      });
+    } else {
+      // Create new
+      const id = await ctx.db.insert("universalQualifiers", {
+        name: qualifier.name,
+        options: qualifier.options,
+        type: qualifier.type,
+        unit: qualifier.unit,
+        required: qualifier.required,
+        showIf: qualifier.showIf,
+        order: qualifier.order,
+        questionId: qualifier.questionId,
+        version,
+        lastSynced: Date.now(),
+      });
+      results.push({
+        name: qualifier.name,
+        action: "created",
+        id,
+      });
     }
+  }
 
-    // Delete any that were removed from the source
-    for (const existingQualifier of existing) {
-      if (!seen.has(existingQualifier.name)) {
-        await ctx.db.delete(existingQualifier._id);
-        results.push({
-          name: existingQualifier.name,
-          action: "deleted",
-          id: existingQualifier._id,
-        });
-      }
+  // Delete any that were removed from the source
+  for (const existingQualifier of existing) {
+    if (!seen.has(existingQualifier.name)) {
+      await ctx.db.delete(existingQualifier._id);
+      results.push({
+        name: existingQualifier.name,
+        action: "deleted",
+        id: existingQualifier._id,
+      });
     }
+  }
 
-    return {
-      success: true,
-      count: results.length,
-      results,
-    };
+  return {
+    success: true,
+    count: results.length,
+    results,
+  };
+}
+
+// Sync universal qualifiers (assessments that apply to ALL crops), or propose
+// the changes when the app owns qualifiers
+export const syncUniversalQualifiers = mutation({
+  args: syncUniversalQualifiersArgs,
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return writeUniversalQualifiers(ctx, args);
   },
 });
 
+// syncUniversalQualifiers for the scheduled sync, which has no signed-in admin
+export const syncUniversalQualifiersInternal = internalMutation({
+  args: syncUniversalQualifiersArgs,
+  handler: writeUniversalQualifiers,
+});
+
 // Get all universal qualifiers (ordered by order field)
 export const getAllUniversalQualifiers = query({
   handler: async (ctx) => {
+    await requireApproved(ctx);
     return ctx.db
       .query("universalQualifiers")
       .withIndex("by_order")
@@ -528,27 +874,46 @@ export const saveUniversalQualifier = mutation({
     id: v.optional(v.id("universalQualifiers")),
     name: v.string(),
     options: v.array(v.string()),
+    ...assessmentTypeFields,
+    ...assessmentRuleFields,
     order: v.number(),
   },
   handler: async (ctx, args) => {
-    const name = args.name.trim();
-    const options = args.options
-      .map((option) => option.trim())
-      .filter((option) => option.length > 0);
-
-    if (name.length === 0) {
-      throw new Error("Question name is required");
+    await requireAdmin(ctx);
+    const question = normalizeQuestion(args);
+    const error = getQuestionError(question);
+    if (error) {
+      throw new Error(error);
     }
+    const { name, options, type, unit, required, showIf } = question;
 
-    if (options.length === 0) {
-      throw new Error("At least one answer option is required");
-    }
+    // An edited question keeps its ID, so renaming it here merges its stats
+    const existing = await ctx.db.query("universalQualifiers").collect();
+    const current = existing.find((qualifier) => qualifier._id === args.id);
+    const [{ questionId }] = assignQuestionIds(
+      [{ ...question, questionId: current?.questionId }],
+      existing,
+      await loadQuestionRenames(ctx),
+      newQuestionId
+    );
+    const version = await recordQualifierVersion(
+      ctx,
+      { kind: "universal", name },
+      [{ ...question, questionId }],
+      current ? { questions: [current], version: current.version } : null
+    );
 
     if (args.id) {
       await ctx.db.patch(args.id, {
         name,
         options,
+        type,
+        unit,
+        required,
+        showIf,
         order: args.order,
+        questionId,
+        version,
         lastSynced: Date.now(),
       });
       return { success: true, action: "updated", id: args.id };
@@ -557,7 +922,13 @@ export const saveUniversalQualifier = mutation({
     const id = await ctx.db.insert("universalQualifiers", {
       name,
       options,
+      type,
+      unit,
+      required,
+      showIf,
       order: args.order,
+      questionId,
+      version,
       lastSynced: Date.now(),
     });
 
@@ -571,6 +942,7 @@ export const deleteUniversalQualifier = mutation({
     id: v.id("universalQualifiers"),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
     await ctx.db.delete(args.id);
     return { success: true };
   },
@@ -578,6 +950,69 @@ export const deleteUniversalQualifier = mutation({
 
 // ============ Quality Logs ============
 
+// Typed planting date and crop age at assessment for a log. Prefers the
+// linked crop's parsed date; a datePlanted without a year is placed in the
+// season before the assessment.
+async function getLogPlantingAge(
+  ctx: QueryCtx,
+  cropId: Id<"crops"> | undefined,
+  datePlanted: string,
+  assessmentDate: number
+): Promise<{ plantedOn?: string; cropAgeDays?: number }> {
+  const crop = cropId ? await ctx.db.get(cropId) : null;
+  let plantedOn = crop?.date === datePlanted ? crop.plantedOn : undefined;
+
+  if (!plantedOn && datePlanted.trim()) {
+    const parsed = parsePlantingDate(datePlanted);
+    if (parsed.ok) {
+      plantedOn = parsed.iso;
+    } else if (parsed.reason === "no_year") {
+      const year = new Date(assessmentDate).getUTCFullYear();
+      for (const candidate of [year, year - 1]) {
+        const inYear = parsePlantingDate(datePlanted, candidate);
+        if (inYear.ok && getDaysSincePlanting(inYear.iso, assessmentDate) >= 0) {
+          plantedOn = inYear.iso;
+          break;
+        }
+      }
+    }
+  }
+
+  return plantedOn
+    ? { plantedOn, cropAgeDays: getDaysSincePlanting(plantedOn, assessmentDate) }
+    : {};
+}
+
+// Rejects numeric answers that aren't numbers, ratings outside 1-5 and
+// multi-select answers with nothing selected
+function validateResponses(responses: AssessmentResponse[]) {
+  for (const response of responses) {
+    const error = getResponseError(response);
+    if (error) throw new ConvexError(error);
+  }
+}
+
+// The questions on a crop's log form, found the way the log form finds them
+async function getCropQuestions(
+  ctx: QueryCtx,
+  cropName: string,
+  location: string
+): Promise<VersionedQuestion[]> {
+  const [universal, qualifiers, aliases] = await Promise.all([
+    ctx.db.query("universalQualifiers").withIndex("by_order").collect(),
+    ctx.db.query("qualifiers").collect(),
+    ctx.db.query("cropAliases").collect(),
+  ]);
+  const qualifier = findQualifierForCrop(cropName, location, qualifiers, aliases);
+  return combineQuestions<VersionedQuestion>(
+    universal,
+    (qualifier?.assessments ?? []).map((question) => ({
+      ...question,
+      version: qualifier?.version,
+    }))
+  );
+}
+
 // Create a new quality log entry
 export const createQualityLog = mutation({
   args: {
@@ -590,29 +1025,216 @@ export const createQualityLog = mutation({
     trays: v.string(),
     rows: v.string(),
     plantingNotes: v.string(),
-    responses: v.array(
-      v.object({
-        question: v.string(),
-        answer: v.string(),
-      })
-    ),
+    responses: v.array(assessmentResponseValidator),
     logNotes: v.optional(v.string()),
+    // When the crop was actually observed. Defaults to now; set it to backdate a
+    // log typed up later. Offline submissions also carry a client-generated key
+    // so replaying the outbox never creates duplicates.
+    assessmentDate: v.optional(v.number()),
+    idempotencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const viewer = await requireApproved(ctx);
+    const { idempotencyKey } = args;
+
+    if (idempotencyKey) {
+      const existing = await ctx.db
+        .query("qualityLogs")
+        .withIndex("by_idempotency_key", (q) =>
+          q.eq("idempotencyKey", idempotencyKey)
+        )
+        .first();
+
+      if (existing) {
+        return { success: true, logId: existing._id, duplicate: true };
+      }
+    }
+
     const now = Date.now();
-    const logId = await ctx.db.insert("qualityLogs", {
+    const assessmentDate = args.assessmentDate ?? now;
+    validateAssessmentDate(assessmentDate, now);
+    validateResponses(args.responses);
+
+    const crop = args.cropId ? await ctx.db.get(args.cropId) : null;
+    const seasonId = crop ? crop.seasonId : await getActiveSeasonId(ctx);
+    await requireWritableSeason(ctx, seasonId);
+
+    // Follow-ups whose condition isn't met are dropped, as the form hides them
+    const questions = await getCropQuestions(
+      ctx,
+      args.crop,
+      crop?.location ?? DEFAULT_LOCATION
+    );
+    const shownResponses = removeHiddenResponses(questions, args.responses);
+    const missing = getMissingRequiredQuestions(questions, shownResponses);
+    if (missing.length > 0) {
+      throw new ConvexError(
+        `Answer the required questions: ${missing.join(", ")}`
+      );
+    }
+    const responses = attachQuestionIds(shownResponses, questions);
+
+    const logId = await insertQualityLog(ctx, {
       ...args,
-      assessmentDate: now,
+      responses,
+      seasonId,
+      ...(await getLogPlantingAge(
+        ctx,
+        args.cropId,
+        args.datePlanted,
+        assessmentDate
+      )),
+      assessmentDate,
+      loggedByUserId: viewer.userId,
+      loggedByName: viewer.name,
+      loggedByEmail: viewer.email,
       createdAt: now,
     });
-    return { success: true, logId };
+    return { success: true, logId, duplicate: false };
   },
 });
 
-// Get all quality logs
+// Edit the answers, notes or observed time of an existing log. Each edit is
+// recorded in qualityLogRevisions with the before/after values.
+export const updateQualityLog = mutation({
+  args: {
+    id: v.id("qualityLogs"),
+    responses: v.array(assessmentResponseValidator),
+    logNotes: v.optional(v.string()),
+    assessmentDate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireApproved(ctx);
+    const existing = await ctx.db.get(args.id);
+    if (!existing) {
+      throw new Error("Quality log not found");
+    }
+
+    if (!canModifyQualityLog(viewer, existing)) {
+      throw new Error("Only the author or an admin can edit this log");
+    }
+    await requireWritableSeason(ctx, existing.seasonId);
+    validateResponses(args.responses);
+
+    // The same checks as createQualityLog, against the crop's current
+    // questions
+    const crop = existing.cropId ? await ctx.db.get(existing.cropId) : null;
+    const currentQuestions = await getCropQuestions(
+      ctx,
+      existing.crop,
+      crop?.location ?? DEFAULT_LOCATION
+    );
+    const shownResponses = removeHiddenResponses(
+      currentQuestions,
+      args.responses
+    );
+    const missing = getMissingRequiredQuestions(
+      currentQuestions,
+      shownResponses
+    );
+    if (missing.length > 0) {
+      throw new ConvexError(
+        `Answer the required questions: ${missing.join(", ")}`
+      );
+    }
+
+    const now = Date.now();
+    const changes: { field: string; before?: string; after?: string }[] = [];
+
+    const beforeAnswers = new Map(
+      existing.responses.map((response) => [response.question, response.answer])
+    );
+    const afterAnswers = new Map(
+      shownResponses.map((response) => [response.question, response.answer])
+    );
+    const questions = new Set([...beforeAnswers.keys(), ...afterAnswers.keys()]);
+
+    for (const question of questions) {
+      const before = beforeAnswers.get(question);
+      const after = afterAnswers.get(question);
+      if (before !== after) {
+        changes.push({ field: question, before, after });
+      }
+    }
+
+    const logNotes = args.logNotes?.trim() || undefined;
+    if ((existing.logNotes ?? undefined) !== logNotes) {
+      changes.push({ field: "Notes", before: existing.logNotes, after: logNotes });
+    }
+
+    const assessmentDate = args.assessmentDate ?? existing.assessmentDate;
+    if (assessmentDate !== existing.assessmentDate) {
+      validateAssessmentDate(assessmentDate, now);
+      changes.push({
+        field: "Observed at",
+        before: new Date(existing.assessmentDate).toISOString(),
+        after: new Date(assessmentDate).toISOString(),
+      });
+    }
+
+    if (changes.length === 0) {
+      return { success: true, changed: false };
+    }
+
+    // Answers keep the question and version they were first given for; new
+    // answers get the current ones
+    const answered = new Map(
+      existing.responses.map((response) => [response.question, response])
+    );
+    const responses = attachQuestionIds(shownResponses, currentQuestions).map(
+      (response) => {
+        const before = answered.get(response.question);
+        return before?.questionId
+          ? { ...response, questionId: before.questionId, version: before.version }
+          : response;
+      }
+    );
+
+    await patchQualityLog(ctx, existing, {
+      responses,
+      logNotes,
+      assessmentDate,
+      cropAgeDays: existing.plantedOn
+        ? getDaysSincePlanting(existing.plantedOn, assessmentDate)
+        : undefined,
+      updatedAt: now,
+      revisionCount: (existing.revisionCount ?? 0) + 1,
+    });
+
+    await ctx.db.insert("qualityLogRevisions", {
+      logId: args.id,
+      editedAt: now,
+      editedByUserId: viewer.userId,
+      editedByName: viewer.name ?? viewer.email,
+      changes,
+    });
+
+    return { success: true, changed: true };
+  },
+});
+
+// Get the edit history for a quality log, newest first
+export const getQualityLogRevisions = query({
+  args: { logId: v.id("qualityLogs") },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    return ctx.db
+      .query("qualityLogRevisions")
+      .withIndex("by_log", (q) => q.eq("logId", args.logId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Get all quality logs, newest observation first
 export const getAllQualityLogs = query({
   handler: async (ctx) => {
-    return ctx.db.query("qualityLogs").order("desc").collect();
+    await requireApproved(ctx);
+    return ctx.db
+      .query("qualityLogs")
+      .withIndex("by_assessment_date")
+      .order("desc")
+      .collect();
   },
 });
 
@@ -620,6 +1242,7 @@ export const getAllQualityLogs = query({
 export const getQualityLogsByCrop = query({
   args: { crop: v.string() },
   handler: async (ctx, args) => {
+    await requireApproved(ctx);
     return ctx.db
       .query("qualityLogs")
       .withIndex("by_crop", (q) => q.eq("crop", args.crop))
@@ -632,6 +1255,7 @@ export const getQualityLogsByCrop = query({
 export const getQualityLogsByField = query({
   args: { field: v.string() },
   handler: async (ctx, args) => {
+    await requireApproved(ctx);
     return ctx.db
       .query("qualityLogs")
       .withIndex("by_field", (q) => q.eq("field", args.field))
@@ -640,22 +1264,33 @@ export const getQualityLogsByField = query({
   },
 });
 
-// Get recent quality logs (for dashboard/stats)
+// Get a season's recent quality logs (for dashboard/stats)
 export const getRecentQualityLogs = query({
-  args: { limit: v.optional(v.number()) },
+  args: {
+    limit: v.optional(v.number()),
+    seasonId: v.optional(v.id("seasons")),
+  },
   handler: async (ctx, args) => {
+    await requireApproved(ctx);
     const limit = args.limit || 50;
-    return ctx.db.query("qualityLogs").order("desc").take(limit);
+    const seasonId = await resolveSeasonId(ctx, args.seasonId);
+    return ctx.db
+      .query("qualityLogs")
+      .withIndex("by_season_and_date", (q) => q.eq("seasonId", seasonId))
+      .order("desc")
+      .take(limit);
   },
 });
 
 // Get quality logs recorded within an assessment date range
 export const getQualityLogsInDateRange = query({
   args: {
+    serviceKey: v.optional(v.string()),
     startTimestamp: v.number(),
     endTimestamp: v.number(),
   },
   handler: async (ctx, args) => {
+    await requireApprovedOrService(ctx, args.serviceKey);
     return ctx.db
       .query("qualityLogs")
       .withIndex("by_assessment_date", (q) =>
@@ -667,10 +1302,36 @@ export const getQualityLogsInDateRange = query({
   },
 });
 
-// Get quality log stats (aggregated data for charts)
+// Renames a log's responses to the current names of the questions they
+// answered, so stats don't split a renamed question in two
+export async function getCurrentQuestionNames(ctx: QueryCtx) {
+  const [qualifiers, universal, renames] = await Promise.all([
+    ctx.db.query("qualifiers").collect(),
+    ctx.db.query("universalQualifiers").collect(),
+    loadQuestionRenames(ctx),
+  ]);
+  const resolve = createQuestionResolver(
+    [...universal, ...qualifiers.flatMap((qualifier) => qualifier.assessments)],
+    renames
+  );
+  return <T extends { responses: AssessmentResponse[] }>(log: T): T => ({
+    ...log,
+    responses: log.responses.map((response) => ({
+      ...response,
+      question: resolve(response),
+    })),
+  });
+}
+
+// Get quality log stats (aggregated data for charts), from the analytics
+// rollups of every season
 export const getQualityLogStats = query({
   handler: async (ctx) => {
-    const logs = await ctx.db.query("qualityLogs").collect();
+    await requireApproved(ctx);
+    const withCurrentNames = await getCurrentQuestionNames(ctx);
+    const rows = (await ctx.db.query("analyticsRollups").collect()).map(
+      (row) => withCurrentNames({ ...row, responses: row.answers })
+    );
 
     // Group logs by crop
     const byCrop: Record<string, number> = {};
@@ -679,24 +1340,26 @@ export const getQualityLogStats = query({
     // Group responses by question and answer
     const responseStats: Record<string, Record<string, number>> = {};
 
-    for (const log of logs) {
+    for (const row of rows) {
       // Count by crop
-      byCrop[log.crop] = (byCrop[log.crop] || 0) + 1;
+      byCrop[row.crop] = (byCrop[row.crop] || 0) + row.logs;
       // Count by field
-      byField[log.field] = (byField[log.field] || 0) + 1;
+      byField[row.field] = (byField[row.field] || 0) + row.logs;
 
-      // Count responses
-      for (const response of log.responses) {
+      // Count responses (numbers and free text aren't counted per answer)
+      for (const response of row.responses) {
+        if (response.type === "number") continue;
         if (!responseStats[response.question]) {
           responseStats[response.question] = {};
         }
         responseStats[response.question][response.answer] =
-          (responseStats[response.question][response.answer] || 0) + 1;
+          (responseStats[response.question][response.answer] || 0) +
+          response.count;
       }
     }
 
     return {
-      totalLogs: logs.length,
+      totalLogs: rows.reduce((sum, row) => sum + row.logs, 0),
       byCrop,
       byField,
       responseStats,
@@ -711,26 +1374,45 @@ export const getAnalyticsOverview = query({
     endDate: v.optional(v.string()),
     crop: v.optional(v.string()),
     field: v.optional(v.string()),
+    loggedBy: v.optional(v.string()), // Clerk user ID of the author
+    seasonId: v.optional(v.id("seasons")),
   },
   handler: async (ctx, args) => {
-    const [allLogs, crops] = await Promise.all([
-      ctx.db.query("qualityLogs").collect(),
-      ctx.db.query("crops").collect(),
+    await requireApproved(ctx);
+    const seasonId = await resolveSeasonId(ctx, args.seasonId);
+    const [allRows, crops] = await Promise.all([
+      getSeasonRollups(ctx, seasonId),
+      getActiveCrops(ctx, seasonId),
     ]);
 
-    const cropOptions = [...new Set(allLogs.map((l) => l.crop))].sort();
-    const fieldOptions = [...new Set(allLogs.map((l) => l.field))].sort();
-
-    const startTs = args.startDate ? getStartTimestampFromDate(args.startDate) : null;
-    const endTs = args.endDate ? getEndTimestampFromDate(args.endDate) : null;
+    const cropOptions = [...new Set(allRows.map((r) => r.crop))].sort();
+    const fieldOptions = [...new Set(allRows.map((r) => r.field))].sort();
+    const authorNames = new Map<string, string>();
+    for (const row of allRows) {
+      if (row.loggedByUserId && !authorNames.has(row.loggedByUserId)) {
+        authorNames.set(row.loggedByUserId, row.loggedByName || "Unknown");
+      }
+    }
+    const loggedByOptions = Array.from(authorNames.entries())
+      .map(([userId, name]) => ({ userId, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    // Rollup rows are per UTC day, so the date filters compare days
+    const withCurrentNames = await getCurrentQuestionNames(ctx);
+    const rows = allRows
+      .filter((row) => {
+        if (args.crop && row.crop !== args.crop) return false;
+        if (args.field && row.field !== args.field) return false;
+        if (args.loggedBy && row.loggedByUserId !== args.loggedBy) return false;
+        if (args.startDate && row.day < args.startDate) return false;
+        if (args.endDate && row.day > args.endDate) return false;
+        return true;
+      })
+      .map((row) => withCurrentNames({ ...row, responses: row.answers }));
 
-    const logs = allLogs.filter((log) => {
-      if (args.crop && log.crop !== args.crop) return false;
-      if (args.field && log.field !== args.field) return false;
-      if (startTs !== null && log.assessmentDate < startTs) return false;
-      if (endTs !== null && log.assessmentDate > endTs) return false;
-      return true;
-    });
+    const totalLogs = rows.reduce((sum, row) => sum + row.logs, 0);
+    const agedLogs = rows.reduce((sum, row) => sum + row.agedLogs, 0);
+    const ageDaysTotal = rows.reduce((sum, row) => sum + row.ageDaysTotal, 0);
 
     const byCrop = new Map<string, number>();
     const byField = new Map<string, number>();
@@ -755,88 +1437,91 @@ export const getAnalyticsOverview = query({
     let overCount = 0;
     let unknownCount = 0;
     let planningSampleSize = 0;
+    let scoreTotal = 0;
+    let scoredCount = 0;
+    // Answers to a planting-quantity question that the mapping doesn't cover,
+    // keyed by question then answer
+    const unmapped = new Map<string, Map<string, number>>();
+    const planning = await getPlanningClassifier(ctx);
+
+    const addPlanning = (
+      stats: Map<
+        string,
+        { under: number; onTarget: number; over: number; unknown: number; total: number }
+      >,
+      key: string,
+      bucket: PlanningBucket | "unknown",
+      count: number
+    ) => {
+      const entry = stats.get(key) ?? {
+        under: 0,
+        onTarget: 0,
+        over: 0,
+        unknown: 0,
+        total: 0,
+      };
+      entry.total += count;
+      if (bucket === "under") entry.under += count;
+      else if (bucket === "on_target") entry.onTarget += count;
+      else if (bucket === "over") entry.over += count;
+      else entry.unknown += count;
+      stats.set(key, entry);
+    };
 
-    for (const log of logs) {
-      byCrop.set(log.crop, (byCrop.get(log.crop) || 0) + 1);
-      byField.set(log.field, (byField.get(log.field) || 0) + 1);
-
-      const weekKey = dateKey(startOfWeekUtc(log.assessmentDate));
-      logsByWeek.set(weekKey, (logsByWeek.get(weekKey) || 0) + 1);
-
-      let planningBucket: PlanningBucket | null = null;
-
-      for (const response of log.responses) {
-        if (!questionStats.has(response.question)) {
-          questionStats.set(response.question, new Map<string, number>());
-        }
-        const answerCounts = questionStats.get(response.question)!;
-        answerCounts.set(response.answer, (answerCounts.get(response.answer) || 0) + 1);
-
-        if (!planningBucket && isPlanningQuestion(response.question)) {
-          planningBucket = getPlanningBucket(response.answer);
+    for (const row of rows) {
+      byCrop.set(row.crop, (byCrop.get(row.crop) || 0) + row.logs);
+      byField.set(row.field, (byField.get(row.field) || 0) + row.logs);
+
+      const weekKey = dateKey(startOfWeekUtc(Date.parse(row.day)));
+      logsByWeek.set(weekKey, (logsByWeek.get(weekKey) || 0) + row.logs);
+
+      for (const response of row.responses) {
+        // Numbers are summarized in numericQuestions instead; free text
+        // isn't kept in the rollups
+        if (response.type !== "number") {
+          if (!questionStats.has(response.question)) {
+            questionStats.set(response.question, new Map<string, number>());
+          }
+          const answerCounts = questionStats.get(response.question)!;
+          answerCounts.set(
+            response.answer,
+            (answerCounts.get(response.answer) || 0) + response.count
+          );
         }
       }
 
-      if (!planningBucket) continue;
-
-      planningSampleSize += 1;
-      if (planningBucket === "under") underCount += 1;
-      if (planningBucket === "on_target") onTargetCount += 1;
-      if (planningBucket === "over") overCount += 1;
-      if (planningBucket === "unknown") unknownCount += 1;
-
-      if (!planningByCrop.has(log.crop)) {
-        planningByCrop.set(log.crop, {
-          under: 0,
-          onTarget: 0,
-          over: 0,
-          unknown: 0,
-          total: 0,
-        });
-      }
-      if (!planningByField.has(log.field)) {
-        planningByField.set(log.field, {
-          under: 0,
-          onTarget: 0,
-          over: 0,
-          unknown: 0,
-          total: 0,
-        });
-      }
-      if (!planningByWeek.has(weekKey)) {
-        planningByWeek.set(weekKey, {
-          under: 0,
-          onTarget: 0,
-          over: 0,
-          unknown: 0,
-          total: 0,
-        });
-      }
+      // Each log counts once, by its first planting-quantity answer
+      for (const response of getPlanningAnswers(
+        row.answerSets.map(withCurrentNames),
+        planning
+      )) {
+        const classification = planning.classify(
+          response.question,
+          response.answer
+        );
+        const bucket = classification?.bucket ?? "unknown";
+        planningSampleSize += response.count;
+        if (bucket === "under") underCount += response.count;
+        if (bucket === "on_target") onTargetCount += response.count;
+        if (bucket === "over") overCount += response.count;
+        if (bucket === "unknown") unknownCount += response.count;
+        if (classification?.score !== undefined) {
+          scoreTotal += classification.score * response.count;
+          scoredCount += response.count;
+        }
+        if (!classification) {
+          const answers =
+            unmapped.get(response.question) ?? new Map<string, number>();
+          answers.set(
+            response.answer,
+            (answers.get(response.answer) || 0) + response.count
+          );
+          unmapped.set(response.question, answers);
+        }
 
-      const cropStats = planningByCrop.get(log.crop)!;
-      const fieldStats = planningByField.get(log.field)!;
-      const weekStats = planningByWeek.get(weekKey)!;
-
-      cropStats.total += 1;
-      fieldStats.total += 1;
-      weekStats.total += 1;
-
-      if (planningBucket === "under") {
-        cropStats.under += 1;
-        fieldStats.under += 1;
-        weekStats.under += 1;
-      } else if (planningBucket === "on_target") {
-        cropStats.onTarget += 1;
-        fieldStats.onTarget += 1;
-        weekStats.onTarget += 1;
-      } else if (planningBucket === "over") {
-        cropStats.over += 1;
-        fieldStats.over += 1;
-        weekStats.over += 1;
-      } else {
-        cropStats.unknown += 1;
-        fieldStats.unknown += 1;
-        weekStats.unknown += 1;
+        addPlanning(planningByCrop, row.crop, bucket, response.count);
+        addPlanning(planningByField, row.field, bucket, response.count);
+        addPlanning(planningByWeek, weekKey, bucket, response.count);
       }
     }
 
@@ -927,17 +1612,30 @@ export const getAnalyticsOverview = query({
       filters: {
         cropOptions,
         fieldOptions,
+        loggedByOptions,
       },
       totals: {
-        totalLogs: logs.length,
+        totalLogs,
         totalCrops: crops.length,
         uniqueCrops: new Set(crops.map((c) => c.crop)).size,
         uniqueFields: new Set(crops.map((c) => c.field)).size,
+        // Crops whose trays cell parsed as a number
+        totalTrays: crops.reduce((sum, c) => sum + (c.trayCount ?? 0), 0),
+        averageCropAgeDays:
+          agedLogs > 0 ? ageDaysTotal / agedLogs : null,
       },
       logsByWeek: weeklyChart,
       byCrop: cropChart,
       byField: fieldChart,
       responseByQuestion,
+      // Averages and weekly trends for number and rating questions
+      numericQuestions: summarizeNumericResponses(
+        rows.map((row) => ({
+          assessmentDate: Date.parse(row.day),
+          responses: row.responses,
+        })),
+        (assessmentDate) => dateKey(startOfWeekUtc(assessmentDate))
+      ),
       planning: {
         sampleSize: planningSampleSize,
         underCount,
@@ -952,6 +1650,18 @@ export const getAnalyticsOverview = query({
           planningSampleSize > 0
             ? ((underCount - overCount) / planningSampleSize) * 100
             : 0,
+        // Mean score of answers mapped with one; null when none are
+        averageScore: scoredCount > 0 ? scoreTotal / scoredCount : null,
+        // Counted in unknownCount; map them on the qualifiers page
+        unmappedAnswers: Array.from(unmapped.entries())
+          .flatMap(([question, answers]) =>
+            Array.from(answers.entries()).map(([answer, count]) => ({
+              question,
+              answer,
+              count,
+            }))
+          )
+          .sort((a, b) => b.count - a.count),
         byCrop: planningByCropChart,
         byField: planningByFieldChart,
         trend: planningTrend,
@@ -960,9 +1670,118 @@ export const getAnalyticsOverview = query({
   },
 });
 
+// Year-over-year numbers per crop for the analytics page. Each crop's
+// `seasons` entries line up with the top-level `seasons` (oldest first).
+export const getSeasonComparison = query({
+  handler: async (ctx) => {
+    await requireApproved(ctx);
+    const [seasons, crops, rollups] = await Promise.all([
+      ctx.db.query("seasons").withIndex("by_year").collect(),
+      ctx.db.query("crops").collect(),
+      ctx.db.query("analyticsRollups").collect(),
+    ]);
+
+    type SeasonTotals = {
+      plantings: number;
+      trays: number;
+      logs: number;
+      under: number;
+      over: number;
+      planningTotal: number;
+      ageDaysTotal: number;
+      agedLogs: number;
+    };
+    const byCrop = new Map<string, Map<Id<"seasons">, SeasonTotals>>();
+    const getTotals = (crop: string, seasonId: Id<"seasons">) => {
+      if (!byCrop.has(crop)) byCrop.set(crop, new Map());
+      const bySeason = byCrop.get(crop)!;
+      if (!bySeason.has(seasonId)) {
+        bySeason.set(seasonId, {
+          plantings: 0,
+          trays: 0,
+          logs: 0,
+          under: 0,
+          over: 0,
+          planningTotal: 0,
+          ageDaysTotal: 0,
+          agedLogs: 0,
+        });
+      }
+      return bySeason.get(seasonId)!;
+    };
+
+    // Plantings still on the sheet when the season ended (or now, for the
+    // active season)
+    for (const crop of crops) {
+      if (!crop.seasonId || crop.removedAt !== undefined) continue;
+      const totals = getTotals(crop.crop, crop.seasonId);
+      totals.plantings += 1;
+      totals.trays += crop.trayCount ?? 0;
+    }
+
+    const [planning, withCurrentNames] = await Promise.all([
+      getPlanningClassifier(ctx),
+      getCurrentQuestionNames(ctx),
+    ]);
+    for (const row of rollups) {
+      if (!row.seasonId) continue;
+      const totals = getTotals(row.crop, row.seasonId);
+      totals.logs += row.logs;
+      totals.ageDaysTotal += row.ageDaysTotal;
+      totals.agedLogs += row.agedLogs;
+
+      for (const response of getPlanningAnswers(
+        row.answerSets.map(withCurrentNames),
+        planning
+      )) {
+        const bucket = planning.classify(
+          response.question,
+          response.answer
+        )?.bucket;
+        totals.planningTotal += response.count;
+        if (bucket === "under") totals.under += response.count;
+        if (bucket === "over") totals.over += response.count;
+      }
+    }
+
+    return {
+      seasons: seasons.map((season) => ({
+        seasonId: season._id,
+        name: season.name,
+        year: season.year,
+        status: season.status,
+      })),
+      crops: Array.from(byCrop.entries())
+        .map(([crop, bySeason]) => ({
+          crop,
+          seasons: seasons.map((season) => {
+            const totals = bySeason.get(season._id);
+            return {
+              seasonId: season._id,
+              plantings: totals?.plantings ?? 0,
+              trays: totals?.trays ?? 0,
+              logs: totals?.logs ?? 0,
+              // Under minus over, as a percentage of planning answers
+              planningBalance:
+                totals && totals.planningTotal > 0
+                  ? ((totals.under - totals.over) / totals.planningTotal) * 100
+                  : null,
+              averageCropAgeDays:
+                totals && totals.agedLogs > 0
+                  ? totals.ageDaysTotal / totals.agedLogs
+                  : null,
+            };
+          }),
+        }))
+        .sort((a, b) => a.crop.localeCompare(b.crop)),
+    };
+  },
+});
+
 // Get last sync time
 export const getLastSyncTime = query({
   handler: async (ctx) => {
+    await requireApproved(ctx);
     const sheets = await ctx.db.query("sheets").collect();
     if (sheets.length === 0) return null;
 
@@ -971,24 +1790,29 @@ export const getLastSyncTime = query({
   },
 });
 
-// Get dates that have quality log entries (for calendar highlighting)
+// Get dates that have quality log entries in a season (for calendar
+// highlighting)
 export const getLogDates = query({
-  handler: async (ctx) => {
-    const logs = await ctx.db.query("qualityLogs").collect();
-    const dates = new Set<string>();
-    for (const log of logs) {
-      // Convert timestamp to YYYY-MM-DD
-      const d = new Date(log.assessmentDate);
-      dates.add(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`);
-    }
-    return [...dates].sort();
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const seasonId = await resolveSeasonId(ctx, args.seasonId);
+    // Rollup rows are keyed by the observed time's UTC day (not insert
+    // time), the day boundaries getAnalyticsOverview filters on
+    const rows = await getSeasonRollups(ctx, seasonId);
+    return [...new Set(rows.map((row) => row.day))].sort();
   },
 });
 
 // Get unique varieties count
 export const getUniqueVarieties = query({
-  handler: async (ctx) => {
-    const crops = await ctx.db.query("crops").collect();
+  args: { seasonId: v.optional(v.id("seasons")) },
+  handler: async (ctx, args) => {
+    await requireApproved(ctx);
+    const crops = await getActiveCrops(
+      ctx,
+      await resolveSeasonId(ctx, args.seasonId)
+    );
     const varieties = [...new Set(crops.map((c) => c.variety).filter((v) => v && v.trim() !== ""))];
     return varieties;
   },
@@ -998,15 +1822,57 @@ export const getUniqueVarieties = query({
 export const deleteQualityLog = mutation({
   args: { id: v.id("qualityLogs") },
   handler: async (ctx, args) => {
+    const viewer = await requireApproved(ctx);
     const existing = await ctx.db.get(args.id);
     if (!existing) {
       throw new Error("Quality log not found");
     }
-    await ctx.db.delete(args.id);
+
+    if (!canModifyQualityLog(viewer, existing)) {
+      throw new Error("Only the author or an admin can delete this log");
+    }
+    await requireWritableSeason(ctx, existing.seasonId);
+
+    const revisions = await ctx.db
+      .query("qualityLogRevisions")
+      .withIndex("by_log", (q) => q.eq("logId", args.id))
+      .collect();
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    await removeQualityLog(ctx, existing);
     return { success: true };
   },
 });
 
+// Fill plantedOn and cropAgeDays on logs saved before they existed. Run once
+// with `npx convex run sheets:backfillQualityLogAges`; logs whose
+// datePlanted can't be read are left without an age.
+export const backfillQualityLogAges = internalMutation({
+  handler: async (ctx) => {
+    const logs = await ctx.db.query("qualityLogs").collect();
+    let updated = 0;
+
+    for (const log of logs) {
+      if (log.cropAgeDays !== undefined) continue;
+
+      const age = await getLogPlantingAge(
+        ctx,
+        log.cropId,
+        log.datePlanted,
+        log.assessmentDate
+      );
+      if (age.plantedOn) {
+        await patchQualityLog(ctx, log, age);
+        updated += 1;
+      }
+    }
+
+    return { checked: logs.length, updated };
+  },
+});
+
 // Delete sheet data and associated crops by field/sheet name
 export const deleteSheetByField = mutation({
   args: {
@@ -1014,6 +1880,7 @@ export const deleteSheetByField = mutation({
     fieldName: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireAdmin(ctx);
     const { spreadsheetId, fieldName } = args;
 
     // Find and delete the sheet record
@@ -1029,16 +1896,24 @@ export const deleteSheetByField = mutation({
       await ctx.db.delete(existingSheet._id);
     }
 
-    // Delete all crops associated with this field
-    const existingCrops = await ctx.db
-      .query("crops")
-      .withIndex("by_field", (q) => q.eq("field", fieldName))
-      .collect();
+    // Remove all crops associated with this field (kept as removed when
+    // quality logs link to them)
+    const seasonId = await getActiveSeasonId(ctx);
+    const existingCrops = await getActiveCrops(ctx, seasonId, fieldName);
+    const now = Date.now();
 
     for (const crop of existingCrops) {
-      await ctx.db.delete(crop._id);
+      await removeCrop(ctx, crop, now);
     }
 
+    await recordPlantingHistory(
+      ctx,
+      seasonId,
+      fieldName,
+      await getSeasonCrops(ctx, seasonId, fieldName),
+      now
+    );
+
     return {
       success: true,
       deletedSheet: existingSheet !== null,
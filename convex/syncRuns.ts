@@ -0,0 +1,171 @@
+import { ObjectType, v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+} from "./_generated/server";
+import { requireAdmin, Viewer } from "./permissions";
+
+// Keeps a badly misaligned sheet from growing a run past the document size
+// limit; the rest are only counted
+const MAX_WARNINGS_PER_RUN = 500;
+
+// ============ Recording ============
+
+const startSyncRunArgs = {
+  spreadsheetId: v.string(),
+  trigger: v.string(),
+};
+
+// A `running` run, credited to the admin who started it (none for the
+// scheduled sync)
+async function insertSyncRun(
+  ctx: MutationCtx,
+  args: ObjectType<typeof startSyncRunArgs>,
+  viewer: Viewer | null
+) {
+  return ctx.db.insert("syncRuns", {
+    trigger: args.trigger,
+    status: "running",
+    spreadsheetId: args.spreadsheetId,
+    triggeredByUserId: viewer?.userId,
+    triggeredByName: viewer ? (viewer.name ?? viewer.email) : undefined,
+    startedAt: Date.now(),
+    sheets: [],
+    missingSheets: [],
+    warnings: [],
+  });
+}
+
+// Called once before the first sheet of a sync started from the app
+export const startSyncRun = mutation({
+  args: startSyncRunArgs,
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+    return insertSyncRun(ctx, args, viewer);
+  },
+});
+
+// startSyncRun for the scheduled sync, which has no signed-in admin
+export const startSyncRunInternal = internalMutation({
+  args: startSyncRunArgs,
+  handler: (ctx, args) => insertSyncRun(ctx, args, null),
+});
+
+const recordSyncRunSheetArgs = {
+  runId: v.id("syncRuns"),
+  sheet: v.object({
+    sheetName: v.string(),
+    sheetId: v.optional(v.number()),
+    rowCount: v.number(),
+    recordCount: v.optional(v.number()),
+  }),
+  warnings: v.array(
+    v.object({
+      row: v.number(),
+      message: v.string(),
+      value: v.optional(v.string()),
+    })
+  ),
+};
+
+// Adds a sheet's result and warnings, keeping at most MAX_WARNINGS_PER_RUN
+async function appendSyncRunSheet(
+  ctx: MutationCtx,
+  args: ObjectType<typeof recordSyncRunSheetArgs>
+) {
+  const run = await ctx.db.get(args.runId);
+  if (!run) {
+    throw new Error("Sync run not found");
+  }
+
+  const room = Math.max(0, MAX_WARNINGS_PER_RUN - run.warnings.length);
+  const kept = args.warnings
+    .slice(0, room)
+    .map((warning) => ({ ...warning, sheetName: args.sheet.sheetName }));
+  const dropped = args.warnings.length - kept.length;
+
+  await ctx.db.patch(args.runId, {
+    sheets: [...run.sheets, args.sheet],
+    warnings: [...run.warnings, ...kept],
+    droppedWarnings:
+      dropped > 0 ? (run.droppedWarnings ?? 0) + dropped : run.droppedWarnings,
+  });
+
+  return { success: true };
+}
+
+// Called by the sync route after each sheet is written
+export const recordSyncRunSheet = mutation({
+  args: recordSyncRunSheetArgs,
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return appendSyncRunSheet(ctx, args);
+  },
+});
+
+// recordSyncRunSheet for the scheduled sync, which has no signed-in admin
+export const recordSyncRunSheetInternal = internalMutation({
+  args: recordSyncRunSheetArgs,
+  handler: appendSyncRunSheet,
+});
+
+const finishSyncRunArgs = {
+  runId: v.id("syncRuns"),
+  status: v.string(),
+  missingSheets: v.optional(v.array(v.string())),
+  error: v.optional(v.string()),
+};
+
+// Sets the final status and how long the run took
+async function completeSyncRun(
+  ctx: MutationCtx,
+  args: ObjectType<typeof finishSyncRunArgs>
+) {
+  const run = await ctx.db.get(args.runId);
+  if (!run) {
+    throw new Error("Sync run not found");
+  }
+
+  const finishedAt = Date.now();
+  await ctx.db.patch(args.runId, {
+    status: args.status,
+    finishedAt,
+    durationMs: finishedAt - run.startedAt,
+    missingSheets: args.missingSheets ?? run.missingSheets,
+    error: args.error,
+  });
+
+  return { success: true };
+}
+
+export const finishSyncRun = mutation({
+  args: finishSyncRunArgs,
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    return completeSyncRun(ctx, args);
+  },
+});
+
+// finishSyncRun for the scheduled sync, which has no signed-in admin
+export const finishSyncRunInternal = internalMutation({
+  args: finishSyncRunArgs,
+  handler: completeSyncRun,
+});
+
+// ============ History ============
+
+// Most recent runs first, for /admin/sync-runs
+export const getRecentSyncRuns = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    return ctx.db
+      .query("syncRuns")
+      .withIndex("by_started_at")
+      .order("desc")
+      .take(args.limit ?? 25);
+  },
+});
@@ -0,0 +1,45 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireAdmin } from "./permissions";
+
+// ============ User Access Audit ============
+
+// Record an approval or role change. Called by /api/admin/users/[id] as the
+// acting admin after Clerk metadata has been updated, so the actor comes from
+// the auth identity rather than the request body.
+export const recordUserAuditEvent = mutation({
+  args: {
+    action: v.string(),
+    targetUserId: v.string(),
+    targetName: v.optional(v.string()),
+    targetEmail: v.optional(v.string()),
+    previousStatus: v.string(),
+    newStatus: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await requireAdmin(ctx);
+
+    const id = await ctx.db.insert("userAuditEvents", {
+      ...args,
+      actorUserId: viewer.userId,
+      actorName: viewer.name ?? viewer.email,
+      createdAt: Date.now(),
+    });
+
+    return { success: true, id };
+  },
+});
+
+// Most recent access changes first
+export const getUserAuditEvents = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    return ctx.db
+      .query("userAuditEvents")
+      .withIndex("by_created_at")
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
@@ -5,6 +5,41 @@ import nextTs from "eslint-config-next/typescript";
 const eslintConfig = defineConfig([
   ...nextVitals,
   ...nextTs,
+  // Convex bundles convex/ on its own and doesn't resolve the "@/" alias, so
+  // convex/ and the lib files it imports use relative imports.
+  {
+    files: [
+      "convex/**/*.ts",
+      "lib/analytics-rollup.ts",
+      "lib/assessment-types.ts",
+      "lib/crop-matching.ts",
+      "lib/crop-sync.ts",
+      "lib/csv.ts",
+      "lib/google-oauth.ts",
+      "lib/google-sheets.ts",
+      "lib/locations.ts",
+      "lib/parse-field-sheet.ts",
+      "lib/parse-qualifiers.ts",
+      "lib/planning.ts",
+      "lib/planting-values.ts",
+      "lib/question-ids.ts",
+      "lib/recommendations.ts",
+      "lib/replanting.ts",
+    ],
+    rules: {
+      "no-restricted-imports": [
+        "error",
+        {
+          patterns: [
+            {
+              group: ["@/*"],
+              message: "Imported by convex/; use a relative import.",
+            },
+          ],
+        },
+      ],
+    },
+  },
   // Override default ignores of eslint-config-next.
   globalIgnores([
     // Default ignores of eslint-config-next:
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  getPlanningAnswers,
+  getRollupAnswers,
+  getRollupAnswerSet,
+  mergeRollupAnswers,
+  mergeRollupAnswerSets,
+  RollupAnswerSet,
+} from "./analytics-rollup";
+import {
+  AssessmentResponse,
+  summarizeNumericResponses,
+} from "./assessment-types";
+import { createPlanningClassifier, PlanningClassifier } from "./planning";
+
+const first = getRollupAnswers([
+  { question: "Buggy?", answer: "very", questionId: "buggy", version: 2 },
+  {
+    question: "Pests?",
+    answer: "aphids, mites",
+    type: "multi",
+    answers: ["aphids", "mites"],
+  },
+  {
+    question: "Yield",
+    answer: "12 lbs",
+    type: "number",
+    unit: "lbs",
+    value: 12,
+  },
+  { question: "Notes", answer: "looks fine", type: "text" },
+]);
+const second = getRollupAnswers([
+  { question: "Buggy?", answer: "very", questionId: "buggy", version: 3 },
+  { question: "Yield", answer: "8", type: "number", unit: "lbs", value: 8 },
+]);
+
+test("keeps answers per value and leaves out free text", () => {
+  assert.deepEqual(first, [
+    { question: "Buggy?", questionId: "buggy", answer: "very", count: 1 },
+    { question: "Pests?", type: "multi", answer: "aphids", count: 1 },
+    { question: "Pests?", type: "multi", answer: "mites", count: 1 },
+    {
+      question: "Yield",
+      type: "number",
+      answer: "12",
+      unit: "lbs",
+      value: 12,
+      count: 1,
+    },
+  ]);
+});
+
+test("adds and removes logs from a row", () => {
+  const row = mergeRollupAnswers(mergeRollupAnswers([], first, 1), second, 1);
+  assert.equal(row.find((answer) => answer.question === "Buggy?")?.count, 2);
+
+  // Each entry stands for `count` answers
+  assert.deepEqual(
+    summarizeNumericResponses(
+      [{ assessmentDate: 0, responses: row }],
+      () => "week"
+    ).map(({ count, average, min, max }) => ({ count, average, min, max })),
+    [{ count: 2, average: 10, min: 8, max: 12 }]
+  );
+
+  const withoutFirst = mergeRollupAnswers(row, first, -1);
+  assert.deepEqual(withoutFirst, second);
+  assert.deepEqual(mergeRollupAnswers(withoutFirst, second, -1), []);
+});
+
+test("counts planting quantity once per log, as the per-log query did", () => {
+  const planning = createPlanningClassifier([
+    {
+      question: "Planting quantity?",
+      answers: [
+        { answer: "Too much", bucket: "over" },
+        { answer: "Not enough", bucket: "under" },
+      ],
+    },
+    {
+      question: "Enough seedlings?",
+      answers: [{ answer: "No", bucket: "under" }],
+    },
+    { question: "Planted for?", answers: [{ answer: "market", score: 1 }] },
+  ]);
+  const logs: AssessmentResponse[][] = [
+    // Several planting-quantity answers: only the first counts
+    [
+      { question: "Buggy?", answer: "very" },
+      { question: "Planting quantity?", answer: "Too much" },
+      { question: "Enough seedlings?", answer: "No" },
+    ],
+    [
+      { question: "Enough seedlings?", answer: "No" },
+      { question: "Planting quantity?", answer: "Not enough" },
+    ],
+    [
+      { question: "Buggy?", answer: "very" },
+      { question: "Planting quantity?", answer: "Too much" },
+      { question: "Enough seedlings?", answer: "No" },
+    ],
+    // A multi-select answer counts once, not once per option
+    [
+      {
+        question: "Planted for?",
+        answer: "market, csa",
+        type: "multi",
+        answers: ["market", "csa"],
+      },
+    ],
+    [{ question: "Yield", answer: "3", type: "number", value: 3 }],
+  ];
+
+  const tally = (
+    answers: { question: string; answer: string; count: number }[],
+    classifier: PlanningClassifier
+  ) => {
+    const buckets: Record<string, number> = {};
+    for (const { question, answer, count } of answers) {
+      const bucket = classifier.classify(question, answer)?.bucket ?? "unknown";
+      buckets[bucket] = (buckets[bucket] ?? 0) + count;
+    }
+    return buckets;
+  };
+
+  // What getAnalyticsOverview counted reading every log
+  const perLog = logs.flatMap((responses) => {
+    const response = responses.find((r) =>
+      planning.isPlanningQuestion(r.question)
+    );
+    return response ? [{ ...response, count: 1 }] : [];
+  });
+
+  let sets: RollupAnswerSet[] = [];
+  for (const responses of logs) {
+    sets = mergeRollupAnswerSets(sets, getRollupAnswerSet(responses), 1);
+  }
+  assert.equal(sets.length, 3);
+  assert.deepEqual(
+    tally(getPlanningAnswers(sets, planning), planning),
+    tally(perLog, planning)
+  );
+  assert.deepEqual(tally(perLog, planning), { over: 2, under: 1, unknown: 1 });
+
+  sets = mergeRollupAnswerSets(sets, getRollupAnswerSet(logs[0]), -1);
+  assert.deepEqual(tally(getPlanningAnswers(sets, planning), planning), {
+    over: 1,
+    under: 1,
+    unknown: 1,
+  });
+});
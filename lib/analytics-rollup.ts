@@ -0,0 +1,154 @@
+// The per-day analytics rollups kept in analyticsRollups (convex/schema.ts):
+// what each quality log adds to its day's row, so analytics reads rollups
+// instead of every log.
+import {
+  AssessmentResponse,
+  getResponseAnswers,
+  isNumericType,
+} from "./assessment-types";
+import type { PlanningClassifier } from "./planning";
+
+// How many answers a rollup row holds with this question, answer and type.
+// Number and rating answers are keyed by value; free text isn't kept.
+export type RollupAnswer = Omit<AssessmentResponse, "answers" | "version"> & {
+  count: number;
+};
+
+const answerKey = (answer: Omit<RollupAnswer, "count">) =>
+  JSON.stringify([
+    answer.question,
+    answer.questionId ?? null,
+    answer.answer,
+    answer.type ?? null,
+    answer.unit ?? null,
+    answer.value ?? null,
+  ]);
+
+// One log's answers as rollup entries, each counted once
+export function getRollupAnswers(
+  responses: AssessmentResponse[]
+): RollupAnswer[] {
+  return responses.flatMap((response): RollupAnswer[] => {
+    if (response.type === "text") return [];
+    const base = {
+      question: response.question,
+      ...(response.questionId && { questionId: response.questionId }),
+      ...(response.type && { type: response.type }),
+    };
+    if (isNumericType(response.type)) {
+      if (response.value === undefined || !Number.isFinite(response.value)) {
+        return [];
+      }
+      return [
+        {
+          ...base,
+          answer: String(response.value),
+          ...(response.unit && { unit: response.unit }),
+          value: response.value,
+          count: 1,
+        },
+      ];
+    }
+    return getResponseAnswers(response).map((answer) => ({
+      ...base,
+      answer,
+      count: 1,
+    }));
+  });
+}
+
+/**
+ * Adds (`sign` 1) or removes (`sign` -1) a log's entries from a row's,
+ * dropping entries whose count reaches zero.
+ */
+export function mergeRollupAnswers(
+  existing: RollupAnswer[],
+  changes: RollupAnswer[],
+  sign: 1 | -1
+): RollupAnswer[] {
+  const merged = new Map(
+    existing.map((answer) => [answerKey(answer), { ...answer }])
+  );
+  for (const change of changes) {
+    const key = answerKey(change);
+    const current = merged.get(key) ?? { ...change, count: 0 };
+    current.count += sign * change.count;
+    merged.set(key, current);
+  }
+  return [...merged.values()].filter((answer) => answer.count > 0);
+}
+
+// A log's answers to questions with answer options, in the order given, and
+// how many of a row's logs gave exactly these. Planting quantity is counted
+// once per log from its first planting-quantity answer, and which questions
+// those are can change, so the row keeps each log's answers together.
+export interface RollupAnswerSet {
+  responses: { question: string; questionId?: string; answer: string }[];
+  count: number;
+}
+
+const answerSetKey = (set: RollupAnswerSet) =>
+  JSON.stringify(
+    set.responses.map((response) => [
+      response.question,
+      response.questionId ?? null,
+      response.answer,
+    ])
+  );
+
+// One log's answer set, or null when it answered no option questions
+export function getRollupAnswerSet(
+  responses: AssessmentResponse[]
+): RollupAnswerSet | null {
+  const options = responses
+    .filter(
+      (response) => response.type !== "text" && !isNumericType(response.type)
+    )
+    .map((response) => ({
+      question: response.question,
+      ...(response.questionId && { questionId: response.questionId }),
+      answer: response.answer,
+    }));
+  return options.length > 0 ? { responses: options, count: 1 } : null;
+}
+
+// mergeRollupAnswers for answer sets
+export function mergeRollupAnswerSets(
+  existing: RollupAnswerSet[],
+  change: RollupAnswerSet | null,
+  sign: 1 | -1
+): RollupAnswerSet[] {
+  if (!change) return existing;
+  const merged = new Map(
+    existing.map((set) => [answerSetKey(set), { ...set }])
+  );
+  const key = answerSetKey(change);
+  const current = merged.get(key) ?? { ...change, count: 0 };
+  current.count += sign * change.count;
+  merged.set(key, current);
+  return [...merged.values()].filter((set) => set.count > 0);
+}
+
+/**
+ * Each set's first planting-quantity answer, counted once per log that gave
+ * it. Sets should already carry the questions' current names.
+ */
+export function getPlanningAnswers(
+  sets: RollupAnswerSet[],
+  planning: Pick<PlanningClassifier, "isPlanningQuestion">
+): { question: string; answer: string; count: number }[] {
+  return sets.flatMap((set) => {
+    const response = set.responses.find((r) =>
+      planning.isPlanningQuestion(r.question)
+    );
+    return response
+      ? [
+          {
+            question: response.question,
+            answer: response.answer,
+            count: set.count,
+          },
+        ]
+      : [];
+  });
+}
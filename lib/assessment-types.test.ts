@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildResponse,
+  getMissingRequiredQuestions,
+  getQuestionListError,
+  getResponseError,
+  getShownQuestions,
+  normalizeQuestion,
+  parseQuestionHeader,
+  removeHiddenResponses,
+  summarizeNumericResponses,
+} from "./assessment-types";
+
+test("parses type tags and keeps untagged headers as written", () => {
+  assert.deepEqual(parseQuestionHeader("Yield [number:lbs]"), {
+    name: "Yield",
+    type: "number",
+    unit: "lbs",
+  });
+  assert.deepEqual(parseQuestionHeader("Bolting? [Yes/No]"), {
+    name: "Bolting?",
+    type: "yesno",
+  });
+  assert.deepEqual(parseQuestionHeader("Size [S/M/L]"), { name: "Size [S/M/L]" });
+  assert.deepEqual(parseQuestionHeader("Planting quantity?"), {
+    name: "Planting quantity?",
+  });
+});
+
+test("builds typed responses from form input", () => {
+  const yieldQuestion = { name: "Yield", options: [], type: "number" as const, unit: "lbs" };
+
+  assert.deepEqual(buildResponse(yieldQuestion, " 12.5 "), {
+    question: "Yield",
+    answer: "12.5 lbs",
+    type: "number",
+    unit: "lbs",
+    value: 12.5,
+  });
+  assert.equal(buildResponse(yieldQuestion, "lots"), null);
+  assert.deepEqual(
+    buildResponse({ name: "Pests?", options: [], type: "multi" }, ["aphids", "mites"]),
+    {
+      question: "Pests?",
+      answer: "aphids, mites",
+      type: "multi",
+      answers: ["aphids", "mites"],
+    }
+  );
+  assert.deepEqual(buildResponse({ name: "Bolting?", options: [] }, "yes"), {
+    question: "Bolting?",
+    answer: "yes",
+  });
+  assert.equal(
+    getResponseError({ question: "Flavor", answer: "7", type: "rating", value: 7 }),
+    '"Flavor" must be rated 1 to 5'
+  );
+});
+
+test("averages numeric answers with a per-period trend", () => {
+  const week = (timestamp: number) => (timestamp < 100 ? "w1" : "w2");
+  const logs = [
+    {
+      assessmentDate: 10,
+      responses: [
+        { question: "Yield", answer: "10 lbs", type: "number" as const, unit: "lbs", value: 10 },
+        { question: "Bolting?", answer: "no" },
+      ],
+    },
+    {
+      assessmentDate: 20,
+      responses: [
+        { question: "Yield", answer: "14 lbs", type: "number" as const, unit: "lbs", value: 14 },
+      ],
+    },
+    {
+      assessmentDate: 200,
+      responses: [
+        { question: "Yield", answer: "18 lbs", type: "number" as const, unit: "lbs", value: 18 },
+        { question: "Flavor", answer: "4", type: "rating" as const, value: 4 },
+      ],
+    },
+  ];
+
+  assert.deepEqual(summarizeNumericResponses(logs, week), [
+    {
+      question: "Yield",
+      type: "number",
+      unit: "lbs",
+      count: 3,
+      average: 14,
+      min: 10,
+      max: 18,
+      trend: [
+        { period: "w1", average: 12, count: 2 },
+        { period: "w2", average: 18, count: 1 },
+      ],
+      change: 6,
+    },
+    {
+      question: "Flavor",
+      type: "rating",
+      count: 1,
+      average: 4,
+      min: 4,
+      max: 4,
+      trend: [{ period: "w2", average: 4, count: 1 }],
+      change: null,
+    },
+  ]);
+});
+
+test("reads required and follow-up tags in any order", () => {
+  assert.deepEqual(parseQuestionHeader("Planting quantity? [required]"), {
+    name: "Planting quantity?",
+    required: true,
+  });
+  assert.deepEqual(
+    parseQuestionHeader("How bad? [rating] [if Buggy? = very|somewhat] [required]"),
+    {
+      name: "How bad?",
+      type: "rating",
+      required: true,
+      showIf: { question: "Buggy?", answers: ["very", "somewhat"] },
+    }
+  );
+});
+
+test("shows follow-ups only after their answers and checks required ones", () => {
+  const questions = [
+    { name: "Buggy?", options: ["very", "not very"], required: true },
+    {
+      name: "How bad?",
+      options: [],
+      type: "rating" as const,
+      required: true,
+      showIf: { question: "Buggy?", answers: ["Very"] },
+    },
+    {
+      name: "Which pests?",
+      options: ["aphids", "beetles"],
+      type: "multi" as const,
+      showIf: { question: "How bad?", answers: ["4", "5"] },
+    },
+  ];
+  const names = (list: { name: string }[]) => list.map((q) => q.name);
+
+  assert.deepEqual(names(getShownQuestions(questions, [])), ["Buggy?"]);
+  assert.deepEqual(getMissingRequiredQuestions(questions, []), ["Buggy?"]);
+
+  const buggy = [{ question: "Buggy?", answer: "very" }];
+  assert.deepEqual(names(getShownQuestions(questions, buggy)), [
+    "Buggy?",
+    "How bad?",
+  ]);
+  assert.deepEqual(getMissingRequiredQuestions(questions, buggy), ["How bad?"]);
+
+  // Changing the first answer hides the whole chain
+  const answers = [
+    { question: "Buggy?", answer: "not very" },
+    { question: "How bad?", answer: "5", type: "rating" as const, value: 5 },
+    { question: "Which pests?", answer: "aphids", type: "multi" as const, answers: ["aphids"] },
+    { question: "Old question", answer: "kept" },
+  ];
+  assert.deepEqual(
+    removeHiddenResponses(questions, answers).map((r) => r.question),
+    ["Buggy?", "Old question"]
+  );
+});
+
+test("normalizes edited questions and rejects invalid lists", () => {
+  assert.deepEqual(
+    normalizeQuestion({
+      name: " Yield ",
+      options: ["unused"],
+      type: "number",
+      unit: " lbs ",
+      required: false,
+      showIf: { question: "Harvested?", answers: [" "] },
+    }),
+    { name: "Yield", options: [], type: "number", unit: "lbs" }
+  );
+  assert.deepEqual(
+    normalizeQuestion({ name: "Size", options: ["Small", " ", "Large "], type: "choice" }),
+    { name: "Size", options: ["Small", "Large"] }
+  );
+
+  assert.equal(
+    getQuestionListError([
+      { name: "Size", options: ["Small"] },
+      { name: "Notes", options: [], type: "text" },
+    ]),
+    null
+  );
+  assert.equal(
+    getQuestionListError([{ name: "Size", options: [] }]),
+    '"Size" needs at least one answer option'
+  );
+  assert.equal(
+    getQuestionListError([
+      { name: "Size", options: ["Small"] },
+      { name: "size", options: ["Large"] },
+    ]),
+    '"size" is asked twice'
+  );
+});
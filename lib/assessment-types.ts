@@ -0,0 +1,521 @@
+// Typed assessment questions. A question is single choice unless its
+// Qualifiers sheet header ends in a type tag ("Yield [number:lbs]",
+// "Pests seen? [multi]", "Flavor [rating]", "Notes [text]", "Flowering?
+// [yesno]") or an admin picks a type on the qualifiers page. Further tags
+// make a question required ("Planting quantity? [required]") or a follow-up
+// asked only after certain answers ("How bad? [if Buggy? = very|somewhat]").
+
+export const ASSESSMENT_TYPES = [
+  "choice",
+  "multi",
+  "rating",
+  "number",
+  "text",
+  "yesno",
+] as const;
+
+export type AssessmentType = (typeof ASSESSMENT_TYPES)[number];
+
+export const ASSESSMENT_TYPE_LABELS: Record<AssessmentType, string> = {
+  choice: "Single choice",
+  multi: "Multi-select",
+  rating: "Rating (1–5)",
+  number: "Number",
+  text: "Free text",
+  yesno: "Yes / no",
+};
+
+// A follow-up question is asked once another question on the same form has
+// one of these answers
+export interface QuestionCondition {
+  question: string;
+  answers: string[];
+}
+
+export interface TypedQuestion {
+  name: string;
+  options: string[];
+  type?: AssessmentType; // Unset means "choice"
+  unit?: string; // Number questions only, e.g. "lbs"
+  required?: boolean;
+  showIf?: QuestionCondition;
+  // Kept across renames and edits (see lib/question-ids.ts); set by the server
+  questionId?: string;
+}
+
+type QuestionSettings = Omit<TypedQuestion, "name" | "options" | "questionId">;
+
+// One answer on a quality log (qualityLogs.responses in convex/schema.ts).
+// `answer` is always readable text so older pages and the CSV export work
+// unchanged; typed answers also keep their raw value.
+export interface AssessmentResponse {
+  question: string;
+  answer: string; // e.g. "too much", "12 lbs", "aphids, flea beetles"
+  type?: AssessmentType;
+  unit?: string;
+  value?: number; // Number and rating answers
+  answers?: string[]; // Multi-select answers
+  // The question and qualifier version answered; unset on older logs
+  questionId?: string;
+  version?: number;
+}
+
+export const RATING_VALUES = [1, 2, 3, 4, 5];
+
+const YES_NO_OPTIONS = ["yes", "no"];
+
+// Tag spellings accepted in the sheet, besides the type names themselves
+const TYPE_ALIASES: Record<string, AssessmentType> = {
+  single: "choice",
+  multiselect: "multi",
+  "multi-select": "multi",
+  numeric: "number",
+  "yes/no": "yesno",
+  boolean: "yesno",
+};
+
+const TRAILING_TAG = /\[([^[\]]*)\]\s*$/;
+const CONDITION_TAG = /^if\s+(.+?)\s*=\s*(.+)$/i;
+
+function toAssessmentType(tag: string): AssessmentType | null {
+  const normalized = tag.trim().toLowerCase();
+  if ((ASSESSMENT_TYPES as readonly string[]).includes(normalized)) {
+    return normalized as AssessmentType;
+  }
+  return TYPE_ALIASES[normalized] ?? null;
+}
+
+// Settings from one header tag, or null if it isn't a tag we know
+function parseTag(tag: string): QuestionSettings | null {
+  const trimmed = tag.trim();
+  if (/^required$/i.test(trimmed)) return { required: true };
+
+  const condition = trimmed.match(CONDITION_TAG);
+  if (condition) {
+    const answers = condition[2]
+      .split("|")
+      .map((answer) => answer.trim())
+      .filter(Boolean);
+    return answers.length > 0
+      ? { showIf: { question: condition[1].trim(), answers } }
+      : null;
+  }
+
+  const colonIndex = trimmed.indexOf(":");
+  const type = toAssessmentType(
+    colonIndex === -1 ? trimmed : trimmed.slice(0, colonIndex)
+  );
+  if (!type) return null;
+
+  const unit =
+    type === "number" && colonIndex !== -1
+      ? trimmed.slice(colonIndex + 1).trim()
+      : undefined;
+  return {
+    ...(type !== "choice" && { type }),
+    ...(unit && { unit }),
+  };
+}
+
+/**
+ * Split a Qualifiers sheet header into the question and its tags, in any
+ * order: "Yield [number:lbs] [required]" → { name: "Yield", type: "number",
+ * unit: "lbs", required: true }. Anything before the last unknown tag stays
+ * in the name, so "Size [S/M/L]" is a single choice question named as
+ * written.
+ */
+export function parseQuestionHeader(
+  header: string
+): Omit<TypedQuestion, "options"> {
+  let name = header.trim();
+  let settings: QuestionSettings = {};
+
+  let match: RegExpMatchArray | null;
+  while ((match = name.match(TRAILING_TAG))) {
+    const tag = parseTag(match[1]);
+    if (!tag) break;
+    settings = { ...tag, ...settings };
+    name = name.slice(0, match.index).trim();
+  }
+
+  return { name, ...settings };
+}
+
+export function getQuestionType(question: {
+  type?: AssessmentType;
+}): AssessmentType {
+  return question.type ?? "choice";
+}
+
+// "Number (lbs)", "Multi-select", ...
+export function describeQuestionType(question: {
+  type?: AssessmentType;
+  unit?: string;
+}): string {
+  const label = ASSESSMENT_TYPE_LABELS[getQuestionType(question)];
+  return question.unit ? `${label} (${question.unit})` : label;
+}
+
+// "required, if Buggy? is very or somewhat"; empty for plain questions
+export function describeQuestionRules(question: QuestionSettings): string {
+  return [
+    question.required ? "required" : "",
+    question.showIf
+      ? `if ${question.showIf.question} is ${question.showIf.answers.join(" or ")}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Types answered by picking from the question's own option list
+export function usesOptionList(type: AssessmentType | undefined): boolean {
+  return type === undefined || type === "choice" || type === "multi";
+}
+
+export function isNumericType(type: AssessmentType | undefined): boolean {
+  return type === "number" || type === "rating";
+}
+
+// The answers shown as buttons for a question; empty for typed-in answers
+export function getAnswerOptions(question: TypedQuestion): string[] {
+  switch (getQuestionType(question)) {
+    case "yesno":
+      return question.options.length > 0 ? question.options : YES_NO_OPTIONS;
+    case "rating":
+      return RATING_VALUES.map(String);
+    case "number":
+    case "text":
+      return [];
+    default:
+      return question.options;
+  }
+}
+
+const trimAll = (values: string[]) =>
+  values.map((value) => value.trim()).filter((value) => value.length > 0);
+
+/**
+ * A question as the in-app editors save it: trimmed, with only the settings
+ * its type uses. Choice questions keep an option list and yes/no may relabel
+ * its two; a follow-up condition without answers is dropped. The question
+ * ID isn't part of it.
+ */
+export function normalizeQuestion(question: TypedQuestion): TypedQuestion {
+  const type = question.type === "choice" ? undefined : question.type;
+  const options =
+    usesOptionList(type) || type === "yesno" ? trimAll(question.options) : [];
+  const unit = type === "number" ? question.unit?.trim() : undefined;
+  const conditionQuestion = question.showIf?.question.trim();
+  const conditionAnswers = trimAll(question.showIf?.answers ?? []);
+
+  return {
+    name: question.name.trim(),
+    options,
+    ...(type && { type }),
+    ...(unit && { unit }),
+    ...(question.required && { required: true }),
+    ...(conditionQuestion &&
+      conditionAnswers.length > 0 && {
+        showIf: { question: conditionQuestion, answers: conditionAnswers },
+      }),
+  };
+}
+
+// Why a normalized question can't be saved, or null
+export function getQuestionError(question: TypedQuestion): string | null {
+  if (question.name.length === 0) {
+    return "Question name is required";
+  }
+  if (usesOptionList(question.type) && question.options.length === 0) {
+    return `"${question.name}" needs at least one answer option`;
+  }
+  if (question.showIf?.question === question.name) {
+    return `"${question.name}" can't be a follow-up to itself`;
+  }
+  return null;
+}
+
+// Why a crop's normalized questions can't be saved together, or null
+export function getQuestionListError(questions: TypedQuestion[]): string | null {
+  const seen = new Set<string>();
+  for (const question of questions) {
+    const error = getQuestionError(question);
+    if (error) return error;
+
+    const key = question.name.toLowerCase();
+    if (seen.has(key)) return `"${question.name}" is asked twice`;
+    seen.add(key);
+  }
+  return null;
+}
+
+function formatNumber(value: number, unit: string | undefined): string {
+  return unit ? `${value} ${unit}` : String(value);
+}
+
+/**
+ * Build the stored response for a form input: the selected options for
+ * multi-select questions, otherwise the text typed or picked. Returns null
+ * when the input is blank or not a number for a numeric question.
+ */
+export function buildResponse(
+  question: TypedQuestion,
+  input: string | string[]
+): AssessmentResponse | null {
+  const type = getQuestionType(question);
+  const typeFields = type === "choice" ? {} : { type };
+
+  if (type === "multi") {
+    const answers = (Array.isArray(input) ? input : [input])
+      .map((answer) => answer.trim())
+      .filter(Boolean);
+    if (answers.length === 0) return null;
+    return {
+      question: question.name,
+      answer: answers.join(", "),
+      ...typeFields,
+      answers,
+    };
+  }
+
+  const text = (Array.isArray(input) ? input.join(", ") : input).trim();
+  if (!text) return null;
+
+  if (isNumericType(type)) {
+    const value = Number(text);
+    if (!Number.isFinite(value)) return null;
+    const unit = type === "number" ? question.unit : undefined;
+    return {
+      question: question.name,
+      answer: formatNumber(value, unit),
+      ...typeFields,
+      ...(unit && { unit }),
+      value,
+    };
+  }
+
+  return { question: question.name, answer: text, ...typeFields };
+}
+
+// The form input that rebuilds a stored response, for editing
+export function getResponseInput(
+  response: AssessmentResponse
+): string | string[] {
+  if (response.type === "multi") return response.answers ?? [response.answer];
+  if (isNumericType(response.type) && response.value !== undefined) {
+    return String(response.value);
+  }
+  return response.answer;
+}
+
+// Each answer counted in analytics: every option of a multi-select answer
+export function getResponseAnswers(response: AssessmentResponse): string[] {
+  return response.type === "multi" && response.answers
+    ? response.answers
+    : [response.answer];
+}
+
+/**
+ * The questions on a crop's form: universal questions first, with a
+ * crop-specific question replacing a universal one of the same name.
+ */
+export function combineQuestions<T extends TypedQuestion>(
+  universal: T[],
+  cropSpecific: T[]
+): T[] {
+  const byName = new Map<string, T>();
+  for (const question of [...universal, ...cropSpecific]) {
+    byName.set(question.name, question);
+  }
+  return [...byName.values()];
+}
+
+const normalizeAnswer = (answer: string) => answer.trim().toLowerCase();
+
+function isShown(
+  question: TypedQuestion,
+  questions: TypedQuestion[],
+  responses: AssessmentResponse[],
+  checking: Set<string>
+): boolean {
+  const condition = question.showIf;
+  if (!condition) return true;
+
+  const parent = questions.find((q) => q.name === condition.question);
+  // A condition on a question that isn't on this form can't be met, so the
+  // question is asked rather than silently dropped
+  if (!parent) return true;
+  // Conditions that loop back never show
+  if (checking.has(question.name)) return false;
+  const nextChecking = new Set(checking).add(question.name);
+  if (!isShown(parent, questions, responses, nextChecking)) return false;
+
+  const response = responses.find((r) => r.question === condition.question);
+  if (!response) return false;
+  const expected = condition.answers.map(normalizeAnswer);
+  return getResponseAnswers(response).some((answer) =>
+    expected.includes(normalizeAnswer(answer))
+  );
+}
+
+/**
+ * The questions to ask given the answers so far: follow-ups only once the
+ * question they depend on is shown and has one of their answers.
+ */
+export function getShownQuestions<T extends TypedQuestion>(
+  questions: T[],
+  responses: AssessmentResponse[]
+): T[] {
+  return questions.filter((question) =>
+    isShown(question, questions, responses, new Set())
+  );
+}
+
+// Names of shown required questions with no answer
+export function getMissingRequiredQuestions(
+  questions: TypedQuestion[],
+  responses: AssessmentResponse[]
+): string[] {
+  const answered = new Set(responses.map((response) => response.question));
+  return getShownQuestions(questions, responses)
+    .filter((question) => question.required && !answered.has(question.name))
+    .map((question) => question.name);
+}
+
+// Drops answers to follow-ups whose condition isn't met. Answers to
+// questions that aren't on the form are kept.
+export function removeHiddenResponses(
+  questions: TypedQuestion[],
+  responses: AssessmentResponse[]
+): AssessmentResponse[] {
+  const shown = new Set(
+    getShownQuestions(questions, responses).map((question) => question.name)
+  );
+  const known = new Set(questions.map((question) => question.name));
+  return responses.filter(
+    (response) => shown.has(response.question) || !known.has(response.question)
+  );
+}
+
+// Why a response can't be stored, or null if it's valid
+export function getResponseError(response: AssessmentResponse): string | null {
+  if (isNumericType(response.type)) {
+    if (response.value === undefined || !Number.isFinite(response.value)) {
+      return `"${response.question}" needs a number`;
+    }
+    if (
+      response.type === "rating" &&
+      !RATING_VALUES.includes(response.value)
+    ) {
+      return `"${response.question}" must be rated 1 to 5`;
+    }
+  }
+  if (response.type === "multi" && (response.answers ?? []).length === 0) {
+    return `"${response.question}" needs at least one answer`;
+  }
+  return null;
+}
+
+export interface NumericQuestionSummary {
+  question: string;
+  type: "number" | "rating";
+  unit?: string;
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  // Average per period, oldest first
+  trend: { period: string; average: number; count: number }[];
+  // Latest period's average minus the first one's; null with one period
+  change: number | null;
+}
+
+/**
+ * Averages and trends for every number and rating question answered in the
+ * logs. `getPeriod` buckets an assessment date for the trend, e.g. by week.
+ * A response with a `count` stands for that many identical answers, as in
+ * the analytics rollups.
+ */
+export function summarizeNumericResponses(
+  logs: {
+    assessmentDate: number;
+    responses: (AssessmentResponse & { count?: number })[];
+  }[],
+  getPeriod: (assessmentDate: number) => string
+): NumericQuestionSummary[] {
+  const byQuestion = new Map<
+    string,
+    {
+      type: "number" | "rating";
+      unit?: string;
+      total: number;
+      count: number;
+      min: number;
+      max: number;
+      byPeriod: Map<string, { total: number; count: number }>;
+    }
+  >();
+
+  for (const log of logs) {
+    const period = getPeriod(log.assessmentDate);
+    for (const response of log.responses) {
+      if (
+        (response.type !== "number" && response.type !== "rating") ||
+        response.value === undefined ||
+        !Number.isFinite(response.value)
+      ) {
+        continue;
+      }
+
+      if (!byQuestion.has(response.question)) {
+        byQuestion.set(response.question, {
+          type: response.type,
+          unit: response.unit,
+          total: 0,
+          count: 0,
+          min: response.value,
+          max: response.value,
+          byPeriod: new Map(),
+        });
+      }
+      const count = response.count ?? 1;
+      const stats = byQuestion.get(response.question)!;
+      stats.total += response.value * count;
+      stats.count += count;
+      stats.min = Math.min(stats.min, response.value);
+      stats.max = Math.max(stats.max, response.value);
+      const periodStats = stats.byPeriod.get(period) ?? { total: 0, count: 0 };
+      periodStats.total += response.value * count;
+      periodStats.count += count;
+      stats.byPeriod.set(period, periodStats);
+    }
+  }
+
+  return Array.from(byQuestion.entries())
+    .map(([question, stats]) => {
+      const trend = Array.from(stats.byPeriod.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, { total, count }]) => ({
+          period,
+          average: total / count,
+          count,
+        }));
+
+      return {
+        question,
+        type: stats.type,
+        ...(stats.unit && { unit: stats.unit }),
+        count: stats.count,
+        average: stats.total / stats.count,
+        min: stats.min,
+        max: stats.max,
+        trend,
+        change:
+          trend.length > 1
+            ? trend[trend.length - 1].average - trend[0].average
+            : null,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.question.localeCompare(b.question));
+}
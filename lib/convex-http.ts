@@ -1,17 +1,50 @@
+import { auth } from "@clerk/nextjs/server";
 import { ConvexHttpClient } from "convex/browser";
 
 let convexHttpClient: ConvexHttpClient | null = null;
 
+function getConvexUrl() {
+  const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+
+  if (!convexUrl) {
+    throw new Error("NEXT_PUBLIC_CONVEX_URL is not configured");
+  }
+
+  return convexUrl;
+}
+
 export function getConvexHttpClient() {
   if (!convexHttpClient) {
-    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+    convexHttpClient = new ConvexHttpClient(getConvexUrl());
+  }
 
-    if (!convexUrl) {
-      throw new Error("NEXT_PUBLIC_CONVEX_URL is not configured");
-    }
+  return convexHttpClient;
+}
 
-    convexHttpClient = new ConvexHttpClient(convexUrl);
+// A client that calls Convex as the signed-in Clerk user, so functions can
+// read ctx.auth. Created per request because the token belongs to one user.
+export async function getAuthenticatedConvexHttpClient() {
+  const { getToken } = await auth();
+  const token = await getToken({ template: "convex" });
+
+  if (!token) {
+    throw new Error("Unable to get a Convex token for the current session");
   }
 
-  return convexHttpClient;
+  const client = new ConvexHttpClient(getConvexUrl());
+  client.setAuth(token);
+  return client;
+}
+
+// Shared secret that lets trusted server routes (the token-authenticated
+// export) call Convex functions without a user session. Pass it as the `serviceKey` argument;
+// see convex/permissions.ts.
+export function getConvexServiceKey() {
+  const serviceKey = process.env.CONVEX_SERVICE_KEY;
+
+  if (!serviceKey) {
+    throw new Error("CONVEX_SERVICE_KEY is not configured");
+  }
+
+  return serviceKey;
 }
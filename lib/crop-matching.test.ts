@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  findQualifierForCrop,
+  getCropMatchKey,
+  suggestQualifierNames,
+} from "./crop-matching";
+
+test("match keys ignore case, spacing, varieties and plurals", () => {
+  assert.equal(getCropMatchKey("Tomatoes:Roma"), "tomato");
+  assert.equal(getCropMatchKey(" Asian  Greens"), "asian green");
+  assert.equal(getCropMatchKey("Radishes"), "radish");
+  assert.equal(getCropMatchKey("Strawberries"), "strawberry");
+  assert.equal(getCropMatchKey("Brussels Sprouts"), "brussel sprout");
+  assert.equal(getCropMatchKey("Asparagus"), "asparagus");
+  assert.equal(getCropMatchKey("Peas"), "pea");
+});
+
+test("finds qualifiers across plurals and aliases, preferring the location", () => {
+  const qualifiers = [
+    { name: "Tomato" },
+    { name: "Cucumbers" },
+    { name: "cucumbers", location: "HT" },
+    { name: "Lettuce" },
+  ];
+
+  assert.equal(
+    findQualifierForCrop("Tomatoes:Sungold", "field", qualifiers),
+    qualifiers[0]
+  );
+  assert.equal(
+    findQualifierForCrop("Cucumber:Diva", "ht", qualifiers),
+    qualifiers[2]
+  );
+  assert.equal(findQualifierForCrop("Salad Mix", "field", qualifiers), null);
+  assert.equal(
+    findQualifierForCrop("Salad Mix", "field", qualifiers, [
+      { crop: "salad mix", qualifierName: "Lettuce" },
+    ]),
+    qualifiers[3]
+  );
+});
+
+test("suggests similar qualifier names, best first", () => {
+  const names = ["Asian greens mix", "Asian Greens Mix", "Beans", "Lettuce"];
+
+  assert.deepEqual(suggestQualifierNames("Asian Greens", names), [
+    { name: "Asian greens mix", score: 0.8 },
+  ]);
+  assert.deepEqual(suggestQualifierNames("Letuce", names), [
+    { name: "Lettuce", score: 0.86 },
+  ]);
+  assert.deepEqual(suggestQualifierNames("Beets", names), []);
+});
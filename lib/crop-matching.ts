@@ -0,0 +1,149 @@
+// Matching field sheet crop names to qualifier names. Names match when they
+// are equal ignoring case and plurals ("Tomatoes" and "tomato"), or through an
+// admin alias (convex/cropAliases.ts). Fuzzy matches are only suggested, for
+// an admin to confirm as an alias on the qualifiers page.
+
+export interface CropAlias {
+  crop: string; // Crop name as written on the field sheet
+  qualifierName: string;
+}
+
+// Suggestions scoring below this aren't shown
+export const SUGGESTION_THRESHOLD = 0.6;
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// "berries" -> "berry", "tomatoes" -> "tomato", "radishes" -> "radish",
+// "greens" -> "green"; short words and "-ss"/"-us"/"-is" endings are kept
+function singularize(word: string): string {
+  if (word.length <= 3) return word;
+  if (/ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/oes$/.test(word)) return word.slice(0, -2);
+  if (/(?:ch|sh|x|z|ss)es$/.test(word)) return word.slice(0, -2);
+  if (/(?:ss|us|is)$/.test(word)) return word;
+  if (/s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// The crop part of "Crop:Variety"
+export function getBaseCropName(cropName: string): string {
+  return cropName.split(":")[0].trim();
+}
+
+// Case-, spacing- and plural-insensitive form of a crop or qualifier name
+export function getCropMatchKey(name: string): string {
+  return normalizeName(getBaseCropName(name))
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(" ");
+}
+
+/**
+ * The qualifier name a crop uses: its alias if an admin set one, else the
+ * crop's own name.
+ */
+export function resolveQualifierName(
+  cropName: string,
+  aliases: CropAlias[] = []
+): string {
+  const key = getCropMatchKey(cropName);
+  const alias = aliases.find((entry) => getCropMatchKey(entry.crop) === key);
+  return alias ? alias.qualifierName : getBaseCropName(cropName);
+}
+
+/**
+ * The qualifier for a crop at a location. The name is resolved through the
+ * aliases and matched exactly (ignoring case) if possible, else ignoring
+ * plurals. Among those, one written for the crop's location ("Cucumbers, HT")
+ * wins over the generic one.
+ */
+export function findQualifierForCrop<
+  T extends { name: string; location?: string },
+>(
+  cropName: string,
+  location: string | undefined,
+  qualifiers: T[],
+  aliases: CropAlias[] = []
+): T | null {
+  const target = resolveQualifierName(cropName, aliases);
+  const exact = qualifiers.filter(
+    (qualifier) => normalizeName(qualifier.name) === normalizeName(target)
+  );
+  const candidates =
+    exact.length > 0
+      ? exact
+      : qualifiers.filter(
+          (qualifier) =>
+            getCropMatchKey(qualifier.name) === getCropMatchKey(target)
+        );
+
+  return (
+    candidates.find(
+      (qualifier) =>
+        qualifier.location !== undefined &&
+        normalizeName(qualifier.location) === normalizeName(location ?? "")
+    ) ??
+    candidates.find((qualifier) => !qualifier.location) ??
+    null
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 0 to 1: spelling similarity, or shared words ("Asian Greens" and "Asian
+// greens mix" share every word of the shorter name)
+export function getCropNameSimilarity(a: string, b: string): number {
+  const keyA = getCropMatchKey(a);
+  const keyB = getCropMatchKey(b);
+  if (!keyA || !keyB) return 0;
+  if (keyA === keyB) return 1;
+
+  const wordsA = new Set(keyA.split(" "));
+  const wordsB = new Set(keyB.split(" "));
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const words =
+    (shared / Math.min(wordsA.size, wordsB.size)) * 0.6 +
+    (shared / Math.max(wordsA.size, wordsB.size)) * 0.3;
+  const spelling =
+    1 - editDistance(keyA, keyB) / Math.max(keyA.length, keyB.length);
+
+  return Math.round(Math.max(words, spelling) * 100) / 100;
+}
+
+/**
+ * Qualifier names most like a crop name, best first, for an admin to map
+ * the crop to with an alias.
+ */
+export function suggestQualifierNames(
+  cropName: string,
+  qualifierNames: string[],
+  limit = 3
+): { name: string; score: number }[] {
+  const byKey = new Map<string, string>();
+  for (const name of qualifierNames) {
+    if (!byKey.has(getCropMatchKey(name))) byKey.set(getCropMatchKey(name), name);
+  }
+
+  return [...byKey.values()]
+    .map((name) => ({ name, score: getCropNameSimilarity(cropName, name) }))
+    .filter(({ score }) => score >= SUGGESTION_THRESHOLD && score < 1)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
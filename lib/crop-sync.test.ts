@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { diffCrops } from "./crop-sync";
+import { planting } from "./fixtures/plantings";
+
+test("matches rows by field, bed, crop, variety and date", () => {
+  const existing = [
+    { ...planting({}), _id: "keep" },
+    { ...planting({ bed: "2", trays: "1" }), _id: "edit" },
+    { ...planting({ bed: "3" }), _id: "gone" },
+  ];
+  const incoming = [
+    planting({}),
+    planting({ bed: "2", trays: "4" }),
+    planting({ bed: "4" }),
+  ];
+
+  const diff = diffCrops(existing, incoming);
+
+  assert.deepEqual(
+    diff.unchanged.map((crop) => crop._id),
+    ["keep"]
+  );
+  assert.deepEqual(
+    diff.updated.map(({ existing, changedFields }) => [existing._id, changedFields]),
+    [["edit", ["trays"]]]
+  );
+  assert.deepEqual(
+    diff.removed.map((crop) => crop._id),
+    ["gone"]
+  );
+  assert.deepEqual(diff.added, [planting({ bed: "4" })]);
+});
+
+test("ignores case and spacing in the sync key", () => {
+  const diff = diffCrops(
+    [{ ...planting({ variety: "Roma" }), _id: "a" }],
+    [planting({ variety: " roma " })]
+  );
+
+  assert.equal(diff.added.length, 0);
+  assert.deepEqual(diff.updated[0]?.changedFields, ["variety"]);
+});
+
+test("revives a removed planting when its row comes back", () => {
+  const diff = diffCrops(
+    [{ ...planting({}), _id: "a", removedAt: 1 }],
+    [planting({})]
+  );
+
+  assert.equal(diff.updated.length, 1);
+  assert.deepEqual(diff.updated[0]?.changedFields, []);
+  assert.equal(diff.removed.length, 0);
+});
+
+test("pairs duplicate keys in order and leaves removed extras alone", () => {
+  const diff = diffCrops(
+    [
+      { ...planting({}), _id: "old", removedAt: 1 },
+      { ...planting({}), _id: "active" },
+    ],
+    [planting({})]
+  );
+
+  assert.deepEqual(
+    diff.unchanged.map((crop) => crop._id),
+    ["active"]
+  );
+  assert.equal(diff.removed.length, 0);
+});
@@ -0,0 +1,113 @@
+// Row matching for field sheet syncs. convex/sheets.ts syncSheetData uses it
+// to patch crops in place, so quality log cropIds stay valid.
+import type { ParsedCropRecord } from "./parse-field-sheet";
+
+// Removed plantings are kept with removedAt while quality logs reference them
+export type ExistingCropRecord = ParsedCropRecord & { removedAt?: number };
+
+export interface CropUpdate<T extends ExistingCropRecord> {
+  existing: T;
+  next: ParsedCropRecord;
+  // Fields whose value changed; empty when a removed planting reappeared
+  changedFields: (keyof ParsedCropRecord)[];
+}
+
+export interface CropDiff<T extends ExistingCropRecord> {
+  added: ParsedCropRecord[];
+  updated: CropUpdate<T>[];
+  removed: T[];
+  unchanged: T[];
+}
+
+const COMPARED_FIELDS: (keyof ParsedCropRecord)[] = [
+  "field",
+  "bed",
+  "crop",
+  "variety",
+  "trays",
+  "rows",
+  "date",
+  "notes",
+  "location",
+  "replantedFrom",
+  "replantedWith",
+  "plantedOn",
+  "trayCount",
+  "rowCount",
+  "unparsed",
+];
+
+function normalizeKeyPart(value: string | undefined) {
+  return (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// The stable identity of a planting across syncs. Trays, rows and notes can
+// be corrected in the sheet without turning the row into a new planting.
+export function getCropSyncKey(
+  record: Pick<ParsedCropRecord, "field" | "bed" | "crop" | "variety" | "date">
+): string {
+  return [record.field, record.bed, record.crop, record.variety, record.date]
+    .map(normalizeKeyPart)
+    .join("\u0000");
+}
+
+function getChangedFields(
+  existing: ParsedCropRecord,
+  next: ParsedCropRecord
+): (keyof ParsedCropRecord)[] {
+  return COMPARED_FIELDS.filter(
+    (field) =>
+      JSON.stringify(existing[field] ?? null) !==
+      JSON.stringify(next[field] ?? null)
+  );
+}
+
+// Match incoming rows to existing crops by sync key. Rows sharing a key are
+// paired in sheet order, preferring crops that are still active.
+export function diffCrops<T extends ExistingCropRecord>(
+  existing: T[],
+  incoming: ParsedCropRecord[]
+): CropDiff<T> {
+  const candidatesByKey = new Map<string, T[]>();
+  const ordered = [
+    ...existing.filter((crop) => crop.removedAt === undefined),
+    ...existing.filter((crop) => crop.removedAt !== undefined),
+  ];
+  for (const crop of ordered) {
+    const key = getCropSyncKey(crop);
+    candidatesByKey.set(key, [...(candidatesByKey.get(key) ?? []), crop]);
+  }
+
+  const diff: CropDiff<T> = {
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+  };
+
+  for (const next of incoming) {
+    const match = candidatesByKey.get(getCropSyncKey(next))?.shift();
+
+    if (!match) {
+      diff.added.push(next);
+      continue;
+    }
+
+    const changedFields = getChangedFields(match, next);
+    if (changedFields.length > 0 || match.removedAt !== undefined) {
+      diff.updated.push({ existing: match, next, changedFields });
+    } else {
+      diff.unchanged.push(match);
+    }
+  }
+
+  for (const leftovers of candidatesByKey.values()) {
+    for (const crop of leftovers) {
+      if (crop.removedAt === undefined) {
+        diff.removed.push(crop);
+      }
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,10 @@
+// CSV helpers for the downloads (quality-log export, planting plan).
+
+// Quotes a cell when it holds a comma, quote or line break
+export function escapeCsvCell(value: unknown) {
+  const stringValue = String(value ?? "").replace(/\r\n/g, "\n");
+  if (/[",\n]/.test(stringValue)) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  return stringValue;
+}
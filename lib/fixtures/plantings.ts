@@ -0,0 +1,18 @@
+// Shared by the crop sync and sync preview tests
+import type { ParsedCropRecord } from "../parse-field-sheet";
+
+// A Field A tomato planting, with `overrides` applied
+export function planting(overrides: Partial<ParsedCropRecord>): ParsedCropRecord {
+  return {
+    field: "Field A",
+    bed: "1",
+    crop: "Tomato",
+    variety: "Roma",
+    trays: "2",
+    rows: "3",
+    date: "4/1",
+    notes: "",
+    location: "field",
+    ...overrides,
+  };
+}
@@ -0,0 +1,149 @@
+// Google OAuth helpers for the scheduled sync's stored credentials. The
+// connect/callback routes use these to obtain a refresh token, and the Convex
+// scheduled sync uses them to mint access tokens.
+const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const GOOGLE_USERINFO_URL = "https://openidconnect.googleapis.com/v1/userinfo";
+
+// CSRF state for /api/google/connect -> /api/google/callback
+export const GOOGLE_OAUTH_STATE_COOKIE = "google_oauth_state";
+
+// Read-only access is all the sync needs: Drive for modifiedTime, Sheets for
+// values. openid/email identify which Google account was connected.
+export const SCHEDULED_SYNC_SCOPES = [
+  "openid",
+  "email",
+  "https://www.googleapis.com/auth/drive.metadata.readonly",
+  "https://www.googleapis.com/auth/spreadsheets.readonly",
+];
+
+export interface GoogleOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
+interface GoogleTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export class GoogleOAuthError extends Error {
+  // Google's error code, e.g. "invalid_grant" when the user revoked access
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export function getGoogleOAuthConfig(): GoogleOAuthConfig {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error("GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be configured");
+  }
+
+  return { clientId, clientSecret };
+}
+
+// prompt=consent makes Google return a refresh token even if the account has
+// connected before.
+export function buildGoogleConsentUrl({
+  clientId,
+  redirectUri,
+  state,
+}: {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+}): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: SCHEDULED_SYNC_SCOPES.join(" "),
+    access_type: "offline",
+    prompt: "consent",
+    include_granted_scopes: "true",
+    state,
+  });
+
+  return `${GOOGLE_AUTH_URL}?${params.toString()}`;
+}
+
+async function requestToken(
+  body: Record<string, string>
+): Promise<GoogleTokenResponse> {
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(body).toString(),
+  });
+  const data = (await response.json().catch(() => ({}))) as GoogleTokenResponse;
+
+  if (!response.ok || !data.access_token) {
+    throw new GoogleOAuthError(
+      data.error ?? `http_${response.status}`,
+      data.error_description ||
+        data.error ||
+        `Google token request failed: ${response.status}`
+    );
+  }
+
+  return data;
+}
+
+export async function exchangeGoogleAuthCode({
+  clientId,
+  clientSecret,
+  code,
+  redirectUri,
+}: GoogleOAuthConfig & { code: string; redirectUri: string }) {
+  const data = await requestToken({
+    client_id: clientId,
+    client_secret: clientSecret,
+    code,
+    redirect_uri: redirectUri,
+    grant_type: "authorization_code",
+  });
+
+  return {
+    accessToken: data.access_token as string,
+    refreshToken: data.refresh_token,
+    scopes: data.scope?.split(" ") ?? [],
+  };
+}
+
+export async function refreshGoogleAccessToken({
+  clientId,
+  clientSecret,
+  refreshToken,
+}: GoogleOAuthConfig & { refreshToken: string }): Promise<string> {
+  const data = await requestToken({
+    client_id: clientId,
+    client_secret: clientSecret,
+    refresh_token: refreshToken,
+    grant_type: "refresh_token",
+  });
+
+  return data.access_token as string;
+}
+
+export async function getGoogleAccountEmail(
+  accessToken: string
+): Promise<string | undefined> {
+  const response = await fetch(GOOGLE_USERINFO_URL, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) return undefined;
+
+  const data = (await response.json()) as { email?: string };
+  return data.email;
+}
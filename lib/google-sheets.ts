@@ -44,6 +44,11 @@ interface SpreadsheetData {
   values?: string[][];
 }
 
+export interface DriveFileMetadata {
+  modifiedTime?: string;
+  name?: string;
+}
+
 export interface SheetInfo {
   sheetId: number;
   title: string;
@@ -85,6 +90,12 @@ export class GoogleSheetsClient {
     return this.fetch<SpreadsheetMetadata>(url);
   }
 
+  // Drive tracks modifiedTime per file, so this changes when any tab is edited
+  async getFileMetadata(fileId: string): Promise<DriveFileMetadata> {
+    const url = `${DRIVE_API_BASE}/files/${fileId}?fields=modifiedTime,name`;
+    return this.fetch<DriveFileMetadata>(url);
+  }
+
   async listSpreadsheets(): Promise<SpreadsheetInfo[]> {
     const spreadsheets: SpreadsheetInfo[] = [];
     let pageToken: string | undefined;
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { detectLocation } from "./locations";
+
+test("matches default patterns as whole words", () => {
+  assert.equal(detectLocation("HT 2"), "HT");
+  assert.equal(detectLocation("High Tunnel North"), "HT");
+  assert.equal(detectLocation("Greenhouse 1"), "greenhouse");
+  assert.equal(detectLocation("GH-3"), "greenhouse");
+  assert.equal(detectLocation("Northfield"), "field");
+  assert.equal(detectLocation("Lighthouse Beds"), "field");
+});
+
+test("uses admin rules and per-field overrides", () => {
+  const settings = {
+    locationRules: [{ pattern: "caterpillar", location: "tunnel" }],
+    locationOverrides: [{ field: "north field", location: "HT" }],
+  };
+
+  assert.equal(detectLocation("Caterpillar A", settings), "tunnel");
+  assert.equal(detectLocation("North Field", settings), "HT");
+  // Saved rules replace the defaults
+  assert.equal(detectLocation("HT 2", settings), "field");
+});
@@ -0,0 +1,64 @@
+// Which growing location a field is in ("HT", "greenhouse", "field"), used to
+// pick location-specific qualifiers ("Cucumbers, HT"). The field sheet parser
+// stores the result on crops.location and convex/locations.ts recomputes it
+// when admins change the rules, so every page reads the same value.
+
+export interface LocationRule {
+  pattern: string; // Word or phrase in the field name, e.g. "high tunnel"
+  location: string;
+}
+
+export interface LocationOverride {
+  field: string; // Field (sheet) name
+  location: string;
+}
+
+export interface LocationSettings {
+  locationRules?: LocationRule[];
+  locationOverrides?: LocationOverride[];
+}
+
+export const DEFAULT_LOCATION = "field";
+
+// Used until an admin saves their own rules
+export const DEFAULT_LOCATION_RULES: LocationRule[] = [
+  { pattern: "ht", location: "HT" },
+  { pattern: "high tunnel", location: "HT" },
+  { pattern: "hightunnel", location: "HT" },
+  { pattern: "gh", location: "greenhouse" },
+  { pattern: "greenhouse", location: "greenhouse" },
+];
+
+const normalize = (value: string | undefined) =>
+  (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+// Patterns match whole words, so "ht" matches "HT 2" but not "Northfield"
+function matchesPattern(fieldName: string, pattern: string): boolean {
+  const words = normalize(pattern)
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (words.length === 0) return false;
+
+  return new RegExp(`(?:^|[^a-z0-9])${words.join("\\s+")}(?:$|[^a-z0-9])`).test(
+    normalize(fieldName)
+  );
+}
+
+/**
+ * The location of a field: its override if an admin set one, else the first
+ * rule whose pattern is in the name, else "field".
+ */
+export function detectLocation(
+  fieldName: string,
+  settings: LocationSettings | null = null
+): string {
+  const override = settings?.locationOverrides?.find(
+    (entry) => normalize(entry.field) === normalize(fieldName)
+  );
+  if (override?.location.trim()) return override.location.trim();
+
+  const rules = settings?.locationRules ?? DEFAULT_LOCATION_RULES;
+  const rule = rules.find((entry) => matchesPattern(fieldName, entry.pattern));
+  return rule?.location.trim() || DEFAULT_LOCATION;
+}
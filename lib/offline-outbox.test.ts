@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { ConvexError } from "convex/values";
+import {
+  getSubmitErrorMessage,
+  isRejectedSubmit,
+  shouldQueueFailedSubmit,
+  SubmitTimeoutError,
+} from "./offline-outbox";
+
+test("submits that can't reach the server are queued", () => {
+  assert.equal(shouldQueueFailedSubmit(new SubmitTimeoutError(8000)), true);
+  assert.equal(shouldQueueFailedSubmit(new TypeError("Failed to fetch")), true);
+});
+
+test("submits the server refuses are shown instead of queued", () => {
+  const rejected = new ConvexError("Answer the required questions: Yield");
+  assert.equal(shouldQueueFailedSubmit(rejected), false);
+  assert.equal(
+    getSubmitErrorMessage(rejected),
+    "Answer the required questions: Yield"
+  );
+  assert.equal(shouldQueueFailedSubmit(new Error("Server Error")), false);
+  assert.equal(getSubmitErrorMessage(new Error("Server Error")), "Server Error");
+});
+
+test("only validation errors mark a queued log rejected", () => {
+  assert.equal(isRejectedSubmit(new ConvexError("Select a crop")), true);
+  // Auth not ready yet, or a transient server failure: retry later
+  assert.equal(isRejectedSubmit(new Error("Not authenticated")), false);
+  assert.equal(isRejectedSubmit(new Error("Server Error")), false);
+  assert.equal(isRejectedSubmit(new SubmitTimeoutError(8000)), false);
+  assert.equal(isRejectedSubmit(new TypeError("Failed to fetch")), false);
+});
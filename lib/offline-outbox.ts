@@ -0,0 +1,240 @@
+// IndexedDB-backed storage for offline quality logging.
+//
+// The database layout is shared with public/sw.js, which replays the outbox
+// during background sync. Keep the names below in sync with that file.
+import { ConvexError } from "convex/values";
+import type { AssessmentResponse } from "./assessment-types";
+
+const DB_NAME = "oneacrefarm-offline";
+const DB_VERSION = 1;
+const OUTBOX_STORE = "outbox";
+const SNAPSHOT_STORE = "snapshots";
+
+export const OUTBOX_SYNC_TAG = "quality-log-outbox";
+
+export interface QueuedQualityLog {
+  idempotencyKey: string;
+  cropId?: string;
+  crop: string;
+  variety: string;
+  field: string;
+  bed: string;
+  datePlanted: string;
+  trays: string;
+  rows: string;
+  plantingNotes: string;
+  responses: AssessmentResponse[];
+  logNotes?: string;
+  assessmentDate: number;
+  queuedAt: number;
+  lastError?: string;
+  // The server refused the log (e.g. a missing required answer), so it is
+  // never retried; the page shows it until the user discards it
+  rejected?: boolean;
+}
+
+// The log form gave up waiting for the server
+export class SubmitTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = "SubmitTimeoutError";
+  }
+}
+
+/**
+ * Whether a failed submit should go to the outbox: only when the server
+ * couldn't be reached in time. Anything the server answered with, such as a
+ * validation error, would fail the same way on every retry.
+ */
+export function shouldQueueFailedSubmit(error: unknown): boolean {
+  // fetch rejects with a TypeError when the network is down
+  return error instanceof SubmitTimeoutError || error instanceof TypeError;
+}
+
+// Whether Convex refused a queued log as invalid (a ConvexError), so
+// replaying it again would fail the same way. Auth, server and network
+// errors leave it queued for the next flush.
+export function isRejectedSubmit(error: unknown): boolean {
+  return error instanceof ConvexError;
+}
+
+// The reason the server gave for refusing a log, for showing to the user
+export function getSubmitErrorMessage(error: unknown): string {
+  if (error instanceof ConvexError && typeof error.data === "string") {
+    return error.data;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "idempotencyKey" });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: "key" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Strip the outbox bookkeeping fields before sending an entry to Convex.
+export function toQualityLogArgs(entry: QueuedQualityLog) {
+  return {
+    idempotencyKey: entry.idempotencyKey,
+    cropId: entry.cropId,
+    crop: entry.crop,
+    variety: entry.variety,
+    field: entry.field,
+    bed: entry.bed,
+    datePlanted: entry.datePlanted,
+    trays: entry.trays,
+    rows: entry.rows,
+    plantingNotes: entry.plantingNotes,
+    responses: entry.responses,
+    logNotes: entry.logNotes,
+    assessmentDate: entry.assessmentDate,
+  };
+}
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// ============ Outbox ============
+
+export async function queueQualityLog(entry: QueuedQualityLog): Promise<void> {
+  await runTransaction(OUTBOX_STORE, "readwrite", (store) => store.put(entry));
+  await requestOutboxSync();
+}
+
+export async function getQueuedQualityLogs(): Promise<QueuedQualityLog[]> {
+  const entries = await runTransaction<QueuedQualityLog[]>(
+    OUTBOX_STORE,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function removeQueuedQualityLog(
+  idempotencyKey: string,
+): Promise<void> {
+  await runTransaction(OUTBOX_STORE, "readwrite", (store) =>
+    store.delete(idempotencyKey),
+  );
+}
+
+async function markQueuedQualityLogFailed(
+  entry: QueuedQualityLog,
+  error: unknown,
+): Promise<void> {
+  await runTransaction(OUTBOX_STORE, "readwrite", (store) =>
+    store.put({
+      ...entry,
+      lastError: getSubmitErrorMessage(error),
+      ...(isRejectedSubmit(error) && { rejected: true }),
+    }),
+  );
+}
+
+// Ask the service worker to replay the outbox once connectivity returns.
+// Browsers without Background Sync (Safari, Firefox) fall back to the page
+// flushing the outbox on the "online" event.
+export async function requestOutboxSync(): Promise<void> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const syncManager = (
+      registration as ServiceWorkerRegistration & {
+        sync?: { register: (tag: string) => Promise<void> };
+      }
+    ).sync;
+    await syncManager?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn("Background sync unavailable:", error);
+  }
+}
+
+// Replay queued logs in the order they were recorded. Entries that can't
+// reach the server stay queued with their error so the next flush retries
+// them; entries the server refuses are marked rejected and skipped.
+export async function flushQueuedQualityLogs(
+  send: (entry: QueuedQualityLog) => Promise<void>,
+): Promise<{ sent: number; failed: number; rejected: number }> {
+  const entries = await getQueuedQualityLogs();
+  let sent = 0;
+  let failed = 0;
+  let rejected = 0;
+
+  for (const entry of entries) {
+    if (entry.rejected) continue;
+    try {
+      await send(entry);
+      await removeQueuedQualityLog(entry.idempotencyKey);
+      sent += 1;
+    } catch (error) {
+      await markQueuedQualityLogFailed(entry, error);
+      if (isRejectedSubmit(error)) rejected += 1;
+      else failed += 1;
+    }
+  }
+
+  return { sent, failed, rejected };
+}
+
+// ============ Snapshots ============
+
+export async function saveSnapshot<T>(key: string, value: T): Promise<void> {
+  await runTransaction(SNAPSHOT_STORE, "readwrite", (store) =>
+    store.put({ key, value, savedAt: Date.now() }),
+  );
+}
+
+export async function loadSnapshot<T>(key: string): Promise<T | undefined> {
+  const record = await runTransaction<{ key: string; value: T } | undefined>(
+    SNAPSHOT_STORE,
+    "readonly",
+    (store) => store.get(key),
+  );
+  return record?.value;
+}
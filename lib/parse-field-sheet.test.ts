@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import {
+  ColumnMappingError,
+  detectColumns,
+  FieldSheetParseOptions,
+  parseSheetData,
+  parseSheetDataWithWarnings,
+} from "./parse-field-sheet";
+
+const HEADER = ["Bed", "Crop:Variety", "Trays", "Rows", "Date", "Notes"];
+
+test("reports skipped and misread rows with their sheet row numbers", () => {
+  const { records, warnings } = parseSheetDataWithWarnings(
+    [
+      HEADER,
+      ["1", "Tomato:Roma", "2", "3", "4/1", ""],
+      ["2", "", "4", "", "4/2", ""],
+      ["3", "Cucumber: Mini Me / Cucumber: Tasty Green", "1 / 0.2 / 3", "", "4/3", ""],
+      ["4", "Pepper:Sweet:Red", "1", "", "TBD", ""],
+      ["5", ":Roma", "1", "", "4/5", ""],
+      ["6", "", "", "", "", ""],
+    ],
+    "Field A",
+    { seasonYear: 2025 }
+  );
+
+  assert.equal(records.length, 4);
+  assert.deepEqual(
+    warnings.map(({ row, message }) => [row, message]),
+    [
+      [3, "Row has no crop and was skipped"],
+      [4, "2 crops but 3 tray counts"],
+      [5, "Unrecognized planting date"],
+      [5, 'Expected Crop:Variety but found more than one ":"'],
+      [6, "Expected Crop:Variety but the crop is blank"],
+    ]
+  );
+});
+
+test("accepts common planting date formats", () => {
+  const dates = ["4/1", "4/1/25", "04-01-2025", "2025-04-01", "April 1, 2025"];
+  const { warnings } = parseSheetDataWithWarnings(
+    [HEADER, ...dates.map((date, i) => [String(i), "Kale", "1", "1", date, ""])],
+    "Field A",
+    { seasonYear: 2025 }
+  );
+
+  assert.deepEqual(warnings, []);
+});
+
+test("finds columns by header synonyms, even after a column is inserted", () => {
+  const [record] = parseSheetData(
+    [
+      ["Bed #", "Block", "Crop / Variety", "Date Planted", "Trays", "Comments"],
+      ["7", "North", "Kale:Lacinato", "4/2", "3", "thin early"],
+    ],
+    "Field A"
+  );
+
+  assert.equal(record.bed, "7");
+  assert.equal(record.crop, "Kale");
+  assert.equal(record.variety, "Lacinato");
+  assert.equal(record.trays, "3");
+  assert.equal(record.rows, "");
+  assert.equal(record.date, "4/2");
+  assert.equal(record.notes, "thin early");
+});
+
+test("uses an admin column mapping ahead of synonyms", () => {
+  const [record] = parseSheetData(
+    [
+      ["Bed", "What's growing", "Trays", "Rows", "Date", "Notes"],
+      ["1", "Tomato:Roma", "2", "3", "4/1", ""],
+    ],
+    "Field A",
+    { mapping: { cropVariety: "What's growing" } }
+  );
+
+  assert.equal(record.crop, "Tomato");
+});
+
+test("fails loudly when required columns can't be found", () => {
+  assert.throws(
+    () =>
+      parseSheetData(
+        [
+          ["Location", "Planting", "Trays"],
+          ["1", "Tomato:Roma", "2"],
+        ],
+        "Field A"
+      ),
+    (error: unknown) =>
+      error instanceof ColumnMappingError &&
+      error.missingColumns.join() === "bed"
+  );
+
+  assert.deepEqual(
+    detectColumns(["Bed", "Crop"], { cropVariety: "Crops planted" }).missing,
+    ["cropVariety"]
+  );
+});
+
+test("adds typed planting dates and tray and row counts", () => {
+  const records = parseSheetData(
+    [
+      HEADER,
+      ["1", "Tomato:Roma", "~2", "1 1/2", "3/15", ""],
+      ["2", "Cucumber: Mini Me / Cucumber: Tasty Green", "1 / 0.2", "2", "2024-04-02", ""],
+      ["3", "Kale", "2-3", "many", "week 12", ""],
+    ],
+    "Field A",
+    { seasonYear: 2025 }
+  );
+
+  assert.deepEqual(
+    records.map(({ plantedOn, trayCount, rowCount, unparsed }) => ({
+      plantedOn,
+      trayCount,
+      rowCount,
+      unparsed,
+    })),
+    [
+      { plantedOn: "2025-03-15", trayCount: 2, rowCount: 1.5, unparsed: undefined },
+      { plantedOn: "2024-04-02", trayCount: 1, rowCount: 2, unparsed: undefined },
+      { plantedOn: "2024-04-02", trayCount: 0.2, rowCount: 2, unparsed: undefined },
+      {
+        plantedOn: undefined,
+        trayCount: undefined,
+        rowCount: undefined,
+        unparsed: ["date", "trays", "rows"],
+      },
+    ]
+  );
+});
+
+test("flags dates without a year when no season year is known", () => {
+  const { records, warnings } = parseSheetDataWithWarnings(
+    [HEADER, ["1", "Kale", "1", "1", "3/15", ""]],
+    "Field A"
+  );
+
+  assert.equal(records[0].plantedOn, undefined);
+  assert.deepEqual(records[0].unparsed, ["date"]);
+  assert.equal(
+    warnings[0].message,
+    "Planting date has no year and no season year is set"
+  );
+});
+
+// Golden fixtures: real-world sheet layouts in fixtures/field-sheets, each
+// with a .expected.json of the records and warnings it parses to. After an
+// intended parser change, regenerate them with
+//   UPDATE_FIXTURES=1 npx tsx --test lib/parse-field-sheet.test.ts
+// and review the diff before committing.
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "field-sheets");
+
+interface FieldSheetFixture {
+  description: string;
+  sheetName: string;
+  options?: FieldSheetParseOptions;
+  rows: string[][];
+}
+
+const fixtureFiles = fs
+  .readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith(".json") && !file.endsWith(".expected.json"))
+  .sort();
+
+for (const file of fixtureFiles) {
+  const fixture: FieldSheetFixture = JSON.parse(
+    fs.readFileSync(path.join(FIXTURES_DIR, file), "utf8")
+  );
+  const expectedPath = path.join(
+    FIXTURES_DIR,
+    file.replace(/\.json$/, ".expected.json")
+  );
+
+  test(`fixture ${file}: ${fixture.description}`, () => {
+    // Round-trip through JSON so unset optional fields compare as absent
+    const actual = JSON.parse(
+      JSON.stringify(
+        parseSheetDataWithWarnings(
+          fixture.rows,
+          fixture.sheetName,
+          fixture.options
+        )
+      )
+    );
+
+    if (process.env.UPDATE_FIXTURES) {
+      fs.writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`);
+      return;
+    }
+
+    assert.ok(
+      fs.existsSync(expectedPath),
+      `${path.basename(expectedPath)} is missing; run with UPDATE_FIXTURES=1`
+    );
+    assert.deepEqual(
+      actual,
+      JSON.parse(fs.readFileSync(expectedPath, "utf8"))
+    );
+  });
+}
@@ -0,0 +1,515 @@
+// Parser for field planting tabs. Shared by the sync route and the scheduled
+// sync in convex/.
+import {
+  inferSeasonYear,
+  parsePlantingDate,
+  parseQuantity,
+} from "./planting-values";
+import { detectLocation, LocationSettings } from "./locations";
+import {
+  detectReplanting,
+  getReplantedFields,
+  REPLANTING_CONFIDENCE_THRESHOLD,
+  ReplantingDetection,
+} from "./replanting";
+
+// One planting row, in the shape convex/sheets.ts syncSheetData stores
+export interface ParsedCropRecord {
+  field: string;
+  bed: string;
+  crop: string;
+  variety: string;
+  trays: string;
+  rows: string;
+  date: string;
+  notes: string;
+  location?: string;
+  // Replanting found in the notes (see lib/replanting.ts). date is when it
+  // was replanted, from the notes.
+  replantedFrom?: {
+    crop: string;
+    variety: string;
+    date: string;
+    notes: string;
+  };
+  // New crop named in the notes when the row still lists the old one
+  replantedWith?: {
+    crop: string;
+    variety: string;
+  };
+  // A detection below REPLANTING_CONFIDENCE_THRESHOLD, held for admin review
+  // instead of setting replantedFrom
+  replantingCandidate?: ReplantingDetection;
+  // Typed copies of date, trays and rows. Unset when the cell is blank or
+  // couldn't be read; unreadable ones are listed in `unparsed`.
+  plantedOn?: string; // ISO YYYY-MM-DD
+  trayCount?: number;
+  rowCount?: number;
+  unparsed?: ("date" | "trays" | "rows")[];
+}
+
+export interface FieldSheetParseOptions {
+  mapping?: ColumnMapping;
+  // Year for dates written without one ("3/15"); see inferSeasonYear
+  seasonYear?: number;
+  // Admin location rules and overrides (lib/locations.ts)
+  locations?: LocationSettings;
+  // Qualifier crop names, so "replaced kale" reads as a replanting but
+  // "replaced drip tape" doesn't (see detectReplanting)
+  knownCrops?: string[];
+}
+
+// ============ Columns ============
+
+export const FIELD_SHEET_COLUMNS = [
+  "bed",
+  "cropVariety",
+  "trays",
+  "rows",
+  "date",
+  "notes",
+] as const;
+
+export type FieldSheetColumn = (typeof FIELD_SHEET_COLUMNS)[number];
+
+// Header text an admin picked for each column; unset columns are detected
+// from COLUMN_SYNONYMS. Stored per sheet in settings.columnMappings.
+export type ColumnMapping = Partial<Record<FieldSheetColumn, string>>;
+
+export const REQUIRED_COLUMNS: FieldSheetColumn[] = ["bed", "cropVariety"];
+
+export const COLUMN_LABELS: Record<FieldSheetColumn, string> = {
+  bed: "Bed",
+  cropVariety: "Crop:Variety",
+  trays: "Trays",
+  rows: "Rows",
+  date: "Date planted",
+  notes: "Notes",
+};
+
+// Compared after normalizeHeader
+const COLUMN_SYNONYMS: Record<FieldSheetColumn, string[]> = {
+  bed: ["bed", "beds", "bed #", "bed number", "bed no", "bed id"],
+  cropVariety: ["crop:variety", "crop/variety", "crop", "crops", "planting"],
+  trays: ["trays", "tray", "# trays", "tray count", "flats"],
+  rows: ["rows", "row", "# rows", "row count"],
+  date: [
+    "date",
+    "date planted",
+    "planted",
+    "planting date",
+    "plant date",
+    "transplant date",
+    "transplanted",
+  ],
+  notes: ["notes", "note", "comments", "comment"],
+};
+
+export class ColumnMappingError extends Error {
+  missingColumns: FieldSheetColumn[];
+
+  constructor(message: string, missingColumns: FieldSheetColumn[]) {
+    super(message);
+    this.missingColumns = missingColumns;
+  }
+}
+
+function normalizeHeader(value: string | undefined) {
+  return (value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s*([:/])\s*/g, "$1")
+    .replace(/\s+/g, " ");
+}
+
+// Where each column is in the header row. `missing` lists required columns
+// that weren't found and mapped columns whose header isn't in the sheet.
+export function detectColumns(
+  header: string[],
+  mapping: ColumnMapping = {}
+): {
+  indexes: Partial<Record<FieldSheetColumn, number>>;
+  missing: FieldSheetColumn[];
+} {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+  const indexes: Partial<Record<FieldSheetColumn, number>> = {};
+  const missing: FieldSheetColumn[] = [];
+
+  // Admin-mapped columns claim their headers before synonyms are tried
+  for (const column of FIELD_SHEET_COLUMNS) {
+    const mapped = mapping[column];
+    if (!mapped) continue;
+
+    const index = normalized.indexOf(normalizeHeader(mapped));
+    if (index === -1) {
+      missing.push(column);
+      continue;
+    }
+    indexes[column] = index;
+    used.add(index);
+  }
+
+  for (const column of FIELD_SHEET_COLUMNS) {
+    if (mapping[column]) continue;
+
+    const index = normalized.findIndex(
+      (value, i) => !used.has(i) && COLUMN_SYNONYMS[column].includes(value)
+    );
+    if (index === -1) {
+      if (REQUIRED_COLUMNS.includes(column)) missing.push(column);
+      continue;
+    }
+    indexes[column] = index;
+    used.add(index);
+  }
+
+  return { indexes, missing };
+}
+
+// Like detectColumns, but throws when anything required can't be found so a
+// sync never writes rows read from the wrong columns
+export function resolveColumns(
+  header: string[],
+  sheetName: string,
+  mapping: ColumnMapping = {}
+): Partial<Record<FieldSheetColumn, number>> {
+  const { indexes, missing } = detectColumns(header, mapping);
+
+  if (missing.length > 0) {
+    const described = missing.map((column) =>
+      mapping[column]
+        ? `${COLUMN_LABELS[column]} (mapped to "${mapping[column]}")`
+        : COLUMN_LABELS[column]
+    );
+    const found = header.filter((value) => value.trim()).join(", ") || "none";
+    throw new ColumnMappingError(
+      `"${sheetName}" is missing columns: ${described.join(", ")}. Headers found: ${found}`,
+      missing
+    );
+  }
+
+  return indexes;
+}
+
+// Sheets often have a title row or merged group headings ("Planting",
+// "Harvest") above the real header, so the header is the first of the top
+// rows where every required and mapped column is found. Falls back to row 1
+// so resolveColumns reports what's missing there.
+export const HEADER_SEARCH_ROWS = 5;
+
+export function findHeaderRow(
+  data: string[][],
+  mapping: ColumnMapping = {}
+): number {
+  const limit = Math.min(data.length, HEADER_SEARCH_ROWS);
+  for (let index = 0; index < limit; index++) {
+    if (detectColumns(data[index], mapping).missing.length === 0) return index;
+  }
+  return 0;
+}
+
+// Keeps only known columns with non-empty header text, e.g. from a request body
+export function toColumnMapping(value: unknown): ColumnMapping {
+  if (!value || typeof value !== "object") return {};
+
+  const mapping: ColumnMapping = {};
+  for (const column of FIELD_SHEET_COLUMNS) {
+    const header = (value as Record<string, unknown>)[column];
+    if (typeof header === "string" && header.trim()) {
+      mapping[column] = header.trim();
+    }
+  }
+  return mapping;
+}
+
+// Parse options for one sheet from the settings record (convex/schema.ts)
+export function getFieldSheetParseOptionsFromSettings(
+  settings:
+    | (LocationSettings & {
+        spreadsheetName: string;
+        seasonYear?: number;
+        columnMappings?: { sheetName: string; columns: ColumnMapping }[];
+      })
+    | null,
+  sheetName: string,
+  knownCrops: string[] = []
+): FieldSheetParseOptions {
+  return {
+    mapping:
+      settings?.columnMappings?.find((entry) => entry.sheetName === sheetName)
+        ?.columns ?? {},
+    seasonYear:
+      settings?.seasonYear ?? inferSeasonYear(settings?.spreadsheetName),
+    locations: {
+      locationRules: settings?.locationRules,
+      locationOverrides: settings?.locationOverrides,
+    },
+    knownCrops,
+  };
+}
+
+// ============ Rows ============
+
+// A row the parser skipped or could only partly read. `row` is the 1-based
+// row number in the sheet, so it can be linked to directly.
+export interface ParseWarning {
+  row: number;
+  message: string;
+  value?: string;
+}
+
+function parseCropVariety(value: string): { crop: string; variety: string } {
+  const separatorIndex = value.indexOf(":");
+
+  if (separatorIndex === -1) {
+    return { crop: value.trim(), variety: "" };
+  }
+
+  return {
+    crop: value.slice(0, separatorIndex).trim(),
+    variety: value.slice(separatorIndex + 1).trim(),
+  };
+}
+
+function buildCropRecord({
+  sheetName,
+  bed,
+  crop,
+  variety,
+  trays,
+  rows,
+  date,
+  notes,
+  location,
+  seasonYear,
+  knownCrops,
+}: {
+  sheetName: string;
+  bed: string;
+  crop: string;
+  variety: string;
+  trays: string;
+  rows: string;
+  date: string;
+  notes: string;
+  location: string;
+  seasonYear?: number;
+  knownCrops?: string[];
+}) {
+  const record: ParsedCropRecord = {
+    field: sheetName,
+    bed,
+    crop: crop.trim(),
+    variety: variety.trim(),
+    trays,
+    rows,
+    date,
+    notes,
+    location,
+  };
+
+  const unparsed: NonNullable<ParsedCropRecord["unparsed"]> = [];
+  if (date.trim()) {
+    const plantedOn = parsePlantingDate(date, seasonYear);
+    if (plantedOn.ok) {
+      record.plantedOn = plantedOn.iso;
+    } else {
+      unparsed.push("date");
+    }
+  }
+  if (trays.trim()) {
+    const trayCount = parseQuantity(trays);
+    if (trayCount === null) {
+      unparsed.push("trays");
+    } else {
+      record.trayCount = trayCount;
+    }
+  }
+  if (rows.trim()) {
+    const rowCount = parseQuantity(rows);
+    if (rowCount === null) {
+      unparsed.push("rows");
+    } else {
+      record.rowCount = rowCount;
+    }
+  }
+  if (unparsed.length > 0) {
+    record.unparsed = unparsed;
+  }
+
+  const replanting = detectReplanting(notes, knownCrops);
+  if (replanting && replanting.confidence >= REPLANTING_CONFIDENCE_THRESHOLD) {
+    Object.assign(record, getReplantedFields(replanting, record));
+  } else if (replanting) {
+    record.replantingCandidate = replanting;
+  }
+
+  return record;
+}
+
+function getCropVarietyWarning(value: string): string | null {
+  const separators = value.split(":").length - 1;
+  if (separators > 1) return "Expected Crop:Variety but found more than one \":\"";
+  if (separators === 1 && !value.slice(0, value.indexOf(":")).trim()) {
+    return "Expected Crop:Variety but the crop is blank";
+  }
+  return null;
+}
+
+// Parse sheet data into structured crop records, collecting a warning for
+// every row that was skipped or looks misparsed. Columns are found by the
+// header row (see findHeaderRow); throws ColumnMappingError when Bed or
+// Crop:Variety can't be found.
+export function parseSheetDataWithWarnings(
+  data: string[][],
+  sheetName: string,
+  { mapping, seasonYear, locations, knownCrops }: FieldSheetParseOptions = {}
+): { records: ParsedCropRecord[]; warnings: ParseWarning[] } {
+  const parsedData: ParsedCropRecord[] = [];
+  const warnings: ParseWarning[] = [];
+  if (data.length === 0) return { records: parsedData, warnings };
+
+  const headerIndex = findHeaderRow(data, mapping);
+  const location = detectLocation(sheetName, locations ?? null);
+  const columns = resolveColumns(data[headerIndex], sheetName, mapping);
+
+  for (let index = headerIndex + 1; index < data.length; index++) {
+    const row = data[index];
+    const rowNumber = index + 1;
+    const cell = (column: FieldSheetColumn) => {
+      const columnIndex = columns[column];
+      return columnIndex === undefined ? undefined : row[columnIndex];
+    };
+    const bed = cell("bed");
+    const cropVariety = cell("cropVariety");
+    const trays = cell("trays");
+    const rowsCount = cell("rows");
+    const date = cell("date");
+    const notes = cell("notes");
+    const warn = (message: string, value?: string) =>
+      warnings.push({ row: rowNumber, message, value });
+
+    // Skip empty rows
+    if (!bed && !cropVariety) continue;
+
+    if (!cropVariety?.trim()) {
+      // A bed on its own is just an unplanted bed; anything else was meant
+      // to be a planting
+      if ([trays, rowsCount, date, notes].some((value) => value?.trim())) {
+        warn("Row has no crop and was skipped", bed);
+      }
+      continue;
+    }
+
+    if (!bed?.trim()) {
+      warn("Planting has no bed", cropVariety);
+    }
+
+    if (date?.trim()) {
+      const plantedOn = parsePlantingDate(date, seasonYear);
+      if (!plantedOn.ok) {
+        warn(
+          plantedOn.reason === "no_year"
+            ? "Planting date has no year and no season year is set"
+            : "Unrecognized planting date",
+          date
+        );
+      }
+    }
+
+    if (rowsCount?.trim() && parseQuantity(rowsCount) === null) {
+      warn("Rows is not a number", rowsCount);
+    }
+
+    // Check for multiple crops in the same bed (separated by "/")
+    // Example: "Cucumber: Mini Me / Cucumber: Tasty Green" with trays "1 / 0.2"
+    if (cropVariety.includes(" / ")) {
+      const cropParts = cropVariety.split(" / ").map((s) => s.trim());
+      const traysParts = trays?.includes(" / ")
+        ? trays.split(" / ").map((s) => s.trim())
+        : [trays || ""];
+
+      if (traysParts.length > 1 && traysParts.length !== cropParts.length) {
+        warn(
+          `${cropParts.length} crops but ${traysParts.length} tray counts`,
+          trays
+        );
+      }
+      if (traysParts.length === 1 && trays?.trim() && parseQuantity(trays) === null) {
+        warn("Trays is not a number", trays);
+      }
+
+      // Create a separate record for each crop
+      for (let i = 0; i < cropParts.length; i++) {
+        const cropPart = cropParts[i];
+        const trayPart = traysParts[i] || traysParts[0] || "";
+        const cropWarning = getCropVarietyWarning(cropPart || "");
+        if (cropWarning) warn(cropWarning, cropPart);
+        const { crop, variety } = parseCropVariety(cropPart || "");
+
+        if (crop.trim()) {
+          const record = buildCropRecord({
+            sheetName,
+            bed: bed || "",
+            crop,
+            variety,
+            trays: trayPart,
+            rows: rowsCount || "",
+            date: date || "",
+            notes: notes || "",
+            location,
+            seasonYear,
+            knownCrops,
+          });
+          if (record.unparsed?.includes("trays") && traysParts.length > 1) {
+            warn("Trays is not a number", trayPart);
+          }
+          parsedData.push(record);
+        }
+      }
+      continue;
+    }
+
+    if (trays?.includes(" / ")) {
+      warn("Tray counts are split with \" / \" but there is only one crop", trays);
+    } else if (trays?.trim() && parseQuantity(trays) === null) {
+      warn("Trays is not a number", trays);
+    }
+
+    const cropWarning = getCropVarietyWarning(cropVariety);
+    if (cropWarning) warn(cropWarning, cropVariety);
+
+    // Parse crop:variety format (e.g., "Tomato:Roma" or just "Tomato")
+    const { crop, variety } = parseCropVariety(cropVariety);
+
+    if (crop.trim()) {
+      parsedData.push(
+        buildCropRecord({
+          sheetName,
+          bed: bed || "",
+          crop,
+          variety,
+          trays: trays || "",
+          rows: rowsCount || "",
+          date: date || "",
+          notes: notes || "",
+          location,
+          seasonYear,
+          knownCrops,
+        })
+      );
+    }
+  }
+
+  return { records: parsedData, warnings };
+}
+
+// Parse sheet data into structured crop records
+export function parseSheetData(
+  data: string[][],
+  sheetName: string,
+  options?: FieldSheetParseOptions
+): ParsedCropRecord[] {
+  return parseSheetDataWithWarnings(data, sheetName, options).records;
+}
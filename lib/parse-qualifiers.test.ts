@@ -65,3 +65,34 @@ test("keeps non-question assessment labels aligned with their source columns", (
     }
   );
 });
+
+test("reads question types from header tags", () => {
+  const data = [
+    ["Tomatoes", "Yield [number:lbs]", "Flavor [rating]", "Pests? [multi]", "Split? [yesno]"],
+    ["", "", "", "- hornworm", ""],
+    ["", "", "", "- aphids", ""],
+    ["Peppers", "Yield [number:lbs]", "Flavor [rating]", "Notes [text]"],
+  ];
+
+  const { vegetables, universalQualifiers } = parseQualifiersSheet(data);
+
+  assert.deepEqual(universalQualifiers, [
+    { name: "Yield", options: [], type: "number", unit: "lbs", order: 0 },
+    { name: "Flavor", options: [], type: "rating", order: 1 },
+  ]);
+  assert.deepEqual(vegetables, [
+    {
+      name: "Tomatoes",
+      location: undefined,
+      assessments: [
+        { name: "Pests?", options: ["hornworm", "aphids"], type: "multi" },
+        { name: "Split?", options: [], type: "yesno" },
+      ],
+    },
+    {
+      name: "Peppers",
+      location: undefined,
+      assessments: [{ name: "Notes", options: [], type: "text" }],
+    },
+  ]);
+});
@@ -1,7 +1,11 @@
-export interface Assessment {
-  name: string;
-  options: string[];
-}
+import {
+  parseQuestionHeader,
+  TypedQuestion,
+  usesOptionList,
+} from "./assessment-types";
+
+// See lib/assessment-types.ts for types, required flags and conditions
+export type Assessment = TypedQuestion;
 
 export interface VegetableData {
   name: string; // Base crop name (e.g., "Cucumbers", "Tomatoes")
@@ -9,9 +13,7 @@ export interface VegetableData {
   assessments: Assessment[];
 }
 
-export interface UniversalQualifier {
-  name: string;
-  options: string[];
+export interface UniversalQualifier extends TypedQuestion {
   order: number; // Display order
 }
 
@@ -25,6 +27,18 @@ interface ParsedVegetableData {
   assessments: ParsedAssessment[];
 }
 
+// The question without the parser's column bookkeeping
+function toAssessment(assessment: ParsedAssessment): Assessment {
+  return {
+    name: assessment.name,
+    options: assessment.options,
+    ...(assessment.type && { type: assessment.type }),
+    ...(assessment.unit && { unit: assessment.unit }),
+    ...(assessment.required && { required: true }),
+    ...(assessment.showIf && { showIf: assessment.showIf }),
+  };
+}
+
 /**
  * Parse crop name and extract location suffix if present.
  * Examples:
@@ -63,6 +77,10 @@ function parseCropNameAndLocation(fullName: string): { name: string; location?:
  * - Columns B, C, D, E... contain assessment headers in the first row of each vegetable
  * - Options are listed below each assessment in the same column
  * - Options may have "- " prefix which is stripped
+ * - Headers may end in tags (see lib/assessment-types.ts): a type such as
+ *   "Yield [number:lbs]" or "Pests? [multi]", "[required]", or a condition
+ *   such as "How bad? [if Buggy? = very]". Numbers, ratings, free text and
+ *   yes/no questions need no options
  *
  * Universal Qualifiers:
  * - Assessments that appear in ALL crops with the same options are extracted separately
@@ -96,9 +114,8 @@ export function parseQualifiersSheet(data: string[][]): {
             name,
             location,
             assessments: currentAssessments.map((a) => ({
-              name: a.name,
+              ...a,
               options: [...a.options],
-              sourceColumn: a.sourceColumn,
             })),
           });
         }
@@ -119,7 +136,7 @@ export function parseQualifiersSheet(data: string[][]): {
         const cell = row[col]?.trim() || "";
         if (cell && !cell.startsWith("-")) {
           currentAssessments.push({
-            name: cell,
+            ...parseQuestionHeader(cell),
             options: [],
             sourceColumn: col,
           });
@@ -152,17 +169,19 @@ export function parseQualifiersSheet(data: string[][]): {
         name,
         location,
         assessments: currentAssessments.map((a) => ({
-          name: a.name,
+          ...a,
           options: [...a.options],
-          sourceColumn: a.sourceColumn,
         })),
       });
     }
   }
 
-  // Filter out vegetables with no valid assessments
+  // Filter out vegetables with no valid assessments. Typed-in questions
+  // (numbers, ratings, text, yes/no) are valid without listed options.
+  const isAnswerable = (a: ParsedAssessment) =>
+    a.options.length > 0 || !usesOptionList(a.type);
   const filteredVegetables = vegetables.filter(
-    (v) => v.assessments.length > 0 && v.assessments.some((a) => a.options.length > 0)
+    (v) => v.assessments.length > 0 && v.assessments.some(isAnswerable)
   );
 
   // Identify universal assessments (those that appear in ALL vegetables with the
@@ -173,28 +192,28 @@ export function parseQualifiersSheet(data: string[][]): {
 
   if (filteredVegetables.length > 0) {
     const firstVegetable = filteredVegetables[0];
-    const optionSignature = (options: string[]) => JSON.stringify(options);
+    const optionSignature = (assessment: ParsedAssessment) =>
+      JSON.stringify({ ...toAssessment(assessment), name: "" });
 
     // Extract universal assessments from the first crop's questions only when
     // every crop has an exact same-named question with the same options.
     const totalVegetables = filteredVegetables.length;
     for (const assessment of firstVegetable.assessments) {
-      if (assessment.options.length === 0) continue;
+      if (!isAnswerable(assessment)) continue;
 
-      const expectedOptions = optionSignature(assessment.options);
+      const expectedOptions = optionSignature(assessment);
       const matchingVegetableCount = filteredVegetables.filter((veg) =>
         veg.assessments.some(
           (candidate) =>
             candidate.name === assessment.name &&
-            optionSignature(candidate.options) === expectedOptions
+            optionSignature(candidate) === expectedOptions
         )
       ).length;
 
       if (matchingVegetableCount === totalVegetables) {
         universalAssessmentNames.add(assessment.name);
         universalQualifiers.push({
-          name: assessment.name,
-          options: assessment.options,
+          ...toAssessment(assessment),
           order: assessment.sourceColumn - 1, // Column B becomes order 0
         });
       }
@@ -215,10 +234,7 @@ export function parseQualifiersSheet(data: string[][]): {
     vegetables: filteredVegetables.map((vegetable) => ({
       name: vegetable.name,
       location: vegetable.location,
-      assessments: vegetable.assessments.map((assessment) => ({
-        name: assessment.name,
-        options: assessment.options,
-      })),
+      assessments: vegetable.assessments.map(toAssessment),
     })),
     universalQualifiers,
   };
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  createPlanningClassifier,
+  getBucketForScore,
+  suggestPlanningAnswers,
+} from "./planning";
+
+test("keyword defaults match whole words only", () => {
+  const planning = createPlanningClassifier(undefined);
+  assert.equal(planning.isPlanningQuestion("Planting quantity?"), true);
+  assert.equal(planning.isPlanningQuestion("Buggy?"), false);
+  assert.deepEqual(planning.classify("Planting quantity?", "Too much"), {
+    bucket: "over",
+  });
+  assert.deepEqual(planning.classify("Planting quantity?", "Not enough"), {
+    bucket: "under",
+  });
+  assert.equal(planning.classify("Planting quantity?", "Overgrown"), null);
+  assert.deepEqual(
+    suggestPlanningAnswers(["Just right", "Overgrown", "Excess"]),
+    [
+      { answer: "Just right", bucket: "on_target" },
+      { answer: "Excess", bucket: "over" },
+    ]
+  );
+});
+
+test("a saved mapping replaces the keywords", () => {
+  const planning = createPlanningClassifier([
+    {
+      question: "How was the amount?",
+      answers: [
+        { answer: "Plenty", bucket: "over" },
+        { answer: "Short", score: -2 },
+        { answer: "Fine", bucket: "on_target", score: 0 },
+      ],
+    },
+  ]);
+  assert.equal(planning.isPlanningQuestion("how was the amount? "), true);
+  assert.equal(planning.isPlanningQuestion("Planting quantity?"), false);
+  assert.deepEqual(planning.classify("How was the amount?", "plenty"), {
+    bucket: "over",
+  });
+  assert.deepEqual(planning.classify("How was the amount?", "Short"), {
+    bucket: "under",
+    score: -2,
+  });
+  assert.deepEqual(planning.classify("How was the amount?", "Fine"), {
+    bucket: "on_target",
+    score: 0,
+  });
+  assert.equal(planning.classify("How was the amount?", "Too much"), null);
+});
+
+test("scores pick a bucket by their sign", () => {
+  assert.equal(getBucketForScore(-0.5), "under");
+  assert.equal(getBucketForScore(0), "on_target");
+  assert.equal(getBucketForScore(3), "over");
+});
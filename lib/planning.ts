@@ -0,0 +1,141 @@
+// How answers to planting-quantity questions ("Planting quantity?" → "too
+// much") become the under / on-target / over counts on the analytics page.
+// Admins tag the questions and map each answer on the qualifiers page
+// (settings.planningQuestions); until they save a mapping, keyword defaults
+// apply.
+
+export const PLANNING_BUCKETS = ["under", "on_target", "over"] as const;
+
+export type PlanningBucket = (typeof PLANNING_BUCKETS)[number];
+
+export const PLANNING_BUCKET_LABELS: Record<PlanningBucket, string> = {
+  under: "Underplanned",
+  on_target: "On target",
+  over: "Overplanned",
+};
+
+// One answer's mapping. A score alone picks the bucket by its sign: below
+// zero is under, zero on target, above zero over.
+export interface PlanningAnswer {
+  answer: string;
+  bucket?: PlanningBucket;
+  score?: number;
+}
+
+export interface PlanningQuestion {
+  question: string;
+  answers: PlanningAnswer[];
+}
+
+export interface PlanningClassification {
+  bucket: PlanningBucket;
+  score?: number;
+}
+
+export interface PlanningClassifier {
+  isPlanningQuestion: (question: string) => boolean;
+  // null when the answer isn't mapped
+  classify: (question: string, answer: string) => PlanningClassification | null;
+}
+
+const normalize = (value: string) =>
+  value.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Used until an admin saves a mapping
+const DEFAULT_QUESTION_PHRASES = [
+  "planting quantity",
+  "quantity planted",
+  "quantity?",
+  "planted too",
+];
+
+// Checked in this order; phrases match whole words, so "overgrown" isn't
+// "over"
+const DEFAULT_ANSWER_PHRASES: [PlanningBucket, string[]][] = [
+  ["under", ["not enough", "too little", "too few", "under", "underplanted"]],
+  ["over", ["too much", "too many", "over", "overplanted", "excess"]],
+  [
+    "on_target",
+    ["on target", "just right", "perfect", "ideal", "right amount"],
+  ],
+];
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|[^a-z0-9])${escaped}(?:$|[^a-z0-9])`).test(text);
+}
+
+function getDefaultBucket(answer: string): PlanningBucket | null {
+  const text = normalize(answer);
+  const match = DEFAULT_ANSWER_PHRASES.find(([, phrases]) =>
+    phrases.some((phrase) => containsPhrase(text, phrase))
+  );
+  return match?.[0] ?? null;
+}
+
+export function getBucketForScore(score: number): PlanningBucket {
+  if (score < 0) return "under";
+  return score > 0 ? "over" : "on_target";
+}
+
+/**
+ * Reads planting-quantity answers with an admin's mapping, or with the
+ * keyword defaults when `questions` is unset. With a mapping, only tagged
+ * questions count and answers missing from it are unmapped.
+ */
+export function createPlanningClassifier(
+  questions: PlanningQuestion[] | undefined
+): PlanningClassifier {
+  if (!questions) {
+    return {
+      isPlanningQuestion: (question) =>
+        DEFAULT_QUESTION_PHRASES.some((phrase) =>
+          normalize(question).includes(phrase)
+        ),
+      classify: (_question, answer) => {
+        const bucket = getDefaultBucket(answer);
+        return bucket ? { bucket } : null;
+      },
+    };
+  }
+
+  const byQuestion = new Map(
+    questions.map((question) => [
+      normalize(question.question),
+      new Map(
+        question.answers.map((answer) => [normalize(answer.answer), answer])
+      ),
+    ])
+  );
+
+  return {
+    isPlanningQuestion: (question) => byQuestion.has(normalize(question)),
+    classify: (question, answer) => {
+      const mapping = byQuestion.get(normalize(question))?.get(normalize(answer));
+      if (!mapping) return null;
+      if (mapping.bucket) {
+        return {
+          bucket: mapping.bucket,
+          ...(mapping.score !== undefined && { score: mapping.score }),
+        };
+      }
+      if (mapping.score === undefined) return null;
+      return { bucket: getBucketForScore(mapping.score), score: mapping.score };
+    },
+  };
+}
+
+/**
+ * A starting mapping for a question from the keyword defaults, for the
+ * settings editor: each answer the defaults recognize, with its bucket.
+ */
+export function suggestPlanningAnswers(answers: string[]): PlanningAnswer[] {
+  return answers.flatMap((answer) => {
+    const bucket = getDefaultBucket(answer);
+    return bucket ? [{ answer, bucket }] : [];
+  });
+}
+
+export function isDefaultPlanningQuestion(question: string): boolean {
+  return createPlanningClassifier(undefined).isPlanningQuestion(question);
+}
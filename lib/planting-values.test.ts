@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  getDaysSincePlanting,
+  inferSeasonYear,
+  parsePlantingDate,
+  parseQuantity,
+} from "./planting-values";
+
+test("parses planting dates into ISO dates", () => {
+  const cases: [string, string][] = [
+    ["3/15", "2025-03-15"],
+    ["3/15/24", "2024-03-15"],
+    ["03-15-2024", "2024-03-15"],
+    ["2024-3-5", "2024-03-05"],
+    ["Mar 15", "2025-03-15"],
+    ["15 March 2024", "2024-03-15"],
+    ["~4/1", "2025-04-01"],
+  ];
+
+  for (const [value, iso] of cases) {
+    assert.deepEqual(parsePlantingDate(value, 2025), { ok: true, iso }, value);
+  }
+
+  assert.deepEqual(parsePlantingDate("2/30", 2025), {
+    ok: false,
+    reason: "unrecognized",
+  });
+  assert.deepEqual(parsePlantingDate("TBD", 2025), {
+    ok: false,
+    reason: "unrecognized",
+  });
+  assert.deepEqual(parsePlantingDate("3/15"), { ok: false, reason: "no_year" });
+});
+
+test("parses tray and row quantities", () => {
+  assert.equal(parseQuantity("2"), 2);
+  assert.equal(parseQuantity("~2"), 2);
+  assert.equal(parseQuantity(".5"), 0.5);
+  assert.equal(parseQuantity("1/2"), 0.5);
+  assert.equal(parseQuantity("1 1/2"), 1.5);
+  assert.equal(parseQuantity("4 trays"), 4);
+  assert.equal(parseQuantity("2-3"), null);
+  assert.equal(parseQuantity("1 / 0.2"), null);
+});
+
+test("infers the season year and crop age", () => {
+  assert.equal(inferSeasonYear("2025 Field Plan"), 2025);
+  assert.equal(inferSeasonYear("Field Plan"), undefined);
+  assert.equal(
+    getDaysSincePlanting("2025-03-15", Date.UTC(2025, 3, 1, 18)),
+    17
+  );
+});
@@ -0,0 +1,140 @@
+// Typed values from the free-text date, trays and rows cells of field sheets.
+// Used by the field sheet parser and by convex/sheets.ts for quality logs.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export type PlantingDateResult =
+  | { ok: true; iso: string }
+  // no_year: a day and month like "3/15" with no season year to place it in
+  | { ok: false; reason: "unrecognized" | "no_year" };
+
+// The season a spreadsheet covers, from a year in its name ("2025 Plantings")
+export function inferSeasonYear(name: string | undefined): number | undefined {
+  const match = name?.match(/\b(20\d{2})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function getMonth(name: string): number | null {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+}
+
+// Reads "3/15", "3/15/25", "2025-03-15", "Mar 15" or "15 March 2025" as an
+// ISO date. Dates without a year are placed in seasonYear.
+export function parsePlantingDate(
+  value: string,
+  seasonYear?: number
+): PlantingDateResult {
+  const text = value.trim().replace(/^~\s*/, "");
+  let year: number | undefined;
+  let month: number | null;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/);
+  const monthFirst = text.match(/^([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/i);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,})\.?(?:,?\s+(\d{4}))?$/i);
+
+  if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]);
+    day = Number(iso[3]);
+  } else if (numeric) {
+    month = Number(numeric[1]);
+    day = Number(numeric[2]);
+    if (numeric[3]) {
+      year = Number(numeric[3]) + (numeric[3].length === 2 ? 2000 : 0);
+    }
+  } else if (monthFirst) {
+    month = getMonth(monthFirst[1]);
+    day = Number(monthFirst[2]);
+    year = monthFirst[3] ? Number(monthFirst[3]) : undefined;
+  } else if (dayFirst) {
+    month = getMonth(dayFirst[2]);
+    day = Number(dayFirst[1]);
+    year = dayFirst[3] ? Number(dayFirst[3]) : undefined;
+  } else {
+    return { ok: false, reason: "unrecognized" };
+  }
+
+  if (month === null) return { ok: false, reason: "unrecognized" };
+
+  const resolvedYear = year ?? seasonYear;
+  if (resolvedYear === undefined) {
+    // Still check the day and month are real before blaming the year
+    return toIsoDate(2000, month, day)
+      ? { ok: false, reason: "no_year" }
+      : { ok: false, reason: "unrecognized" };
+  }
+
+  const result = toIsoDate(resolvedYear, month, day);
+  return result ? { ok: true, iso: result } : { ok: false, reason: "unrecognized" };
+}
+
+// Reads tray and row counts like "2", "0.5", "~3", "1/2", "1 1/2" or
+// "4 trays". Ranges ("2-3") and anything else return null.
+export function parseQuantity(value: string): number | null {
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/^(~|about|approx\.?|ca\.?)\s*/, "")
+    .replace(/\s*[a-z]+$/, "");
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator === 0
+      ? null
+      : Number(mixed[1]) + Number(mixed[2]) / denominator;
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : Number(fraction[1]) / denominator;
+  }
+
+  return /^(\d+(\.\d+)?|\.\d+)$/.test(text) ? Number(text) : null;
+}
+
+// Whole days from an ISO planting date to a timestamp, using UTC days
+export function getDaysSincePlanting(
+  plantedOn: string,
+  timestamp: number
+): number {
+  const planted = Date.parse(`${plantedOn}T00:00:00Z`);
+  const observed = new Date(timestamp);
+  const observedDay = Date.UTC(
+    observed.getUTCFullYear(),
+    observed.getUTCMonth(),
+    observed.getUTCDate()
+  );
+  return Math.round((observedDay - planted) / DAY_MS);
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  assignQuestionIds,
+  attachQuestionIds,
+  createQuestionResolver,
+  resolveQuestionName,
+} from "./question-ids";
+
+const renames = [
+  { from: "Size?", to: "Fruit size?" },
+  { from: "fruit size?", to: "Fruit size (cm)?" },
+  { from: "Loop A", to: "Loop B" },
+  { from: "Loop B", to: "Loop A" },
+];
+
+test("follows renames to the latest name and stops at loops", () => {
+  assert.equal(resolveQuestionName("Size?", renames), "Fruit size (cm)?");
+  assert.equal(resolveQuestionName("Buggy?", renames), "Buggy?");
+  assert.equal(resolveQuestionName("Loop A", renames), "Loop A");
+});
+
+test("keeps question IDs by ID, name or declared rename", () => {
+  let next = 0;
+  const createId = () => `new-${++next}`;
+  const previous = [
+    { name: "Size?", options: [], questionId: "size" },
+    { name: "Buggy?", options: [], questionId: "buggy" },
+    { name: "Color", options: [], questionId: "color" },
+  ];
+
+  assert.deepEqual(
+    assignQuestionIds(
+      [
+        { name: "Fruit size (cm)?", options: [] },
+        { name: "buggy?", options: [] },
+        { name: "Colour", options: [], questionId: "color" },
+        { name: "Color", options: [] },
+      ],
+      previous,
+      renames,
+      createId
+    ).map((question) => question.questionId),
+    ["size", "buggy", "color", "new-1"]
+  );
+});
+
+test("counts answers under the current name of the question they answered", () => {
+  const resolve = createQuestionResolver(
+    [{ name: "Fruit size (cm)?", options: [], questionId: "size" }],
+    renames
+  );
+  assert.equal(
+    resolve({ question: "Size", answer: "big", questionId: "size" }),
+    "Fruit size (cm)?"
+  );
+  assert.equal(resolve({ question: "Size?", answer: "big" }), "Fruit size (cm)?");
+  assert.equal(resolve({ question: "Buggy?", answer: "no" }), "Buggy?");
+
+  assert.deepEqual(
+    attachQuestionIds(
+      [
+        { question: "Buggy?", answer: "no" },
+        { question: "Notes", answer: "ok" },
+      ],
+      [{ name: "Buggy?", options: [], questionId: "buggy", version: 3 }]
+    ),
+    [
+      { question: "Buggy?", answer: "no", questionId: "buggy", version: 3 },
+      { question: "Notes", answer: "ok" },
+    ]
+  );
+});
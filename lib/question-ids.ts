@@ -0,0 +1,123 @@
+import type { AssessmentResponse, TypedQuestion } from "./assessment-types";
+
+// Declared by an admin when a question's wording changed, so answers to the
+// old wording count toward the new one (questionRenames in convex/schema.ts)
+export interface QuestionRename {
+  from: string;
+  to: string;
+}
+
+// A question as the log form asks it, with the version of the qualifier or
+// universal question it came from
+export type VersionedQuestion = TypedQuestion & { version?: number };
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Follows declared renames from a question name to its latest name:
+ * "Size?" → "Fruit size?" → "Fruit size (cm)?". Stops at a loop.
+ */
+export function resolveQuestionName(
+  name: string,
+  renames: QuestionRename[]
+): string {
+  const next = new Map(
+    renames.map((rename) => [normalizeName(rename.from), rename.to])
+  );
+  const seen = new Set<string>();
+  let current = name.trim();
+
+  while (next.has(normalizeName(current)) && !seen.has(normalizeName(current))) {
+    seen.add(normalizeName(current));
+    current = next.get(normalizeName(current))!;
+  }
+  return current;
+}
+
+/**
+ * Carries question IDs over to a new definition of the same questions. A
+ * question keeps an ID it already has, else takes the ID of the previous
+ * question with its name or with a name declared renamed to it; the rest
+ * get a new ID from `createId`.
+ */
+export function assignQuestionIds<T extends TypedQuestion>(
+  questions: T[],
+  previous: TypedQuestion[],
+  renames: QuestionRename[],
+  createId: () => string
+): (T & { questionId: string })[] {
+  const known = previous.filter(
+    (question): question is TypedQuestion & { questionId: string } =>
+      question.questionId !== undefined
+  );
+  const used = new Set<string>();
+  const take = (questionId: string | undefined) => {
+    if (questionId === undefined || used.has(questionId)) return undefined;
+    used.add(questionId);
+    return questionId;
+  };
+
+  // IDs the questions already carry first, so a question renamed in the
+  // editor keeps its ID rather than losing it to a new one with its old name
+  const kept = questions.map((question) => take(question.questionId));
+
+  return questions.map((question, index) => {
+    const latestName = normalizeName(resolveQuestionName(question.name, renames));
+    const questionId =
+      kept[index] ??
+      take(
+        known.find(
+          (candidate) =>
+            normalizeName(candidate.name) === normalizeName(question.name)
+        )?.questionId
+      ) ??
+      take(
+        known.find(
+          (candidate) =>
+            normalizeName(resolveQuestionName(candidate.name, renames)) ===
+            latestName
+        )?.questionId
+      ) ??
+      take(createId())!;
+    return { ...question, questionId };
+  });
+}
+
+// Records the question ID and version each answer was given for
+export function attachQuestionIds(
+  responses: AssessmentResponse[],
+  questions: VersionedQuestion[]
+): AssessmentResponse[] {
+  return responses.map((response) => {
+    const question = questions.find((q) => q.name === response.question);
+    if (!question?.questionId) return response;
+    return {
+      ...response,
+      questionId: question.questionId,
+      ...(question.version !== undefined && { version: question.version }),
+    };
+  });
+}
+
+/**
+ * The name stats count an answer under: the current name of the question it
+ * answered while that question exists, else the name it was saved with after
+ * any declared renames. Answers to a question before and after a rename
+ * then share one bucket.
+ */
+export function createQuestionResolver(
+  current: TypedQuestion[],
+  renames: QuestionRename[]
+): (response: AssessmentResponse) => string {
+  const namesById = new Map(
+    current
+      .filter((question) => question.questionId !== undefined)
+      .map((question) => [question.questionId!, question.name])
+  );
+  return (response) =>
+    resolveQuestionName(
+      (response.questionId && namesById.get(response.questionId)) ||
+        response.question,
+      renames
+    );
+}
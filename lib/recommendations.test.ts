@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildPlantingPlanCsv, recommendPlantings } from "./recommendations";
+
+const plantings = [
+  { crop: "Tomato", variety: "Sungold", trayCount: 4 },
+  { crop: "Tomato", variety: "sungold ", trayCount: 6 },
+  { crop: "Tomato", variety: "Cherokee", trayCount: 2 },
+  { crop: "Lettuce", variety: "", rowCount: 3 },
+];
+
+const answers = [
+  ...Array.from({ length: 4 }, () => ({
+    crop: "Tomato",
+    variety: "Sungold",
+    bucket: "under" as const,
+  })),
+  { crop: "Tomato", variety: "Sungold", bucket: "over" as const },
+  { crop: "Tomato", variety: "Cherokee", bucket: null },
+];
+
+test("adjusts amounts by the under/over balance, damped by sample size", () => {
+  const [lettuce, cherokee, sungold] = recommendPlantings(plantings, answers);
+
+  assert.deepEqual(
+    [sungold.plantings, sungold.trays, sungold.suggestedTrays, sungold.change],
+    [2, 10, 12, 15]
+  );
+  assert.equal(sungold.basis, "variety");
+  assert.equal(sungold.confidence, "medium");
+
+  // Too few answers of its own (the unmapped one doesn't count)
+  assert.equal(cherokee.basis, "crop");
+  assert.equal(cherokee.samples, 5);
+  assert.equal(cherokee.suggestedTrays, 2);
+
+  assert.deepEqual(
+    [lettuce.trays, lettuce.rows, lettuce.suggestedRows, lettuce.change],
+    [null, 3, 3, 0]
+  );
+  assert.equal(lettuce.confidence, "none");
+});
+
+test("writes the planting plan as CSV", () => {
+  const csv = buildPlantingPlanCsv(
+    recommendPlantings([{ crop: "Squash, summer", variety: "", trayCount: 2 }], [])
+  );
+  assert.deepEqual(csv.slice(1).split("\n"), [
+    "crop,variety,plantings,trays,suggested_trays,rows,suggested_rows,change_percent,confidence,based_on,assessments,underplanted,on_target,overplanted",
+    '"Squash, summer",,1,2,2,,,0,No data,crop,0,0,0,0',
+  ]);
+});
@@ -0,0 +1,208 @@
+// Next season's trays and rows per crop and variety, from how much was
+// planted this season and how often its planting-quantity answers said under
+// or over. Used by convex/recommendations.ts and the planting plan CSV route.
+import { escapeCsvCell } from "./csv";
+import type { PlanningBucket } from "./planning";
+
+export type RecommendationConfidence = "none" | "low" | "medium" | "high";
+
+export const RECOMMENDATION_CONFIDENCE_LABELS: Record<
+  RecommendationConfidence,
+  string
+> = {
+  none: "No data",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export interface PlantingAmount {
+  crop: string;
+  variety: string;
+  trayCount?: number;
+  rowCount?: number;
+}
+
+// A planting-quantity answer given `count` times (once when unset); bucket
+// is null when it isn't mapped
+export interface PlanningAnswerSample {
+  crop: string;
+  variety: string;
+  bucket: PlanningBucket | null;
+  count?: number;
+}
+
+export interface PlantingRecommendation {
+  crop: string;
+  variety: string;
+  plantings: number;
+  // Totals of the plantings whose cells parsed as numbers; null when none did
+  trays: number | null;
+  rows: number | null;
+  suggestedTrays: number | null;
+  suggestedRows: number | null;
+  // Percent change applied to trays and rows
+  change: number;
+  // Mapped answers the change is based on, and whether they are this
+  // variety's own or the whole crop's
+  samples: number;
+  basis: "variety" | "crop";
+  under: number;
+  onTarget: number;
+  over: number;
+  confidence: RecommendationConfidence;
+}
+
+// A variety with fewer mapped answers than this borrows its crop's
+export const MIN_VARIETY_SAMPLES = 3;
+// Change when every answer says under (or over), before damping
+const MAX_CHANGE = 50;
+// Half the full change at this many answers, approaching it with more
+const DAMPING_SAMPLES = 5;
+
+export function getRecommendationConfidence(
+  samples: number
+): RecommendationConfidence {
+  if (samples === 0) return "none";
+  if (samples < 5) return "low";
+  return samples < 15 ? "medium" : "high";
+}
+
+type Counts = { under: number; onTarget: number; over: number; total: number };
+
+const emptyCounts = (): Counts => ({ under: 0, onTarget: 0, over: 0, total: 0 });
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const varietyKey = (crop: string, variety: string) =>
+  `${normalize(crop)}\u0000${normalize(variety)}`;
+
+function sumOf(values: (number | undefined)[]): number | null {
+  const numbers = values.filter((value): value is number => value !== undefined);
+  return numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) : null;
+}
+
+/**
+ * Suggests next season's amounts for each crop and variety planted. The
+ * change is the share of answers saying under minus the share saying over,
+ * scaled to at most ±50% and damped when there are few answers. Unmapped
+ * answers are ignored.
+ */
+export function recommendPlantings(
+  plantings: PlantingAmount[],
+  answers: PlanningAnswerSample[]
+): PlantingRecommendation[] {
+  const byVariety = new Map<string, Counts>();
+  const byCrop = new Map<string, Counts>();
+  for (const answer of answers) {
+    if (!answer.bucket) continue;
+    for (const [map, key] of [
+      [byVariety, varietyKey(answer.crop, answer.variety)],
+      [byCrop, normalize(answer.crop)],
+    ] as const) {
+      const counts = map.get(key) ?? emptyCounts();
+      const count = answer.count ?? 1;
+      counts.total += count;
+      if (answer.bucket === "under") counts.under += count;
+      if (answer.bucket === "on_target") counts.onTarget += count;
+      if (answer.bucket === "over") counts.over += count;
+      map.set(key, counts);
+    }
+  }
+
+  const groups = new Map<string, PlantingAmount[]>();
+  for (const planting of plantings) {
+    const key = varietyKey(planting.crop, planting.variety);
+    groups.set(key, [...(groups.get(key) ?? []), planting]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const { crop, variety } = group[0];
+      const own = byVariety.get(key) ?? emptyCounts();
+      const basis: PlantingRecommendation["basis"] =
+        own.total >= MIN_VARIETY_SAMPLES ? "variety" : "crop";
+      const counts =
+        basis === "variety" ? own : byCrop.get(normalize(crop)) ?? emptyCounts();
+
+      const balance =
+        counts.total > 0 ? (counts.under - counts.over) / counts.total : 0;
+      const weight = counts.total / (counts.total + DAMPING_SAMPLES);
+      const change = Math.round(balance * weight * MAX_CHANGE) || 0;
+
+      const trays = sumOf(group.map((planting) => planting.trayCount));
+      const rows = sumOf(group.map((planting) => planting.rowCount));
+      const adjust = (amount: number | null) =>
+        amount === null
+          ? null
+          : Math.max(amount > 0 ? 1 : 0, Math.round(amount * (1 + change / 100)));
+
+      return {
+        crop,
+        variety,
+        plantings: group.length,
+        trays,
+        rows,
+        suggestedTrays: adjust(trays),
+        suggestedRows: adjust(rows),
+        change,
+        samples: counts.total,
+        basis,
+        under: counts.under,
+        onTarget: counts.onTarget,
+        over: counts.over,
+        confidence: getRecommendationConfidence(counts.total),
+      };
+    })
+    .sort(
+      (a, b) => a.crop.localeCompare(b.crop) || a.variety.localeCompare(b.variety)
+    );
+}
+
+// The planting plan download: one row per crop and variety
+export function buildPlantingPlanCsv(
+  recommendations: PlantingRecommendation[]
+): string {
+  const headers = [
+    "crop",
+    "variety",
+    "plantings",
+    "trays",
+    "suggested_trays",
+    "rows",
+    "suggested_rows",
+    "change_percent",
+    "confidence",
+    "based_on",
+    "assessments",
+    "underplanted",
+    "on_target",
+    "overplanted",
+  ];
+
+  const lines = [
+    headers.join(","),
+    ...recommendations.map((row) =>
+      [
+        row.crop,
+        row.variety,
+        row.plantings,
+        row.trays ?? "",
+        row.suggestedTrays ?? "",
+        row.rows ?? "",
+        row.suggestedRows ?? "",
+        row.change,
+        RECOMMENDATION_CONFIDENCE_LABELS[row.confidence],
+        row.basis,
+        row.samples,
+        row.under,
+        row.onTarget,
+        row.over,
+      ]
+        .map(escapeCsvCell)
+        .join(",")
+    ),
+  ];
+
+  return `\uFEFF${lines.join("\n")}`;
+}
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { ParsedCropRecord } from "./parse-field-sheet";
+import {
+  applyReplantingReviews,
+  detectReplanting,
+  getReplantedFields,
+  REPLANTING_CONFIDENCE_THRESHOLD,
+} from "./replanting";
+
+test("extracts old and new crops and dates from replanting notes", () => {
+  assert.deepEqual(detectReplanting("pulled 6/12, replanted w/ lettuce"), {
+    fromCrop: "",
+    fromVariety: "",
+    withCrop: "lettuce",
+    withVariety: "",
+    date: "6/12",
+    confidence: 0.85,
+    phrase: "pulled 6/12, replanted w/ lettuce",
+  });
+
+  const named = detectReplanting(
+    "Tomato:Roma replaced by Lettuce:Salanova on June 3"
+  );
+  assert.equal(named?.fromCrop, "Tomato");
+  assert.equal(named?.fromVariety, "Roma");
+  assert.equal(named?.withCrop, "Lettuce");
+  assert.equal(named?.withVariety, "Salanova");
+  assert.equal(named?.date, "June 3");
+  assert.equal(named?.confidence, 1);
+
+  const pulled = detectReplanting("Pulled tomatoes, reseeded with beets");
+  assert.equal(pulled?.fromCrop, "tomatoes");
+  assert.equal(pulled?.withCrop, "beets");
+
+  assert.equal(detectReplanting("Kale -> Chard")?.withCrop, "Chard");
+  assert.equal(detectReplanting("Started indoors"), null);
+  assert.equal(detectReplanting(""), null);
+});
+
+test("scores vague or hedged notes below the review threshold", () => {
+  for (const notes of [
+    "replanted 6/12",
+    "swapped for beets",
+    "maybe replant with kale?",
+    "switched to drip irrigation because the old lines kept clogging",
+  ]) {
+    const detection = detectReplanting(notes);
+    assert.ok(detection, notes);
+    assert.ok(
+      detection.confidence < REPLANTING_CONFIDENCE_THRESHOLD,
+      `${notes}: ${detection.confidence}`
+    );
+  }
+
+  assert.ok(
+    detectReplanting("replaced with kale")!.confidence >=
+      REPLANTING_CONFIDENCE_THRESHOLD
+  );
+});
+
+test("a strong verb alone doesn't make maintenance notes a replanting", () => {
+  for (const notes of ["replaced drip tape", "replaced row cover"]) {
+    const detection = detectReplanting(notes, ["Kale", "Lettuce"]);
+    assert.ok(
+      !detection || detection.confidence < REPLANTING_CONFIDENCE_THRESHOLD,
+      `${notes}: ${detection?.confidence}`
+    );
+  }
+
+  // Still confident when the new crop is a known crop or has a variety
+  for (const notes of ["replaced kale", "replaced Lettuce:Salanova"]) {
+    assert.ok(
+      detectReplanting(notes, ["Kale"])!.confidence >=
+        REPLANTING_CONFIDENCE_THRESHOLD,
+      notes
+    );
+  }
+});
+
+test("relates a detection to the row it was found on", () => {
+  const detection = {
+    fromCrop: "",
+    fromVariety: "",
+    withCrop: "Lettuce",
+    withVariety: "",
+    date: "6/12",
+  };
+
+  // The row still lists the old planting
+  assert.deepEqual(
+    getReplantedFields(detection, {
+      crop: "Spinach",
+      variety: "Bloomsdale",
+      notes: "replanted w/ lettuce 6/12",
+    }),
+    {
+      replantedFrom: {
+        crop: "Spinach",
+        variety: "Bloomsdale",
+        date: "6/12",
+        notes: "replanted w/ lettuce 6/12",
+      },
+      replantedWith: { crop: "Lettuce", variety: "" },
+    }
+  );
+
+  // The row is the new planting
+  assert.deepEqual(
+    getReplantedFields(
+      { ...detection, fromCrop: "Spinach" },
+      { crop: "lettuce", variety: "", notes: "spinach replaced with lettuce" }
+    ),
+    {
+      replantedFrom: {
+        crop: "Spinach",
+        variety: "",
+        date: "6/12",
+        notes: "spinach replaced with lettuce",
+      },
+    }
+  );
+});
+
+test("applies confirmed reviews and returns unreviewed candidates", () => {
+  const row = (bed: string, notes: string): ParsedCropRecord => ({
+    field: "Field A",
+    bed,
+    crop: "Kale",
+    variety: "",
+    trays: "",
+    rows: "",
+    date: "4/1",
+    notes,
+    replantingCandidate: detectReplanting(notes)!,
+  });
+
+  const { records, unreviewed } = applyReplantingReviews(
+    [row("A1", "swapped for beets"), row("A2", "replanted 6/12")],
+    [
+      {
+        field: "Field A",
+        bed: "A1",
+        crop: "kale",
+        variety: "",
+        date: "4/1",
+        notes: "Swapped for beets",
+        status: "confirmed",
+        resolution: {
+          fromCrop: "",
+          fromVariety: "",
+          withCrop: "Beets",
+          withVariety: "",
+          date: "",
+        },
+      },
+    ]
+  );
+
+  assert.deepEqual(records[0].replantedWith, { crop: "Beets", variety: "" });
+  assert.equal(records[0].replantedFrom?.crop, "Kale");
+  assert.equal(records[1].replantedFrom, undefined);
+  assert.ok(records.every((record) => !record.replantingCandidate));
+  assert.deepEqual(
+    unreviewed.map((record) => record.bed),
+    ["A2"]
+  );
+});
@@ -0,0 +1,234 @@
+// Replanting detected in a field sheet row's notes ("pulled 6/12, replanted
+// w/ lettuce"). Used by the field sheet parser.
+import { getCropSyncKey } from "./crop-sync";
+import type { ParsedCropRecord } from "./parse-field-sheet";
+
+export interface ReplantingDetection {
+  // Planting that was taken out, when the notes name it
+  fromCrop: string;
+  fromVariety: string;
+  // Planting that went in, when the notes name it
+  withCrop: string;
+  withVariety: string;
+  date: string; // Replanting date as written in the notes, e.g. "6/12"
+  confidence: number; // 0 to 1
+  phrase: string; // The notes the detection came from
+}
+
+export type ReplantedFields = Required<
+  Pick<ParsedCropRecord, "replantedFrom">
+> &
+  Pick<ParsedCropRecord, "replantedWith">;
+
+// Detections at or above this are applied on sync; the rest wait in the
+// admin review queue (convex/replanting.ts) until confirmed
+export const REPLANTING_CONFIDENCE_THRESHOLD = 0.7;
+
+// Strong verbs mean the bed was replanted when they name a crop ("replaced
+// with kale"); weak ones usually do but also show up in other notes
+// ("switched to drip"), as do strong verbs on their own ("replaced drip tape")
+const REPLANTING_VERB =
+  /(\b(?:replaced|replant(?:ed)?|re-?sown|re-?seeded)\b)|(\b(?:switched|swapped(?:\s+out)?|turned\s+over)\b|->|→)/i;
+const PREPOSITION = /^\s*(?:(?:with|by|to|for|into)\b|w\/)\s*/i;
+const REPLACEMENT_PREPOSITION = /^\s*(?:(?:with|by)\b|w\/)/i;
+const DATE =
+  /\b(?:\d{1,2}\/\d{1,2}(?:\/\d{2,4})?|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}(?:st|nd|rd|th)?)\b/i;
+const DATES = new RegExp(DATE.source, "gi");
+const CLAUSE_END = /[,;.(]|\s+(?:on|in|at|after|because|due|since)\b/i;
+const PULLED = /\b(?:pulled|removed|tilled\s+in|mowed(?:\s+down)?)\s+([a-z][a-z :'-]*)/i;
+const HEDGE =
+  /\b(?:maybe|might|plan(?:ning|ned)?\s+to|will|should|to\s+be|if|possibly|probably|not|never|didn'?t)\b|\?/i;
+const MAX_CROP_WORDS = 4;
+
+const sameCrop = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function splitCropVariety(text: string): { crop: string; variety: string } {
+  const separatorIndex = text.indexOf(":");
+  if (separatorIndex === -1) return { crop: text.trim(), variety: "" };
+  return {
+    crop: text.slice(0, separatorIndex).trim(),
+    variety: text.slice(separatorIndex + 1).trim(),
+  };
+}
+
+// "some Lettuce:Salanova" -> "Lettuce:Salanova"; null when it reads like a
+// sentence rather than a crop
+function cleanCropReference(text: string): string | null {
+  const cleaned = text
+    .replace(DATES, " ")
+    .replace(/^\s*(?:a|an|the|some|more)\s+/i, "")
+    .replace(
+      /(?:^|\s+)(?:was|were|got|and|then|might|may|will|should|could|to)\s*$/i,
+      ""
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!cleaned) return "";
+  return cleaned.split(" ").length > MAX_CROP_WORDS ? null : cleaned;
+}
+
+/**
+ * Find a replanting in a row's notes. Handles "X replaced with/by Y",
+ * "replanted (with|w/) Y", "resown", "reseeded", "switched/swapped to Y",
+ * "X -> Y" and "pulled X", with `Crop:Variety` references and a date
+ * anywhere in the notes. Returns null when nothing looks like a replanting.
+ * `knownCrops` are crop and qualifier names; a strong verb without "with"
+ * or "by" only counts as one when the new crop is among them or has a
+ * variety.
+ */
+export function detectReplanting(
+  notes: string,
+  knownCrops: string[] = []
+): ReplantingDetection | null {
+  const text = notes.trim();
+  if (!text) return null;
+
+  const verb = REPLANTING_VERB.exec(text);
+  if (!verb) return null;
+
+  const verbStart = verb.index;
+  const verbEnd = verbStart + verb[0].length;
+
+  // New planting: the rest of the clause after the verb
+  const afterVerbAndDate = text
+    .slice(verbEnd)
+    .replace(/^\s+/, "")
+    .replace(new RegExp(`^${DATE.source}\\s*`, "i"), "");
+  const afterVerb = afterVerbAndDate.replace(PREPOSITION, "");
+  const withText = cleanCropReference(afterVerb.split(CLAUSE_END)[0]);
+
+  // Old planting: the clause before the verb, else "pulled X" anywhere
+  const clauses = text.slice(0, verbStart).split(/[,;.]/);
+  let fromText = cleanCropReference(
+    clauses[clauses.length - 1].replace(/^\s*(?:pulled|removed)\s+/i, "")
+  );
+  if (!fromText) {
+    const pulled = PULLED.exec(text.replace(DATES, " "));
+    if (pulled) fromText = cleanCropReference(pulled[1].split(CLAUSE_END)[0]);
+  }
+
+  const date = DATE.exec(text)?.[0] ?? "";
+  const from = splitCropVariety(fromText ?? "");
+  const next = splitCropVariety(withText ?? "");
+
+  const namesReplacement =
+    REPLACEMENT_PREPOSITION.test(afterVerbAndDate) ||
+    Boolean(next.variety) ||
+    knownCrops.some((name) => sameCrop(name, next.crop));
+  let confidence = verb[1] && namesReplacement ? 0.5 : 0.35;
+  if (next.crop) confidence += 0.25;
+  if (from.crop) confidence += 0.1;
+  if (date) confidence += 0.1;
+  if (next.variety || from.variety) confidence += 0.05;
+  if (withText === null || fromText === null) confidence -= 0.15;
+  if (HEDGE.test(text)) confidence -= 0.3;
+
+  return {
+    fromCrop: from.crop,
+    fromVariety: from.variety,
+    withCrop: next.crop,
+    withVariety: next.variety,
+    date,
+    confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100,
+    phrase: text,
+  };
+}
+
+/**
+ * What a detection means for the row it was found on. When the notes name
+ * the row's own crop as the new planting, the row is the replacement and
+ * replantedFrom is what it replaced. When the notes name a different new
+ * crop, the row still lists the old planting, so replantedFrom is the row
+ * itself and replantedWith is what's in the bed now.
+ */
+export function getReplantedFields(
+  detection: Pick<
+    ReplantingDetection,
+    "fromCrop" | "fromVariety" | "withCrop" | "withVariety" | "date"
+  >,
+  row: { crop: string; variety: string; notes: string }
+): ReplantedFields {
+  const rowIsNewPlanting =
+    !detection.withCrop || sameCrop(detection.withCrop, row.crop);
+  const from =
+    detection.fromCrop || rowIsNewPlanting
+      ? { crop: detection.fromCrop, variety: detection.fromVariety }
+      : { crop: row.crop, variety: row.variety };
+
+  const replantedFrom = { ...from, date: detection.date, notes: row.notes };
+  return rowIsNewPlanting
+    ? { replantedFrom }
+    : {
+        replantedFrom,
+        replantedWith: {
+          crop: detection.withCrop,
+          variety: detection.withVariety,
+        },
+      };
+}
+
+// ============ Review ============
+
+// An admin's decision on a low-confidence detection, as stored by
+// convex/replanting.ts
+export interface ReplantingReviewDecision {
+  field: string;
+  bed: string;
+  crop: string;
+  variety: string;
+  date: string;
+  notes: string;
+  status: string; // "pending" | "confirmed" | "rejected"
+  resolution?: {
+    fromCrop: string;
+    fromVariety: string;
+    withCrop: string;
+    withVariety: string;
+    date: string;
+  };
+}
+
+// A review applies to one planting with one version of its notes; editing
+// the notes asks again
+export function getReplantingReviewKey(
+  record: Pick<
+    ParsedCropRecord,
+    "field" | "bed" | "crop" | "variety" | "date" | "notes"
+  >
+): string {
+  return `${getCropSyncKey(record)}\u0000${record.notes
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase()}`;
+}
+
+/**
+ * Apply confirmed reviews to parsed rows before they're diffed and drop the
+ * low-confidence candidates. `unreviewed` are rows whose candidate has no
+ * review yet, for the caller to queue.
+ */
+export function applyReplantingReviews(
+  records: ParsedCropRecord[],
+  reviews: ReplantingReviewDecision[]
+): { records: ParsedCropRecord[]; unreviewed: ParsedCropRecord[] } {
+  const reviewsByKey = new Map(
+    reviews.map((review) => [getReplantingReviewKey(review), review])
+  );
+  const unreviewed: ParsedCropRecord[] = [];
+
+  const applied = records.map(({ replantingCandidate, ...record }) => {
+    if (!replantingCandidate) return record;
+
+    const review = reviewsByKey.get(getReplantingReviewKey(record));
+    if (!review) {
+      unreviewed.push({ ...record, replantingCandidate });
+      return record;
+    }
+    if (review.status !== "confirmed" || !review.resolution) return record;
+
+    return { ...record, ...getReplantedFields(review.resolution, record) };
+  });
+
+  return { records: applied, unreviewed };
+}
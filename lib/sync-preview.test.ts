@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { planting } from "./fixtures/plantings";
+import { hasPreviewChanges, previewFieldSync, previewQualifierSync } from "./sync-preview";
+
+test("pairs a removal and addition that differ only by variety", () => {
+  const preview = previewFieldSync(
+    "Field A",
+    4,
+    [planting({}), planting({ bed: "2" })],
+    [planting({ variety: "San Marzano" }), planting({ bed: "2" }), planting({ bed: "5" })]
+  );
+
+  assert.deepEqual(preview.varietyChanges, [
+    { bed: "1", crop: "Tomato", date: "4/1", before: "Roma", after: "San Marzano" },
+  ]);
+  assert.deepEqual(preview.added.map((p) => p.bed), ["5"]);
+  assert.deepEqual(preview.removed, []);
+  assert.deepEqual(preview.newBeds, ["5"]);
+  assert.equal(preview.unchangedCount, 1);
+  assert.equal(hasPreviewChanges(preview), true);
+});
+
+test("reports field-level edits and reports nothing for an identical sheet", () => {
+  const edited = previewFieldSync("Field A", 2, [planting({})], [planting({ trays: "5" })]);
+  assert.deepEqual(edited.updated[0].changes, [
+    { field: "trays", before: "2", after: "5" },
+  ]);
+
+  const same = previewFieldSync("Field A", 2, [planting({})], [planting({})]);
+  assert.equal(hasPreviewChanges(same), false);
+});
+
+test("diffs qualifier questions and options", () => {
+  const preview = previewQualifierSync(
+    "Qualifiers",
+    10,
+    {
+      qualifiers: [
+        { name: "Tomato", assessments: [{ name: "Size", options: ["S", "M"] }] },
+        { name: "Kale", assessments: [] },
+      ],
+      universal: [],
+    },
+    {
+      vegetables: [
+        { name: "Tomato", assessments: [{ name: "Size", options: ["S", "M", "L"] }] },
+        { name: "Carrot", assessments: [] },
+      ],
+      universalQualifiers: [{ name: "Weeds", options: ["Low", "High"], order: 0 }],
+    }
+  );
+
+  assert.deepEqual(preview.addedCrops, ["Carrot"]);
+  assert.deepEqual(preview.removedCrops, ["Kale"]);
+  assert.deepEqual(preview.changedCrops, [
+    {
+      label: "Tomato",
+      addedQuestions: [],
+      removedQuestions: [],
+      changedQuestions: [{ question: "Size", addedOptions: ["L"], removedOptions: [] }],
+    },
+  ]);
+  assert.deepEqual(preview.universal.added, ["Weeds"]);
+});
@@ -0,0 +1,365 @@
+// Dry-run diffs for POST /api/sheets/[id]/sync. Describes what a sync would
+// change without writing anything, using the same matching rules as
+// convex/sheets.ts (crop sync keys from lib/crop-sync.ts, qualifier keys from
+// syncQualifiers).
+import {
+  describeQuestionRules,
+  describeQuestionType,
+  TypedQuestion,
+} from "./assessment-types";
+import { diffCrops, ExistingCropRecord } from "./crop-sync";
+import type { ParsedCropRecord } from "./parse-field-sheet";
+import type { UniversalQualifier, VegetableData } from "./parse-qualifiers";
+
+export type PreviewPlanting = Pick<
+  ParsedCropRecord,
+  | "bed"
+  | "crop"
+  | "variety"
+  | "date"
+  | "trays"
+  | "rows"
+  | "notes"
+  | "replantedFrom"
+  | "replantedWith"
+>;
+
+export interface PlantingFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface FieldSyncPreview {
+  kind: "field";
+  sheetName: string;
+  rowCount: number;
+  newBeds: string[];
+  added: PreviewPlanting[];
+  removed: PreviewPlanting[];
+  // Same bed, crop and date with a different variety. Applied as a removal
+  // plus an addition, but shown together because that's what the edit was.
+  varietyChanges: {
+    bed: string;
+    crop: string;
+    date: string;
+    before: string;
+    after: string;
+  }[];
+  updated: { planting: PreviewPlanting; changes: PlantingFieldChange[] }[];
+  newReplantings: PreviewPlanting[];
+  unchangedCount: number;
+}
+
+export interface QuestionChange {
+  question: string;
+  addedOptions: string[];
+  removedOptions: string[];
+  // Set when the question type, unit, required flag or condition changed,
+  // e.g. "Number (lbs)" → "Number (lbs), required"
+  typeChange?: { before: string; after: string };
+}
+
+export interface QualifierSetChange {
+  label: string;
+  addedQuestions: string[];
+  removedQuestions: string[];
+  changedQuestions: QuestionChange[];
+}
+
+export interface QualifierSyncPreview {
+  kind: "qualifiers";
+  sheetName: string;
+  rowCount: number;
+  addedCrops: string[];
+  removedCrops: string[];
+  changedCrops: QualifierSetChange[];
+  universal: {
+    added: string[];
+    removed: string[];
+    changed: QuestionChange[];
+  };
+  // The app owns qualifiers, so applying only proposes these changes
+  proposalsOnly?: boolean;
+}
+
+// The tab is configured but no longer exists in the spreadsheet; applying the
+// sync removes its crops
+export interface MissingSheetPreview {
+  kind: "missing";
+  sheetName: string;
+}
+
+export type SheetSyncPreview =
+  | FieldSyncPreview
+  | QualifierSyncPreview
+  | MissingSheetPreview;
+
+export function hasPreviewChanges(preview: SheetSyncPreview): boolean {
+  switch (preview.kind) {
+    case "missing":
+      return true;
+    case "field":
+      return (
+        preview.added.length +
+          preview.removed.length +
+          preview.varietyChanges.length +
+          preview.updated.length >
+        0
+      );
+    case "qualifiers":
+      return (
+        preview.addedCrops.length +
+          preview.removedCrops.length +
+          preview.changedCrops.length +
+          preview.universal.added.length +
+          preview.universal.removed.length +
+          preview.universal.changed.length >
+        0
+      );
+  }
+}
+
+// ============ Field sheets ============
+
+function toPreviewPlanting(record: ParsedCropRecord): PreviewPlanting {
+  return {
+    bed: record.bed,
+    crop: record.crop,
+    variety: record.variety,
+    date: record.date,
+    trays: record.trays,
+    rows: record.rows,
+    notes: record.notes,
+    replantedFrom: record.replantedFrom,
+    replantedWith: record.replantedWith,
+  };
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") {
+    const replanted = value as NonNullable<ParsedCropRecord["replantedFrom"]>;
+    return [replanted.crop, replanted.variety].filter(Boolean).join(": ");
+  }
+  return String(value);
+}
+
+const sameKeyPart = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function previewFieldSync(
+  sheetName: string,
+  rowCount: number,
+  existing: ExistingCropRecord[],
+  incoming: ParsedCropRecord[]
+): FieldSyncPreview {
+  const diff = diffCrops(existing, incoming);
+  const active = existing.filter((crop) => crop.removedAt === undefined);
+  const existingBeds = new Set(active.map((crop) => crop.bed.trim().toLowerCase()));
+
+  // Pair removals and additions that differ only by variety
+  const removed = [...diff.removed];
+  const added: ParsedCropRecord[] = [];
+  const varietyChanges: FieldSyncPreview["varietyChanges"] = [];
+
+  for (const next of diff.added) {
+    const index = removed.findIndex(
+      (old) =>
+        sameKeyPart(old.bed, next.bed) &&
+        sameKeyPart(old.crop, next.crop) &&
+        sameKeyPart(old.date, next.date)
+    );
+
+    if (index === -1) {
+      added.push(next);
+      continue;
+    }
+
+    const [old] = removed.splice(index, 1);
+    varietyChanges.push({
+      bed: next.bed,
+      crop: next.crop,
+      date: next.date,
+      before: old.variety,
+      after: next.variety,
+    });
+  }
+
+  const newReplantings = [
+    ...added.filter((record) => record.replantedFrom),
+    ...diff.updated
+      .filter(
+        ({ existing: old, next }) => next.replantedFrom && !old.replantedFrom
+      )
+      .map(({ next }) => next),
+  ];
+
+  return {
+    kind: "field",
+    sheetName,
+    rowCount,
+    newBeds: [
+      ...new Set(
+        incoming
+          .map((record) => record.bed)
+          .filter((bed) => bed && !existingBeds.has(bed.trim().toLowerCase()))
+      ),
+    ],
+    added: added.map(toPreviewPlanting),
+    removed: removed.map(toPreviewPlanting),
+    varietyChanges,
+    updated: diff.updated.map(({ existing: old, next, changedFields }) => ({
+      planting: toPreviewPlanting(next),
+      changes:
+        changedFields.length > 0
+          ? changedFields.map((field) => ({
+              field,
+              before: formatFieldValue(old[field]),
+              after: formatFieldValue(next[field]),
+            }))
+          : // A removed planting that reappeared on the sheet
+            [{ field: "status", before: "removed", after: "on sheet" }],
+    })),
+    newReplantings: newReplantings.map(toPreviewPlanting),
+    unchangedCount: diff.unchanged.length,
+  };
+}
+
+// ============ Qualifiers ============
+
+interface ExistingQualifier {
+  name: string;
+  location?: string;
+  assessments: TypedQuestion[];
+}
+
+// Same key syncQualifiers matches on
+function qualifierKey(name: string, location: string | undefined) {
+  return `${name.trim().toLowerCase()}::${location?.trim().toLowerCase() ?? ""}`;
+}
+
+function qualifierLabel(name: string, location: string | undefined) {
+  return location?.trim() ? `${name.trim()} (${location.trim()})` : name.trim();
+}
+
+function describeQuestion(question: TypedQuestion): string {
+  return [describeQuestionType(question), describeQuestionRules(question)]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function diffOptions(
+  before: TypedQuestion,
+  after: TypedQuestion
+): QuestionChange | null {
+  const addedOptions = after.options.filter(
+    (option) => !before.options.includes(option)
+  );
+  const removedOptions = before.options.filter(
+    (option) => !after.options.includes(option)
+  );
+  const typeChange =
+    describeQuestion(before) !== describeQuestion(after)
+      ? { before: describeQuestion(before), after: describeQuestion(after) }
+      : undefined;
+
+  if (addedOptions.length === 0 && removedOptions.length === 0 && !typeChange) {
+    return null;
+  }
+  return {
+    question: after.name,
+    addedOptions,
+    removedOptions,
+    ...(typeChange && { typeChange }),
+  };
+}
+
+function diffQuestions(before: TypedQuestion[], after: TypedQuestion[]) {
+  const beforeByName = new Map(before.map((q) => [q.name, q]));
+  const afterNames = new Set(after.map((q) => q.name));
+  const changedQuestions: QuestionChange[] = [];
+  const addedQuestions: string[] = [];
+
+  for (const question of after) {
+    const old = beforeByName.get(question.name);
+    if (!old) {
+      addedQuestions.push(question.name);
+      continue;
+    }
+    const change = diffOptions(old, question);
+    if (change) changedQuestions.push(change);
+  }
+
+  return {
+    addedQuestions,
+    removedQuestions: before
+      .filter((q) => !afterNames.has(q.name))
+      .map((q) => q.name),
+    changedQuestions,
+  };
+}
+
+export function previewQualifierSync(
+  sheetName: string,
+  rowCount: number,
+  existing: {
+    qualifiers: ExistingQualifier[];
+    universal: UniversalQualifier[];
+    source?: "sheet" | "app";
+  },
+  parsed: { vegetables: VegetableData[]; universalQualifiers: UniversalQualifier[] }
+): QualifierSyncPreview {
+  const existingByKey = new Map(
+    existing.qualifiers.map((q) => [qualifierKey(q.name, q.location), q])
+  );
+  const parsedKeys = new Set(
+    parsed.vegetables.map((q) => qualifierKey(q.name, q.location))
+  );
+
+  const addedCrops: string[] = [];
+  const changedCrops: QualifierSetChange[] = [];
+
+  for (const vegetable of parsed.vegetables) {
+    const old = existingByKey.get(qualifierKey(vegetable.name, vegetable.location));
+    const label = qualifierLabel(vegetable.name, vegetable.location);
+
+    if (!old) {
+      addedCrops.push(label);
+      continue;
+    }
+
+    const change = diffQuestions(old.assessments, vegetable.assessments);
+    if (
+      change.addedQuestions.length +
+        change.removedQuestions.length +
+        change.changedQuestions.length >
+      0
+    ) {
+      changedCrops.push({ label, ...change });
+    }
+  }
+
+  const universalChange = diffQuestions(
+    existing.universal,
+    parsed.universalQualifiers
+  );
+
+  return {
+    kind: "qualifiers",
+    sheetName,
+    rowCount,
+    addedCrops,
+    removedCrops: existing.qualifiers
+      .filter((q) => !parsedKeys.has(qualifierKey(q.name, q.location)))
+      .map((q) => qualifierLabel(q.name, q.location)),
+    changedCrops,
+    universal: {
+      added: universalChange.addedQuestions,
+      removed: universalChange.removedQuestions,
+      changed: universalChange.changedQuestions,
+    },
+    ...(existing.source === "app" && { proposalsOnly: true }),
+  };
+}
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  AccessMetadata,
+  getAccessMetadataPatch,
+  getAccessMetadataRestorePatch,
+  getAvailableAccessActions,
+  getUserAccessStatus,
+  isUserAccessAction,
+  USER_ACCESS_ACTIONS,
+  UserAccessStatus,
+} from "./user-access";
+
+// Clerk's merge: keys set to null are removed
+function applyPatch(
+  metadata: AccessMetadata,
+  patch: Record<string, boolean | string | null>
+): AccessMetadata {
+  const merged: Record<string, unknown> = { ...metadata, ...patch };
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === null) delete merged[key];
+  }
+  return merged as AccessMetadata;
+}
+
+test("reads the status from Clerk metadata", () => {
+  assert.equal(getUserAccessStatus(undefined), "pending");
+  assert.equal(getUserAccessStatus({}), "pending");
+  assert.equal(getUserAccessStatus({ approved: true }), "approved");
+  assert.equal(getUserAccessStatus({ approved: true, role: "admin" }), "admin");
+  // The admin role wins even without the approved flag
+  assert.equal(getUserAccessStatus({ role: "admin" }), "admin");
+  assert.equal(
+    getUserAccessStatus({ approved: false, rejected: true }),
+    "rejected"
+  );
+  assert.equal(
+    getUserAccessStatus({ approved: false, revoked: true }),
+    "revoked"
+  );
+  assert.equal(getUserAccessStatus({ role: "viewer" }), "pending");
+});
+
+test("only known actions are accepted", () => {
+  for (const action of USER_ACCESS_ACTIONS) {
+    assert.equal(isUserAccessAction(action), true);
+  }
+  assert.equal(isUserAccessAction("delete"), false);
+  assert.equal(isUserAccessAction(undefined), false);
+  assert.equal(isUserAccessAction(1), false);
+});
+
+test("each available action leads to the status it names", () => {
+  const expected: Record<string, UserAccessStatus> = {
+    approve: "approved",
+    reject: "rejected",
+    promote: "admin",
+    demote: "approved",
+    revoke: "revoked",
+  };
+  const starting: Record<UserAccessStatus, AccessMetadata> = {
+    pending: {},
+    approved: { approved: true },
+    admin: { approved: true, role: "admin" },
+    rejected: { approved: false, rejected: true },
+    revoked: { approved: false, revoked: true },
+  };
+
+  for (const [status, metadata] of Object.entries(starting)) {
+    for (const action of getAvailableAccessActions(
+      status as UserAccessStatus
+    )) {
+      assert.equal(
+        getUserAccessStatus(
+          applyPatch(metadata, getAccessMetadataPatch(action))
+        ),
+        expected[action],
+        `${action} from ${status}`
+      );
+    }
+  }
+});
+
+test("no action is offered that would leave the status unchanged", () => {
+  assert.deepEqual(getAvailableAccessActions("pending"), ["approve", "reject"]);
+  assert.deepEqual(getAvailableAccessActions("approved"), [
+    "promote",
+    "revoke",
+  ]);
+  assert.deepEqual(getAvailableAccessActions("admin"), ["demote", "revoke"]);
+  assert.deepEqual(getAvailableAccessActions("rejected"), ["approve"]);
+  assert.deepEqual(getAvailableAccessActions("revoked"), ["approve"]);
+});
+
+test("the restore patch undoes an action", () => {
+  const before: AccessMetadata = { approved: true, role: "admin" };
+  const after = applyPatch(before, getAccessMetadataPatch("revoke"));
+  assert.equal(getUserAccessStatus(after), "revoked");
+  assert.deepEqual(
+    applyPatch(after, getAccessMetadataRestorePatch(before)),
+    before
+  );
+  assert.deepEqual(
+    applyPatch(
+      applyPatch({}, getAccessMetadataPatch("reject")),
+      getAccessMetadataRestorePatch(undefined)
+    ),
+    {}
+  );
+});
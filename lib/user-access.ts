@@ -0,0 +1,103 @@
+// Approval and roles live in Clerk publicMetadata. proxy.ts and lib/auth.ts
+// read `approved` and `role`; `rejected` and `revoked` only exist so the admin
+// screen can tell a turned-down sign-up apart from one still waiting.
+export type AccessMetadata = {
+  approved?: boolean;
+  role?: string;
+  rejected?: boolean;
+  revoked?: boolean;
+};
+
+export type UserAccessStatus =
+  | "pending"
+  | "approved"
+  | "admin"
+  | "rejected"
+  | "revoked";
+
+// A Clerk user as listed on /admin/users
+export type AdminUserSummary = {
+  id: string;
+  name: string;
+  email: string;
+  imageUrl: string;
+  status: UserAccessStatus;
+  createdAt: number;
+  lastSignInAt: number | null;
+};
+
+export const USER_ACCESS_ACTIONS = [
+  "approve",
+  "reject",
+  "promote",
+  "demote",
+  "revoke",
+] as const;
+
+export type UserAccessAction = (typeof USER_ACCESS_ACTIONS)[number];
+
+export function isUserAccessAction(value: unknown): value is UserAccessAction {
+  return (
+    typeof value === "string" &&
+    (USER_ACCESS_ACTIONS as readonly string[]).includes(value)
+  );
+}
+
+export function getUserAccessStatus(
+  metadata: AccessMetadata | undefined
+): UserAccessStatus {
+  if (metadata?.role === "admin") return "admin";
+  if (metadata?.approved === true) return "approved";
+  if (metadata?.revoked) return "revoked";
+  if (metadata?.rejected) return "rejected";
+  return "pending";
+}
+
+// The publicMetadata patch for each action. Clerk merges the patch into the
+// existing metadata and removes keys set to null.
+export function getAccessMetadataPatch(
+  action: UserAccessAction
+): Record<keyof AccessMetadata, boolean | string | null> {
+  switch (action) {
+    case "approve":
+      return { approved: true, role: null, rejected: null, revoked: null };
+    case "reject":
+      return { approved: false, role: null, rejected: true, revoked: null };
+    case "promote":
+      return { approved: true, role: "admin", rejected: null, revoked: null };
+    case "demote":
+      return { approved: true, role: null, rejected: null, revoked: null };
+    case "revoke":
+      return { approved: false, role: null, rejected: null, revoked: true };
+  }
+}
+
+// The publicMetadata patch that puts back `metadata`'s access keys, for
+// undoing a change that couldn't be audited
+export function getAccessMetadataRestorePatch(
+  metadata: AccessMetadata | undefined
+): Record<keyof AccessMetadata, boolean | string | null> {
+  return {
+    approved: metadata?.approved ?? null,
+    role: metadata?.role ?? null,
+    rejected: metadata?.rejected ?? null,
+    revoked: metadata?.revoked ?? null,
+  };
+}
+
+// Which actions make sense from each status, in the order the UI shows them.
+export function getAvailableAccessActions(
+  status: UserAccessStatus
+): UserAccessAction[] {
+  switch (status) {
+    case "pending":
+      return ["approve", "reject"];
+    case "approved":
+      return ["promote", "revoke"];
+    case "admin":
+      return ["demote", "revoke"];
+    case "rejected":
+    case "revoked":
+      return ["approve"];
+  }
+}
@@ -6,7 +6,9 @@ const isProtectedRoute = createRouteMatcher([
   "/analytics(.*)",
   "/log-data(.*)",
   "/qualifiers(.*)",
+  "/beds(.*)",
   "/onboarding(.*)",
+  "/admin(.*)",
   "/api/(.*)",
 ]);
 
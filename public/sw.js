@@ -1,3 +1,242 @@
+// Bump when the caching strategy changes so old caches are cleared on activate.
+const CACHE_VERSION = "v1";
+const PAGE_CACHE = `pages-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+
+// Pages that must open with no signal out in the beds.
+const PRECACHE_PAGES = ["/log-data", "/dashboard"];
+
+// Shared with lib/offline-outbox.ts - keep these in sync.
+const DB_NAME = "oneacrefarm-offline";
+const DB_VERSION = 1;
+const OUTBOX_STORE = "outbox";
+const OUTBOX_SYNC_TAG = "quality-log-outbox";
+
+self.addEventListener("install", function (event) {
+  event.waitUntil(
+    caches
+      .open(PAGE_CACHE)
+      .then(function (cache) {
+        // Pages behind auth may redirect while signed out; a failed precache
+        // should not block the worker from installing.
+        return Promise.all(
+          PRECACHE_PAGES.map(function (url) {
+            return cache.add(url).catch(function () {});
+          }),
+        );
+      })
+      .then(function () {
+        return self.skipWaiting();
+      }),
+  );
+});
+
+self.addEventListener("activate", function (event) {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(function (keys) {
+        return Promise.all(
+          keys
+            .filter(function (key) {
+              return key !== PAGE_CACHE && key !== ASSET_CACHE;
+            })
+            .map(function (key) {
+              return caches.delete(key);
+            }),
+        );
+      })
+      .then(function () {
+        return self.clients.claim();
+      }),
+  );
+});
+
+function isStaticAsset(url) {
+  return (
+    url.pathname.startsWith("/_next/static/") ||
+    url.pathname.startsWith("/icons/") ||
+    url.pathname === "/manifest.webmanifest"
+  );
+}
+
+// Network first for pages so synced data stays fresh, falling back to the last
+// copy we saw when offline.
+function handleNavigation(request) {
+  return fetch(request)
+    .then(function (response) {
+      if (response.ok && !response.redirected) {
+        const copy = response.clone();
+        caches.open(PAGE_CACHE).then(function (cache) {
+          cache.put(request, copy);
+        });
+      }
+      return response;
+    })
+    .catch(function () {
+      return caches.match(request).then(function (cached) {
+        return cached || caches.match("/log-data");
+      });
+    });
+}
+
+// Build assets are content-hashed, so the cached copy is always valid.
+function handleStaticAsset(request) {
+  return caches.match(request).then(function (cached) {
+    if (cached) return cached;
+
+    return fetch(request).then(function (response) {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(ASSET_CACHE).then(function (cache) {
+          cache.put(request, copy);
+        });
+      }
+      return response;
+    });
+  });
+}
+
+self.addEventListener("fetch", function (event) {
+  const request = event.request;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (isStaticAsset(url)) {
+    event.respondWith(handleStaticAsset(request));
+  }
+});
+
+// ============ Outbox replay ============
+
+function openOutboxDatabase() {
+  return new Promise(function (resolve, reject) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = function () {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "idempotencyKey" });
+      }
+      if (!db.objectStoreNames.contains("snapshots")) {
+        db.createObjectStore("snapshots", { keyPath: "key" });
+      }
+    };
+    request.onsuccess = function () {
+      resolve(request.result);
+    };
+    request.onerror = function () {
+      reject(request.error);
+    };
+  });
+}
+
+function outboxRequest(db, mode, operation) {
+  return new Promise(function (resolve, reject) {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = operation(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = function () {
+      resolve(request.result);
+    };
+    transaction.onerror = function () {
+      reject(transaction.error);
+    };
+  });
+}
+
+async function notifyClients(message) {
+  const windows = await self.clients.matchAll({ type: "window" });
+  for (const client of windows) {
+    client.postMessage(message);
+  }
+}
+
+// Entries are only removed once the server accepts them. The server dedupes on
+// idempotencyKey, so an entry sent twice (e.g. the page and the worker racing)
+// is still stored once.
+async function replayOutbox() {
+  const db = await openOutboxDatabase();
+
+  try {
+    const entries = await outboxRequest(db, "readonly", function (store) {
+      return store.getAll();
+    });
+    entries.sort(function (a, b) {
+      return a.queuedAt - b.queuedAt;
+    });
+
+    let sent = 0;
+    let failed = 0;
+    let rejected = 0;
+
+    for (const entry of entries) {
+      if (entry.rejected) continue;
+
+      const response = await fetch("/api/quality-logs", {
+        method: "POST",
+        credentials: "same-origin",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry),
+      }).catch(function () {
+        return null;
+      });
+
+      if (response && response.ok) {
+        await outboxRequest(db, "readwrite", function (store) {
+          return store.delete(entry.idempotencyKey);
+        });
+        sent += 1;
+      } else if (response && response.status === 400) {
+        // The server refused the log; keep it for the page to show instead
+        // of retrying it forever
+        const body = await response.json().catch(function () {
+          return {};
+        });
+        await outboxRequest(db, "readwrite", function (store) {
+          return store.put(
+            Object.assign({}, entry, {
+              lastError: body.message || body.error || "Rejected by the server",
+              rejected: true,
+            })
+          );
+        });
+        rejected += 1;
+      } else {
+        failed += 1;
+      }
+    }
+
+    await notifyClients({
+      type: "OUTBOX_FLUSHED",
+      sent: sent,
+      failed: failed,
+      rejected: rejected,
+    });
+
+    // Rejecting tells the browser to retry the sync later with backoff.
+    if (failed > 0) {
+      throw new Error(`${failed} queued log(s) failed to sync`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener("sync", function (event) {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
+
+// ============ Push notifications ============
+
 self.addEventListener("push", function (event) {
   if (event.data) {
     const data = event.data.json();